@@ -106,10 +106,83 @@ const options: swaggerJsdoc.Options = {
                   type: "string",
                   description: "Error message",
                 },
+                code: {
+                  type: "string",
+                  description: "Machine-readable error code, when available",
+                },
+                details: {
+                  type: "object",
+                  description: "Structured error details, when available",
+                },
               },
             },
           },
         },
+        PgnMoveError: {
+          type: "object",
+          properties: {
+            ply: {
+              type: "integer",
+              description: "1-based half-move index of the failing move",
+              example: 7,
+            },
+            move_number: { type: "integer", example: 4 },
+            color: { type: "string", enum: ["white", "black"] },
+            move: { type: "string", example: "O-O" },
+            reason: { type: "string", example: "No kingside castling rights" },
+          },
+        },
+        UsageTotals: {
+          type: "object",
+          properties: {
+            analyses: { type: "integer", example: 42 },
+            prompt_tokens: { type: "integer", example: 210000 },
+            completion_tokens: { type: "integer", example: 63000 },
+            total_tokens: { type: "integer", example: 273000 },
+            model_calls: {
+              type: "integer",
+              description: "Model requests including repair requests",
+              example: 45,
+            },
+            average_latency_ms: {
+              type: "integer",
+              nullable: true,
+              example: 8400,
+            },
+            estimated_cost_usd: { type: "number", example: 0.0462 },
+            unpriced_analyses: {
+              type: "integer",
+              description:
+                "Analyses made with a model that has no known price (not included in the cost)",
+              example: 0,
+            },
+          },
+        },
+        DeadLetter: {
+          type: "object",
+          description: "An analysis job that ran out of attempts",
+          properties: {
+            dead_letter_id: { type: "string" },
+            analysis_id: { type: "string" },
+            user_id: { type: "string" },
+            source: {
+              type: "string",
+              enum: ["worker", "reaper", "queue"],
+              description:
+                "worker: retryable errors on every attempt; reaper: stuck in PROCESSING on every attempt; queue: MongoDB queue job given up",
+            },
+            error: { type: "string", description: "Last error" },
+            attempts: { type: "integer", example: 3 },
+            status: { type: "string", enum: ["OPEN", "REPLAYED"] },
+            replayed_at: { type: "string", format: "date-time" },
+            replayed_by: {
+              type: "string",
+              description: "Id of the admin who replayed it",
+            },
+            created_at: { type: "string", format: "date-time" },
+            updated_at: { type: "string", format: "date-time" },
+          },
+        },
         Success: {
           type: "object",
           properties: {
@@ -146,6 +219,10 @@ const options: swaggerJsdoc.Options = {
         name: "Dashboard",
         description: "User dashboard and statistics endpoints",
       },
+      {
+        name: "Admin",
+        description: "Operational endpoints for admins (ADMIN_EMAILS)",
+      },
     ],
   },
   apis: getApiPaths(),
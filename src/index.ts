@@ -14,15 +14,26 @@ import { analysisRoutes } from "./modules/analysis";
 import { authRoutes } from "./modules/auth";
 import { dashboardRoutes } from "./modules/users";
 import { supportRoutes } from "./modules/support";
+import { adminRoutes } from "./modules/admin";
 import workerRoutes from "./modules/analysis/routes/worker.routes";
+import { keepRawBody } from "./modules/analysis/middleware/worker-auth.middleware";
 import puzzleRoutes from "./modules/analysis/routes/puzzle.routes";
+import { startQueueWorker } from "./modules/analysis/services/queue.service";
+import { startReaper } from "./modules/analysis/services/reaper.service";
+import { getWorkerAuthConfig } from "./modules/analysis/services/worker-auth.service";
 
 const app: Application = express();
 const PORT = process.env.PORT || 8000;
 
+// Cloud Run's front end adds the client address to X-Forwarded-For; req.ip
+// tells guests apart for scheduling
+app.set("trust proxy", 1);
+
 // Middleware
 app.use(helmet());
 app.use(cors({ origin: "*" }));
+// The worker keeps the raw body to check HMAC request signatures
+app.use("/worker", express.json({ verify: keepRawBody }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -68,6 +79,7 @@ app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/dashboard", dashboardRoutes);
 app.use("/api/v1/puzzles", puzzleRoutes);
 app.use("/api/v1/support", supportRoutes);
+app.use("/api/v1/admin", adminRoutes);
 app.use("/worker", workerRoutes);
 
 // Error handling
@@ -77,7 +89,11 @@ app.use(errorHandler);
 // Start server
 const startServer = async () => {
   try {
+    // Fail on a worker authentication setup that would reject every job
+    getWorkerAuthConfig();
     await connectDatabase();
+    startQueueWorker();
+    startReaper();
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
       logger.info(
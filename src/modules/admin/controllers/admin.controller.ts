@@ -0,0 +1,502 @@
+import { Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "../../auth";
+import { promptTemplateService } from "../../analysis/services/prompt-template.service";
+import { usageService } from "../../analysis/services/usage.service";
+import { deadLetterService } from "../../analysis/services/dead-letter.service";
+import { analysisService } from "../../analysis/services/analysis.service";
+import { IDeadLetter } from "../../analysis/types";
+import { ApiResponse } from "../../../shared/types";
+import {
+  DateRangeQueryInput,
+  UsageReportQueryInput,
+  DeadLetterListQueryInput,
+} from "../validators/admin.validator";
+
+/**
+ * @swagger
+ * /api/v1/admin/prompts/comparison:
+ *   get:
+ *     summary: Compare prompt template versions
+ *     description: Failure rate, model output length and user feedback of the analyses made with each prompt template version, including the A/B assignment currently configured. Analyses served from the cache are excluded. Requires an admin account (ADMIN_EMAILS).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only analyses created at or after this time
+ *       - in: query
+ *         name: until
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only analyses created before this time
+ *     responses:
+ *       200:
+ *         description: Comparison returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     config:
+ *                       type: object
+ *                       properties:
+ *                         defaultVersion:
+ *                           type: string
+ *                           example: "v1"
+ *                         candidateVersion:
+ *                           type: string
+ *                           example: "v2"
+ *                         candidatePercent:
+ *                           type: number
+ *                           example: 10
+ *                     versions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           version:
+ *                             type: string
+ *                             example: "v1"
+ *                           role:
+ *                             type: string
+ *                             enum: [default, candidate, retired]
+ *                           analyses:
+ *                             type: integer
+ *                             example: 120
+ *                           completed:
+ *                             type: integer
+ *                             example: 117
+ *                           failed:
+ *                             type: integer
+ *                             example: 3
+ *                           failure_rate:
+ *                             type: number
+ *                             example: 0.025
+ *                           output_length:
+ *                             type: object
+ *                             properties:
+ *                               average:
+ *                                 type: number
+ *                                 nullable: true
+ *                               min:
+ *                                 type: number
+ *                                 nullable: true
+ *                               max:
+ *                                 type: number
+ *                                 nullable: true
+ *                           feedback:
+ *                             type: object
+ *                             properties:
+ *                               count:
+ *                                 type: integer
+ *                               average_rating:
+ *                                 type: number
+ *                                 nullable: true
+ *       400:
+ *         description: Invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export async function comparePromptVersions(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { since, until } = req.query as unknown as DateRangeQueryInput;
+
+    const comparison = await promptTemplateService.comparePromptVersions({
+      since,
+      until,
+    });
+
+    res.json({
+      success: true,
+      data: comparison,
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/usage:
+ *   get:
+ *     summary: Model usage and cost report
+ *     description: Tokens, model calls, latency and estimated cost of analyses, totalled and broken down per UTC day, per user and per model. Only analyses that called the model are counted; cache hits are free. Costs are estimates from the model price table (ANALYSIS_MODEL_PRICING). Requires an admin account (ADMIN_EMAILS).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only analyses created at or after this time
+ *       - in: query
+ *         name: until
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only analyses created before this time
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: string
+ *         description: Only analyses of this user ("guest" for guests)
+ *       - in: query
+ *         name: user_limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *         description: Number of users listed in by_user, most expensive first
+ *     responses:
+ *       200:
+ *         description: Report returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     totals:
+ *                       $ref: '#/components/schemas/UsageTotals'
+ *                     by_day:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - type: object
+ *                             properties:
+ *                               date:
+ *                                 type: string
+ *                                 example: "2025-01-15"
+ *                           - $ref: '#/components/schemas/UsageTotals'
+ *                     by_user:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - type: object
+ *                             properties:
+ *                               user_id:
+ *                                 type: string
+ *                               email:
+ *                                 type: string
+ *                           - $ref: '#/components/schemas/UsageTotals'
+ *                     by_model:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - type: object
+ *                             properties:
+ *                               provider:
+ *                                 type: string
+ *                                 example: "gemini"
+ *                               model_name:
+ *                                 type: string
+ *                                 example: "gemini-2.0-flash"
+ *                           - $ref: '#/components/schemas/UsageTotals'
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export async function getUsageReport(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { since, until, user_id, user_limit } =
+      req.query as unknown as UsageReportQueryInput;
+
+    const report = await usageService.getUsageReport({
+      since,
+      until,
+      userId: user_id,
+      userLimit: user_limit,
+    });
+
+    res.json({
+      success: true,
+      data: report,
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters:
+ *   get:
+ *     summary: List dead-lettered analysis jobs
+ *     description: Analysis jobs that ran out of attempts, newest first. Requires an admin account (ADMIN_EMAILS).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, REPLAYED]
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [worker, reaper, queue]
+ *       - in: query
+ *         name: analysis_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Dead letters returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DeadLetter'
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin access required
+ */
+export async function listDeadLetters(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { status, source, analysis_id, page, limit } =
+      req.query as unknown as DeadLetterListQueryInput;
+
+    const { deadLetters, total } = await deadLetterService.listDeadLetters(
+      page,
+      limit,
+      { status, source, analysisId: analysis_id },
+    );
+
+    res.json({
+      success: true,
+      data: deadLetters,
+      meta: { page, limit, total },
+    } as ApiResponse<IDeadLetter[]>);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters/{id}:
+ *   get:
+ *     summary: Get a dead-lettered analysis job
+ *     description: Requires an admin account (ADMIN_EMAILS).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Dead letter ID
+ *     responses:
+ *       200:
+ *         description: Dead letter returned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DeadLetter'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Dead letter not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function getDeadLetter(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const deadLetter = await deadLetterService.getDeadLetter(req.params.id);
+
+    if (!deadLetter) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Dead letter not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: deadLetter,
+    } as ApiResponse<IDeadLetter>);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters/{id}/replay:
+ *   post:
+ *     summary: Replay a dead-lettered analysis job
+ *     description: Queues the analysis again with a fresh set of attempts and marks the dead letter REPLAYED. The analysis must still be FAILED. Requires an admin account (ADMIN_EMAILS).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Dead letter ID
+ *     responses:
+ *       202:
+ *         description: Analysis queued again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DeadLetter'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin access required
+ *       404:
+ *         description: Dead letter not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Already replayed, or the analysis was deleted or is no longer FAILED (code DEAD_LETTER_NOT_REPLAYABLE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function replayDeadLetter(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const deadLetter = await analysisService.replayDeadLetter(
+      req.params.id,
+      req.user.id,
+    );
+
+    if (!deadLetter) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Dead letter not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: deadLetter,
+    } as ApiResponse<IDeadLetter>);
+  } catch (error) {
+    next(error);
+  }
+}
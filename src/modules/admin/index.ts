@@ -0,0 +1 @@
+export { default as adminRoutes } from "./routes/admin.routes";
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import {
+  comparePromptVersions,
+  getUsageReport,
+  listDeadLetters,
+  getDeadLetter,
+  replayDeadLetter,
+} from "../controllers/admin.controller";
+import { validate } from "../../../shared/middleware/validate";
+import {
+  dateRangeQuerySchema,
+  usageReportQuerySchema,
+  deadLetterListQuerySchema,
+} from "../validators/admin.validator";
+import { requireAuth, requireAdmin } from "../../auth";
+
+const router = Router();
+
+// All admin routes require an admin account
+router.use(requireAuth, requireAdmin);
+
+router.get(
+  "/prompts/comparison",
+  validate(dateRangeQuerySchema, "query"),
+  comparePromptVersions,
+);
+
+router.get("/usage", validate(usageReportQuerySchema, "query"), getUsageReport);
+
+router.get(
+  "/dead-letters",
+  validate(deadLetterListQuerySchema, "query"),
+  listDeadLetters,
+);
+router.get("/dead-letters/:id", getDeadLetter);
+router.post("/dead-letters/:id/replay", replayDeadLetter);
+
+export default router;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const dateRangeFields = {
+  since: z.coerce
+    .date({ invalid_type_error: "since must be a date" })
+    .optional(),
+  until: z.coerce
+    .date({ invalid_type_error: "until must be a date" })
+    .optional(),
+};
+
+const sinceBeforeUntil = [
+  (range: { since?: Date; until?: Date }) =>
+    !range.since || !range.until || range.since < range.until,
+  {
+    message: "since must be before until",
+  },
+] as const;
+
+export const dateRangeQuerySchema = z
+  .object(dateRangeFields)
+  .refine(...sinceBeforeUntil);
+
+export const usageReportQuerySchema = z
+  .object({
+    ...dateRangeFields,
+    user_id: z.string().min(1).optional(),
+    user_limit: z.coerce.number().int().min(1).max(500).default(50),
+  })
+  .refine(...sinceBeforeUntil);
+
+export const deadLetterListQuerySchema = z.object({
+  status: z.enum(["OPEN", "REPLAYED"]).optional(),
+  source: z.enum(["worker", "reaper", "queue"]).optional(),
+  analysis_id: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type DateRangeQueryInput = z.infer<typeof dateRangeQuerySchema>;
+export type UsageReportQueryInput = z.infer<typeof usageReportQuerySchema>;
+export type DeadLetterListQueryInput = z.infer<
+  typeof deadLetterListQuerySchema
+>;
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from "express";
 import { analysisService } from "../services/analysis.service";
 import { gcsService } from "../services/gcs.service";
+import { schedulerService } from "../services/scheduler.service";
 import { ApiResponse } from "../../../shared/types";
 import {
+  BatchActionResponse,
   BulkAnalysisResponse,
   UploadResponse,
   AnalysisStatusResponse,
@@ -10,6 +12,12 @@ import {
   PlayerColor,
 } from "../types";
 import { AuthenticatedRequest } from "../../auth";
+import {
+  AnalysisFeedbackInput,
+  BatchReanalyzeInput,
+  BulkAnalysisInput,
+  ReanalyzeInput,
+} from "../validators/analysis.validator";
 
 /**
  * @swagger
@@ -73,7 +81,7 @@ import { AuthenticatedRequest } from "../../auth";
  *                       type: string
  *                       example: "No files provided"
  *       401:
- *         description: Unauthorized - invalid or missing token
+ *         description: Unauthorized - invalid token, or a guest requested a deep analysis
  *         content:
  *           application/json:
  *             schema:
@@ -87,6 +95,12 @@ import { AuthenticatedRequest } from "../../auth";
  *                   properties:
  *                     message:
  *                       type: string
+ *       429:
+ *         description: Daily quota for the requested analysisDepth used up (code ANALYSIS_QUOTA_EXCEEDED; limit, used and resets_at in error.details)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -161,6 +175,20 @@ export async function uploadFiles(
  *                 type: string
  *                 description: Your name as it appears in the PGN files
  *                 example: "Magnus Carlsen"
+ *               onDuplicate:
+ *                 type: string
+ *                 enum: [link, skip]
+ *                 default: link
+ *                 description: For signed-in users, games already submitted are either linked (their existing analysis ID is returned in analysis_ids) or skipped. Failed earlier analyses are always queued again.
+ *               analysisDepth:
+ *                 type: string
+ *                 enum: [quick, standard, deep]
+ *                 default: standard
+ *                 description: "How thorough the review is: quick (short summary, 1-3 key moments, 1 puzzle, shallower engine search), standard (3-5 key moments, 2 puzzles) or deep (5-8 key moments, 3 puzzles, deeper engine search). Each level may use its own model and has a daily per-user quota. Deep analyses require sign-in."
+ *               language:
+ *                 type: string
+ *                 enum: [en, es, de, hi]
+ *                 description: Language of the analysis text. Defaults to the user's profile language (English for guests). Phase names, puzzle difficulties and themes stay English keys and get localized labels.
  *     responses:
  *       202:
  *         description: Analysis jobs created and queued
@@ -189,7 +217,34 @@ export async function uploadFiles(
  *                       example: 3
  *                     skipped_games:
  *                       type: array
- *                       description: Games where playerName was not found
+ *                       description: Games where playerName was not found, or beyond the daily quota for analysisDepth
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           white:
+ *                             type: string
+ *                           black:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *                     invalid_games:
+ *                       type: array
+ *                       description: Games rejected because a move is illegal or unreadable
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           white:
+ *                             type: string
+ *                           black:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *                             example: "Illegal move at ply 7 (4. O-O): No kingside castling rights"
+ *                           error:
+ *                             $ref: '#/components/schemas/PgnMoveError'
+ *                     duplicate_games:
+ *                       type: array
+ *                       description: Games the user had already submitted (same normalized headers and moves)
  *                       items:
  *                         type: object
  *                         properties:
@@ -199,6 +254,52 @@ export async function uploadFiles(
  *                             type: string
  *                           reason:
  *                             type: string
+ *                           analysis_id:
+ *                             type: string
+ *                             description: The existing analysis of this game
+ *                           status:
+ *                             type: string
+ *                             enum: [PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED]
+ *                           action:
+ *                             type: string
+ *                             enum: [linked, skipped, requeued]
+ *                     ambiguous_games:
+ *                       type: array
+ *                       description: Games where both White and Black match playerName or the user's profile aliases; they are not queued
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           white:
+ *                             type: string
+ *                           black:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *                           scores:
+ *                             type: object
+ *                             description: Best name similarity (0-1) for each side
+ *                             properties:
+ *                               white:
+ *                                 type: number
+ *                               black:
+ *                                 type: number
+ *                     parse_warnings:
+ *                       type: array
+ *                       description: Queued games with recoverable PGN problems (missing result, unterminated comment, non-UTF-8 file, ...)
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           game_index:
+ *                             type: integer
+ *                           white:
+ *                             type: string
+ *                           black:
+ *                             type: string
+ *                           warnings:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: ["Game has no result termination marker"]
  *       400:
  *         description: Bad request - invalid URLs or validation error
  *         content:
@@ -242,13 +343,27 @@ export async function createBulkAnalysis(
   next: NextFunction,
 ): Promise<void> {
   try {
-    const { urls, playerName } = req.body;
+    const { urls, playerName, onDuplicate, analysisDepth, language } =
+      req.body as BulkAnalysisInput;
     const userId = req.user?.id || "guest";
 
+    // Guests share one id, so per-user quotas cannot protect deep analyses
+    if (!req.user && analysisDepth === "deep") {
+      res.status(401).json({
+        success: false,
+        error: { message: "Sign in to request deep analyses" },
+      });
+      return;
+    }
+
     const result = await analysisService.processBulkAnalysis(
       urls,
       userId,
       playerName,
+      onDuplicate,
+      analysisDepth,
+      language,
+      req.user ? undefined : schedulerService.getGuestId(req.ip),
     );
 
     res.status(202).json({
@@ -281,7 +396,7 @@ export async function createBulkAnalysis(
  *             properties:
  *               pgn:
  *                 type: string
- *                 description: PGN string of the game to analyze
+ *                 description: PGN string of the game to analyze. Positions set up on the board are passed with [SetUp "1"] and [FEN "..."] tags; Chess960 games with [Variant "Chess960"].
  *                 example: '[Event "Casual Game"]\n[White "Player"]\n[Black "Opponent"]\n[Result "1-0"]\n\n1. e4 e5 2. Nf3 Nc6 3. Bb5 a6'
  *               playerColor:
  *                 type: string
@@ -292,6 +407,15 @@ export async function createBulkAnalysis(
  *                 type: string
  *                 description: Optional player name (defaults to "Player")
  *                 example: "Player"
+ *               analysisDepth:
+ *                 type: string
+ *                 enum: [quick, standard, deep]
+ *                 default: standard
+ *                 description: "How thorough the review is: quick (short summary, 1-3 key moments, 1 puzzle, shallower engine search), standard (3-5 key moments, 2 puzzles) or deep (5-8 key moments, 3 puzzles, deeper engine search). Each level may use its own model and has a daily per-user quota."
+ *               language:
+ *                 type: string
+ *                 enum: [en, es, de, hi]
+ *                 description: Language of the analysis text. Defaults to the user's profile language. Phase names, puzzle difficulties and themes stay English keys and get localized labels.
  *     responses:
  *       202:
  *         description: Analysis job created and queued
@@ -310,7 +434,7 @@ export async function createBulkAnalysis(
  *                       type: string
  *                       example: "ana_550e8400-e29b-41d4-a716-446655440001"
  *       400:
- *         description: Bad request - invalid PGN or validation error
+ *         description: Bad request - invalid PGN or validation error. Illegal moves are reported with code INVALID_PGN and the failing move in error.details
  *         content:
  *           application/json:
  *             schema:
@@ -321,6 +445,12 @@ export async function createBulkAnalysis(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Daily quota for the requested analysisDepth used up (code ANALYSIS_QUOTA_EXCEEDED; limit, used and resets_at in error.details)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -342,7 +472,7 @@ export async function createCustomAnalysis(
       return;
     }
 
-    const { pgn, playerColor, playerName } = req.body;
+    const { pgn, playerColor, playerName, analysisDepth, language } = req.body;
     const userId = req.user.id;
 
     const result = await analysisService.processCustomAnalysis(
@@ -350,6 +480,8 @@ export async function createCustomAnalysis(
       userId,
       playerColor,
       playerName || "Player",
+      analysisDepth,
+      language,
     );
 
     res.status(202).json({
@@ -396,7 +528,7 @@ export async function createCustomAnalysis(
  *                     properties:
  *                       status:
  *                         type: string
- *                         enum: [PENDING, PROCESSING, COMPLETED, FAILED]
+ *                         enum: [PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED]
  *                   example:
  *                     ana_550e8400-e29b-41d4-a716-446655440001:
  *                       status: "COMPLETED"
@@ -497,8 +629,12 @@ export async function getAnalysisStatus(
  *                       example: "ana_550e8400-e29b-41d4-a716-446655440001"
  *                     status:
  *                       type: string
- *                       enum: [PENDING, PROCESSING, COMPLETED, FAILED]
+ *                       enum: [PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED]
  *                       example: "COMPLETED"
+ *                     language:
+ *                       type: string
+ *                       enum: [en, es, de, hi]
+ *                       description: Language of the analysis text
  *                     metadata:
  *                       type: object
  *                       properties:
@@ -530,6 +666,10 @@ export async function getAnalysisStatus(
  *                             properties:
  *                               name:
  *                                 type: string
+ *                                 enum: [Opening, Middlegame, Endgame]
+ *                               label:
+ *                                 type: string
+ *                                 description: Phase name in the analysis language
  *                               moves:
  *                                 type: string
  *                               evaluation:
@@ -612,6 +752,559 @@ export async function getAnalysisById(
   }
 }
 
+/**
+ * @swagger
+ * /api/v1/analysis/{id}/feedback:
+ *   post:
+ *     summary: Rate a completed analysis
+ *     description: Stores the user's rating (and optional comment) of an analysis. Submitting again replaces the previous feedback. Ratings are compared between prompt versions by admins.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Analysis ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 example: 4
+ *               comment:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 example: "The key moments were spot on"
+ *     responses:
+ *       200:
+ *         description: Feedback saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     analysis_id:
+ *                       type: string
+ *                     feedback:
+ *                       type: object
+ *                       properties:
+ *                         rating:
+ *                           type: integer
+ *                         comment:
+ *                           type: string
+ *                         created_at:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Analysis not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Analysis has not completed yet (code ANALYSIS_NOT_COMPLETED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function submitAnalysisFeedback(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const { rating, comment } = req.body as AnalysisFeedbackInput;
+
+    const analysis = await analysisService.submitFeedback(
+      req.params.id,
+      req.user.id,
+      { rating, comment },
+    );
+
+    if (!analysis) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Analysis not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        analysis_id: analysis.analysis_id,
+        feedback: analysis.feedback,
+      },
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/analysis/{id}/reanalyze:
+ *   post:
+ *     summary: Run an analysis again
+ *     description: Queues a completed or failed analysis again, optionally with another depth or for the other side (the player name then becomes the name on that side). The previous outcome (result or error, usage, feedback) is kept in previous_attempts. Re-analyses count towards the daily quota of their depth.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Analysis ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               analysisDepth:
+ *                 type: string
+ *                 enum: [quick, standard, deep]
+ *                 description: New depth; the current depth is kept when omitted
+ *               playerColor:
+ *                 type: string
+ *                 enum: [white, black]
+ *                 description: Side to analyze; the current side is kept when omitted
+ *     responses:
+ *       202:
+ *         description: Analysis queued again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     analysis_id:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       example: "PENDING"
+ *                     player_name:
+ *                       type: string
+ *                     player_color:
+ *                       type: string
+ *                       enum: [white, black]
+ *                     analysis_depth:
+ *                       type: string
+ *                       enum: [quick, standard, deep]
+ *                     previous_attempts:
+ *                       type: integer
+ *                       description: Number of earlier runs kept on the analysis
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       404:
+ *         description: Analysis not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Analysis is already queued or being processed (code ANALYSIS_IN_PROGRESS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Daily quota for the depth used up (code ANALYSIS_QUOTA_EXCEEDED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function reanalyzeAnalysis(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const { analysisDepth, playerColor } = req.body as ReanalyzeInput;
+
+    const analysis = await analysisService.reanalyzeAnalysis(
+      req.params.id,
+      req.user.id,
+      { analysisDepth, playerColor },
+    );
+
+    if (!analysis) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Analysis not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        analysis_id: analysis.analysis_id,
+        status: analysis.status,
+        player_name: analysis.player_name,
+        player_color: analysis.player_color,
+        analysis_depth: analysis.analysis_depth,
+        previous_attempts: analysis.previous_attempts?.length || 0,
+      },
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/analysis/batch/{batchId}/reanalyze:
+ *   post:
+ *     summary: Run the analyses of a batch again
+ *     description: Queues the failed analyses of a bulk upload again (and the completed ones when includeCompleted is set), optionally with another depth. Analyses still queued or running, and those beyond the daily quota, are reported in skipped.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Batch ID returned by the bulk analysis endpoint
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               analysisDepth:
+ *                 type: string
+ *                 enum: [quick, standard, deep]
+ *                 description: New depth; each analysis keeps its depth when omitted
+ *               includeCompleted:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also run completed analyses again
+ *     responses:
+ *       202:
+ *         description: Analyses queued again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     batch_id:
+ *                       type: string
+ *                     analysis_ids:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     skipped:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           analysis_id:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       404:
+ *         description: No analyses of the user in this batch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function reanalyzeBatch(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const { analysisDepth, includeCompleted } = req.body as BatchReanalyzeInput;
+
+    const result = await analysisService.reanalyzeBatch(
+      req.params.batchId,
+      req.user.id,
+      { analysisDepth, includeCompleted },
+    );
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Batch not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: result,
+    } as ApiResponse<BatchActionResponse>);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/analysis/batch/{batchId}/cancel:
+ *   post:
+ *     summary: Cancel the pending analyses of a batch
+ *     description: Marks the queued and running analyses of a bulk upload CANCELLED. The worker skips them, and a run cancelled midway is abandoned without saving its results. Finished analyses are reported in skipped. Cancelled analyses can be queued again with the re-analyze endpoint or by submitting the game again.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Batch ID returned by the bulk analysis endpoint
+ *     responses:
+ *       200:
+ *         description: Analyses cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     batch_id:
+ *                       type: string
+ *                     analysis_ids:
+ *                       type: array
+ *                       description: Analyses that were cancelled
+ *                       items:
+ *                         type: string
+ *                     skipped:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           analysis_id:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       404:
+ *         description: No analyses of the user in this batch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function cancelBatch(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const result = await analysisService.cancelBatch(
+      req.params.batchId,
+      req.user.id,
+    );
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Batch not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    } as ApiResponse<BatchActionResponse>);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/analysis/{id}:
+ *   delete:
+ *     summary: Delete an analysis
+ *     description: Deletes an analysis and the puzzles generated from it. The uploaded PGN file is removed from storage once no other analysis refers to it. A running analysis is abandoned.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Analysis ID
+ *     responses:
+ *       200:
+ *         description: Analysis deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     analysis_id:
+ *                       type: string
+ *                     deleted_puzzles:
+ *                       type: integer
+ *                       example: 2
+ *                     deleted_file:
+ *                       type: boolean
+ *                       description: Whether the uploaded PGN file was removed
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       404:
+ *         description: Analysis not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function deleteAnalysis(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: { message: "Authentication required" },
+      });
+      return;
+    }
+
+    const result = await analysisService.deleteAnalysis(
+      req.params.id,
+      req.user.id,
+    );
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Analysis not found" },
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    } as ApiResponse);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * @swagger
  * /api/v1/analysis/user:
@@ -641,7 +1334,7 @@ export async function getAnalysisById(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, processing, completed, failed]
+ *           enum: [pending, processing, completed, failed, cancelled]
  *         description: Filter by analysis status
  *       - in: query
  *         name: player_color
@@ -653,9 +1346,23 @@ export async function getAnalysisById(
  *         name: sortBy
  *         schema:
  *           type: string
- *           enum: [newest, oldest, status]
+ *           enum: [newest, oldest, status, accuracy_desc, accuracy_asc]
  *           default: newest
- *         description: Sort order (newest, oldest, or by status)
+ *         description: Sort order (newest, oldest, by status, or by the player's accuracy). Accuracy sorts only return analyses that have an accuracy.
+ *       - in: query
+ *         name: min_accuracy
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only analyses where the player's accuracy is at least this value
+ *       - in: query
+ *         name: max_accuracy
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only analyses where the player's accuracy is at most this value
  *     responses:
  *       200:
  *         description: List of analyses returned successfully
@@ -677,7 +1384,7 @@ export async function getAnalysisById(
  *                         example: "ana_550e8400-e29b-41d4-a716-446655440001"
  *                       status:
  *                         type: string
- *                         enum: [PENDING, PROCESSING, COMPLETED, FAILED]
+ *                         enum: [PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED]
  *                       metadata:
  *                         type: object
  *                         properties:
@@ -687,6 +1394,10 @@ export async function getAnalysisById(
  *                             type: string
  *                           result:
  *                             type: string
+ *                       player_accuracy:
+ *                         type: number
+ *                         description: Accuracy (0-100) of the analyzed player; only with engine evaluations
+ *                         example: 87.4
  *                       created_at:
  *                         type: string
  *                         format: date-time
@@ -729,9 +1440,21 @@ export async function getUserAnalyses(
     const sortBy = (req.query.sortBy as string) || "newest";
 
     // Validate status if provided
-    const validStatuses = ["pending", "processing", "completed", "failed"];
+    const validStatuses = [
+      "pending",
+      "processing",
+      "completed",
+      "failed",
+      "cancelled",
+    ];
     const validColors = ["white", "black"];
-    const validSortOptions = ["newest", "oldest", "status"];
+    const validSortOptions = [
+      "newest",
+      "oldest",
+      "status",
+      "accuracy_desc",
+      "accuracy_asc",
+    ];
 
     if (status && !validStatuses.includes(status.toLowerCase())) {
       res.status(400).json({
@@ -763,6 +1486,24 @@ export async function getUserAnalyses(
       return;
     }
 
+    // Validate accuracy bounds if provided
+    const accuracyBounds: Record<string, number | undefined> = {};
+    for (const param of ["min_accuracy", "max_accuracy"]) {
+      const raw = req.query[param] as string | undefined;
+      if (raw === undefined) continue;
+      const value = Number(raw);
+      if (raw.trim() === "" || isNaN(value) || value < 0 || value > 100) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `Invalid ${param}. Must be a number between 0 and 100`,
+          },
+        });
+        return;
+      }
+      accuracyBounds[param] = value;
+    }
+
     const { analyses, total } = await analysisService.getUserAnalyses(
       userId,
       page,
@@ -772,7 +1513,14 @@ export async function getUserAnalyses(
         player_color: player_color
           ? (player_color.toLowerCase() as PlayerColor)
           : undefined,
-        sortBy: sortBy.toLowerCase() as "newest" | "oldest" | "status",
+        sortBy: sortBy.toLowerCase() as
+          | "newest"
+          | "oldest"
+          | "status"
+          | "accuracy_desc"
+          | "accuracy_asc",
+        minAccuracy: accuracyBounds.min_accuracy,
+        maxAccuracy: accuracyBounds.max_accuracy,
       },
     );
 
@@ -45,6 +45,17 @@ import { ApiResponse } from "../../../shared/types";
  *                         enum: [easy, medium, hard]
  *                       theme:
  *                         type: string
+ *                         description: English theme name
+ *                       language:
+ *                         type: string
+ *                         enum: [en, es, de, hi]
+ *                         description: Language of title, description and hint
+ *                       difficulty_label:
+ *                         type: string
+ *                         description: difficulty in the puzzle's language
+ *                       theme_label:
+ *                         type: string
+ *                         description: theme in the puzzle's language
  *                       analysis_id:
  *                         type: string
  *                       created_at:
@@ -108,6 +119,10 @@ export async function getUserPuzzles(
         hint: puzzle.hint,
         difficulty: puzzle.difficulty,
         theme: puzzle.theme,
+        // Puzzles saved before localization are English
+        language: puzzle.language || "en",
+        difficulty_label: puzzle.difficulty_label || puzzle.difficulty,
+        theme_label: puzzle.theme_label || puzzle.theme,
         analysis_id: puzzle.analysis_id,
         created_at: puzzle.created_at,
         updated_at: puzzle.updated_at,
@@ -168,6 +183,17 @@ export async function getUserPuzzles(
  *                         enum: [easy, medium, hard]
  *                       theme:
  *                         type: string
+ *                         description: English theme name
+ *                       language:
+ *                         type: string
+ *                         enum: [en, es, de, hi]
+ *                         description: Language of title, description and hint
+ *                       difficulty_label:
+ *                         type: string
+ *                         description: difficulty in the puzzle's language
+ *                       theme_label:
+ *                         type: string
+ *                         description: theme in the puzzle's language
  *                       analysis_id:
  *                         type: string
  *                       created_at:
@@ -262,6 +288,10 @@ export async function getPuzzlesByAnalysisId(
         hint: puzzle.hint,
         difficulty: puzzle.difficulty,
         theme: puzzle.theme,
+        // Puzzles saved before localization are English
+        language: puzzle.language || "en",
+        difficulty_label: puzzle.difficulty_label || puzzle.difficulty,
+        theme_label: puzzle.theme_label || puzzle.theme,
         analysis_id: puzzle.analysis_id,
         created_at: puzzle.created_at,
         updated_at: puzzle.updated_at,
@@ -0,0 +1,901 @@
+/**
+ * Bundled ECO opening table used for offline classification
+ * Each entry is [ECO code, "Opening: Variation", mainline SAN moves]. Names
+ * follow the lichess chess-openings naming; the part after ":" is stored as
+ * the variation.
+ */
+export type EcoEntry = readonly [eco: string, name: string, moves: string];
+
+// prettier-ignore
+export const ECO_OPENINGS: readonly EcoEntry[] = [
+  // A00-A09: Irregular flank openings, Réti
+  ["A00", "Polish Opening", "b4"],
+  ["A00", "Grob Opening", "g4"],
+  ["A00", "Van't Kruijs Opening", "e3"],
+  ["A00", "Mieses Opening", "d3"],
+  ["A00", "Saragossa Opening", "c3"],
+  ["A00", "Hungarian Opening", "g3"],
+  ["A00", "Anderssen's Opening", "a3"],
+  ["A00", "Clemenz Opening", "h3"],
+  ["A00", "Ware Opening", "a4"],
+  ["A00", "Kádas Opening", "h4"],
+  ["A00", "Barnes Opening", "f3"],
+  ["A00", "Amar Opening", "Nh3"],
+  ["A00", "Sodium Attack", "Na3"],
+  ["A00", "Van Geet Opening", "Nc3"],
+  ["A00", "Hungarian Opening: Indian Defense", "g3 Nf6"],
+  ["A01", "Nimzo-Larsen Attack", "b3"],
+  ["A01", "Nimzo-Larsen Attack: Modern Variation", "b3 e5"],
+  ["A01", "Nimzo-Larsen Attack: Classical Variation", "b3 d5"],
+  ["A01", "Nimzo-Larsen Attack: Indian Variation", "b3 Nf6"],
+  ["A02", "Bird Opening", "f4"],
+  ["A02", "Bird Opening: From's Gambit", "f4 e5"],
+  ["A03", "Bird Opening: Dutch Variation", "f4 d5"],
+  ["A04", "Zukertort Opening", "Nf3"],
+  ["A04", "Zukertort Opening: Sicilian Invitation", "Nf3 c5"],
+  ["A04", "Zukertort Opening: Dutch Variation", "Nf3 f5"],
+  ["A05", "Zukertort Opening: Indian Defense", "Nf3 Nf6"],
+  ["A05", "King's Indian Attack", "Nf3 Nf6 g3"],
+  ["A06", "Zukertort Opening: Queen's Gambit Invitation", "Nf3 d5"],
+  ["A06", "Zukertort Opening: Queenside Fianchetto Variation", "Nf3 d5 b3"],
+  ["A07", "King's Indian Attack", "Nf3 d5 g3"],
+  ["A07", "King's Indian Attack: Keres Variation", "Nf3 d5 g3 Bg4"],
+  ["A08", "King's Indian Attack", "Nf3 d5 g3 c5 Bg2"],
+  ["A09", "Réti Opening", "Nf3 d5 c4"],
+  ["A09", "Réti Opening: Advance Variation", "Nf3 d5 c4 d4"],
+  ["A09", "Réti Opening: Réti Accepted", "Nf3 d5 c4 dxc4"],
+
+  // A10-A39: English Opening
+  ["A10", "English Opening", "c4"],
+  ["A10", "English Opening: Great Snake Variation", "c4 g6"],
+  ["A10", "English Opening: Anglo-Dutch Defense", "c4 f5"],
+  ["A11", "English Opening: Caro-Kann Defensive System", "c4 c6"],
+  ["A12", "English Opening: Caro-Kann Defensive System", "c4 c6 Nf3 d5 b3"],
+  ["A13", "English Opening: Agincourt Defense", "c4 e6"],
+  ["A13", "English Opening: Agincourt Defense", "c4 e6 Nf3 d5"],
+  ["A14", "English Opening: Agincourt Defense, Neo-Catalan Declined", "c4 e6 Nf3 d5 g3 Nf6 Bg2 Be7 O-O"],
+  ["A15", "English Opening: Anglo-Indian Defense", "c4 Nf6"],
+  ["A15", "English Opening: Anglo-Indian Defense, King's Indian Formation", "c4 Nf6 Nf3 g6"],
+  ["A16", "English Opening: Anglo-Indian Defense, Queen's Knight Variation", "c4 Nf6 Nc3"],
+  ["A16", "English Opening: Anglo-Grünfeld Defense", "c4 Nf6 Nc3 d5"],
+  ["A17", "English Opening: Anglo-Indian Defense, Hedgehog System", "c4 Nf6 Nc3 e6"],
+  ["A18", "English Opening: Mikenas-Carls Variation", "c4 Nf6 Nc3 e6 e4"],
+  ["A20", "English Opening: King's English Variation", "c4 e5"],
+  ["A21", "English Opening: King's English Variation, Reversed Sicilian", "c4 e5 Nc3"],
+  ["A22", "English Opening: King's English Variation, Two Knights Variation", "c4 e5 Nc3 Nf6"],
+  ["A22", "English Opening: King's English Variation, Two Knights Variation, Fianchetto Line", "c4 e5 Nc3 Nf6 g3"],
+  ["A23", "English Opening: King's English Variation, Two Knights Variation, Keres Variation", "c4 e5 Nc3 Nf6 g3 c6"],
+  ["A24", "English Opening: King's English Variation, Two Knights Variation, Fianchetto Lines", "c4 e5 Nc3 Nf6 g3 g6"],
+  ["A25", "English Opening: King's English Variation, Reversed Closed Sicilian", "c4 e5 Nc3 Nc6"],
+  ["A25", "English Opening: King's English Variation, Closed System", "c4 e5 Nc3 Nc6 g3 g6 Bg2 Bg7"],
+  ["A26", "English Opening: King's English Variation, Botvinnik System", "c4 e5 Nc3 Nc6 g3 g6 Bg2 Bg7 d3 d6 e4"],
+  ["A27", "English Opening: King's English Variation, Three Knights System", "c4 e5 Nc3 Nc6 Nf3"],
+  ["A28", "English Opening: King's English Variation, Four Knights Variation", "c4 e5 Nc3 Nc6 Nf3 Nf6"],
+  ["A29", "English Opening: King's English Variation, Four Knights Variation, Fianchetto Line", "c4 e5 Nc3 Nc6 Nf3 Nf6 g3"],
+  ["A30", "English Opening: Symmetrical Variation", "c4 c5"],
+  ["A30", "English Opening: Symmetrical Variation, Hedgehog Defense", "c4 c5 Nf3 Nf6 g3 b6 Bg2 Bb7 O-O e6 Nc3 Be7"],
+  ["A31", "English Opening: Symmetrical Variation, Anti-Benoni Variation", "c4 c5 Nf3 Nf6 d4"],
+  ["A33", "English Opening: Symmetrical Variation, Four Knights Variation", "c4 c5 Nc3 Nc6 Nf3 Nf6"],
+  ["A34", "English Opening: Symmetrical Variation, Normal Variation", "c4 c5 Nc3"],
+  ["A34", "English Opening: Symmetrical Variation, Three Knights Variation", "c4 c5 Nc3 Nf6 Nf3 d5"],
+  ["A35", "English Opening: Symmetrical Variation, Two Knights Variation", "c4 c5 Nc3 Nc6"],
+  ["A36", "English Opening: Symmetrical Variation, Fianchetto Variation", "c4 c5 Nc3 Nc6 g3"],
+  ["A36", "English Opening: Symmetrical Variation, Symmetrical Variation", "c4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7"],
+  ["A36", "English Opening: Symmetrical Variation, Botvinnik Variation", "c4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 e4"],
+  ["A37", "English Opening: Symmetrical Variation, Two Knights Line", "c4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 Nf3"],
+  ["A38", "English Opening: Symmetrical Variation, Full Symmetry Line", "c4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 Nf3 Nf6"],
+  ["A39", "English Opening: Symmetrical Variation, Mecking Variation", "c4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 Nf3 Nf6 O-O O-O d4"],
+
+  // A40-A49: Queen's pawn, non-standard replies
+  ["A40", "Queen's Pawn Game", "d4"],
+  ["A40", "Englund Gambit", "d4 e5"],
+  ["A40", "Horwitz Defense", "d4 e6"],
+  ["A40", "Modern Defense", "d4 g6"],
+  ["A40", "Queen's Pawn Game: Modern Defense", "d4 g6 c4 Bg7"],
+  ["A40", "Polish Defense", "d4 b5"],
+  ["A40", "English Defense", "d4 e6 c4 b6"],
+  ["A40", "Mikenas Defense", "d4 Nc6"],
+  ["A41", "Rat Defense", "d4 d6"],
+  ["A41", "Old Indian Defense", "d4 d6 c4"],
+  ["A42", "Modern Defense: Averbakh System", "d4 d6 c4 g6 Nc3 Bg7 e4"],
+  ["A43", "Benoni Defense: Old Benoni", "d4 c5"],
+  ["A43", "Benoni Defense: Old Benoni", "d4 c5 d5"],
+  ["A44", "Benoni Defense: Old Benoni, Czech Benoni", "d4 c5 d5 e5"],
+  ["A45", "Indian Defense", "d4 Nf6"],
+  ["A45", "Trompowsky Attack", "d4 Nf6 Bg5"],
+  ["A45", "Trompowsky Attack: Edge Variation", "d4 Nf6 Bg5 Ne4"],
+  ["A45", "Trompowsky Attack: Classical Defense", "d4 Nf6 Bg5 e6"],
+  ["A45", "Indian Defense: Omega Gambit", "d4 Nf6 e4"],
+  ["A45", "Indian Defense: Canard Opening", "d4 Nf6 f4"],
+  ["A46", "Indian Defense: Knights Variation", "d4 Nf6 Nf3"],
+  ["A46", "Torre Attack", "d4 Nf6 Nf3 e6 Bg5"],
+  ["A46", "Indian Defense: Spielmann-Indian", "d4 Nf6 Nf3 c5"],
+  ["A46", "London System", "d4 Nf6 Nf3 e6 Bf4"],
+  ["A47", "Queen's Indian Defense", "d4 Nf6 Nf3 b6"],
+  ["A48", "East Indian Defense", "d4 Nf6 Nf3 g6"],
+  ["A48", "London System", "d4 Nf6 Nf3 g6 Bf4"],
+  ["A48", "Torre Attack", "d4 Nf6 Nf3 g6 Bg5"],
+  ["A49", "King's Indian Defense: Fianchetto Variation", "d4 Nf6 Nf3 g6 g3"],
+
+  // A50-A79: Indian systems with c4, Benoni, Benko
+  ["A50", "Indian Defense: Normal Variation", "d4 Nf6 c4"],
+  ["A50", "Indian Defense: Medusa Gambit", "d4 Nf6 c4 g5"],
+  ["A50", "Queen's Indian Accelerated", "d4 Nf6 c4 b6"],
+  ["A50", "Mexican Defense", "d4 Nf6 c4 Nc6"],
+  ["A51", "Indian Defense: Budapest Defense", "d4 Nf6 c4 e5"],
+  ["A51", "Indian Defense: Budapest Defense, Fajarowicz Variation", "d4 Nf6 c4 e5 dxe5 Ne4"],
+  ["A52", "Indian Defense: Budapest Defense", "d4 Nf6 c4 e5 dxe5 Ng4"],
+  ["A52", "Indian Defense: Budapest Defense, Adler Variation", "d4 Nf6 c4 e5 dxe5 Ng4 Nf3"],
+  ["A52", "Indian Defense: Budapest Defense, Rubinstein Variation", "d4 Nf6 c4 e5 dxe5 Ng4 Bf4"],
+  ["A53", "Old Indian Defense", "d4 Nf6 c4 d6"],
+  ["A54", "Old Indian Defense: Normal Variation", "d4 Nf6 c4 d6 Nc3 e5"],
+  ["A55", "Old Indian Defense: Normal Variation", "d4 Nf6 c4 d6 Nc3 e5 Nf3 Nbd7 e4"],
+  ["A56", "Benoni Defense", "d4 Nf6 c4 c5"],
+  ["A56", "Benoni Defense: King's Indian System", "d4 Nf6 c4 c5 d5 d6"],
+  ["A56", "Benoni Defense: Czech Benoni Defense", "d4 Nf6 c4 c5 d5 e5"],
+  ["A57", "Benko Gambit", "d4 Nf6 c4 c5 d5 b5"],
+  ["A57", "Benko Gambit Declined: Quiet Line", "d4 Nf6 c4 c5 d5 b5 Nf3"],
+  ["A57", "Benko Gambit Declined: Main Line", "d4 Nf6 c4 c5 d5 b5 Nf3 b4"],
+  ["A57", "Benko Gambit: Zaitsev System", "d4 Nf6 c4 c5 d5 b5 cxb5 a6 Nc3"],
+  ["A58", "Benko Gambit Accepted: Pawn Return Variation", "d4 Nf6 c4 c5 d5 b5 cxb5 a6 b6"],
+  ["A58", "Benko Gambit Accepted: Fully Accepted Variation", "d4 Nf6 c4 c5 d5 b5 cxb5 a6 bxa6"],
+  ["A59", "Benko Gambit Accepted: King Walk Variation", "d4 Nf6 c4 c5 d5 b5 cxb5 a6 bxa6 Bxa6 Nc3 d6 e4 Bxf1 Kxf1"],
+  ["A60", "Benoni Defense: Modern Variation", "d4 Nf6 c4 c5 d5 e6"],
+  ["A61", "Benoni Defense", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 Nf3 g6"],
+  ["A61", "Benoni Defense: Fianchetto Variation", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 Nf3 g6 g3"],
+  ["A65", "Benoni Defense: King's Pawn Line", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4"],
+  ["A66", "Benoni Defense: Pawn Storm Variation", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4 g6 f4"],
+  ["A67", "Benoni Defense: Taimanov Variation", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4 g6 f4 Bg7 Bb5+"],
+  ["A70", "Benoni Defense: Classical Variation", "d4 Nf6 c4 c5 d5 e6 Nc3 exd5 cxd5 d6 e4 g6 Nf3"],
+
+  // A80-A99: Dutch Defense
+  ["A80", "Dutch Defense", "d4 f5"],
+  ["A80", "Dutch Defense: Korchnoi Attack", "d4 f5 h3"],
+  ["A80", "Dutch Defense: Raphael Variation", "d4 f5 Nc3"],
+  ["A82", "Dutch Defense: Staunton Gambit", "d4 f5 e4"],
+  ["A82", "Dutch Defense: Staunton Gambit Accepted", "d4 f5 e4 fxe4"],
+  ["A80", "Dutch Defense: Hopton Attack", "d4 f5 Bg5"],
+  ["A84", "Dutch Defense", "d4 f5 c4"],
+  ["A84", "Dutch Defense: Classical Variation", "d4 f5 c4 Nf6"],
+  ["A85", "Dutch Defense: Queen's Knight Variation", "d4 f5 c4 Nf6 Nc3"],
+  ["A86", "Dutch Defense: Fianchetto Variation", "d4 f5 c4 Nf6 g3"],
+  ["A87", "Dutch Defense: Leningrad Variation", "d4 f5 c4 Nf6 g3 g6 Bg2 Bg7 Nf3"],
+  ["A90", "Dutch Defense: Stonewall Variation", "d4 f5 c4 Nf6 g3 e6 Bg2 d5"],
+  ["A91", "Dutch Defense: Classical Variation", "d4 f5 c4 Nf6 g3 e6 Bg2 Be7"],
+  ["A92", "Dutch Defense: Classical Variation", "d4 f5 c4 Nf6 g3 e6 Bg2 Be7 Nf3 O-O"],
+  ["A96", "Dutch Defense: Classical Variation", "d4 f5 c4 Nf6 g3 e6 Bg2 Be7 Nf3 O-O O-O d6"],
+  ["A97", "Dutch Defense: Ilyin-Zhenevsky Variation", "d4 f5 c4 Nf6 g3 e6 Bg2 Be7 Nf3 O-O O-O d6 Nc3 Qe8"],
+
+  // B00-B09: King's pawn, unusual replies, Pirc
+  ["B00", "King's Pawn Game", "e4"],
+  ["B00", "Nimzowitsch Defense", "e4 Nc6"],
+  ["B00", "Nimzowitsch Defense: Declined Variation", "e4 Nc6 Nf3"],
+  ["B00", "Nimzowitsch Defense: Scandinavian Variation", "e4 Nc6 d4 d5"],
+  ["B00", "Owen Defense", "e4 b6"],
+  ["B00", "St. George Defense", "e4 a6"],
+  ["B00", "Borg Defense", "e4 g5"],
+  ["B00", "Hippopotamus Defense", "e4 h6"],
+  ["B00", "Duras Gambit", "e4 f5"],
+  ["B01", "Scandinavian Defense", "e4 d5"],
+  ["B01", "Scandinavian Defense: Main Line", "e4 d5 exd5 Qxd5 Nc3 Qa5"],
+  ["B01", "Scandinavian Defense: Valencian Variation", "e4 d5 exd5 Qxd5 Nc3 Qd8"],
+  ["B01", "Scandinavian Defense: Gubinsky-Melts Defense", "e4 d5 exd5 Qxd5 Nc3 Qd6"],
+  ["B01", "Scandinavian Defense: Mieses-Kotroc Variation", "e4 d5 exd5 Qxd5"],
+  ["B01", "Scandinavian Defense: Modern Variation", "e4 d5 exd5 Nf6"],
+  ["B01", "Scandinavian Defense: Portuguese Gambit", "e4 d5 exd5 Nf6 d4 Bg4"],
+  ["B01", "Scandinavian Defense: Icelandic-Palme Gambit", "e4 d5 exd5 Nf6 c4 e6"],
+  ["B01", "Scandinavian Defense: Blackburne-Kloosterboer Gambit", "e4 d5 exd5 c6"],
+  ["B02", "Alekhine Defense", "e4 Nf6"],
+  ["B02", "Alekhine Defense: Scandinavian Variation", "e4 Nf6 Nc3 d5"],
+  ["B02", "Alekhine Defense: Two Pawn Attack", "e4 Nf6 e5 Nd5 c4 Nb6 c5"],
+  ["B03", "Alekhine Defense", "e4 Nf6 e5 Nd5 d4 d6"],
+  ["B03", "Alekhine Defense: Four Pawns Attack", "e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4"],
+  ["B03", "Alekhine Defense: Exchange Variation", "e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 exd6"],
+  ["B04", "Alekhine Defense: Modern Variation", "e4 Nf6 e5 Nd5 d4 d6 Nf3"],
+  ["B04", "Alekhine Defense: Modern Variation, Larsen-Haakert Variation", "e4 Nf6 e5 Nd5 d4 d6 Nf3 Nc6"],
+  ["B05", "Alekhine Defense: Modern Variation, Main Line", "e4 Nf6 e5 Nd5 d4 d6 Nf3 Bg4"],
+  ["B06", "Modern Defense", "e4 g6"],
+  ["B06", "Modern Defense: Standard Line", "e4 g6 d4 Bg7"],
+  ["B06", "Modern Defense: Three Pawns Attack", "e4 g6 d4 Bg7 f4"],
+  ["B06", "Modern Defense: Standard Defense", "e4 g6 d4 Bg7 Nc3 d6"],
+  ["B06", "Robatsch Defense", "e4 g6 d4 Bg7 Nc3 c6"],
+  ["B06", "Modern Defense: Pterodactyl Variation", "e4 g6 d4 Bg7 Nc3 c5"],
+  ["B07", "Pirc Defense", "e4 d6 d4 Nf6"],
+  ["B07", "Pirc Defense", "e4 d6 d4 Nf6 Nc3"],
+  ["B07", "Pirc Defense: Byrne Variation", "e4 d6 d4 Nf6 Nc3 g6 Bg5"],
+  ["B07", "Pirc Defense: 150 Attack", "e4 d6 d4 Nf6 Nc3 g6 Be3 c6 Qd2"],
+  ["B07", "Pirc Defense: Bayonet Attack", "e4 d6 d4 Nf6 Nc3 g6 Be2 Bg7 h4"],
+  ["B07", "Pirc Defense: Roscher Gambit", "e4 d6 d4 Nf6 Nf3"],
+  ["B07", "Pirc Defense: Kholmov System", "e4 d6 d4 Nf6 Nc3 g6 Bc4"],
+  ["B07", "Czech Defense", "e4 d6 d4 Nf6 Nc3 c6"],
+  ["B00", "Pirc Defense", "e4 d6"],
+  ["B08", "Pirc Defense: Classical Variation", "e4 d6 d4 Nf6 Nc3 g6 Nf3"],
+  ["B08", "Pirc Defense: Classical Variation, Quiet System", "e4 d6 d4 Nf6 Nc3 g6 Nf3 Bg7 Be2"],
+  ["B09", "Pirc Defense: Austrian Attack", "e4 d6 d4 Nf6 Nc3 g6 f4"],
+  ["B09", "Pirc Defense: Austrian Attack", "e4 d6 d4 Nf6 Nc3 g6 f4 Bg7 Nf3"],
+
+  // B10-B19: Caro-Kann Defense
+  ["B10", "Caro-Kann Defense", "e4 c6"],
+  ["B10", "Caro-Kann Defense: Two Knights Attack", "e4 c6 Nc3 d5 Nf3"],
+  ["B10", "Caro-Kann Defense: Accelerated Panov Attack", "e4 c6 c4"],
+  ["B10", "Caro-Kann Defense: Breyer Variation", "e4 c6 d3"],
+  ["B11", "Caro-Kann Defense: Two Knights Attack, Mindeno Variation", "e4 c6 Nc3 d5 Nf3 Bg4"],
+  ["B12", "Caro-Kann Defense", "e4 c6 d4"],
+  ["B12", "Caro-Kann Defense", "e4 c6 d4 d5"],
+  ["B12", "Caro-Kann Defense: Advance Variation", "e4 c6 d4 d5 e5"],
+  ["B12", "Caro-Kann Defense: Advance Variation", "e4 c6 d4 d5 e5 Bf5"],
+  ["B12", "Caro-Kann Defense: Advance Variation, Short Variation", "e4 c6 d4 d5 e5 Bf5 Nf3 e6 Be2"],
+  ["B12", "Caro-Kann Defense: Advance Variation, Bayonet Attack", "e4 c6 d4 d5 e5 Bf5 g4"],
+  ["B12", "Caro-Kann Defense: Advance Variation, Tal Variation", "e4 c6 d4 d5 e5 Bf5 h4"],
+  ["B12", "Caro-Kann Defense: Advance Variation, Botvinnik-Carls Defense", "e4 c6 d4 d5 e5 c5"],
+  ["B12", "Caro-Kann Defense: Maróczy Variation", "e4 c6 d4 d5 f3"],
+  ["B13", "Caro-Kann Defense: Exchange Variation", "e4 c6 d4 d5 exd5 cxd5"],
+  ["B13", "Caro-Kann Defense: Exchange Variation, Rubinstein Variation", "e4 c6 d4 d5 exd5 cxd5 Bd3 Nc6 c3 Nf6 Bf4"],
+  ["B13", "Caro-Kann Defense: Panov Attack", "e4 c6 d4 d5 exd5 cxd5 c4"],
+  ["B14", "Caro-Kann Defense: Panov Attack", "e4 c6 d4 d5 exd5 cxd5 c4 Nf6 Nc3 e6"],
+  ["B14", "Caro-Kann Defense: Panov Attack, Fianchetto Defense", "e4 c6 d4 d5 exd5 cxd5 c4 Nf6 Nc3 g6"],
+  ["B15", "Caro-Kann Defense", "e4 c6 d4 d5 Nc3"],
+  ["B15", "Caro-Kann Defense: Main Line", "e4 c6 d4 d5 Nc3 dxe4 Nxe4"],
+  ["B15", "Caro-Kann Defense: Gurgenidze System", "e4 c6 d4 d5 Nc3 g6"],
+  ["B15", "Caro-Kann Defense: Tartakower Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nf6 Nxf6+ exf6"],
+  ["B16", "Caro-Kann Defense: Bronstein-Larsen Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nf6 Nxf6+ gxf6"],
+  ["B17", "Caro-Kann Defense: Karpov Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nd7"],
+  ["B17", "Caro-Kann Defense: Karpov Variation, Modern Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nd7 Ng5"],
+  ["B18", "Caro-Kann Defense: Classical Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5"],
+  ["B18", "Caro-Kann Defense: Classical Variation, Main Line", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5 Ng3 Bg6 h4 h6 Nf3"],
+  ["B19", "Caro-Kann Defense: Classical Variation, Spassky Variation", "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5 Ng3 Bg6 h4 h6 Nf3 Nd7 h5"],
+
+  // B20-B99: Sicilian Defense
+  ["B20", "Sicilian Defense", "e4 c5"],
+  ["B20", "Sicilian Defense: Bowdler Attack", "e4 c5 Bc4"],
+  ["B20", "Sicilian Defense: Snyder Variation", "e4 c5 b3"],
+  ["B20", "Sicilian Defense: Wing Gambit", "e4 c5 b4"],
+  ["B20", "Sicilian Defense: Staunton-Cochrane Variation", "e4 c5 c4"],
+  ["B21", "Sicilian Defense: McDonnell Attack", "e4 c5 f4"],
+  ["B21", "Sicilian Defense: Smith-Morra Gambit", "e4 c5 d4 cxd4 c3"],
+  ["B21", "Sicilian Defense: Smith-Morra Gambit Accepted", "e4 c5 d4 cxd4 c3 dxc3 Nxc3"],
+  ["B21", "Sicilian Defense: Smith-Morra Gambit Declined, Push Variation", "e4 c5 d4 cxd4 c3 d3"],
+  ["B21", "Sicilian Defense: Smith-Morra Gambit, Morphy Gambit", "e4 c5 d4 cxd4 Nf3"],
+  ["B22", "Sicilian Defense: Alapin Variation", "e4 c5 c3"],
+  ["B22", "Sicilian Defense: Alapin Variation, Barmen Defense", "e4 c5 c3 d5 exd5 Qxd5"],
+  ["B22", "Sicilian Defense: Alapin Variation, Smith-Morra Declined", "e4 c5 c3 Nf6"],
+  ["B22", "Sicilian Defense: Alapin Variation", "e4 c5 c3 Nf6 e5 Nd5 d4 cxd4 Nf3"],
+  ["B23", "Sicilian Defense: Closed", "e4 c5 Nc3"],
+  ["B23", "Sicilian Defense: Grand Prix Attack", "e4 c5 Nc3 Nc6 f4"],
+  ["B23", "Sicilian Defense: Closed Variation, Traditional", "e4 c5 Nc3 Nc6"],
+  ["B24", "Sicilian Defense: Closed", "e4 c5 Nc3 Nc6 g3"],
+  ["B25", "Sicilian Defense: Closed", "e4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 d3 d6"],
+  ["B26", "Sicilian Defense: Closed Variation", "e4 c5 Nc3 Nc6 g3 g6 Bg2 Bg7 d3 d6 Be3"],
+  ["B27", "Sicilian Defense: Hyperaccelerated Dragon", "e4 c5 Nf3 g6"],
+  ["B27", "Sicilian Defense: Katalimov Variation", "e4 c5 Nf3 b6"],
+  ["B27", "Sicilian Defense: Quinteros Variation", "e4 c5 Nf3 Qc7"],
+  ["B27", "Sicilian Defense: Buecker Variation", "e4 c5 Nf3 h6"],
+  ["B28", "Sicilian Defense: O'Kelly Variation", "e4 c5 Nf3 a6"],
+  ["B29", "Sicilian Defense: Nimzowitsch Variation", "e4 c5 Nf3 Nf6"],
+  ["B29", "Sicilian Defense: Nimzowitsch Variation, Main Line", "e4 c5 Nf3 Nf6 e5 Nd5 Nc3"],
+  ["B27", "Sicilian Defense", "e4 c5 Nf3"],
+  ["B30", "Sicilian Defense: Old Sicilian", "e4 c5 Nf3 Nc6"],
+  ["B30", "Sicilian Defense: Nyezhmetdinov-Rossolimo Attack", "e4 c5 Nf3 Nc6 Bb5"],
+  ["B30", "Sicilian Defense: Closed, Anti-Sveshnikov Variation", "e4 c5 Nf3 Nc6 Nc3 e5"],
+  ["B31", "Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, Fianchetto Variation", "e4 c5 Nf3 Nc6 Bb5 g6"],
+  ["B31", "Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, Gurgenidze Variation", "e4 c5 Nf3 Nc6 Bb5 g6 O-O Bg7 Re1 e5 b4"],
+  ["B30", "Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, with e6", "e4 c5 Nf3 Nc6 Bb5 e6"],
+  ["B31", "Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, with d6", "e4 c5 Nf3 Nc6 Bb5 d6"],
+  ["B32", "Sicilian Defense: Open", "e4 c5 Nf3 Nc6 d4"],
+  ["B32", "Sicilian Defense: Open", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4"],
+  ["B32", "Sicilian Defense: Löwenthal Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 e5"],
+  ["B32", "Sicilian Defense: Kalashnikov Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 e5 Nb5 d6"],
+  ["B32", "Sicilian Defense: Flohr Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Qc7"],
+  ["B32", "Sicilian Defense: Godiva Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Qb6"],
+  ["B33", "Sicilian Defense: Lasker-Pelikan Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5"],
+  ["B33", "Sicilian Defense: Lasker-Pelikan Variation, Exchange Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Ndb5 d6 Nd5"],
+  ["B33", "Sicilian Defense: Lasker-Pelikan Variation, Sveshnikov Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Ndb5 d6 Bg5 a6 Na3 b5"],
+  ["B33", "Sicilian Defense: Open", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6"],
+  ["B34", "Sicilian Defense: Accelerated Dragon", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6"],
+  ["B34", "Sicilian Defense: Accelerated Dragon, Exchange Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6 Nxc6"],
+  ["B35", "Sicilian Defense: Accelerated Dragon, Modern Bc4 Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6 Nc3 Bg7 Be3 Nf6 Bc4"],
+  ["B36", "Sicilian Defense: Accelerated Dragon, Maróczy Bind", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6 c4"],
+  ["B38", "Sicilian Defense: Accelerated Dragon, Maróczy Bind", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6 c4 Bg7 Be3"],
+  ["B39", "Sicilian Defense: Accelerated Dragon, Maróczy Bind, Breyer Variation", "e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6 c4 Bg7 Be3 Nf6 Nc3 Ng4"],
+  ["B40", "Sicilian Defense: French Variation", "e4 c5 Nf3 e6"],
+  ["B40", "Sicilian Defense: Open", "e4 c5 Nf3 e6 d4 cxd4 Nxd4"],
+  ["B40", "Sicilian Defense: Pin Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nf6 Nc3 Bb4"],
+  ["B45", "Sicilian Defense: Four Knights Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6"],
+  ["B41", "Sicilian Defense: Kan Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6"],
+  ["B41", "Sicilian Defense: Kan Variation, Maróczy Bind", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6 c4"],
+  ["B42", "Sicilian Defense: Kan Variation, Modern Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6 Bd3"],
+  ["B43", "Sicilian Defense: Kan Variation, Wing Attack", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6 Nc3"],
+  ["B44", "Sicilian Defense: Taimanov Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6"],
+  ["B44", "Sicilian Defense: Taimanov Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nb5 d6"],
+  ["B45", "Sicilian Defense: Taimanov Variation, Normal Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3"],
+  ["B46", "Sicilian Defense: Taimanov Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 a6"],
+  ["B47", "Sicilian Defense: Taimanov Variation, Bastrikov Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7"],
+  ["B48", "Sicilian Defense: Taimanov Variation, English Attack", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7 Be3 a6 Qd2"],
+  ["B49", "Sicilian Defense: Taimanov Variation, Normal Variation", "e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6 Nc3 Qc7 Be3 a6 Be2"],
+  ["B50", "Sicilian Defense: Modern Variations", "e4 c5 Nf3 d6"],
+  ["B50", "Sicilian Defense: Modern Variations, Tartakower", "e4 c5 Nf3 d6 c3"],
+  ["B51", "Sicilian Defense: Moscow Variation", "e4 c5 Nf3 d6 Bb5+"],
+  ["B52", "Sicilian Defense: Moscow Variation, Main Line", "e4 c5 Nf3 d6 Bb5+ Bd7"],
+  ["B53", "Sicilian Defense: Chekhover Variation", "e4 c5 Nf3 d6 d4 cxd4 Qxd4"],
+  ["B54", "Sicilian Defense: Modern Variations", "e4 c5 Nf3 d6 d4"],
+  ["B54", "Sicilian Defense: Open", "e4 c5 Nf3 d6 d4 cxd4 Nxd4"],
+  ["B55", "Sicilian Defense: Prins Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 f3"],
+  ["B56", "Sicilian Defense: Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3"],
+  ["B56", "Sicilian Defense: Venice Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e5 Bb5+"],
+  ["B56", "Sicilian Defense: Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6"],
+  ["B57", "Sicilian Defense: Classical Variation, Sozin Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6 Bc4"],
+  ["B58", "Sicilian Defense: Classical Variation, Boleslavsky Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6 Be2"],
+  ["B60", "Sicilian Defense: Richter-Rauzer Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6 Bg5"],
+  ["B62", "Sicilian Defense: Richter-Rauzer Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6 Bg5 e6"],
+  ["B63", "Sicilian Defense: Richter-Rauzer Variation, Traditional Line", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6 Bg5 e6 Qd2"],
+  ["B70", "Sicilian Defense: Dragon Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6"],
+  ["B71", "Sicilian Defense: Dragon Variation, Levenfish Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 f4"],
+  ["B72", "Sicilian Defense: Dragon Variation, Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3"],
+  ["B72", "Sicilian Defense: Dragon Variation, Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be2"],
+  ["B75", "Sicilian Defense: Dragon Variation, Yugoslav Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3"],
+  ["B76", "Sicilian Defense: Dragon Variation, Yugoslav Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O"],
+  ["B77", "Sicilian Defense: Dragon Variation, Yugoslav Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O Qd2 Nc6 Bc4"],
+  ["B76", "Sicilian Defense: Dragon Variation, Yugoslav Attack, Modern Line", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O Qd2 Nc6 O-O-O"],
+  ["B78", "Sicilian Defense: Dragon Variation, Yugoslav Attack, Main Line", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3 O-O Qd2 Nc6 Bc4 Bd7 O-O-O"],
+  ["B80", "Sicilian Defense: Scheveningen Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6"],
+  ["B80", "Sicilian Defense: Scheveningen Variation, English Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6 Be3 a6 f3"],
+  ["B81", "Sicilian Defense: Scheveningen Variation, Keres Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6 g4"],
+  ["B82", "Sicilian Defense: Scheveningen Variation, Matanović Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6 f4"],
+  ["B83", "Sicilian Defense: Scheveningen Variation, Classical Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6 Be2"],
+  ["B86", "Sicilian Defense: Sozin Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6 Bc4"],
+  ["B90", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6"],
+  ["B90", "Sicilian Defense: Najdorf Variation, English Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3"],
+  ["B90", "Sicilian Defense: Najdorf Variation, Adams Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 h3"],
+  ["B90", "Sicilian Defense: Najdorf Variation, English Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3 e5 Nb3 Be6 f3"],
+  ["B91", "Sicilian Defense: Najdorf Variation, Zagreb Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 g3"],
+  ["B92", "Sicilian Defense: Najdorf Variation, Opocensky Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be2"],
+  ["B93", "Sicilian Defense: Najdorf Variation, Amsterdam Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 f4"],
+  ["B94", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5"],
+  ["B95", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5 e6"],
+  ["B96", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5 e6 f4"],
+  ["B97", "Sicilian Defense: Najdorf Variation, Poisoned Pawn Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5 e6 f4 Qb6"],
+  ["B98", "Sicilian Defense: Najdorf Variation", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5 e6 f4 Be7"],
+  ["B99", "Sicilian Defense: Najdorf Variation, Main Line", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5 e6 f4 Be7 Qf3 Qc7 O-O-O Nbd7"],
+  ["B90", "Sicilian Defense: Najdorf Variation, Fischer-Sozin Attack", "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bc4"],
+
+  // C00-C19: French Defense
+  ["C00", "French Defense", "e4 e6"],
+  ["C00", "French Defense: Knight Variation", "e4 e6 Nf3"],
+  ["C00", "French Defense: King's Indian Attack", "e4 e6 d3"],
+  ["C00", "French Defense: Labourdonnais Variation", "e4 e6 f4"],
+  ["C00", "French Defense: Wing Gambit", "e4 e6 Nf3 d5 e5 c5 b4"],
+  ["C00", "French Defense: Normal Variation", "e4 e6 d4"],
+  ["C00", "French Defense: Schlechter Variation", "e4 e6 d4 d5 Bd3"],
+  ["C01", "French Defense: Exchange Variation", "e4 e6 d4 d5 exd5"],
+  ["C01", "French Defense: Exchange Variation", "e4 e6 d4 d5 exd5 exd5"],
+  ["C01", "French Defense: Exchange Variation, Monte Carlo Variation", "e4 e6 d4 d5 exd5 exd5 c4"],
+  ["C02", "French Defense: Advance Variation", "e4 e6 d4 d5 e5"],
+  ["C02", "French Defense: Advance Variation", "e4 e6 d4 d5 e5 c5 c3"],
+  ["C02", "French Defense: Advance Variation, Nimzowitsch Attack", "e4 e6 d4 d5 e5 c5 Qg4"],
+  ["C02", "French Defense: Advance Variation, Milner-Barry Gambit", "e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3 Qb6 Bd3"],
+  ["C02", "French Defense: Advance Variation, Paulsen Attack", "e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3"],
+  ["C02", "French Defense: Advance Variation, Euwe Variation", "e4 e6 d4 d5 e5 c5 c3 Nc6 Nf3 Bd7"],
+  ["C02", "French Defense: Advance Variation, Lputian Variation", "e4 e6 d4 d5 e5 c5 c3 Qb6 Nf3 Bd7"],
+  ["C03", "French Defense: Tarrasch Variation", "e4 e6 d4 d5 Nd2"],
+  ["C03", "French Defense: Tarrasch Variation, Guimard Defense", "e4 e6 d4 d5 Nd2 Nc6"],
+  ["C03", "French Defense: Tarrasch Variation, Haberditz Variation", "e4 e6 d4 d5 Nd2 f5"],
+  ["C03", "French Defense: Tarrasch Variation, Morozevich Variation", "e4 e6 d4 d5 Nd2 Be7"],
+  ["C05", "French Defense: Tarrasch Variation, Closed Variation", "e4 e6 d4 d5 Nd2 Nf6"],
+  ["C05", "French Defense: Tarrasch Variation, Closed Variation", "e4 e6 d4 d5 Nd2 Nf6 e5 Nfd7"],
+  ["C06", "French Defense: Tarrasch Variation, Closed Variation, Main Line", "e4 e6 d4 d5 Nd2 Nf6 e5 Nfd7 Bd3 c5 c3 Nc6 Ne2"],
+  ["C07", "French Defense: Tarrasch Variation, Open System", "e4 e6 d4 d5 Nd2 c5"],
+  ["C07", "French Defense: Tarrasch Variation, Chistyakov Defense", "e4 e6 d4 d5 Nd2 c5 exd5 Qxd5"],
+  ["C08", "French Defense: Tarrasch Variation, Open System", "e4 e6 d4 d5 Nd2 c5 exd5 exd5"],
+  ["C09", "French Defense: Tarrasch Variation, Open System, Main Line", "e4 e6 d4 d5 Nd2 c5 exd5 exd5 Ngf3 Nc6"],
+  ["C10", "French Defense: Paulsen Variation", "e4 e6 d4 d5 Nc3"],
+  ["C10", "French Defense: Rubinstein Variation", "e4 e6 d4 d5 Nc3 dxe4"],
+  ["C10", "French Defense: Rubinstein Variation", "e4 e6 d4 d5 Nc3 dxe4 Nxe4"],
+  ["C10", "French Defense: Rubinstein Variation, Blackburne Defense", "e4 e6 d4 d5 Nc3 dxe4 Nxe4 Nd7"],
+  ["C10", "French Defense: Rubinstein Variation, Fort Knox Variation", "e4 e6 d4 d5 Nc3 dxe4 Nxe4 Bd7"],
+  ["C11", "French Defense: Classical Variation", "e4 e6 d4 d5 Nc3 Nf6"],
+  ["C11", "French Defense: Steinitz Variation", "e4 e6 d4 d5 Nc3 Nf6 e5"],
+  ["C11", "French Defense: Steinitz Variation", "e4 e6 d4 d5 Nc3 Nf6 e5 Nfd7 f4"],
+  ["C11", "French Defense: Steinitz Variation, Boleslavsky Variation", "e4 e6 d4 d5 Nc3 Nf6 e5 Nfd7 f4 c5 Nf3 Nc6 Be3"],
+  ["C11", "French Defense: Burn Variation", "e4 e6 d4 d5 Nc3 Nf6 Bg5 dxe4"],
+  ["C12", "French Defense: MacCutcheon Variation", "e4 e6 d4 d5 Nc3 Nf6 Bg5 Bb4"],
+  ["C13", "French Defense: Classical Variation", "e4 e6 d4 d5 Nc3 Nf6 Bg5"],
+  ["C13", "French Defense: Alekhine-Chatard Attack", "e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7 e5 Nfd7 h4"],
+  ["C14", "French Defense: Classical Variation, Normal Variation", "e4 e6 d4 d5 Nc3 Nf6 Bg5 Be7 e5 Nfd7 Bxe7 Qxe7"],
+  ["C15", "French Defense: Winawer Variation", "e4 e6 d4 d5 Nc3 Bb4"],
+  ["C15", "French Defense: Winawer Variation, Fingerslip Variation", "e4 e6 d4 d5 Nc3 Bb4 Bd2"],
+  ["C15", "French Defense: Winawer Variation, Alekhine Gambit", "e4 e6 d4 d5 Nc3 Bb4 Ne2 dxe4 a3"],
+  ["C15", "French Defense: Winawer Variation, Exchange Variation", "e4 e6 d4 d5 Nc3 Bb4 exd5 exd5"],
+  ["C16", "French Defense: Winawer Variation, Advance Variation", "e4 e6 d4 d5 Nc3 Bb4 e5"],
+  ["C16", "French Defense: Winawer Variation, Petrosian Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 Qd7"],
+  ["C17", "French Defense: Winawer Variation, Advance Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 c5"],
+  ["C17", "French Defense: Winawer Variation, Bogoljubov Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 c5 Bd2"],
+  ["C18", "French Defense: Winawer Variation, Advance Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 c5 a3 Bxc3+ bxc3"],
+  ["C18", "French Defense: Winawer Variation, Poisoned Pawn Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 c5 a3 Bxc3+ bxc3 Ne7 Qg4"],
+  ["C19", "French Defense: Winawer Variation, Advance Variation", "e4 e6 d4 d5 Nc3 Bb4 e5 c5 a3 Bxc3+ bxc3 Ne7 Nf3"],
+  ["C19", "French Defense: Winawer Variation, Poisoned Pawn Variation, Main Line", "e4 e6 d4 d5 Nc3 Bb4 e5 c5 a3 Bxc3+ bxc3 Ne7 Qg4 Qc7 Qxg7 Rg8 Qxh7 cxd4"],
+
+  // C20-C29: Open games without Nf3, Vienna, Bishop's Opening
+  ["C20", "King's Pawn Game", "e4 e5"],
+  ["C20", "King's Pawn Game: Wayward Queen Attack", "e4 e5 Qh5"],
+  ["C20", "Portuguese Opening", "e4 e5 Bb5"],
+  ["C20", "King's Pawn Game: Napoleon Attack", "e4 e5 Qf3"],
+  ["C20", "Alapin Opening", "e4 e5 Ne2"],
+  ["C20", "King's Pawn Game: Leonardis Variation", "e4 e5 d3"],
+  ["C20", "King's Pawn Game: Macleod Attack", "e4 e5 c3"],
+  ["C20", "English Opening: The Whale", "e4 e5 c4"],
+  ["C21", "Center Game", "e4 e5 d4"],
+  ["C21", "Center Game", "e4 e5 d4 exd4"],
+  ["C21", "Danish Gambit", "e4 e5 d4 exd4 c3"],
+  ["C21", "Danish Gambit Accepted", "e4 e5 d4 exd4 c3 dxc3"],
+  ["C21", "Danish Gambit Accepted", "e4 e5 d4 exd4 c3 dxc3 Bc4 cxb2 Bxb2"],
+  ["C21", "Danish Gambit Declined: Sorensen Defense", "e4 e5 d4 exd4 c3 d5"],
+  ["C22", "Center Game: Normal Variation", "e4 e5 d4 exd4 Qxd4 Nc6"],
+  ["C22", "Center Game: Paulsen Attack Variation", "e4 e5 d4 exd4 Qxd4 Nc6 Qe3"],
+  ["C23", "Bishop's Opening", "e4 e5 Bc4"],
+  ["C23", "Bishop's Opening: Philidor Counterattack", "e4 e5 Bc4 c6"],
+  ["C23", "Bishop's Opening: Lopez Variation", "e4 e5 Bc4 Bc5 c3"],
+  ["C24", "Bishop's Opening: Berlin Defense", "e4 e5 Bc4 Nf6"],
+  ["C24", "Bishop's Opening: Urusov Gambit", "e4 e5 Bc4 Nf6 d4 exd4 Nf3"],
+  ["C24", "Bishop's Opening: Vienna Hybrid", "e4 e5 Bc4 Nf6 d3"],
+  ["C25", "Vienna Game", "e4 e5 Nc3"],
+  ["C25", "Vienna Game: Max Lange Defense", "e4 e5 Nc3 Nc6"],
+  ["C25", "Vienna Game: Vienna Gambit", "e4 e5 Nc3 Nc6 f4"],
+  ["C25", "Vienna Game: Anderssen Defense", "e4 e5 Nc3 Bc5"],
+  ["C25", "Vienna Game: Stanley Variation", "e4 e5 Nc3 Nc6 Bc4"],
+  ["C26", "Vienna Game: Falkbeer Variation", "e4 e5 Nc3 Nf6"],
+  ["C26", "Vienna Game: Mieses Variation", "e4 e5 Nc3 Nf6 g3"],
+  ["C26", "Vienna Game: Stanley Variation", "e4 e5 Nc3 Nf6 Bc4"],
+  ["C27", "Vienna Game: Frankenstein-Dracula Variation", "e4 e5 Nc3 Nf6 Bc4 Nxe4 Qh5 Nd6 Bb3 Nc6 Nb5 g6 Qf3 f5 Qd5 Qe7 Nxc7+ Kd8 Nxa8 b6"],
+  ["C27", "Vienna Game: Stanley Variation, Reversed Spanish", "e4 e5 Nc3 Nf6 Bc4 Nxe4"],
+  ["C28", "Vienna Game: Stanley Variation, Three Knights Variation", "e4 e5 Nc3 Nf6 Bc4 Nc6"],
+  ["C29", "Vienna Game: Vienna Gambit", "e4 e5 Nc3 Nf6 f4"],
+  ["C29", "Vienna Game: Vienna Gambit, Main Line", "e4 e5 Nc3 Nf6 f4 d5 fxe5 Nxe4"],
+
+  // C30-C39: King's Gambit
+  ["C30", "King's Gambit", "e4 e5 f4"],
+  ["C30", "King's Gambit Declined: Classical Variation", "e4 e5 f4 Bc5"],
+  ["C30", "King's Gambit Declined: Queen's Knight Defense", "e4 e5 f4 Nc6"],
+  ["C30", "King's Gambit Declined: Keene Defense", "e4 e5 f4 Qh4+"],
+  ["C31", "King's Gambit Declined: Falkbeer Countergambit", "e4 e5 f4 d5"],
+  ["C31", "King's Gambit Declined: Falkbeer Countergambit", "e4 e5 f4 d5 exd5 e4"],
+  ["C33", "King's Gambit Accepted", "e4 e5 f4 exf4"],
+  ["C33", "King's Gambit Accepted: Bishop's Gambit", "e4 e5 f4 exf4 Bc4"],
+  ["C33", "King's Gambit Accepted: Breyer Gambit", "e4 e5 f4 exf4 Qf3"],
+  ["C34", "King's Gambit Accepted: King's Knight Gambit", "e4 e5 f4 exf4 Nf3"],
+  ["C34", "King's Gambit Accepted: Fischer Defense", "e4 e5 f4 exf4 Nf3 d6"],
+  ["C34", "King's Gambit Accepted: Schallopp Defense", "e4 e5 f4 exf4 Nf3 Nf6"],
+  ["C34", "King's Gambit Accepted: Becker Defense", "e4 e5 f4 exf4 Nf3 h6"],
+  ["C35", "King's Gambit Accepted: Cunningham Defense", "e4 e5 f4 exf4 Nf3 Be7"],
+  ["C36", "King's Gambit Accepted: Modern Defense", "e4 e5 f4 exf4 Nf3 d5"],
+  ["C37", "King's Gambit Accepted: Kieseritzky Gambit", "e4 e5 f4 exf4 Nf3 g5 h4 g4 Ne5"],
+  ["C37", "King's Gambit Accepted: Muzio Gambit", "e4 e5 f4 exf4 Nf3 g5 Bc4 g4 O-O"],
+  ["C37", "King's Gambit Accepted: Quaade Gambit", "e4 e5 f4 exf4 Nf3 g5 Nc3"],
+  ["C38", "King's Gambit Accepted: Traditional Variation", "e4 e5 f4 exf4 Nf3 g5 Bc4 Bg7"],
+  ["C39", "King's Gambit Accepted: Allgaier Gambit", "e4 e5 f4 exf4 Nf3 g5 h4 g4 Ng5"],
+  ["C39", "King's Gambit Accepted: Kieseritzky Gambit", "e4 e5 f4 exf4 Nf3 g5 h4"],
+
+  // C40-C49: Open games with Nf3
+  ["C40", "King's Knight Opening", "e4 e5 Nf3"],
+  ["C40", "Latvian Gambit", "e4 e5 Nf3 f5"],
+  ["C40", "Latvian Gambit Accepted", "e4 e5 Nf3 f5 Nxe5"],
+  ["C40", "Elephant Gambit", "e4 e5 Nf3 d5"],
+  ["C40", "Damiano Defense", "e4 e5 Nf3 f6"],
+  ["C40", "Gunderam Defense", "e4 e5 Nf3 Qe7"],
+  ["C40", "McConnell Defense", "e4 e5 Nf3 Qf6"],
+  ["C41", "Philidor Defense", "e4 e5 Nf3 d6"],
+  ["C41", "Philidor Defense", "e4 e5 Nf3 d6 d4"],
+  ["C41", "Philidor Defense: Exchange Variation", "e4 e5 Nf3 d6 d4 exd4"],
+  ["C41", "Philidor Defense: Hanham Variation", "e4 e5 Nf3 d6 d4 Nd7"],
+  ["C41", "Philidor Defense: Lion Variation", "e4 e5 Nf3 d6 d4 Nf6 Nc3 Nbd7"],
+  ["C41", "Philidor Defense: Philidor Countergambit", "e4 e5 Nf3 d6 d4 f5"],
+  ["C41", "Philidor Defense: Lopez Countergambit", "e4 e5 Nf3 d6 Bc4 f5"],
+  ["C42", "Russian Game", "e4 e5 Nf3 Nf6"],
+  ["C42", "Russian Game: Classical Attack", "e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 d4"],
+  ["C42", "Russian Game: Three Knights Game", "e4 e5 Nf3 Nf6 Nc3"],
+  ["C42", "Russian Game: Stafford Gambit", "e4 e5 Nf3 Nf6 Nxe5 Nc6"],
+  ["C42", "Russian Game: Damiano Variation", "e4 e5 Nf3 Nf6 Nxe5 Nxe4"],
+  ["C42", "Russian Game: Cochrane Gambit", "e4 e5 Nf3 Nf6 Nxe5 d6 Nxf7"],
+  ["C42", "Russian Game: Nimzowitsch Attack", "e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 Nc3"],
+  ["C42", "Russian Game: Cozio (Lasker) Attack", "e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 Qe2"],
+  ["C42", "Russian Game", "e4 e5 Nf3 Nf6 Nxe5 d6"],
+  ["C43", "Russian Game: Modern Attack", "e4 e5 Nf3 Nf6 d4"],
+  ["C43", "Russian Game: Modern Attack, Center Variation", "e4 e5 Nf3 Nf6 d4 exd4"],
+  ["C43", "Russian Game: Modern Attack, Symmetrical Variation", "e4 e5 Nf3 Nf6 d4 Nxe4"],
+  ["C44", "King's Pawn Game: Tayler Opening", "e4 e5 Nf3 Nc6 Be2"],
+  ["C44", "King's Knight Opening: Normal Variation", "e4 e5 Nf3 Nc6"],
+  ["C44", "Ponziani Opening", "e4 e5 Nf3 Nc6 c3"],
+  ["C44", "Ponziani Opening: Jaenisch Counterattack", "e4 e5 Nf3 Nc6 c3 Nf6"],
+  ["C44", "Ponziani Opening: Romanishin Variation", "e4 e5 Nf3 Nc6 c3 Be7"],
+  ["C44", "Irish Gambit", "e4 e5 Nf3 Nc6 Nxe5"],
+  ["C44", "Scotch Game", "e4 e5 Nf3 Nc6 d4"],
+  ["C44", "Scotch Game", "e4 e5 Nf3 Nc6 d4 exd4"],
+  ["C44", "Scotch Game: Göring Gambit", "e4 e5 Nf3 Nc6 d4 exd4 c3"],
+  ["C44", "Scotch Gambit", "e4 e5 Nf3 Nc6 d4 exd4 Bc4"],
+  ["C44", "Scotch Game: Relfsson Gambit", "e4 e5 Nf3 Nc6 d4 exd4 Bb5"],
+  ["C45", "Scotch Game", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4"],
+  ["C45", "Scotch Game: Classical Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Bc5"],
+  ["C45", "Scotch Game: Schmidt Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Nf6"],
+  ["C45", "Scotch Game: Mieses Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Nf6 Nxc6 bxc6 e5"],
+  ["C45", "Scotch Game: Steinitz Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Qh4"],
+  ["C45", "Scotch Game: Potter Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Bc5 Nb3"],
+  ["C45", "Scotch Game: Malaniuk Variation", "e4 e5 Nf3 Nc6 d4 exd4 Nxd4 Bb4+"],
+  ["C46", "Three Knights Opening", "e4 e5 Nf3 Nc6 Nc3"],
+  ["C46", "Three Knights Opening: Steinitz Defense", "e4 e5 Nf3 Nc6 Nc3 g6"],
+  ["C46", "Three Knights Opening: Schlechter Variation", "e4 e5 Nf3 Nc6 Nc3 Bb4"],
+  ["C47", "Four Knights Game", "e4 e5 Nf3 Nc6 Nc3 Nf6"],
+  ["C47", "Four Knights Game: Glek System", "e4 e5 Nf3 Nc6 Nc3 Nf6 g3"],
+  ["C47", "Four Knights Game: Halloween Gambit", "e4 e5 Nf3 Nc6 Nc3 Nf6 Nxe5"],
+  ["C47", "Four Knights Game: Scotch Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 d4"],
+  ["C47", "Four Knights Game: Belgrade Gambit", "e4 e5 Nf3 Nc6 Nc3 Nf6 d4 exd4 Nd5"],
+  ["C47", "Four Knights Game: Scotch Variation Accepted", "e4 e5 Nf3 Nc6 Nc3 Nf6 d4 exd4"],
+  ["C47", "Four Knights Game: Italian Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bc4"],
+  ["C48", "Four Knights Game: Spanish Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5"],
+  ["C48", "Four Knights Game: Spanish Variation, Rubinstein Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5 Nd4"],
+  ["C48", "Four Knights Game: Spanish Variation, Classical Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5 Bc5"],
+  ["C49", "Four Knights Game: Double Spanish", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5 Bb4"],
+  ["C49", "Four Knights Game: Spanish Variation, Symmetrical Variation", "e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5 Bb4 O-O O-O d3 d6"],
+
+  // C50-C59: Italian Game, Two Knights
+  ["C50", "Italian Game", "e4 e5 Nf3 Nc6 Bc4"],
+  ["C50", "Italian Game: Hungarian Defense", "e4 e5 Nf3 Nc6 Bc4 Be7"],
+  ["C50", "Italian Game: Rousseau Gambit", "e4 e5 Nf3 Nc6 Bc4 f5"],
+  ["C50", "Italian Game: Blackburne-Kostić Gambit", "e4 e5 Nf3 Nc6 Bc4 Nd4"],
+  ["C50", "Italian Game: Giuoco Piano", "e4 e5 Nf3 Nc6 Bc4 Bc5"],
+  ["C50", "Italian Game: Giuoco Pianissimo", "e4 e5 Nf3 Nc6 Bc4 Bc5 d3"],
+  ["C50", "Italian Game: Giuoco Pianissimo, Normal", "e4 e5 Nf3 Nc6 Bc4 Bc5 d3 Nf6"],
+  ["C50", "Italian Game: Four Knights Variation", "e4 e5 Nf3 Nc6 Bc4 Bc5 Nc3 Nf6"],
+  ["C50", "Italian Game: Giuoco Piano, Rosentreter Gambit", "e4 e5 Nf3 Nc6 Bc4 Bc5 d4"],
+  ["C50", "Italian Game: Giuoco Pianissimo, Italian Four Knights Variation", "e4 e5 Nf3 Nc6 Bc4 Bc5 O-O Nf6 d3"],
+  ["C51", "Italian Game: Evans Gambit", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4"],
+  ["C51", "Italian Game: Evans Gambit Declined", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4 Bb6"],
+  ["C51", "Italian Game: Evans Gambit Accepted", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4 Bxb4"],
+  ["C52", "Italian Game: Evans Gambit, Main Line", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4 Bxb4 c3 Ba5"],
+  ["C52", "Italian Game: Evans Gambit, Compromised Defense", "e4 e5 Nf3 Nc6 Bc4 Bc5 b4 Bxb4 c3 Ba5 d4 exd4 O-O dxc3"],
+  ["C53", "Italian Game: Classical Variation", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3"],
+  ["C53", "Italian Game: Giuoco Piano, Center Attack", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d4"],
+  ["C53", "Italian Game: Classical Variation, Giuoco Pianissimo", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3"],
+  ["C53", "Italian Game: Classical Variation, Closed Variation", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Qe7"],
+  ["C54", "Italian Game: Classical Variation, Greco Gambit", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d4 exd4 cxd4 Bb4+ Nc3"],
+  ["C54", "Italian Game: Classical Variation, Main Line", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d4 exd4 cxd4 Bb4+ Bd2"],
+  ["C54", "Italian Game: Giuoco Piano, Moeller Attack", "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d4 exd4 cxd4 Bb4+ Nc3 Nxe4 O-O Bxc3 d5"],
+  ["C55", "Italian Game: Two Knights Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6"],
+  ["C55", "Italian Game: Two Knights Defense, Modern Bishop's Opening", "e4 e5 Nf3 Nc6 Bc4 Nf6 d3"],
+  ["C55", "Italian Game: Scotch Gambit", "e4 e5 Nf3 Nc6 Bc4 Nf6 d4 exd4"],
+  ["C55", "Italian Game: Two Knights Defense, Max Lange Attack", "e4 e5 Nf3 Nc6 Bc4 Nf6 d4 exd4 O-O Bc5 e5"],
+  ["C56", "Italian Game: Two Knights Defense, Perreux Variation", "e4 e5 Nf3 Nc6 Bc4 Nf6 d4 exd4 Ng5"],
+  ["C56", "Italian Game: Scotch Gambit, Canal Variation", "e4 e5 Nf3 Nc6 Bc4 Nf6 d4 exd4 O-O Nxe4"],
+  ["C57", "Italian Game: Two Knights Defense, Knight Attack", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5"],
+  ["C57", "Italian Game: Two Knights Defense, Traxler Counterattack", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 Bc5"],
+  ["C57", "Italian Game: Two Knights Defense, Ulvestad Variation", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 b5"],
+  ["C57", "Italian Game: Two Knights Defense, Fritz Variation", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nd4"],
+  ["C57", "Italian Game: Two Knights Defense, Fried Liver Attack", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7"],
+  ["C57", "Italian Game: Two Knights Defense, Lolli Attack", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 d4"],
+  ["C57", "Italian Game: Two Knights Defense, Pincus Variation", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 d4 Bb4+"],
+  ["C58", "Italian Game: Two Knights Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Na5"],
+  ["C58", "Italian Game: Two Knights Defense, Polerio Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Na5 Bb5+"],
+  ["C59", "Italian Game: Two Knights Defense, Polerio Defense, Suhle Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Na5 Bb5+ c6 dxc6 bxc6 Be2 h6"],
+  ["C57", "Italian Game: Two Knights Defense", "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5"],
+
+  // C60-C99: Ruy Lopez
+  ["C60", "Ruy Lopez", "e4 e5 Nf3 Nc6 Bb5"],
+  ["C60", "Ruy Lopez: Cozio Defense", "e4 e5 Nf3 Nc6 Bb5 Nge7"],
+  ["C60", "Ruy Lopez: Fianchetto Defense", "e4 e5 Nf3 Nc6 Bb5 g6"],
+  ["C60", "Ruy Lopez: Alapin Defense", "e4 e5 Nf3 Nc6 Bb5 Bb4"],
+  ["C61", "Ruy Lopez: Bird Variation", "e4 e5 Nf3 Nc6 Bb5 Nd4"],
+  ["C62", "Ruy Lopez: Steinitz Defense", "e4 e5 Nf3 Nc6 Bb5 d6"],
+  ["C63", "Ruy Lopez: Schliemann Defense", "e4 e5 Nf3 Nc6 Bb5 f5"],
+  ["C63", "Ruy Lopez: Schliemann Defense, Jaenisch Gambit Accepted", "e4 e5 Nf3 Nc6 Bb5 f5 Nc3"],
+  ["C64", "Ruy Lopez: Classical Variation", "e4 e5 Nf3 Nc6 Bb5 Bc5"],
+  ["C64", "Ruy Lopez: Classical Variation, Cordel Gambit", "e4 e5 Nf3 Nc6 Bb5 Bc5 c3 f5"],
+  ["C65", "Ruy Lopez: Berlin Defense", "e4 e5 Nf3 Nc6 Bb5 Nf6"],
+  ["C65", "Ruy Lopez: Berlin Defense, Beverwijk Variation", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Bc5"],
+  ["C65", "Ruy Lopez: Berlin Defense, Anderssen Variation", "e4 e5 Nf3 Nc6 Bb5 Nf6 d3"],
+  ["C66", "Ruy Lopez: Berlin Defense, Improved Steinitz Defense", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O d6"],
+  ["C67", "Ruy Lopez: Berlin Defense, Rio Gambit Accepted", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4"],
+  ["C67", "Ruy Lopez: Berlin Defense, l'Hermet Variation", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 dxe5"],
+  ["C67", "Ruy Lopez: Berlin Defense, Berlin Wall", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5 Qxd8+ Kxd8"],
+  ["C67", "Ruy Lopez: Berlin Defense, Rio de Janeiro Variation", "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Be7"],
+  ["C68", "Ruy Lopez: Exchange Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6"],
+  ["C68", "Ruy Lopez: Exchange Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6 dxc6"],
+  ["C68", "Ruy Lopez: Exchange Variation, Alekhine Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6 dxc6 d4 exd4 Qxd4 Qxd4 Nxd4 Bd7"],
+  ["C69", "Ruy Lopez: Exchange Variation, Normal Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6 dxc6 O-O"],
+  ["C69", "Ruy Lopez: Exchange Variation, Gligorić Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6 dxc6 O-O f6"],
+  ["C70", "Ruy Lopez: Morphy Defense", "e4 e5 Nf3 Nc6 Bb5 a6"],
+  ["C70", "Ruy Lopez: Morphy Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4"],
+  ["C70", "Ruy Lopez: Morphy Defense, Caro Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 b5"],
+  ["C70", "Ruy Lopez: Morphy Defense, Norwegian Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 b5 Bb3 Na5"],
+  ["C70", "Ruy Lopez: Morphy Defense, Graz Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Bc5"],
+  ["C70", "Ruy Lopez: Morphy Defense, Fianchetto Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 g6"],
+  ["C71", "Ruy Lopez: Steinitz Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6"],
+  ["C72", "Ruy Lopez: Steinitz Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 O-O"],
+  ["C73", "Ruy Lopez: Steinitz Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 Bxc6+ bxc6 d4"],
+  ["C74", "Ruy Lopez: Steinitz Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 c3"],
+  ["C74", "Ruy Lopez: Steinitz Defense Deferred, Siesta Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 c3 f5"],
+  ["C75", "Ruy Lopez: Steinitz Defense Deferred, Rubinstein Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 c3 Bd7"],
+  ["C76", "Ruy Lopez: Steinitz Defense Deferred, Fianchetto Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 c3 Bd7 d4 g6"],
+  ["C77", "Ruy Lopez: Morphy Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6"],
+  ["C77", "Ruy Lopez: Morphy Defense, Anderssen Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 d3"],
+  ["C77", "Ruy Lopez: Four Knights Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 Nc3"],
+  ["C77", "Ruy Lopez: Wormald Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 Qe2"],
+  ["C77", "Ruy Lopez: Morphy Defense, Duras Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 d3 d6 c4"],
+  ["C78", "Ruy Lopez: Morphy Defense, Arkhangelsk Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O b5 Bb3 Bb7"],
+  ["C78", "Ruy Lopez: Morphy Defense, Neo-Arkhangelsk Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O b5 Bb3 Bc5"],
+  ["C78", "Ruy Lopez", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O"],
+  ["C78", "Ruy Lopez: Brix Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O g6"],
+  ["C78", "Ruy Lopez: Morphy Defense, Møller Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Bc5"],
+  ["C79", "Ruy Lopez: Steinitz Defense Deferred", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O d6"],
+  ["C80", "Ruy Lopez: Open", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4"],
+  ["C80", "Ruy Lopez: Open, Main Line", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 b5 Bb3 d5 dxe5 Be6"],
+  ["C80", "Ruy Lopez: Open, Riga Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 exd4"],
+  ["C81", "Ruy Lopez: Open, Howell Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 b5 Bb3 d5 dxe5 Be6 Qe2"],
+  ["C82", "Ruy Lopez: Open, Italian Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 b5 Bb3 d5 dxe5 Be6 c3 Bc5"],
+  ["C82", "Ruy Lopez: Open, Dilworth Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 b5 Bb3 d5 dxe5 Be6 c3 Bc5 Nbd2 O-O Bc2 Nxf2"],
+  ["C83", "Ruy Lopez: Open, Classical Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 b5 Bb3 d5 dxe5 Be6 c3 Be7"],
+  ["C84", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7"],
+  ["C84", "Ruy Lopez: Closed, Center Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 d4"],
+  ["C85", "Ruy Lopez: Closed, Delayed Exchange", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Bxc6"],
+  ["C86", "Ruy Lopez: Worrall Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Qe2"],
+  ["C87", "Ruy Lopez: Closed, Averbakh Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 d6"],
+  ["C88", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3"],
+  ["C88", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1"],
+  ["C88", "Ruy Lopez: Closed, Anti-Marshall 8.a4", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O a4"],
+  ["C88", "Ruy Lopez: Closed, Anti-Marshall 8.h3", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O h3"],
+  ["C88", "Ruy Lopez: Noah's Ark Trap", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 d6 d4 b5 Bb3 Nxd4 Nxd4 exd4 Qxd4 c5"],
+  ["C89", "Ruy Lopez: Marshall Attack", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5"],
+  ["C89", "Ruy Lopez: Marshall Attack, Main Line", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5 exd5 Nxd5 Nxe5 Nxe5 Rxe5 c6"],
+  ["C90", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6"],
+  ["C90", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O"],
+  ["C90", "Ruy Lopez: Closed, Pilnik Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O d3"],
+  ["C91", "Ruy Lopez: Closed, Bogoljubov Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O d4"],
+  ["C92", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3"],
+  ["C92", "Ruy Lopez: Closed, Zaitsev System", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Bb7"],
+  ["C92", "Ruy Lopez: Closed, Flohr System", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Bd7"],
+  ["C92", "Ruy Lopez: Closed, Kholmov Variation", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Be6"],
+  ["C92", "Ruy Lopez: Closed, Keres Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Nd7"],
+  ["C93", "Ruy Lopez: Closed, Smyslov Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 h6"],
+  ["C94", "Ruy Lopez: Closed, Breyer Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Nb8"],
+  ["C95", "Ruy Lopez: Closed, Breyer Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Nb8 d4"],
+  ["C95", "Ruy Lopez: Closed, Breyer Defense, Zaitsev Hybrid", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Nb8 d4 Nbd7 Nbd2 Bb7"],
+  ["C96", "Ruy Lopez: Closed", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Na5 Bc2"],
+  ["C96", "Ruy Lopez: Closed, Chigorin Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Na5"],
+  ["C97", "Ruy Lopez: Closed, Chigorin Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Na5 Bc2 c5 d4 Qc7"],
+  ["C98", "Ruy Lopez: Closed, Chigorin Defense", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Na5 Bc2 c5 d4 Qc7 Nbd2 Nc6"],
+  ["C99", "Ruy Lopez: Closed, Chigorin Defense, Panov System", "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3 Na5 Bc2 c5 d4 Qc7 Nbd2 cxd4 cxd4"],
+
+  // D00-D69: Closed games, Queen's Gambit
+  ["D00", "Queen's Pawn Game", "d4 d5"],
+  ["D00", "Queen's Pawn Game: Accelerated London System", "d4 d5 Bf4"],
+  ["D00", "Queen's Pawn Game: Levitsky Attack", "d4 d5 Bg5"],
+  ["D00", "Blackmar-Diemer Gambit", "d4 d5 e4"],
+  ["D00", "Blackmar-Diemer Gambit", "d4 d5 e4 dxe4 Nc3 Nf6 f3"],
+  ["D00", "Queen's Pawn Game: Stonewall Attack", "d4 d5 e3 Nf6 Bd3"],
+  ["D00", "Queen's Pawn Game: Colle System", "d4 d5 e3"],
+  ["D00", "Queen's Pawn Game: Chigorin Variation", "d4 d5 Nc3"],
+  ["D00", "Queen's Pawn Game: Chigorin Variation", "d4 d5 Nc3 Nf6"],
+  ["D01", "Rapport-Jobava System", "d4 d5 Nc3 Nf6 Bf4"],
+  ["D01", "Richter-Veresov Attack", "d4 d5 Nc3 Nf6 Bg5"],
+  ["D02", "Queen's Pawn Game: Zukertort Variation", "d4 d5 Nf3"],
+  ["D02", "Queen's Pawn Game: Symmetrical Variation", "d4 d5 Nf3 Nf6"],
+  ["D02", "London System", "d4 d5 Nf3 Nf6 Bf4"],
+  ["D02", "Queen's Pawn Game: Chigorin Variation", "d4 d5 Nf3 Nc6"],
+  ["D02", "London System", "d4 d5 Nf3 Nf6 Bf4 c5 e3"],
+  ["D03", "Queen's Pawn Game: Torre Attack", "d4 d5 Nf3 Nf6 Bg5"],
+  ["D04", "Queen's Pawn Game: Colle System", "d4 d5 Nf3 Nf6 e3"],
+  ["D05", "Queen's Pawn Game: Colle System", "d4 d5 Nf3 Nf6 e3 e6 Bd3 c5 c3"],
+  ["D05", "Queen's Pawn Game: Colle-Zukertort Variation", "d4 d5 Nf3 Nf6 e3 e6 Bd3 c5 b3"],
+  ["D06", "Queen's Gambit", "d4 d5 c4"],
+  ["D06", "Queen's Gambit Declined: Marshall Defense", "d4 d5 c4 Nf6"],
+  ["D06", "Queen's Gambit Declined: Baltic Defense", "d4 d5 c4 Bf5"],
+  ["D06", "Queen's Gambit Declined: Austrian Defense", "d4 d5 c4 c5"],
+  ["D07", "Queen's Gambit Declined: Chigorin Defense", "d4 d5 c4 Nc6"],
+  ["D07", "Queen's Gambit Declined: Chigorin Defense, Main Line", "d4 d5 c4 Nc6 Nc3 dxc4 Nf3"],
+  ["D08", "Queen's Gambit Declined: Albin Countergambit", "d4 d5 c4 e5"],
+  ["D08", "Queen's Gambit Declined: Albin Countergambit, Lasker Trap", "d4 d5 c4 e5 dxe5 d4 e3 Bb4+ Bd2 dxe3"],
+  ["D08", "Queen's Gambit Declined: Albin Countergambit, Normal Line", "d4 d5 c4 e5 dxe5 d4 Nf3"],
+  ["D09", "Queen's Gambit Declined: Albin Countergambit, Fianchetto Variation", "d4 d5 c4 e5 dxe5 d4 Nf3 Nc6 g3"],
+  ["D10", "Slav Defense", "d4 d5 c4 c6"],
+  ["D10", "Slav Defense: Exchange Variation", "d4 d5 c4 c6 cxd5 cxd5"],
+  ["D10", "Slav Defense: Winawer Countergambit", "d4 d5 c4 c6 Nc3 e5"],
+  ["D10", "Slav Defense", "d4 d5 c4 c6 Nc3"],
+  ["D11", "Slav Defense: Modern Line", "d4 d5 c4 c6 Nf3"],
+  ["D11", "Slav Defense: Quiet Variation", "d4 d5 c4 c6 Nf3 Nf6 e3"],
+  ["D12", "Slav Defense: Quiet Variation", "d4 d5 c4 c6 Nf3 Nf6 e3 Bf5"],
+  ["D13", "Slav Defense: Exchange Variation", "d4 d5 c4 c6 Nf3 Nf6 cxd5 cxd5"],
+  ["D14", "Slav Defense: Exchange Variation, Symmetrical Line", "d4 d5 c4 c6 Nf3 Nf6 cxd5 cxd5 Nc3 Nc6 Bf4 Bf5"],
+  ["D15", "Slav Defense: Three Knights Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3"],
+  ["D15", "Slav Defense: Chameleon Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 a6"],
+  ["D15", "Slav Defense: Schlechter Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 g6"],
+  ["D15", "Slav Defense: Two Knights Attack", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4"],
+  ["D16", "Slav Defense: Alapin Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4"],
+  ["D16", "Slav Defense: Smyslov Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Na6"],
+  ["D17", "Slav Defense: Czech Variation", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5"],
+  ["D17", "Slav Defense: Czech Variation, Krause Attack", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5 Ne5"],
+  ["D18", "Slav Defense: Czech Variation, Classical System", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5 e3"],
+  ["D19", "Slav Defense: Czech Variation, Classical System, Main Line", "d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5 e3 e6 Bxc4 Bb4 O-O"],
+  ["D20", "Queen's Gambit Accepted", "d4 d5 c4 dxc4"],
+  ["D20", "Queen's Gambit Accepted: Central Variation", "d4 d5 c4 dxc4 e4"],
+  ["D20", "Queen's Gambit Accepted: Old Variation", "d4 d5 c4 dxc4 e3"],
+  ["D21", "Queen's Gambit Accepted: Normal Variation", "d4 d5 c4 dxc4 Nf3"],
+  ["D22", "Queen's Gambit Accepted: Alekhine Defense", "d4 d5 c4 dxc4 Nf3 a6"],
+  ["D23", "Queen's Gambit Accepted", "d4 d5 c4 dxc4 Nf3 Nf6"],
+  ["D24", "Queen's Gambit Accepted: Showalter Variation", "d4 d5 c4 dxc4 Nf3 Nf6 Nc3"],
+  ["D25", "Queen's Gambit Accepted: Normal Variation", "d4 d5 c4 dxc4 Nf3 Nf6 e3"],
+  ["D26", "Queen's Gambit Accepted: Classical Defense", "d4 d5 c4 dxc4 Nf3 Nf6 e3 e6"],
+  ["D27", "Queen's Gambit Accepted: Classical Defense", "d4 d5 c4 dxc4 Nf3 Nf6 e3 e6 Bxc4 c5 O-O a6"],
+  ["D30", "Queen's Gambit Declined", "d4 d5 c4 e6"],
+  ["D30", "Queen's Gambit Declined: Tarrasch Defense, Pseudo-Tarrasch", "d4 d5 c4 e6 Nf3 c5"],
+  ["D30", "Queen's Gambit Declined", "d4 d5 c4 e6 Nf3 Nf6"],
+  ["D30", "Queen's Gambit Declined: Capablanca Variation", "d4 d5 c4 e6 Nf3 Nf6 Bg5"],
+  ["D30", "Queen's Gambit Declined: Vienna Variation", "d4 d5 c4 e6 Nf3 Nf6 Bg5 Bb4+"],
+  ["D31", "Queen's Gambit Declined: Queen's Knight Variation", "d4 d5 c4 e6 Nc3"],
+  ["D31", "Queen's Gambit Declined: Alatortsev Variation", "d4 d5 c4 e6 Nc3 Be7"],
+  ["D31", "Semi-Slav Defense: Marshall Gambit", "d4 d5 c4 e6 Nc3 c6 e4"],
+  ["D31", "Semi-Slav Defense: Accelerated Move Order", "d4 d5 c4 e6 Nc3 c6"],
+  ["D31", "Queen's Gambit Declined: Charousek (Petrosian) Variation", "d4 d5 c4 e6 Nc3 Be7 cxd5 exd5 Bf4"],
+  ["D32", "Tarrasch Defense", "d4 d5 c4 e6 Nc3 c5"],
+  ["D32", "Tarrasch Defense: Two Knights Variation", "d4 d5 c4 e6 Nc3 c5 cxd5 exd5 Nf3 Nc6"],
+  ["D32", "Tarrasch Defense: Schara Gambit", "d4 d5 c4 e6 Nc3 c5 cxd5 cxd4"],
+  ["D33", "Tarrasch Defense: Prague Variation", "d4 d5 c4 e6 Nc3 c5 cxd5 exd5 Nf3 Nc6 g3 Nf6"],
+  ["D34", "Tarrasch Defense: Prague Variation, Main Line", "d4 d5 c4 e6 Nc3 c5 cxd5 exd5 Nf3 Nc6 g3 Nf6 Bg2 Be7 O-O O-O"],
+  ["D35", "Queen's Gambit Declined: Normal Defense", "d4 d5 c4 e6 Nc3 Nf6"],
+  ["D35", "Queen's Gambit Declined: Exchange Variation", "d4 d5 c4 e6 Nc3 Nf6 cxd5"],
+  ["D35", "Queen's Gambit Declined: Exchange Variation, Positional Variation", "d4 d5 c4 e6 Nc3 Nf6 cxd5 exd5 Bg5"],
+  ["D36", "Queen's Gambit Declined: Exchange Variation, Reshevsky Variation", "d4 d5 c4 e6 Nc3 Nf6 cxd5 exd5 Bg5 c6 Qc2"],
+  ["D37", "Queen's Gambit Declined: Three Knights Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3"],
+  ["D37", "Queen's Gambit Declined: Harrwitz Attack", "d4 d5 c4 e6 Nc3 Nf6 Nf3 Be7 Bf4"],
+  ["D38", "Queen's Gambit Declined: Ragozin Defense", "d4 d5 c4 e6 Nc3 Nf6 Nf3 Bb4"],
+  ["D39", "Queen's Gambit Declined: Ragozin Defense, Vienna Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 Bb4 Bg5 dxc4"],
+  ["D40", "Queen's Gambit Declined: Semi-Tarrasch Defense", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c5"],
+  ["D41", "Queen's Gambit Declined: Semi-Tarrasch Defense, Exchange Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c5 cxd5 Nxd5 e4"],
+  ["D43", "Semi-Slav Defense", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6"],
+  ["D43", "Semi-Slav Defense: Moscow Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 Bg5 h6"],
+  ["D44", "Semi-Slav Defense: Botvinnik System", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 Bg5 dxc4"],
+  ["D44", "Semi-Slav Defense: Anti-Moscow Gambit", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 Bg5 h6 Bh4 dxc4 e4"],
+  ["D45", "Semi-Slav Defense: Normal Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3"],
+  ["D45", "Semi-Slav Defense: Stoltz Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Qc2"],
+  ["D45", "Semi-Slav Defense: Accelerated Meran Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 a6"],
+  ["D46", "Semi-Slav Defense: Main Line", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Bd3"],
+  ["D46", "Semi-Slav Defense: Chigorin Defense", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Bd3 Bd6"],
+  ["D47", "Semi-Slav Defense: Meran Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Bd3 dxc4 Bxc4 b5"],
+  ["D48", "Semi-Slav Defense: Meran Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Bd3 dxc4 Bxc4 b5 Bd3 a6"],
+  ["D49", "Semi-Slav Defense: Meran Variation, Blumenfeld Variation", "d4 d5 c4 e6 Nc3 Nf6 Nf3 c6 e3 Nbd7 Bd3 dxc4 Bxc4 b5 Bd3 a6 e4 c5 e5 cxd4 Nxb5"],
+  ["D50", "Queen's Gambit Declined: Modern Variation", "d4 d5 c4 e6 Nc3 Nf6 Bg5"],
+  ["D51", "Queen's Gambit Declined: Modern Variation, Knight Defense", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Nbd7"],
+  ["D51", "Queen's Gambit Declined: Rochlin Variation", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Nbd7 Nf3 c6 Rc1 Qa5 Bd2"],
+  ["D52", "Queen's Gambit Declined: Cambridge Springs Defense", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Nbd7 e3 c6 Nf3 Qa5"],
+  ["D53", "Queen's Gambit Declined", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7"],
+  ["D55", "Queen's Gambit Declined: Neo-Orthodox Variation", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6"],
+  ["D56", "Queen's Gambit Declined: Lasker Defense", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6 Bh4 Ne4"],
+  ["D58", "Queen's Gambit Declined: Tartakower Defense", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6 Bh4 b6"],
+  ["D60", "Queen's Gambit Declined: Orthodox Defense", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 Nbd7"],
+  ["D61", "Queen's Gambit Declined: Orthodox Defense, Rubinstein Variation", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 Nbd7 Qc2"],
+  ["D63", "Queen's Gambit Declined: Orthodox Defense, Main Line", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 Nbd7 Rc1"],
+  ["D66", "Queen's Gambit Declined: Orthodox Defense, Bd3 Line", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 Nbd7 Rc1 c6 Bd3"],
+  ["D67", "Queen's Gambit Declined: Orthodox Defense, Bd3 Line, Capablanca Freeing Maneuver", "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 Nbd7 Rc1 c6 Bd3 dxc4 Bxc4 Nd5"],
+
+  // D70-D99: Grünfeld Defense
+  ["D70", "Neo-Grünfeld Defense", "d4 Nf6 c4 g6 f3 d5"],
+  ["D70", "Grünfeld Defense", "d4 Nf6 c4 g6 Nc3 d5"],
+  ["D71", "Neo-Grünfeld Defense: Exchange Variation", "d4 Nf6 c4 g6 g3 d5 cxd5 Nxd5"],
+  ["D76", "Neo-Grünfeld Defense: Classical Variation", "d4 Nf6 c4 g6 g3 d5 Bg2 Bg7 Nf3 O-O"],
+  ["D80", "Grünfeld Defense: Stockholm Variation", "d4 Nf6 c4 g6 Nc3 d5 Bg5"],
+  ["D81", "Grünfeld Defense: Russian Variation, Accelerated Variation", "d4 Nf6 c4 g6 Nc3 d5 Qb3"],
+  ["D82", "Grünfeld Defense: Brinckmann Attack", "d4 Nf6 c4 g6 Nc3 d5 Bf4"],
+  ["D83", "Grünfeld Defense: Brinckmann Attack, Grünfeld Gambit", "d4 Nf6 c4 g6 Nc3 d5 Bf4 Bg7 e3 O-O"],
+  ["D85", "Grünfeld Defense: Exchange Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5"],
+  ["D85", "Grünfeld Defense: Exchange Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7"],
+  ["D85", "Grünfeld Defense: Exchange Variation, Modern Exchange Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7 Nf3"],
+  ["D86", "Grünfeld Defense: Exchange Variation, Classical Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7 Bc4"],
+  ["D87", "Grünfeld Defense: Exchange Variation, Spassky Variation", "d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3 Bg7 Bc4 O-O Ne2 c5"],
+  ["D90", "Grünfeld Defense: Three Knights Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3"],
+  ["D91", "Grünfeld Defense: Three Knights Variation, Petrosian System", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Bg5"],
+  ["D92", "Grünfeld Defense: Three Knights Variation, Hungarian Attack", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Bf4"],
+  ["D94", "Grünfeld Defense: Three Knights Variation, Paris Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 e3"],
+  ["D96", "Grünfeld Defense: Russian Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Qb3"],
+  ["D97", "Grünfeld Defense: Russian Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Qb3 dxc4 Qxc4 O-O"],
+  ["D97", "Grünfeld Defense: Russian Variation, Hungarian Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Qb3 dxc4 Qxc4 O-O e4 a6"],
+  ["D98", "Grünfeld Defense: Russian Variation, Smyslov Variation", "d4 Nf6 c4 g6 Nc3 d5 Nf3 Bg7 Qb3 dxc4 Qxc4 O-O e4 Bg4"],
+
+  // E00-E59: Catalan, Bogo-Indian, Queen's Indian, Nimzo-Indian
+  ["E00", "Indian Defense: East Indian Defense", "d4 Nf6 c4 e6"],
+  ["E00", "Indian Defense: Seirawan Attack", "d4 Nf6 c4 e6 Bg5"],
+  ["E00", "Catalan Opening", "d4 Nf6 c4 e6 g3"],
+  ["E01", "Catalan Opening: Closed", "d4 Nf6 c4 e6 g3 d5 Bg2"],
+  ["E02", "Catalan Opening: Open Defense", "d4 Nf6 c4 e6 g3 d5 Bg2 dxc4"],
+  ["E04", "Catalan Opening: Open Defense", "d4 Nf6 c4 e6 g3 d5 Bg2 dxc4 Nf3"],
+  ["E05", "Catalan Opening: Open Defense, Classical Line", "d4 Nf6 c4 e6 g3 d5 Bg2 dxc4 Nf3 Be7"],
+  ["E06", "Catalan Opening: Closed Variation", "d4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3"],
+  ["E07", "Catalan Opening: Closed", "d4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3 O-O O-O Nbd7"],
+  ["E08", "Catalan Opening: Closed", "d4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3 O-O O-O Nbd7 Qc2"],
+  ["E09", "Catalan Opening: Closed, Main Line", "d4 Nf6 c4 e6 g3 d5 Bg2 Be7 Nf3 O-O O-O Nbd7 Qc2 c6 Nbd2"],
+  ["E10", "Indian Defense: Anti-Nimzo-Indian", "d4 Nf6 c4 e6 Nf3"],
+  ["E10", "Blumenfeld Countergambit", "d4 Nf6 c4 e6 Nf3 c5 d5 b5"],
+  ["E10", "Indian Defense: Dzindzi-Indian Defense", "d4 Nf6 c4 e6 Nf3 a6"],
+  ["E11", "Bogo-Indian Defense", "d4 Nf6 c4 e6 Nf3 Bb4+"],
+  ["E11", "Bogo-Indian Defense: Grünfeld Variation", "d4 Nf6 c4 e6 Nf3 Bb4+ Nbd2"],
+  ["E11", "Bogo-Indian Defense: Exchange Variation", "d4 Nf6 c4 e6 Nf3 Bb4+ Bd2 Bxd2+"],
+  ["E11", "Bogo-Indian Defense: Nimzowitsch Variation", "d4 Nf6 c4 e6 Nf3 Bb4+ Bd2 Qe7"],
+  ["E12", "Queen's Indian Defense", "d4 Nf6 c4 e6 Nf3 b6"],
+  ["E12", "Queen's Indian Defense: Petrosian Variation", "d4 Nf6 c4 e6 Nf3 b6 a3"],
+  ["E12", "Queen's Indian Defense: Miles Variation", "d4 Nf6 c4 e6 Nf3 b6 Bf4"],
+  ["E12", "Queen's Indian Defense: Kasparov Variation", "d4 Nf6 c4 e6 Nf3 b6 Nc3"],
+  ["E14", "Queen's Indian Defense: Spassky System", "d4 Nf6 c4 e6 Nf3 b6 e3"],
+  ["E15", "Queen's Indian Defense: Fianchetto Variation", "d4 Nf6 c4 e6 Nf3 b6 g3"],
+  ["E15", "Queen's Indian Defense: Fianchetto Variation, Nimzowitsch Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Ba6"],
+  ["E15", "Queen's Indian Defense: Fianchetto Variation, Check Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Ba6 b3 Bb4+"],
+  ["E16", "Queen's Indian Defense: Capablanca Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Bb7 Bg2 Bb4+"],
+  ["E17", "Queen's Indian Defense: Fianchetto Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Bb7 Bg2 Be7"],
+  ["E18", "Queen's Indian Defense: Classical Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Bb7 Bg2 Be7 O-O O-O Nc3"],
+  ["E19", "Queen's Indian Defense: Classical Variation, Traditional Variation", "d4 Nf6 c4 e6 Nf3 b6 g3 Bb7 Bg2 Be7 O-O O-O Nc3 Ne4 Qc2"],
+  ["E20", "Nimzo-Indian Defense", "d4 Nf6 c4 e6 Nc3 Bb4"],
+  ["E20", "Nimzo-Indian Defense: Kmoch Variation", "d4 Nf6 c4 e6 Nc3 Bb4 f3"],
+  ["E20", "Nimzo-Indian Defense: Romanishin Variation", "d4 Nf6 c4 e6 Nc3 Bb4 g3"],
+  ["E21", "Nimzo-Indian Defense: Three Knights Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Nf3"],
+  ["E21", "Nimzo-Indian Defense: Three Knights Variation, Korchnoi Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Nf3 c5 d5"],
+  ["E22", "Nimzo-Indian Defense: Spielmann Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qb3"],
+  ["E24", "Nimzo-Indian Defense: Sämisch Variation", "d4 Nf6 c4 e6 Nc3 Bb4 a3"],
+  ["E24", "Nimzo-Indian Defense: Sämisch Variation, Accelerated", "d4 Nf6 c4 e6 Nc3 Bb4 a3 Bxc3+ bxc3"],
+  ["E30", "Nimzo-Indian Defense: Leningrad Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Bg5"],
+  ["E32", "Nimzo-Indian Defense: Classical Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2"],
+  ["E32", "Nimzo-Indian Defense: Classical Variation, Keres Defense", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 b6"],
+  ["E32", "Nimzo-Indian Defense: Classical Variation, Vitolinš-Adorjan Gambit", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 O-O a3 Bxc3+ Qxc3 b5"],
+  ["E33", "Nimzo-Indian Defense: Classical Variation, Zurich Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 Nc6"],
+  ["E34", "Nimzo-Indian Defense: Classical Variation, Noa Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 d5"],
+  ["E35", "Nimzo-Indian Defense: Classical Variation, Noa Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 d5 cxd5 exd5"],
+  ["E38", "Nimzo-Indian Defense: Classical Variation, Berlin Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 c5"],
+  ["E39", "Nimzo-Indian Defense: Classical Variation, Berlin Variation, Pirc Variation", "d4 Nf6 c4 e6 Nc3 Bb4 Qc2 c5 dxc5 O-O"],
+  ["E40", "Nimzo-Indian Defense: Normal Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3"],
+  ["E41", "Nimzo-Indian Defense: Hübner Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 c5 Bd3 Nc6 Nf3 Bxc3+ bxc3 d6"],
+  ["E41", "Nimzo-Indian Defense: e3", "d4 Nf6 c4 e6 Nc3 Bb4 e3 c5"],
+  ["E42", "Nimzo-Indian Defense: Hübner Variation, Rubinstein Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 c5 Ne2"],
+  ["E43", "Nimzo-Indian Defense: St. Petersburg Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 b6"],
+  ["E44", "Nimzo-Indian Defense: Fischer Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 b6 Ne2"],
+  ["E46", "Nimzo-Indian Defense: Normal Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O"],
+  ["E46", "Nimzo-Indian Defense: Reshevsky Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Ne2"],
+  ["E47", "Nimzo-Indian Defense: Normal Variation, Bishop Attack", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3"],
+  ["E48", "Nimzo-Indian Defense: Normal Variation, Bishop Attack, Classical Defense", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5"],
+  ["E51", "Nimzo-Indian Defense: Normal Variation, Ragozin Variation", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Nf3 d5"],
+  ["E53", "Nimzo-Indian Defense: Normal Variation, Gligorić System", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5 Nf3 c5 O-O"],
+  ["E54", "Nimzo-Indian Defense: Normal Variation, Gligorić System, Exchange at c4", "d4 Nf6 c4 e6 Nc3 Bb4 e3 O-O Bd3 d5 Nf3 c5 O-O dxc4 Bxc4"],
+
+  // E60-E99: King's Indian Defense
+  ["E60", "Indian Defense: West Indian Defense", "d4 Nf6 c4 g6"],
+  ["E60", "King's Indian Defense: Fianchetto Variation", "d4 Nf6 c4 g6 g3"],
+  ["E60", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nf3 Bg7"],
+  ["E61", "King's Indian Defense", "d4 Nf6 c4 g6 Nc3 Bg7"],
+  ["E61", "King's Indian Defense: Smyslov Variation", "d4 Nf6 c4 g6 Nc3 Bg7 Nf3 d6 Bg5"],
+  ["E62", "King's Indian Defense: Fianchetto Variation", "d4 Nf6 c4 g6 Nc3 Bg7 Nf3 d6 g3"],
+  ["E62", "King's Indian Defense: Fianchetto Variation, Panno Variation", "d4 Nf6 c4 g6 Nc3 Bg7 Nf3 d6 g3 O-O Bg2 Nc6 O-O a6"],
+  ["E64", "King's Indian Defense: Fianchetto Variation, Yugoslav Variation", "d4 Nf6 c4 g6 Nc3 Bg7 Nf3 d6 g3 O-O Bg2 c5"],
+  ["E67", "King's Indian Defense: Fianchetto Variation, Classical Fianchetto", "d4 Nf6 c4 g6 Nc3 Bg7 Nf3 d6 g3 O-O Bg2 Nbd7 O-O e5"],
+  ["E70", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4"],
+  ["E70", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6"],
+  ["E71", "King's Indian Defense: Makogonov Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 h3"],
+  ["E72", "King's Indian Defense: Normal Variation, Deferred Fianchetto", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 g3"],
+  ["E73", "King's Indian Defense: Averbakh Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Be2 O-O Bg5"],
+  ["E73", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Be2"],
+  ["E76", "King's Indian Defense: Four Pawns Attack", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4"],
+  ["E76", "King's Indian Defense: Four Pawns Attack, Dynamic Attack", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4 O-O Nf3 c5 d5"],
+  ["E80", "King's Indian Defense: Sämisch Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3"],
+  ["E81", "King's Indian Defense: Sämisch Variation, Normal Defense", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O"],
+  ["E81", "King's Indian Defense: Sämisch Variation, Bobotsov-Korchnoi-Petrosian Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O Nge2"],
+  ["E83", "King's Indian Defense: Sämisch Variation, Panno Formation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O Be3 Nc6"],
+  ["E84", "King's Indian Defense: Sämisch Variation, Panno Main Line", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O Be3 Nc6 Nge2 a6 Qd2 Rb8"],
+  ["E85", "King's Indian Defense: Sämisch Variation, Orthodox Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O Be3 e5"],
+  ["E87", "King's Indian Defense: Sämisch Variation, Closed Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3 O-O Be3 e5 d5"],
+  ["E90", "King's Indian Defense: Normal Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3"],
+  ["E90", "King's Indian Defense: Zinnowitz Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Bg5"],
+  ["E91", "King's Indian Defense: Kazakh Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 Na6"],
+  ["E91", "King's Indian Defense: Orthodox Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2"],
+  ["E92", "King's Indian Defense: Orthodox Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5"],
+  ["E92", "King's Indian Defense: Exchange Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 dxe5"],
+  ["E92", "King's Indian Defense: Petrosian Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 d5"],
+  ["E92", "King's Indian Defense: Gligorić-Taimanov System", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 Be3"],
+  ["E94", "King's Indian Defense: Orthodox Variation", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O"],
+  ["E94", "King's Indian Defense: Orthodox Variation, Glek Defense", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Na6"],
+  ["E95", "King's Indian Defense: Orthodox Variation, Classical System", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nbd7 Re1"],
+  ["E97", "King's Indian Defense: Orthodox Variation, Classical System", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6"],
+  ["E97", "King's Indian Defense: Orthodox Variation, Bayonet Attack", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7 b4"],
+  ["E98", "King's Indian Defense: Orthodox Variation, Classical System, Main Line", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7 Ne1"],
+  ["E99", "King's Indian Defense: Orthodox Variation, Classical System, Benko Attack", "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7 Ne1 Nd7 f3 f5 g4"],
+];
@@ -0,0 +1,104 @@
+/**
+ * Display labels for the enum-like fields of an analysis
+ * Keys are the English values stored in the database (phase names, puzzle
+ * difficulties and themes); each maps to its label per non-English language.
+ * Themes not listed here are shown with their English key.
+ */
+export type LabelTranslations = Readonly<
+  Record<string, Readonly<{ es: string; de: string; hi: string }>>
+>;
+
+export const PHASE_LABELS: LabelTranslations = {
+  Opening: { es: "Apertura", de: "Eröffnung", hi: "ओपनिंग" },
+  Middlegame: { es: "Medio juego", de: "Mittelspiel", hi: "मिडिलगेम" },
+  Endgame: { es: "Final", de: "Endspiel", hi: "एंडगेम" },
+};
+
+export const DIFFICULTY_LABELS: LabelTranslations = {
+  easy: { es: "Fácil", de: "Leicht", hi: "आसान" },
+  medium: { es: "Media", de: "Mittel", hi: "मध्यम" },
+  hard: { es: "Difícil", de: "Schwer", hi: "कठिन" },
+};
+
+export const THEME_LABELS: LabelTranslations = {
+  Fork: { es: "Horquilla", de: "Gabel", hi: "फ़ोर्क" },
+  Pin: { es: "Clavada", de: "Fesselung", hi: "पिन" },
+  Skewer: { es: "Enfilada", de: "Spieß", hi: "स्क्यूअर" },
+  "Discovered Attack": {
+    es: "Ataque a la descubierta",
+    de: "Abzugsangriff",
+    hi: "डिस्कवर्ड अटैक",
+  },
+  "Double Attack": {
+    es: "Ataque doble",
+    de: "Doppelangriff",
+    hi: "दोहरा हमला",
+  },
+  "Back Rank Mate": {
+    es: "Mate del pasillo",
+    de: "Grundreihenmatt",
+    hi: "बैक रैंक मेट",
+  },
+  "Mating Attack": {
+    es: "Ataque de mate",
+    de: "Mattangriff",
+    hi: "मात का हमला",
+  },
+  Deflection: { es: "Desviación", de: "Ablenkung", hi: "डिफ्लेक्शन" },
+  Decoy: { es: "Atracción", de: "Hinlenkung", hi: "डिकॉय" },
+  "Removing the Defender": {
+    es: "Eliminación del defensor",
+    de: "Beseitigung des Verteidigers",
+    hi: "रक्षक को हटाना",
+  },
+  Zwischenzug: {
+    es: "Jugada intermedia",
+    de: "Zwischenzug",
+    hi: "ज़्विशेनत्सुग",
+  },
+  Sacrifice: { es: "Sacrificio", de: "Opfer", hi: "बलिदान" },
+  "Hanging Piece": {
+    es: "Pieza colgada",
+    de: "Ungedeckte Figur",
+    hi: "असुरक्षित मोहरा",
+  },
+  "Trapped Piece": {
+    es: "Pieza atrapada",
+    de: "Gefangene Figur",
+    hi: "फँसा हुआ मोहरा",
+  },
+  Promotion: { es: "Promoción", de: "Umwandlung", hi: "प्रमोशन" },
+  "Endgame Technique": {
+    es: "Técnica de finales",
+    de: "Endspieltechnik",
+    hi: "एंडगेम तकनीक",
+  },
+  Tactics: { es: "Táctica", de: "Taktik", hi: "टैक्टिक्स" },
+  Positional: {
+    es: "Juego posicional",
+    de: "Positionsspiel",
+    hi: "पोज़िशनल खेल",
+  },
+  "King Safety": {
+    es: "Seguridad del rey",
+    de: "Königssicherheit",
+    hi: "राजा की सुरक्षा",
+  },
+  "Pawn Structure": {
+    es: "Estructura de peones",
+    de: "Bauernstruktur",
+    hi: "प्यादा संरचना",
+  },
+  "Opening Principles": {
+    es: "Principios de apertura",
+    de: "Eröffnungsprinzipien",
+    hi: "ओपनिंग के सिद्धांत",
+  },
+  Calculation: { es: "Cálculo", de: "Berechnung", hi: "गणना" },
+  Defense: { es: "Defensa", de: "Verteidigung", hi: "बचाव" },
+  "Game Review": {
+    es: "Repaso de la partida",
+    de: "Partieanalyse",
+    hi: "खेल की समीक्षा",
+  },
+};
@@ -1,10 +1,28 @@
 export { default as analysisRoutes } from "./routes/analysis.routes";
 export { Analysis } from "./models/analysis.model";
 export { Puzzle } from "./models/puzzle.model";
+export { AnalysisCache } from "./models/analysis-cache.model";
+export { QueueJob } from "./models/queue-job.model";
+export { DeadLetter } from "./models/dead-letter.model";
 export { analysisService } from "./services/analysis.service";
 export { gcsService } from "./services/gcs.service";
 export { pgnParserService } from "./services/pgn-parser.service";
+export { chessService } from "./services/chess.service";
+export { ecoService } from "./services/eco.service";
+export { engineService } from "./services/engine.service";
 export { geminiService } from "./services/gemini.service";
+export { analysisProviderService } from "./services/analysis-provider.service";
+export { analysisCacheService } from "./services/analysis-cache.service";
+export { promptTemplateService } from "./services/prompt-template.service";
+export { analysisDepthService } from "./services/analysis-depth.service";
+export { localizationService } from "./services/localization.service";
+export { usageService } from "./services/usage.service";
 export { workerService } from "./services/worker.service";
+export { mongoQueueService } from "./services/mongo-queue.service";
+export { reaperService } from "./services/reaper.service";
+export { retryPolicyService } from "./services/retry-policy.service";
+export { deadLetterService } from "./services/dead-letter.service";
+export { schedulerService } from "./services/scheduler.service";
+export { workerAuthService } from "./services/worker-auth.service";
 export { puzzleService } from "./services/puzzle.service";
 export * from "./types";
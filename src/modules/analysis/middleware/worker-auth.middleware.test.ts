@@ -0,0 +1,288 @@
+import { generateKeyPairSync } from "crypto";
+import jwt from "jsonwebtoken";
+import { OAuth2Client } from "google-auth-library";
+import { Response, NextFunction } from "express";
+import { requireWorkerAuth, WorkerRequest } from "./worker-auth.middleware";
+import {
+  getWorkerAuthConfig,
+  signWorkerRequest,
+} from "../services/worker-auth.service";
+import { logger } from "../../../shared/utils/logger";
+
+// Only the backend name is needed, not the queues and the analysis pipeline
+jest.mock("../services/queue.service", () => ({
+  getQueueBackend: () => process.env.QUEUE_BACKEND || "cloud-tasks",
+}));
+
+const AUDIENCE = "https://chessvine.example.run.app/worker/process";
+const SERVICE_ACCOUNT = "tasks-invoker@chessvine.iam.gserviceaccount.com";
+const HMAC_SECRET = "test-worker-secret";
+const KEY_ID = "test-key";
+
+// Stands in for Google's signing key; its certificate is served to the client
+const googleKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const otherKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function signIdToken(
+  claims: Record<string, unknown> = {},
+  key = googleKey.privateKey,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  return jwt.sign(
+    {
+      iss: "https://accounts.google.com",
+      aud: AUDIENCE,
+      sub: "1234567890",
+      email: SERVICE_ACCOUNT,
+      email_verified: true,
+      iat: now,
+      exp: now + 3600,
+      ...claims,
+    },
+    key.export({ type: "pkcs1", format: "pem" }),
+    { algorithm: "RS256", keyid: KEY_ID },
+  );
+}
+
+function buildRequest(
+  headers: Record<string, string>,
+  rawBody?: Buffer,
+): WorkerRequest {
+  const lowered = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+  return {
+    headers: lowered,
+    header: (name: string) => lowered[name.toLowerCase()],
+    rawBody,
+  } as unknown as WorkerRequest;
+}
+
+async function run(req: WorkerRequest) {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = jest.fn();
+  await requireWorkerAuth(
+    req,
+    res as unknown as Response,
+    next as unknown as NextFunction,
+  );
+  return { res, next };
+}
+
+const ENV_KEYS = [
+  "QUEUE_BACKEND",
+  "USE_MOCK_QUEUE",
+  "GCP_CLOUD_RUN_URL",
+  "WORKER_AUTH_MODE",
+  "WORKER_OIDC_AUDIENCE",
+  "WORKER_OIDC_SERVICE_ACCOUNT",
+  "WORKER_HMAC_SECRET",
+];
+const savedEnv = { ...process.env };
+
+beforeAll(() => {
+  logger.silent = true;
+  jest
+    .spyOn(OAuth2Client.prototype, "getFederatedSignonCertsAsync")
+    .mockResolvedValue({
+      certs: {
+        [KEY_ID]: googleKey.publicKey.export({
+          type: "spki",
+          format: "pem",
+        }) as string,
+      },
+      format: "PEM",
+    } as unknown as Awaited<
+      ReturnType<OAuth2Client["getFederatedSignonCertsAsync"]>
+    >);
+});
+
+afterAll(() => {
+  logger.silent = false;
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe("requireWorkerAuth (oidc)", () => {
+  beforeEach(() => {
+    process.env.QUEUE_BACKEND = "cloud-tasks";
+    process.env.WORKER_OIDC_AUDIENCE = AUDIENCE;
+    process.env.WORKER_OIDC_SERVICE_ACCOUNT = SERVICE_ACCOUNT;
+  });
+
+  it("accepts a token of the service account for the audience", async () => {
+    const { res, next } = await run(
+      buildRequest({ Authorization: `Bearer ${signIdToken()}` }),
+    );
+    expect(next).toHaveBeenCalledWith();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("derives the audience from GCP_CLOUD_RUN_URL", async () => {
+    delete process.env.WORKER_OIDC_AUDIENCE;
+    process.env.GCP_CLOUD_RUN_URL = "https://chessvine.example.run.app";
+    const { next } = await run(
+      buildRequest({ Authorization: `Bearer ${signIdToken()}` }),
+    );
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it.each([
+    ["no Authorization header", {}],
+    ["a non-Bearer Authorization header", { Authorization: "Basic abc" }],
+    ["a malformed token", { Authorization: "Bearer not-a-jwt" }],
+  ])("rejects %s", async (_case, headers: Record<string, string>) => {
+    const { res, next } = await run(buildRequest(headers));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it.each([
+    ["another audience", { aud: "https://elsewhere.example.com" }],
+    ["another service account", { email: "someone@example.com" }],
+    ["an unverified email", { email_verified: false }],
+    ["another issuer", { iss: "https://issuer.example.com" }],
+    [
+      "an expiry in the past",
+      {
+        iat: Math.floor(Date.now() / 1000) - 7200,
+        exp: Math.floor(Date.now() / 1000) - 3600,
+      },
+    ],
+  ])("rejects a token with %s", async (_case, claims) => {
+    const { res, next } = await run(
+      buildRequest({ Authorization: `Bearer ${signIdToken(claims)}` }),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a token not signed by Google", async () => {
+    const token = signIdToken({}, otherKey.privateKey);
+    const { res, next } = await run(
+      buildRequest({ Authorization: `Bearer ${token}` }),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("refuses every request when the service account is not configured", async () => {
+    delete process.env.WORKER_OIDC_SERVICE_ACCOUNT;
+    const { res, next } = await run(
+      buildRequest({ Authorization: `Bearer ${signIdToken()}` }),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(500);
+  });
+});
+
+describe("requireWorkerAuth (hmac)", () => {
+  const body = Buffer.from(JSON.stringify({ analysis_id: "analysis-1" }));
+
+  beforeEach(() => {
+    process.env.QUEUE_BACKEND = "mock";
+    process.env.WORKER_HMAC_SECRET = HMAC_SECRET;
+  });
+
+  function signedHeaders(
+    payload: Buffer = body,
+    secret = HMAC_SECRET,
+    timestamp?: number,
+  ): Record<string, string> {
+    const { timestamp: signedAt, signature } = signWorkerRequest(
+      payload,
+      secret,
+      timestamp,
+    );
+    return { "X-Worker-Timestamp": signedAt, "X-Worker-Signature": signature };
+  }
+
+  it("accepts a request signed with the shared secret", async () => {
+    const { res, next } = await run(buildRequest(signedHeaders(), body));
+    expect(next).toHaveBeenCalledWith();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("rejects a request without a signature", async () => {
+    const { res, next } = await run(buildRequest({}, body));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a request whose body was changed after signing", async () => {
+    const tampered = Buffer.from(JSON.stringify({ analysis_id: "analysis-2" }));
+    const { res, next } = await run(buildRequest(signedHeaders(), tampered));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a request signed with another secret", async () => {
+    const { res, next } = await run(
+      buildRequest(signedHeaders(body, "another-secret"), body),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a replayed request with an old timestamp", async () => {
+    const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+    const { res, next } = await run(
+      buildRequest(signedHeaders(body, HMAC_SECRET, tenMinutesAgo), body),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a bearer token instead of a signature", async () => {
+    const { res, next } = await run(
+      buildRequest({ Authorization: `Bearer ${signIdToken()}` }, body),
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("refuses every request when no secret is configured", async () => {
+    delete process.env.WORKER_HMAC_SECRET;
+    const { res, next } = await run(buildRequest(signedHeaders(), body));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(500);
+  });
+});
+
+describe("requireWorkerAuth (configuration)", () => {
+  it("passes an unknown WORKER_AUTH_MODE on as an error", async () => {
+    process.env.WORKER_AUTH_MODE = "none";
+    const { next } = await run(buildRequest({}));
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it("refuses WORKER_AUTH_MODE=hmac with the Cloud Tasks backend", async () => {
+    process.env.QUEUE_BACKEND = "cloud-tasks";
+    process.env.WORKER_AUTH_MODE = "hmac";
+    process.env.WORKER_HMAC_SECRET = HMAC_SECRET;
+    expect(() => getWorkerAuthConfig()).toThrow(/cloud-tasks/);
+    const { next } = await run(buildRequest({}));
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
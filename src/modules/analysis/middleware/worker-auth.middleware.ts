@@ -0,0 +1,84 @@
+import { IncomingMessage } from "http";
+import { Request, Response, NextFunction } from "express";
+import {
+  WorkerAuthError,
+  workerAuthService,
+} from "../services/worker-auth.service";
+import { logger } from "../../../shared/utils/logger";
+
+export interface WorkerRequest extends Request {
+  rawBody?: Buffer; // Exact bytes the HMAC signature covers
+}
+
+/**
+ * body-parser verify hook keeping the raw body for HMAC verification
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as WorkerRequest).rawBody = buf;
+}
+
+/**
+ * Middleware to only let the job queue call the worker
+ * oidc: a Google-signed OIDC token of the configured service account for the
+ * configured audience, as Cloud Tasks sends it. hmac: a signature of the raw
+ * body made with WORKER_HMAC_SECRET (see signWorkerRequest).
+ */
+export async function requireWorkerAuth(
+  req: WorkerRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  let config;
+  try {
+    config = workerAuthService.getWorkerAuthConfig();
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  // Fail closed: without credentials to check against, nothing gets in
+  const missing =
+    config.mode === "oidc"
+      ? !config.serviceAccount || !config.audience
+      : !config.secret;
+  if (missing) {
+    logger.error(
+      config.mode === "oidc"
+        ? "Worker authentication needs WORKER_OIDC_SERVICE_ACCOUNT and WORKER_OIDC_AUDIENCE (or GCP_CLOUD_RUN_URL)"
+        : "Worker authentication needs WORKER_HMAC_SECRET",
+    );
+    res.status(500).json({
+      success: false,
+      error: { message: "Worker authentication is not configured" },
+    });
+    return;
+  }
+
+  try {
+    if (config.mode === "oidc") {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        throw new WorkerAuthError("No token provided");
+      }
+      await workerAuthService.verifyOidcToken(authHeader.split(" ")[1], config);
+    } else {
+      workerAuthService.verifyHmacSignature(
+        req.rawBody || Buffer.alloc(0),
+        req.header("x-worker-timestamp"),
+        req.header("x-worker-signature"),
+        config.secret as string,
+      );
+    }
+    next();
+  } catch (error) {
+    if (!(error instanceof WorkerAuthError)) {
+      next(error);
+      return;
+    }
+    logger.warn(`Rejected worker request: ${error.message}`);
+    res.status(401).json({
+      success: false,
+      error: { message: error.message },
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { IAnalysisCacheEntry } from "../types";
+
+export interface IAnalysisCacheDocument extends IAnalysisCacheEntry, Document {}
+
+const AnalysisCacheSchema = new Schema<IAnalysisCacheDocument>(
+  {
+    cache_key: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    game_hash: {
+      type: String,
+      required: true,
+    },
+    player_color: {
+      type: String,
+      enum: ["white", "black"],
+      required: true,
+    },
+    analysis_depth: {
+      type: String,
+      enum: ["quick", "standard", "deep"],
+      required: true,
+    },
+    language: {
+      type: String,
+      enum: ["en", "es", "de", "hi"],
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    model_name: {
+      type: String,
+      required: true,
+    },
+    prompt_version: {
+      type: String,
+      required: true,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    puzzles: {
+      type: Schema.Types.Mixed,
+      default: [],
+    },
+    hits: {
+      type: Number,
+      default: 0,
+    },
+    last_hit_at: Date,
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  },
+);
+
+// Entries unused for 90 days are removed (hits refresh updated_at)
+AnalysisCacheSchema.index(
+  { updated_at: 1 },
+  { expireAfterSeconds: 90 * 86400 },
+);
+
+export const AnalysisCache = mongoose.model<IAnalysisCacheDocument>(
+  "AnalysisCache",
+  AnalysisCacheSchema,
+);
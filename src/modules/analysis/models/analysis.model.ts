@@ -19,6 +19,7 @@ const AnalysisSchema = new Schema<IAnalysisDocument>(
       required: true,
       index: true,
     },
+    guest_id: String, // Set for guests; the user_id is "guest" for all of them
     batch_id: {
       type: String,
       index: true,
@@ -35,6 +36,7 @@ const AnalysisSchema = new Schema<IAnalysisDocument>(
     },
     gcs_url: {
       type: String,
+      index: true, // Checked before an uploaded file is deleted
     },
     player_name: {
       type: String,
@@ -44,6 +46,16 @@ const AnalysisSchema = new Schema<IAnalysisDocument>(
       type: String,
       enum: ["white", "black"],
     },
+    analysis_depth: {
+      type: String,
+      enum: ["quick", "standard", "deep"],
+      default: "standard",
+    },
+    language: {
+      type: String,
+      enum: ["en", "es", "de", "hi"],
+      default: "en",
+    },
     metadata: {
       white: { type: String, default: "Unknown" },
       black: { type: String, default: "Unknown" },
@@ -52,12 +64,93 @@ const AnalysisSchema = new Schema<IAnalysisDocument>(
       date: String,
       eco: String,
       opening: String,
+      variation: String,
+      time_control: String,
+      variant: { type: String, default: "standard" },
+      start_fen: String,
+    },
+    move_tree: {
+      type: Schema.Types.Mixed,
+    },
+    positions: {
+      type: [
+        {
+          _id: false,
+          ply: Number,
+          move_number: Number,
+          side_to_move: { type: String, enum: ["white", "black"] },
+          fen: String,
+          san: String,
+          uci: String,
+          eval_cp: Number,
+          eval_mate: Number,
+          best_move: String,
+          best_move_san: String,
+          cp_loss: Number,
+          classification: {
+            type: String,
+            enum: ["best", "good", "inaccuracy", "mistake", "blunder"],
+          },
+        },
+      ],
+      default: undefined,
+    },
+    engine: {
+      type: Schema.Types.Mixed,
+    },
+    player_accuracy: {
+      type: Number,
+    },
+    parse_warnings: {
+      type: [String],
+      default: undefined,
+    },
+    game_hash: {
+      type: String,
+    },
+    cached: {
+      type: Boolean,
+    },
+    prompt_version: {
+      type: String,
+      index: true,
+    },
+    output_length: {
+      type: Number,
+    },
+    feedback: {
+      rating: { type: Number, min: 1, max: 5 },
+      comment: String,
+      created_at: Date,
+    },
+    usage: {
+      provider: String,
+      model_name: String,
+      prompt_tokens: Number,
+      completion_tokens: Number,
+      total_tokens: Number,
+      model_calls: Number,
+      latency_ms: Number,
+      estimated_cost_usd: Number,
     },
     result: {
       type: Schema.Types.Mixed,
       default: {},
     },
     error: String,
+    previous_attempts: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
+    requested_at: Date,
+    cancelled_at: Date,
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    last_heartbeat: Date,
+    retry_at: Date,
+    parked_at: Date,
     completed_at: Date,
   },
   {
@@ -65,6 +158,30 @@ const AnalysisSchema = new Schema<IAnalysisDocument>(
   },
 );
 
+// One analysis per game per user; only documents with a hash take part
+AnalysisSchema.index(
+  { user_id: 1, game_hash: 1 },
+  { unique: true, partialFilterExpression: { game_hash: { $type: "string" } } },
+);
+
+// Counting a user's analyses per depth for quotas
+AnalysisSchema.index({ user_id: 1, analysis_depth: 1, created_at: -1 });
+
+// Usage reports by day and user
+AnalysisSchema.index({ created_at: -1, user_id: 1 });
+
+// Finding analyses whose worker stopped sending heartbeats
+AnalysisSchema.index({ status: 1, last_heartbeat: 1 });
+
+// Parked analyses waiting for a free slot, oldest first
+AnalysisSchema.index(
+  { status: 1, parked_at: 1 },
+  { partialFilterExpression: { parked_at: { $exists: true } } },
+);
+
+// Sorting a user's analyses by accuracy
+AnalysisSchema.index({ user_id: 1, player_accuracy: -1 });
+
 export const Analysis = mongoose.model<IAnalysisDocument>(
   "Analysis",
   AnalysisSchema,
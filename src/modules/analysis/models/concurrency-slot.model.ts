@@ -0,0 +1,27 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { IConcurrencySlot } from "../types";
+
+export interface IConcurrencySlotDocument extends IConcurrencySlot, Document {}
+
+const ConcurrencySlotSchema = new Schema<IConcurrencySlotDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    holders: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  },
+);
+
+export const ConcurrencySlot = mongoose.model<IConcurrencySlotDocument>(
+  "ConcurrencySlot",
+  ConcurrencySlotSchema,
+);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { IDeadLetter } from "../types";
+
+export interface IDeadLetterDocument extends IDeadLetter, Document {}
+
+const DeadLetterSchema = new Schema<IDeadLetterDocument>(
+  {
+    dead_letter_id: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    analysis_id: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    user_id: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ["worker", "reaper", "queue"],
+      required: true,
+    },
+    error: {
+      type: String,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["OPEN", "REPLAYED"],
+      default: "OPEN",
+    },
+    replayed_at: Date,
+    replayed_by: String,
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  },
+);
+
+// Listing open dead letters, newest first
+DeadLetterSchema.index({ status: 1, created_at: -1 });
+
+export const DeadLetter = mongoose.model<IDeadLetterDocument>(
+  "DeadLetter",
+  DeadLetterSchema,
+);
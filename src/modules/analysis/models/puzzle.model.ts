@@ -1,8 +1,11 @@
 import mongoose, { Document, Schema } from "mongoose";
-import { ChessPuzzle } from "../types";
+import { AnalysisLanguage, ChessPuzzle } from "../types";
 
 export interface IPuzzle extends ChessPuzzle {
   puzzle_id: string;
+  language?: AnalysisLanguage; // Language of title, description and hint
+  difficulty_label?: string; // difficulty and theme in that language
+  theme_label?: string;
   user_id: mongoose.Types.ObjectId | string;
   analysis_id?: string; // Link to the analysis that generated this puzzle
   created_at: Date;
@@ -56,6 +59,16 @@ const PuzzleSchema = new Schema<IPuzzleDocument>(
       type: String,
       required: true,
     },
+    language: {
+      type: String,
+      enum: ["en", "es", "de", "hi"],
+    },
+    difficulty_label: {
+      type: String,
+    },
+    theme_label: {
+      type: String,
+    },
   },
   {
     timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
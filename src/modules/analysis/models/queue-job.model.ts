@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { IQueueJob, QueueJobStatus } from "../types";
+
+export interface IQueueJobDocument extends IQueueJob, Document {}
+
+const QueueJobSchema = new Schema<IQueueJobDocument>(
+  {
+    job_id: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    analysis_id: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    user_id: String,
+    status: {
+      type: String,
+      enum: Object.values(QueueJobStatus),
+      default: QueueJobStatus.QUEUED,
+    },
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    max_attempts: {
+      type: Number,
+      required: true,
+    },
+    available_at: {
+      type: Date,
+      required: true,
+    },
+    leased_until: Date,
+    lease_owner: String,
+    last_error: String,
+    finished_at: Date,
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  },
+);
+
+// Claiming the next job: highest priority first, then oldest
+QueueJobSchema.index({ status: 1, priority: -1, available_at: 1 });
+// Due jobs per user for fair scheduling
+QueueJobSchema.index({ status: 1, user_id: 1, priority: -1, available_at: 1 });
+// Reclaiming jobs whose lease ran out
+QueueJobSchema.index({ status: 1, leased_until: 1 });
+// Finished jobs are kept a week for inspection
+QueueJobSchema.index({ finished_at: 1 }, { expireAfterSeconds: 7 * 86400 });
+
+export const QueueJob = mongoose.model<IQueueJobDocument>(
+  "QueueJob",
+  QueueJobSchema,
+);
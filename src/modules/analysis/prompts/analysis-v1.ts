@@ -0,0 +1,72 @@
+import { PromptTemplate } from "../types";
+
+/**
+ * Original analysis prompt
+ */
+export const analysisPromptV1: PromptTemplate = {
+  version: "v1",
+  template: `You are an expert chess analyst and personal coach. Analyze the following chess game from the perspective of {{playerName}} (playing as {{playerSide}}).
+
+## Game Information
+- White: {{white}}
+- Black: {{black}}
+- Result: {{result}}
+- Event: {{event}}
+- Date: {{date}}
+- **Player being analyzed**: {{playerName}} ({{playerSide}}) - {{playerResult}}
+{{startPositionSection}}
+## PGN
+{{pgn}}
+{{annotationsSection}}{{engineSection}}
+## Instructions
+Analyze this chess game specifically for {{playerName}} ({{playerSide}}). Focus on their moves, decisions, and areas for improvement.
+
+Respond with a JSON object in this exact format:
+
+{
+  "summary": "A 2-3 sentence overview focusing on how {{playerName}} played, including opening choice, key themes, and outcome from their perspective",
+  "phases": [
+    {
+      "name": "Opening",
+      "moves": "1-15",
+      "evaluation": "Assessment of {{playerName}}'s play in this phase",
+      "key_ideas": ["What {{playerName}} did well or poorly"]
+    }
+  ],
+  "key_moments": [
+    {
+      "move_number": 15,
+      "move": "Nxe5",
+      "evaluation": "+1.5",
+      "comment": "Explanation of {{playerName}}'s decision and its impact",
+      "is_mistake": false
+    }
+  ],
+  "recommendations": ["Specific improvement for {{playerName}}"],
+  "puzzles": [
+    {
+      "title": "Puzzle title related to a key moment or theme from the game",
+      "description": "Brief description of what the puzzle teaches, related to {{playerName}}'s play",
+      "fen": "FEN position string for the puzzle",
+      "solution": "Best move or sequence (e.g., 'Nxe5' or '1. Nxe5 dxe5 2. Qh5+')",
+      "hint": "Optional hint to help solve the puzzle",
+      "difficulty": "easy|medium|hard",
+      "theme": "Tactical theme (e.g., 'Fork', 'Pin', 'Back Rank Mate', 'Endgame Technique')"
+    }
+  ]
+}
+
+Requirements:
+- Include 3 phases: Opening, Middlegame, Endgame (or fewer if game ended early)
+- Identify 3-5 key moments focusing on {{playerName}}'s moves
+- Provide 3-5 actionable recommendations specifically for {{playerName}} to improve
+- Focus on conceptual understanding and patterns {{playerName}} should recognize
+- Be specific with move numbers: "move_number" must be the PGN move number and "move" must be the move exactly as written in the PGN (SAN, e.g. "Nxe5", "O-O", "exd8=Q")
+- Address {{playerName}} directly in recommendations (e.g., "Consider developing..." not "White should...")
+- Generate exactly 2 puzzles based on positions or themes from this game that would help {{playerName}} practice and improve
+- Puzzles should be relevant to mistakes or learning opportunities identified in the analysis
+- Each puzzle must have a valid FEN position and clear solution
+- Puzzle difficulty should match the complexity of the position
+
+Respond with ONLY the JSON object, no other text.`,
+};
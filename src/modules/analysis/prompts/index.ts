@@ -0,0 +1,14 @@
+import { PromptTemplate } from "../types";
+import { analysisPromptV1 } from "./analysis-v1";
+import { analysisPromptV2 } from "./analysis-v2";
+import { analysisPromptV3 } from "./analysis-v3";
+
+/**
+ * Every released analysis prompt, oldest first
+ * The last entry is the default unless ANALYSIS_PROMPT_VERSION says otherwise.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  analysisPromptV1,
+  analysisPromptV2,
+  analysisPromptV3,
+];
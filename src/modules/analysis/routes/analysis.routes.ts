@@ -7,12 +7,20 @@ import {
   getAnalysisStatus,
   getAnalysisById,
   getUserAnalyses,
+  submitAnalysisFeedback,
+  reanalyzeAnalysis,
+  reanalyzeBatch,
+  cancelBatch,
+  deleteAnalysis,
 } from "../controllers/analysis.controller";
 import { validate } from "../../../shared/middleware/validate";
 import {
   bulkAnalysisSchema,
   customAnalysisSchema,
   statusQuerySchema,
+  analysisFeedbackSchema,
+  reanalyzeSchema,
+  batchReanalyzeSchema,
 } from "../validators/analysis.validator";
 import { requireAuth, optionalAuth } from "../../auth";
 
@@ -65,7 +73,33 @@ router.get(
 // User analyses endpoint (protected - requires auth)
 router.get("/analysis/user", requireAuth, getUserAnalyses);
 
-// Single analysis endpoint (optional auth - supports guest users, must be last due to :id param)
+// Feedback on a completed analysis (protected - requires auth)
+router.post(
+  "/analysis/:id/feedback",
+  requireAuth,
+  validate(analysisFeedbackSchema),
+  submitAnalysisFeedback,
+);
+
+// Run finished analyses again (protected - requires auth)
+router.post(
+  "/analysis/batch/:batchId/reanalyze",
+  requireAuth,
+  validate(batchReanalyzeSchema),
+  reanalyzeBatch,
+);
+router.post(
+  "/analysis/:id/reanalyze",
+  requireAuth,
+  validate(reanalyzeSchema),
+  reanalyzeAnalysis,
+);
+
+// Cancel the pending analyses of a batch (protected - requires auth)
+router.post("/analysis/batch/:batchId/cancel", requireAuth, cancelBatch);
+
+// Single analysis endpoints (must be last due to :id param)
 router.get("/analysis/:id", optionalAuth, getAnalysisById);
+router.delete("/analysis/:id", requireAuth, deleteAnalysis);
 
 export default router;
@@ -1,16 +1,48 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { workerService } from "../services/worker.service";
+import { RetryableError } from "../services/retry-policy.service";
+import { ConcurrencyLimitError } from "../services/scheduler.service";
+import {
+  dispatchParked,
+  getQueueBackend,
+  parkAnalysis,
+  rescheduleDelivery,
+} from "../services/queue.service";
+import { requireWorkerAuth } from "../middleware/worker-auth.middleware";
 import { logger } from "../../../shared/utils/logger";
 
 const router = Router();
 
+/**
+ * With Cloud Tasks, queue the parked analyses that the slot this delivery
+ * gave back lets start; done before responding, while the instance still
+ * has CPU
+ */
+async function dispatchAfterDelivery(): Promise<void> {
+  if (getQueueBackend() !== "cloud-tasks") return;
+  await dispatchParked().catch((err) => {
+    logger.error("Failed to queue parked analyses:", err);
+  });
+}
+
 /**
  * @swagger
  * /worker/process:
  *   post:
  *     summary: Process analysis task (Cloud Tasks callback)
- *     description: Internal endpoint called by Cloud Tasks to process an analysis job
+ *     description: Internal endpoint called by Cloud Tasks to process an analysis job. Requires a Google-signed OIDC token of WORKER_OIDC_SERVICE_ACCOUNT for WORKER_OIDC_AUDIENCE in the Authorization header (WORKER_AUTH_MODE=oidc, the default with Cloud Tasks), or X-Worker-Timestamp and X-Worker-Signature headers signing the raw body with WORKER_HMAC_SECRET (WORKER_AUTH_MODE=hmac, not available with Cloud Tasks).
  *     tags: [Worker]
+ *     parameters:
+ *       - in: header
+ *         name: X-Worker-Timestamp
+ *         schema:
+ *           type: string
+ *         description: hmac mode - Unix time in seconds the request was signed at (at most 5 minutes off)
+ *       - in: header
+ *         name: X-Worker-Signature
+ *         schema:
+ *           type: string
+ *         description: hmac mode - "sha256=" followed by the hex HMAC-SHA256 of "<timestamp>.<raw body>"
  *     requestBody:
  *       required: true
  *       content:
@@ -25,14 +57,23 @@ const router = Router();
  *                 description: Analysis ID to process
  *     responses:
  *       200:
- *         description: Task processed successfully
+ *         description: Task processed; the analysis is completed, failed permanently or skipped, or (with Cloud Tasks) a retryable failure was rescheduled as a new task, or the analysis was parked behind a concurrency limit until a slot frees up
  *       400:
  *         description: Missing analysis_id
+ *       401:
+ *         description: Missing or invalid OIDC token or request signature
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Processing failed
+ *         description: Processing failed unexpectedly (retried by Cloud Tasks), or worker authentication is not configured
+ *       503:
+ *         description: Retryable failure (e.g. model rate limit), or the analysis was not started because a concurrency limit is reached (code ANALYSIS_CONCURRENCY_LIMIT); the analysis is PENDING again and the task should be retried (with Cloud Tasks, only when a retryable failure could not be rescheduled as a new task). Retry-After gives the suggested delay.
  */
 router.post(
   "/process",
+  requireWorkerAuth,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { analysis_id } = req.body;
@@ -56,12 +97,59 @@ router.post(
 
       // Process the analysis
       await workerService.processAnalysis(analysis_id);
+      await dispatchAfterDelivery();
 
       res.json({
         success: true,
         message: `Analysis ${analysis_id} processed`,
       });
     } catch (error) {
+      const { analysis_id } = req.body;
+
+      // With Cloud Tasks an analysis held back by a limit waits without a
+      // task (if parking fails, the task is retried); a delivery that gives
+      // back a slot queues it
+      if (
+        error instanceof ConcurrencyLimitError &&
+        getQueueBackend() === "cloud-tasks"
+      ) {
+        try {
+          await parkAnalysis(analysis_id);
+          res.json({
+            success: true,
+            message: `Analysis ${analysis_id} parked: ${error.message}`,
+          });
+          return;
+        } catch (parkError) {
+          logger.error(`Failed to park analysis ${analysis_id}:`, parkError);
+        }
+      }
+
+      await dispatchAfterDelivery();
+
+      // Retryable failures were recorded on the analysis; with Cloud Tasks a
+      // new task runs it later, otherwise (or if that fails) ask for a retry
+      if (error instanceof RetryableError) {
+        if (
+          getQueueBackend() === "cloud-tasks" &&
+          (await rescheduleDelivery(analysis_id, error.retryAfterMs ?? 0))
+        ) {
+          res.json({
+            success: true,
+            message: `Analysis ${analysis_id} rescheduled: ${error.message}`,
+          });
+          return;
+        }
+        if (error.retryAfterMs !== undefined) {
+          res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+        }
+        res.status(503).json({
+          success: false,
+          error: { message: error.message, code: error.code },
+        });
+        return;
+      }
+
       logger.error("Worker processing failed:", error);
       // Return 500 so Cloud Tasks will retry
       res.status(500).json({
@@ -0,0 +1,190 @@
+import {
+  AnalysisPosition,
+  AnalysisResult,
+  MoveCounts,
+  PlayerColor,
+  SideAccuracy,
+} from "../types";
+import { whiteCentipawns, winningChances } from "./engine.service";
+
+interface MoveAccuracy {
+  ply: number;
+  move_number: number;
+  color: PlayerColor;
+  accuracy: number;
+  weight: number; // Volatility of the surrounding positions
+}
+
+const COLORS: PlayerColor[] = ["white", "black"];
+
+/**
+ * Win probability (0-100) for White
+ */
+function winPercent(cp: number): number {
+  return 50 + 50 * winningChances(cp);
+}
+
+/**
+ * Accuracy of a single move from the mover's win percentage before and after
+ * (lichess formula)
+ */
+function moveAccuracy(winBefore: number, winAfter: number): number {
+  const accuracy =
+    103.1668100711649 *
+      Math.exp(-0.04354415386753951 * (winBefore - winAfter)) -
+    3.166924740191411;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Accuracy and weight of every move
+ * Each move is weighted by how volatile the game was around it, so that
+ * accurate play in sharp positions counts for more than in quiet ones.
+ */
+function scoreMoves(positions: AnalysisPosition[]): MoveAccuracy[] {
+  const cps = positions.map(whiteCentipawns);
+  if (cps.length < 2 || cps.some((cp) => cp === null)) return [];
+  const wins = (cps as number[]).map(winPercent);
+
+  const windowSize = Math.max(2, Math.min(8, Math.floor(wins.length / 10)));
+  const windows: number[][] = [];
+  for (let i = 0; i < Math.min(windowSize, wins.length) - 2; i++) {
+    windows.push(wins.slice(0, windowSize));
+  }
+  for (let i = 0; i + windowSize <= wins.length; i++) {
+    windows.push(wins.slice(i, i + windowSize));
+  }
+
+  const moves: MoveAccuracy[] = [];
+  for (let i = 1; i < positions.length; i++) {
+    const before = positions[i - 1];
+    const color = before.side_to_move;
+    const sign = color === "white" ? 1 : -1;
+    // Win percentage from the mover's point of view
+    const pov = (win: number) => (sign === 1 ? win : 100 - win);
+    const window = windows[i - 1] || windows[windows.length - 1];
+
+    moves.push({
+      ply: positions[i].ply,
+      move_number: before.move_number,
+      color,
+      accuracy: moveAccuracy(pov(wins[i - 1]), pov(wins[i])),
+      weight: Math.max(0.5, Math.min(12, standardDeviation(window))),
+    });
+  }
+  return moves;
+}
+
+/**
+ * Mean of the volatility-weighted and harmonic means, as lichess does
+ */
+function aggregate(moves: MoveAccuracy[]): number | undefined {
+  if (moves.length === 0) return undefined;
+
+  const totalWeight = moves.reduce((sum, move) => sum + move.weight, 0);
+  const weighted =
+    moves.reduce((sum, move) => sum + move.accuracy * move.weight, 0) /
+    totalWeight;
+  // A single 0% move makes the harmonic mean 0
+  const harmonic = moves.some((move) => move.accuracy === 0)
+    ? 0
+    : moves.length / moves.reduce((sum, move) => sum + 1 / move.accuracy, 0);
+
+  return Math.round(((weighted + harmonic) / 2) * 10) / 10;
+}
+
+function emptyCounts(): MoveCounts {
+  return { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 };
+}
+
+/**
+ * Per-side accuracy and move classification counts
+ * Returns undefined when the positions have no engine evaluations
+ */
+export function computeAccuracy(
+  positions: AnalysisPosition[],
+): Record<PlayerColor, SideAccuracy> | undefined {
+  const moves = scoreMoves(positions);
+  if (moves.length === 0) return undefined;
+
+  const result = {} as Record<PlayerColor, SideAccuracy>;
+  for (const color of COLORS) {
+    const sideMoves = moves.filter((move) => move.color === color);
+    const sidePositions = positions.filter(
+      (position, i) => i > 0 && positions[i - 1].side_to_move === color,
+    );
+    const counts = emptyCounts();
+    for (const position of sidePositions) {
+      if (position.classification) counts[position.classification]++;
+    }
+    const cpLosses = sidePositions.map((position) => position.cp_loss || 0);
+
+    result[color] = {
+      accuracy: aggregate(sideMoves) ?? 100,
+      average_cp_loss:
+        cpLosses.length > 0
+          ? Math.round(
+              cpLosses.reduce((sum, loss) => sum + loss, 0) / cpLosses.length,
+            )
+          : 0,
+      moves: counts,
+    };
+  }
+  return result;
+}
+
+/**
+ * Parse a phase's move range ("1-15", "16–30", "31+", "31-end")
+ */
+function parseMoveRange(
+  moves: string,
+): { from: number; to: number } | undefined {
+  const match = moves.match(/(\d+)\s*(?:[-–—]\s*(\d+)?|\+|$)/);
+  if (!match) return undefined;
+  const from = parseInt(match[1], 10);
+  const to = match[2] ? parseInt(match[2], 10) : Infinity;
+  return to >= from ? { from, to } : undefined;
+}
+
+/**
+ * Add each side's accuracy to the phases reported by the model, using the
+ * moves that fall in each phase's move range
+ */
+export function addPhaseAccuracy(
+  phases: AnalysisResult["phases"],
+  positions: AnalysisPosition[],
+): AnalysisResult["phases"] {
+  const moves = scoreMoves(positions);
+  if (moves.length === 0) return phases;
+
+  return phases.map((phase) => {
+    const range = parseMoveRange(phase.moves);
+    if (!range) return phase;
+
+    const accuracy: Partial<Record<PlayerColor, number>> = {};
+    for (const color of COLORS) {
+      const value = aggregate(
+        moves.filter(
+          (move) =>
+            move.color === color &&
+            move.move_number >= range.from &&
+            move.move_number <= range.to,
+        ),
+      );
+      if (value !== undefined) accuracy[color] = value;
+    }
+    return Object.keys(accuracy).length > 0 ? { ...phase, accuracy } : phase;
+  });
+}
+
+export const accuracyService = {
+  computeAccuracy,
+  addPhaseAccuracy,
+};
@@ -0,0 +1,99 @@
+import { createHash } from "crypto";
+import { AnalysisCache } from "../models/analysis-cache.model";
+import {
+  AnalysisDepth,
+  AnalysisLanguage,
+  AnalysisResult,
+  ChessPuzzle,
+  PlayerColor,
+} from "../types";
+
+export interface AnalysisCacheKey {
+  gameHash: string; // Canonical game hash (see game-hash.service)
+  playerColor: PlayerColor;
+  analysisDepth: AnalysisDepth; // Changes the prompt and the number of findings
+  language: AnalysisLanguage;
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface CachedAnalysis {
+  result: Omit<AnalysisResult, "puzzles">;
+  puzzles: ChessPuzzle[];
+}
+
+/**
+ * Reuse model output for games that were already analyzed
+ * Disable with ANALYSIS_CACHE_ENABLED=false
+ */
+export function isAnalysisCacheEnabled(): boolean {
+  return process.env.ANALYSIS_CACHE_ENABLED !== "false";
+}
+
+function buildCacheKey(key: AnalysisCacheKey): string {
+  return createHash("sha256")
+    .update(
+      [
+        key.gameHash,
+        key.playerColor,
+        key.analysisDepth,
+        key.language,
+        key.provider,
+        key.model,
+        key.promptVersion,
+      ].join("\n"),
+    )
+    .digest("hex");
+}
+
+/**
+ * Cached model output for a game, or null on a miss
+ */
+export async function getCachedAnalysis(
+  key: AnalysisCacheKey,
+): Promise<CachedAnalysis | null> {
+  const entry = await AnalysisCache.findOneAndUpdate(
+    { cache_key: buildCacheKey(key) },
+    { $inc: { hits: 1 }, $set: { last_hit_at: new Date() } },
+    { new: true },
+  ).lean();
+  if (!entry) return null;
+
+  return { result: entry.result, puzzles: entry.puzzles };
+}
+
+/**
+ * Store model output for later analyses of the same game
+ * There is one entry per prompt version, so the arms of a prompt A/B test do
+ * not evict each other; entries that stop being used (e.g. of retired
+ * versions) expire.
+ */
+export async function storeAnalysis(
+  key: AnalysisCacheKey,
+  analysis: CachedAnalysis,
+): Promise<void> {
+  await AnalysisCache.updateOne(
+    { cache_key: buildCacheKey(key) },
+    {
+      $setOnInsert: {
+        game_hash: key.gameHash,
+        player_color: key.playerColor,
+        analysis_depth: key.analysisDepth,
+        language: key.language,
+        provider: key.provider,
+        model_name: key.model,
+        prompt_version: key.promptVersion,
+        result: analysis.result,
+        puzzles: analysis.puzzles,
+      },
+    },
+    { upsert: true },
+  );
+}
+
+export const analysisCacheService = {
+  isAnalysisCacheEnabled,
+  getCachedAnalysis,
+  storeAnalysis,
+};
@@ -0,0 +1,205 @@
+import { Analysis } from "../models/analysis.model";
+import { AnalysisDepth, AnalysisStatus } from "../types";
+import { AppError } from "../../../shared/middleware/errorHandler";
+
+export interface AnalysisDepthProfile {
+  depth: AnalysisDepth;
+  keyMoments: string; // Range asked of the model, e.g. "3-5"
+  recommendations: string;
+  puzzles: number;
+  instructions: string; // Extra prompt section; empty for standard
+  model?: string; // ANALYSIS_MODEL_<DEPTH>; the provider default when unset
+}
+
+export interface DepthQuotaUsage {
+  analysis_depth: AnalysisDepth;
+  limit: number | null; // null: unlimited
+  used: number;
+  remaining: number | null;
+  resets_at: Date;
+}
+
+/**
+ * Filter on runs that use up quota: all but failed and cancelled ones, and
+ * cancelled ones that had already made the model call (usage recorded)
+ */
+function chargedRuns(prefix = "") {
+  return {
+    $or: [
+      {
+        [`${prefix}status`]: {
+          $nin: [AnalysisStatus.FAILED, AnalysisStatus.CANCELLED],
+        },
+      },
+      {
+        [`${prefix}status`]: AnalysisStatus.CANCELLED,
+        [`${prefix}usage`]: { $exists: true },
+      },
+    ],
+  };
+}
+
+export const ANALYSIS_DEPTHS: AnalysisDepth[] = ["quick", "standard", "deep"];
+
+// Analyses per user per UTC day when ANALYSIS_DAILY_QUOTA_<DEPTH> is unset
+const DEFAULT_DAILY_QUOTAS: Record<AnalysisDepth, number | null> = {
+  quick: null,
+  standard: null,
+  deep: 10,
+};
+
+const PROFILES: Record<
+  AnalysisDepth,
+  Omit<AnalysisDepthProfile, "depth" | "model">
+> = {
+  quick: {
+    keyMoments: "1-3",
+    recommendations: "2-3",
+    puzzles: 1,
+    instructions: `
+## Review Depth
+This is a quick review, e.g. of a blitz or bullet game. Keep the summary to 1-2 sentences and each phase evaluation to one sentence, and concentrate on the moments that decided the game.
+`,
+  },
+  standard: {
+    keyMoments: "3-5",
+    recommendations: "3-5",
+    puzzles: 2,
+    instructions: "",
+  },
+  deep: {
+    keyMoments: "5-8",
+    recommendations: "4-6",
+    puzzles: 3,
+    instructions: `
+## Review Depth
+This is a deep review of a serious game, e.g. from a tournament. Explain the plans behind each phase, support every key moment with concrete variations, and discuss the opening choice and the critical decisions in detail.
+`,
+  },
+};
+
+/**
+ * Raised when a user has used up their daily analyses of a depth
+ */
+export class AnalysisQuotaExceededError extends Error implements AppError {
+  statusCode = 429;
+  isOperational = true;
+  code = "ANALYSIS_QUOTA_EXCEEDED";
+  details: DepthQuotaUsage;
+
+  constructor(usage: DepthQuotaUsage) {
+    super(
+      `Daily limit of ${usage.limit} ${usage.analysis_depth} analyses reached`,
+    );
+    this.name = "AnalysisQuotaExceededError";
+    this.details = usage;
+  }
+}
+
+/**
+ * Prompt, output size and model settings of a depth level
+ */
+export function getDepthProfile(
+  depth: AnalysisDepth = "standard",
+): AnalysisDepthProfile {
+  return {
+    depth,
+    ...PROFILES[depth],
+    model: process.env[`ANALYSIS_MODEL_${depth.toUpperCase()}`] || undefined,
+  };
+}
+
+/**
+ * Daily analyses allowed per user for a depth (null: unlimited)
+ * ANALYSIS_DAILY_QUOTA_<DEPTH>; 0 removes the limit
+ */
+export function getDailyQuota(depth: AnalysisDepth): number | null {
+  const configured = process.env[`ANALYSIS_DAILY_QUOTA_${depth.toUpperCase()}`];
+  if (configured === undefined || configured.trim() === "") {
+    return DEFAULT_DAILY_QUOTAS[depth];
+  }
+  const limit = parseInt(configured, 10);
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Analyses of a depth the user has requested today (UTC)
+ * Runs of an analysis that was re-analyzed or uploaded again since count as
+ * well (they are kept in previous_attempts). Failed runs, and cancelled ones
+ * that were stopped before the model call, do not count against the quota.
+ */
+export async function getQuotaUsage(
+  userId: string,
+  depth: AnalysisDepth,
+): Promise<DepthQuotaUsage> {
+  const now = new Date();
+  const startOfDay = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const limit = getDailyQuota(depth);
+
+  let used = 0;
+  if (limit !== null) {
+    const current = await Analysis.countDocuments({
+      user_id: userId,
+      analysis_depth: depth,
+      $and: [
+        // Re-analyses count on the day they were requested
+        {
+          $or: [
+            { created_at: { $gte: startOfDay } },
+            { requested_at: { $gte: startOfDay } },
+          ],
+        },
+        chargedRuns(),
+      ],
+    });
+    const [archived] = await Analysis.aggregate<{ count: number }>([
+      {
+        $match: {
+          user_id: userId,
+          "previous_attempts.requested_at": { $gte: startOfDay },
+        },
+      },
+      { $unwind: "$previous_attempts" },
+      {
+        $match: {
+          "previous_attempts.requested_at": { $gte: startOfDay },
+          "previous_attempts.analysis_depth": depth,
+          ...chargedRuns("previous_attempts."),
+        },
+      },
+      { $count: "count" },
+    ]);
+    used = current + (archived?.count ?? 0);
+  }
+
+  return {
+    analysis_depth: depth,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resets_at: new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Throw if the user cannot request another analysis of this depth today
+ */
+export async function assertQuotaAvailable(
+  userId: string,
+  depth: AnalysisDepth,
+): Promise<DepthQuotaUsage> {
+  const usage = await getQuotaUsage(userId, depth);
+  if (usage.remaining === 0) {
+    throw new AnalysisQuotaExceededError(usage);
+  }
+  return usage;
+}
+
+export const analysisDepthService = {
+  getDepthProfile,
+  getDailyQuota,
+  getQuotaUsage,
+  assertQuotaAvailable,
+};
@@ -0,0 +1,377 @@
+import {
+  generateObject,
+  generateText,
+  LanguageModelUsage,
+  NoObjectGeneratedError,
+  zodSchema,
+} from "ai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { AnalysisContext, TokenUsage } from "../types";
+import { analysisOutputSchema } from "../validators/analysis-output.validator";
+import { pgnParserService } from "./pgn-parser.service";
+import { positionService } from "./position.service";
+import { getDepthProfile } from "./analysis-depth.service";
+import {
+  parseRetryAfter,
+  PermanentError,
+  RetryableError,
+} from "./retry-policy.service";
+import { logger } from "../../../shared/utils/logger";
+
+export interface AnalysisRequest {
+  prompt: string;
+  context: AnalysisContext;
+  signal?: AbortSignal; // Aborts the call, e.g. when the run takes too long
+}
+
+export interface AnalysisGeneration {
+  text: string;
+  usage?: TokenUsage; // Absent when the API did not report token counts
+}
+
+/**
+ * A backend that turns an analysis prompt into the raw JSON text response
+ * The response is validated (and repaired) by the caller, so providers return
+ * whatever the model produced.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: AnalysisRequest): Promise<AnalysisGeneration>;
+}
+
+export type AnalysisProviderName = "gemini" | "openai" | "fake";
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Converted once; also sent as JSON schema to OpenAI-compatible servers
+const outputSchema = zodSchema(analysisOutputSchema);
+
+/**
+ * Constrain the model to the analysis JSON schema where the API supports it
+ * Disable with ANALYSIS_STRUCTURED_OUTPUT=false for models that reject schemas
+ */
+function useStructuredOutput(): boolean {
+  return process.env.ANALYSIS_STRUCTURED_OUTPUT !== "false";
+}
+
+function toTokenUsage(
+  usage: LanguageModelUsage | undefined,
+): TokenUsage | undefined {
+  if (!usage || usage.inputTokens === undefined) return undefined;
+  const prompt = usage.inputTokens;
+  const completion = usage.outputTokens ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: usage.totalTokens ?? prompt + completion,
+  };
+}
+
+/**
+ * Google Gemini through the AI SDK
+ */
+class GeminiProvider implements AnalysisProvider {
+  readonly name = "gemini";
+
+  constructor(readonly model: string) {}
+
+  async generate({
+    prompt,
+    signal,
+  }: AnalysisRequest): Promise<AnalysisGeneration> {
+    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error(
+        "GOOGLE_GENERATIVE_AI_API_KEY environment variable is not set. " +
+          "Please set it in your environment variables or Cloud Run configuration.",
+      );
+    }
+
+    const google = createGoogleGenerativeAI({
+      apiKey,
+    });
+
+    if (!useStructuredOutput()) {
+      const { text, usage } = await generateText({
+        model: google(this.model),
+        prompt,
+        abortSignal: signal,
+      });
+      return { text, usage: toTokenUsage(usage) };
+    }
+
+    try {
+      const { object, usage } = await generateObject({
+        model: google(this.model),
+        schema: outputSchema,
+        prompt,
+        abortSignal: signal,
+      });
+      return { text: JSON.stringify(object), usage: toTokenUsage(usage) };
+    } catch (error) {
+      // Output that does not match the schema goes through the repair loop
+      if (NoObjectGeneratedError.isInstance(error) && error.text) {
+        return { text: error.text, usage: toTokenUsage(error.usage) };
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...)
+ */
+class OpenAICompatibleProvider implements AnalysisProvider {
+  readonly name = "openai";
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async generate({
+    prompt,
+    signal,
+  }: AnalysisRequest): Promise<AnalysisGeneration> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // Local servers usually run without a key
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: "user", content: prompt }],
+          ...(useStructuredOutput() && {
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: "chess_analysis",
+                schema: outputSchema.jsonSchema,
+              },
+            },
+          }),
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      const message = `OpenAI-compatible request failed with ${response.status}: ${body.slice(0, 500)}`;
+      // Timeouts, rate limits and server errors may pass
+      if (response.status === 408 || response.status === 429) {
+        throw new RetryableError(
+          message,
+          parseRetryAfter(response.headers.get("retry-after")),
+        );
+      }
+      if (response.status >= 500) throw new RetryableError(message);
+      throw new PermanentError(message);
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string | null } }[];
+      usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        total_tokens?: number;
+      };
+    };
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("OpenAI-compatible response contained no message");
+    }
+
+    // Some local servers leave usage out
+    const promptTokens = data.usage?.prompt_tokens;
+    const completionTokens = data.usage?.completion_tokens ?? 0;
+    return {
+      text,
+      usage:
+        promptTokens === undefined
+          ? undefined
+          : {
+              prompt_tokens: promptTokens,
+              completion_tokens: completionTokens,
+              total_tokens:
+                data.usage?.total_tokens ?? promptTokens + completionTokens,
+            },
+    };
+  }
+}
+
+/**
+ * Offline provider for local development and tests
+ * Builds a canned analysis from the game itself, so key moments and puzzles
+ * refer to moves that were actually played and always pass validation.
+ * The same game always yields the same result.
+ */
+class FakeProvider implements AnalysisProvider {
+  readonly name = "fake";
+  readonly model = "fake";
+
+  async generate({
+    prompt,
+    context,
+  }: AnalysisRequest): Promise<AnalysisGeneration> {
+    const headers = [
+      context.start_fen ? `[SetUp "1"]\n[FEN "${context.start_fen}"]` : "",
+      context.variant === "chess960" ? '[Variant "Chess960"]' : "",
+    ].filter(Boolean);
+    const validation = pgnParserService.validatePgn(
+      `${headers.join("\n")}\n\n${context.pgn}`,
+    );
+    if (!validation.valid) {
+      throw new Error("Fake provider could not replay the game");
+    }
+
+    const positions = positionService.buildPositions(
+      validation.plies,
+      validation.startFen,
+    );
+    const playerSide = context.playerColor === "white" ? "w" : "b";
+    const playerPlies = validation.plies.filter(
+      (ply) => ply.color === playerSide,
+    );
+
+    // Evenly spaced moves of the player stand in for the critical moments
+    const pick = (count: number) => {
+      if (playerPlies.length <= count) return playerPlies;
+      return Array.from(
+        { length: count },
+        (_, i) =>
+          playerPlies[Math.floor(((i + 1) * playerPlies.length) / (count + 1))],
+      );
+    };
+    const fenBefore = (ply: number) => positions[ply - 1].fen;
+
+    // Phase move ranges from the material-based boundaries
+    const lastMove = positions[positions.length - 1].move_number;
+    const boundaries = positionService.detectPhaseBoundaries(positions);
+    const moveAt = (ply: number | null) =>
+      ply === null ? null : positions[ply].move_number;
+    const starts = [{ name: "Opening", move: positions[0].move_number }];
+    for (const [name, ply] of [
+      ["Middlegame", boundaries.middlegame_ply],
+      ["Endgame", boundaries.endgame_ply],
+    ] as const) {
+      const move = moveAt(ply);
+      if (move !== null && move > starts[starts.length - 1].move) {
+        starts.push({ name, move });
+      }
+    }
+    const phases = starts.map((phase, i) => {
+      const end = i + 1 < starts.length ? starts[i + 1].move - 1 : lastMove;
+      return {
+        name: phase.name,
+        moves: `${phase.move}-${Math.max(phase.move, end)}`,
+        evaluation: `${context.playerName} played the ${phase.name.toLowerCase()} steadily.`,
+        key_ideas: [
+          `Keep the pieces coordinated in the ${phase.name.toLowerCase()}`,
+        ],
+      };
+    });
+
+    const depth = getDepthProfile(context.analysisDepth);
+    // The low end of the requested range, e.g. 3 for "3-5"
+    const keyMomentCount = parseInt(depth.keyMoments, 10);
+
+    const result = {
+      summary: `${context.playerName} played ${context.playerColor} in ${context.white} vs ${context.black} (${context.result}). This is a placeholder analysis generated offline.`,
+      phases,
+      key_moments: pick(keyMomentCount).map((ply) => ({
+        move_number: ply.move_number,
+        move: ply.san,
+        evaluation: "0.00",
+        comment: `${context.playerName} played ${ply.san} here.`,
+        is_mistake: false,
+      })),
+      recommendations: [
+        "Review the critical moments of this game with an engine.",
+        "Practise calculating forcing lines before each move.",
+        "Compare your opening choices with master games.",
+      ],
+      puzzles: pick(depth.puzzles).map((ply, i) => ({
+        title: `Find the move ${ply.move_number}${ply.color === "w" ? "." : "..."}`,
+        description: `Find the move ${context.playerName} played in this position.`,
+        fen: fenBefore(ply.ply),
+        solution: ply.san,
+        hint: "Look at the most active move.",
+        difficulty: i === 0 ? "easy" : i === 1 ? "medium" : "hard",
+        theme: "Game Review",
+      })),
+    };
+
+    const text = JSON.stringify(result, null, 2);
+    // Rough counts (4 characters per token) so usage reports work offline
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(text.length / 4);
+    return {
+      text,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
+
+// Lazy initialization to ensure env vars are loaded; one instance per model
+const _analysisProviders = new Map<string, AnalysisProvider>();
+
+/**
+ * Provider selected by ANALYSIS_PROVIDER (gemini, openai or fake)
+ * The model is, in order: the one requested (e.g. for a depth level),
+ * ANALYSIS_MODEL, the provider's default.
+ */
+export function getAnalysisProvider(model?: string): AnalysisProvider {
+  const requestedModel = model || process.env.ANALYSIS_MODEL || "";
+  let provider = _analysisProviders.get(requestedModel);
+
+  if (!provider) {
+    const name = (process.env.ANALYSIS_PROVIDER ||
+      "gemini") as AnalysisProviderName;
+
+    switch (name) {
+      case "gemini":
+        provider = new GeminiProvider(requestedModel || DEFAULT_GEMINI_MODEL);
+        break;
+      case "openai":
+        provider = new OpenAICompatibleProvider(
+          requestedModel || DEFAULT_OPENAI_MODEL,
+          process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+          process.env.OPENAI_API_KEY,
+        );
+        break;
+      case "fake":
+        provider = new FakeProvider();
+        break;
+      default:
+        throw new Error(
+          `Unknown ANALYSIS_PROVIDER "${name}". Expected gemini, openai or fake.`,
+        );
+    }
+    _analysisProviders.set(requestedModel, provider);
+    logger.info(
+      `Analysis provider initialized: ${provider.name} (${provider.model})`,
+    );
+  }
+  return provider;
+}
+
+export const analysisProviderService = {
+  getAnalysisProvider,
+};
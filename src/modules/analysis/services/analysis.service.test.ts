@@ -0,0 +1,267 @@
+import { Analysis } from "../models/analysis.model";
+import { Puzzle } from "../models/puzzle.model";
+import { User } from "../../auth/models/user.model";
+import { AnalysisStatus, JobPriority } from "../types";
+import { processBulkAnalysis } from "./analysis.service";
+import { pgnParserService } from "./pgn-parser.service";
+import { queueService } from "./queue.service";
+import { analysisDepthService } from "./analysis-depth.service";
+import { deadLetterService } from "./dead-letter.service";
+import { logger } from "../../../shared/utils/logger";
+
+// uuid is published as ESM only; storage, parsing and the queue are faked
+let nextId = 0;
+jest.mock("uuid", () => ({ v4: () => `uuid-${++nextId}` }));
+jest.mock("./gcs.service", () => ({
+  gcsService: { createReadStream: jest.fn() },
+}));
+jest.mock("./pgn-parser.service", () => ({
+  InvalidPgnError: class extends Error {},
+  pgnParserService: {
+    splitPgnStream: jest.fn(),
+    validatePgn: jest.fn(() => ({
+      valid: true,
+      plies: [],
+      warnings: [],
+      tree: {},
+    })),
+  },
+}));
+jest.mock("./player-name.service", () => ({
+  playerNameService: {
+    matchPlayerColor: jest.fn(() => ({ color: "white", ambiguous: false })),
+  },
+}));
+jest.mock("./game-hash.service", () => ({
+  gameHashService: { computeGameHash: jest.fn((pgn: string) => `hash:${pgn}`) },
+}));
+jest.mock("./eco.service", () => ({
+  ecoService: { classifyMetadata: jest.fn((metadata) => metadata) },
+}));
+jest.mock("./queue.service", () => ({
+  queueService: { enqueue: jest.fn() },
+}));
+jest.mock("./dead-letter.service", () => ({
+  deadLetterService: { markAnalysisReplayed: jest.fn() },
+}));
+jest.mock("./analysis-depth.service", () => ({
+  analysisDepthService: { assertQuotaAvailable: jest.fn() },
+}));
+
+const USER_ID = "user-1";
+
+// Games of the uploaded file, by PGN; earlier analyses are keyed by its hash
+function uploadGames(...pgns: string[]) {
+  (pgnParserService.splitPgnStream as jest.Mock).mockImplementation(
+    async function* () {
+      for (const [index, pgn] of pgns.entries()) {
+        yield {
+          index,
+          pgn,
+          metadata: { white: "Me", black: `Opponent ${index}`, result: "*" },
+          warnings: [],
+        };
+      }
+    },
+  );
+}
+
+function existingAnalysis(pgn: string, status: AnalysisStatus) {
+  return {
+    _id: `id-${pgn}`,
+    analysis_id: `ana_${pgn}`,
+    user_id: USER_ID,
+    status,
+    pgn,
+    player_name: "Me",
+    player_color: "white",
+    metadata: { white: "Me", black: "Opponent", result: "*" },
+    created_at: new Date("2025-05-01T00:00:00Z"),
+    updated_at: new Date("2025-05-02T00:00:00Z"),
+  };
+}
+
+function mockExisting(...analyses: ReturnType<typeof existingAnalysis>[]) {
+  jest
+    .spyOn(Analysis, "findOne")
+    .mockImplementation(((filter: { game_hash: string }) =>
+      Promise.resolve(
+        analyses.find((a) => `hash:${a.pgn}` === filter.game_hash) || null,
+      )) as unknown as typeof Analysis.findOne);
+}
+
+// Mongoose's overloads hide the call arguments, so the spies are plain mocks
+function mockResets(...modifiedCounts: number[]): jest.Mock {
+  const update = jest.spyOn(Analysis, "updateOne");
+  for (const modifiedCount of modifiedCounts) {
+    update.mockResolvedValueOnce({ modifiedCount } as never);
+  }
+  return update as unknown as jest.Mock;
+}
+
+function mockQuota(remaining: number) {
+  (analysisDepthService.assertQuotaAvailable as jest.Mock).mockResolvedValue({
+    depth: "standard",
+    limit: 5,
+    used: 5 - remaining,
+    remaining,
+  });
+}
+
+function upload() {
+  return processBulkAnalysis(
+    ["gs://bucket/games.pgn"],
+    USER_ID,
+    "Me",
+    "link",
+    "standard",
+    "en",
+  );
+}
+
+beforeAll(() => {
+  logger.silent = true;
+});
+
+afterAll(() => {
+  logger.silent = false;
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(User, "findById").mockReturnValue({
+    select: () => Promise.resolve(null),
+  } as unknown as ReturnType<typeof User.findById>);
+  jest.spyOn(Analysis, "create").mockResolvedValue({} as never);
+  jest.spyOn(Puzzle, "deleteMany").mockResolvedValue({} as never);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("processBulkAnalysis duplicates", () => {
+  it("queues a failed duplicate again and charges it to the quota", async () => {
+    uploadGames("failed", "new");
+    mockExisting(existingAnalysis("failed", AnalysisStatus.FAILED));
+    const reset = mockResets(1);
+    mockQuota(1);
+
+    const result = await upload();
+
+    expect(result.analysis_ids).toEqual(["ana_failed"]);
+    expect(result.duplicate_games).toEqual([
+      expect.objectContaining({
+        analysis_id: "ana_failed",
+        action: "requeued",
+        status: AnalysisStatus.PENDING,
+      }),
+    ]);
+    // The requeue used the last analysis of the day
+    expect(Analysis.create).not.toHaveBeenCalled();
+    expect(result.skipped_games).toEqual([
+      expect.objectContaining({
+        reason: "Daily limit of 5 standard analyses reached",
+      }),
+    ]);
+
+    const [filter, update] = reset.mock.calls[0];
+    expect(filter).toMatchObject({
+      _id: "id-failed",
+      status: AnalysisStatus.FAILED,
+    });
+    expect(update.$set).toMatchObject({
+      status: AnalysisStatus.PENDING,
+      requested_at: expect.any(Date),
+      attempts: 0,
+    });
+    expect(update.$push.previous_attempts.$each[0]).toMatchObject({
+      status: AnalysisStatus.FAILED,
+      requested_at: new Date("2025-05-01T00:00:00Z"),
+    });
+    expect(queueService.enqueue).toHaveBeenCalledWith(
+      "ana_failed",
+      JobPriority.BULK,
+    );
+    expect(Puzzle.deleteMany).toHaveBeenCalledWith({
+      analysis_id: "ana_failed",
+    });
+    expect(deadLetterService.markAnalysisReplayed).toHaveBeenCalledWith(
+      "ana_failed",
+      USER_ID,
+    );
+  });
+
+  it("skips a failed or cancelled duplicate once the quota is used up", async () => {
+    uploadGames("failed", "cancelled");
+    mockExisting(
+      existingAnalysis("failed", AnalysisStatus.FAILED),
+      existingAnalysis("cancelled", AnalysisStatus.CANCELLED),
+    );
+    const reset = mockResets(1);
+    mockQuota(1);
+
+    const result = await upload();
+
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(result.analysis_ids).toEqual(["ana_failed"]);
+    expect(result.duplicate_games).toEqual([
+      expect.objectContaining({
+        analysis_id: "ana_failed",
+        action: "requeued",
+      }),
+      expect.objectContaining({
+        analysis_id: "ana_cancelled",
+        action: "skipped",
+        status: AnalysisStatus.CANCELLED,
+        reason: expect.stringContaining("daily limit of 5 standard analyses"),
+      }),
+    ]);
+    expect(queueService.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it("links a completed duplicate without charging the quota", async () => {
+    uploadGames("completed", "new");
+    mockExisting(existingAnalysis("completed", AnalysisStatus.COMPLETED));
+    const reset = mockResets();
+    mockQuota(1);
+
+    const result = await upload();
+
+    expect(reset).not.toHaveBeenCalled();
+    expect(result.duplicate_games).toEqual([
+      expect.objectContaining({
+        analysis_id: "ana_completed",
+        action: "linked",
+      }),
+    ]);
+    expect(Analysis.create).toHaveBeenCalledTimes(1);
+    expect(result.analysis_ids).toEqual([
+      "ana_completed",
+      expect.stringMatching(/^ana_uuid-/),
+    ]);
+    expect(result.skipped_games).toBeUndefined();
+  });
+
+  it("links a duplicate that another request queued first, keeping the quota", async () => {
+    uploadGames("failed", "new");
+    mockExisting(existingAnalysis("failed", AnalysisStatus.FAILED));
+    mockResets(0);
+    mockQuota(1);
+
+    const result = await upload();
+
+    expect(result.duplicate_games).toEqual([
+      expect.objectContaining({ analysis_id: "ana_failed", action: "linked" }),
+    ]);
+    expect(Puzzle.deleteMany).not.toHaveBeenCalled();
+    expect(deadLetterService.markAnalysisReplayed).not.toHaveBeenCalled();
+    // The quota left is still available for the new game
+    expect(Analysis.create).toHaveBeenCalledTimes(1);
+    expect(queueService.enqueue).toHaveBeenCalledTimes(1);
+    expect(queueService.enqueue).not.toHaveBeenCalledWith(
+      "ana_failed",
+      expect.anything(),
+    );
+  });
+});
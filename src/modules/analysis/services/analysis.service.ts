@@ -1,61 +1,252 @@
 import { v4 as uuidv4 } from "uuid";
 import { Analysis, IAnalysisDocument } from "../models/analysis.model";
+import { Puzzle } from "../models/puzzle.model";
 import {
+  AnalysisDepth,
+  AnalysisLanguage,
+  AnalysisAttempt,
   AnalysisStatus,
+  BatchActionResponse,
   BulkAnalysisResponse,
   PlayerColor,
-  AnalysisMetadata,
+  SkippedGame,
+  InvalidGame,
+  GameParseWarnings,
+  DuplicateGame,
+  DuplicateHandling,
+  AmbiguousGame,
+  ReanalysisOptions,
+  IAnalysis,
+  IDeadLetter,
+  JobPriority,
 } from "../types";
 import { gcsService } from "./gcs.service";
-import { pgnParserService } from "./pgn-parser.service";
+import { pgnParserService, InvalidPgnError } from "./pgn-parser.service";
 import { queueService } from "./queue.service";
+import { deadLetterService } from "./dead-letter.service";
+import { schedulerService } from "./scheduler.service";
+import { ecoService } from "./eco.service";
+import { gameHashService } from "./game-hash.service";
+import { playerNameService } from "./player-name.service";
+import { analysisDepthService } from "./analysis-depth.service";
+import { User } from "../../auth/models/user.model";
 import { logger } from "../../../shared/utils/logger";
+import { AppError } from "../../../shared/middleware/errorHandler";
 
 /**
- * Determine player color from metadata
- * Returns null if player name not found in the game
+ * Raised when an action needs a finished analysis
  */
-function determinePlayerColor(
-  metadata: AnalysisMetadata,
-  playerName: string,
-): PlayerColor | null {
-  const normalizedName = playerName.toLowerCase().trim();
-  const white = metadata.white.toLowerCase().trim();
-  const black = metadata.black.toLowerCase().trim();
+export class AnalysisNotCompletedError extends Error implements AppError {
+  statusCode = 409;
+  isOperational = true;
+  code = "ANALYSIS_NOT_COMPLETED";
+
+  constructor(analysisId: string) {
+    super(`Analysis ${analysisId} has not completed yet`);
+    this.name = "AnalysisNotCompletedError";
+  }
+}
+
+/**
+ * Raised when an analysis is queued or running and cannot be re-analyzed
+ */
+export class AnalysisInProgressError extends Error implements AppError {
+  statusCode = 409;
+  isOperational = true;
+  code = "ANALYSIS_IN_PROGRESS";
 
-  if (white.includes(normalizedName) || normalizedName.includes(white)) {
-    return "white";
+  constructor(analysisId: string) {
+    super(`Analysis ${analysisId} is already queued or being processed`);
+    this.name = "AnalysisInProgressError";
   }
-  if (black.includes(normalizedName) || normalizedName.includes(black)) {
-    return "black";
+}
+
+/**
+ * Raised when a dead-lettered analysis cannot be queued again
+ */
+export class DeadLetterNotReplayableError extends Error implements AppError {
+  statusCode = 409;
+  isOperational = true;
+  code = "DEAD_LETTER_NOT_REPLAYABLE";
+
+  constructor(deadLetterId: string, reason: string) {
+    super(`Dead letter ${deadLetterId} cannot be replayed: ${reason}`);
+    this.name = "DeadLetterNotReplayableError";
   }
-  return null;
+}
+
+/**
+ * Names the user may appear under in PGN headers: the name given with the
+ * upload plus the aliases saved on their profile
+ */
+async function getPlayerNameCandidates(
+  userId: string,
+  playerName: string,
+): Promise<string[]> {
+  if (userId === "guest") return [playerName];
+  const user = await User.findById(userId).select("aliases");
+  return [playerName, ...(user?.aliases ?? [])];
+}
+
+/**
+ * Language of a new analysis: the one requested, else the user's profile
+ * language, else English
+ */
+async function resolveLanguage(
+  userId: string,
+  requested?: AnalysisLanguage,
+): Promise<AnalysisLanguage> {
+  if (requested) return requested;
+  if (userId === "guest") return "en";
+  const user = await User.findById(userId).select("language");
+  return user?.language || "en";
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
 }
 
 /**
  * Process bulk analysis from GCS URLs
+ * Games the user has already submitted are linked to (or skipped in favour
+ * of) the existing analysis; failed ones are re-queued in place.
+ * Games where both players match the user's names are reported as ambiguous.
+ * Games beyond the user's daily quota for the depth are skipped.
+ * Guests pass a guestId (see getGuestId) so their games are scheduled per
+ * client.
  */
 export async function processBulkAnalysis(
   urls: string[],
   userId: string,
   playerName: string,
+  onDuplicate: DuplicateHandling = "link",
+  analysisDepth: AnalysisDepth = "standard",
+  requestedLanguage?: AnalysisLanguage,
+  guestId?: string,
 ): Promise<BulkAnalysisResponse> {
   const batchId = `batch_${uuidv4()}`;
   const analysisIds: string[] = [];
-  const skippedGames: { white: string; black: string; reason: string }[] = [];
+  const skippedGames: SkippedGame[] = [];
+  const invalidGames: InvalidGame[] = [];
+  const duplicateGames: DuplicateGame[] = [];
+  const ambiguousGames: AmbiguousGame[] = [];
+  const parseWarnings: GameParseWarnings[] = [];
+  const candidateNames = await getPlayerNameCandidates(userId, playerName);
+  const language = await resolveLanguage(userId, requestedLanguage);
+
+  // Quotas are per signed-in user; nothing is queued once they run out
+  const quota =
+    userId !== "guest"
+      ? await analysisDepthService.assertQuotaAvailable(userId, analysisDepth)
+      : undefined;
+  let remainingQuota = quota?.remaining ?? null;
+
+  const handleDuplicate = async (
+    existing: IAnalysisDocument,
+    game: {
+      white: string;
+      black: string;
+      pgn: string;
+      playerColor: PlayerColor;
+    },
+    url: string,
+  ) => {
+    const report = {
+      white: game.white,
+      black: game.black,
+      analysis_id: existing.analysis_id,
+    };
+
+    // A failed or cancelled analysis (e.g. submitted under the wrong name) is
+    // queued again with this upload's player and settings; its previous
+    // outcome is kept in previous_attempts
+    if (
+      existing.status === AnalysisStatus.FAILED ||
+      existing.status === AnalysisStatus.CANCELLED
+    ) {
+      // Running it again counts towards today's quota like a new game
+      if (remainingQuota !== null && remainingQuota <= 0) {
+        duplicateGames.push({
+          ...report,
+          status: existing.status,
+          action: "skipped",
+          reason: `Previous analysis of this game was not completed; daily limit of ${quota!.limit} ${analysisDepth} analyses reached`,
+        });
+        return;
+      }
+      const previousStatus = existing.status;
+      const requeued = await resetForReanalysis(
+        existing,
+        { playerColor: game.playerColor, analysisDepth },
+        {
+          batch_id: batchId,
+          pgn: game.pgn,
+          gcs_url: url,
+          player_name: playerName,
+          language,
+        },
+      );
+      // Otherwise a concurrent request queued it first; it is linked below
+      if (requeued) {
+        if (remainingQuota !== null) remainingQuota--;
+        await queueService.enqueue(existing.analysis_id, JobPriority.BULK);
+        analysisIds.push(existing.analysis_id);
+        duplicateGames.push({
+          ...report,
+          status: AnalysisStatus.PENDING,
+          action: "requeued",
+          reason:
+            previousStatus === AnalysisStatus.FAILED
+              ? "Previous analysis of this game failed; it was queued again"
+              : "Previous analysis of this game was cancelled; it was queued again",
+        });
+        return;
+      }
+    }
+
+    // Linking the same analysis twice (a game repeated in this upload) adds nothing
+    const link =
+      onDuplicate === "link" && !analysisIds.includes(existing.analysis_id);
+    if (link) analysisIds.push(existing.analysis_id);
+    duplicateGames.push({
+      ...report,
+      status: existing.status as AnalysisStatus,
+      action: link ? "linked" : "skipped",
+      reason: "Game was already submitted for analysis",
+    });
+  };
 
   for (const url of urls) {
     try {
-      // Download PGN content from GCS
-      const pgnContent = await gcsService.downloadFile(url);
-
-      // Split into individual games
-      const games = pgnParserService.splitPgn(pgnContent);
+      // Stream the file from GCS and split it into games as it is read
+      const games = pgnParserService.splitPgnStream(
+        gcsService.createReadStream(url),
+      );
 
-      for (const game of games) {
+      for await (const game of games) {
         // Determine player color
-        const playerColor = determinePlayerColor(game.metadata, playerName);
+        const match = playerNameService.matchPlayerColor(
+          game.metadata,
+          candidateNames,
+        );
 
+        if (match.ambiguous) {
+          logger.warn(
+            `Both players match "${playerName}" in game: ${game.metadata.white} vs ${game.metadata.black}`,
+          );
+          ambiguousGames.push({
+            white: game.metadata.white,
+            black: game.metadata.black,
+            reason: "Both players match your name or aliases",
+            scores: {
+              white: Math.round(match.scores.white * 100) / 100,
+              black: Math.round(match.scores.black * 100) / 100,
+            },
+          });
+          continue;
+        }
+
+        const playerColor = match.color;
         if (!playerColor) {
           logger.warn(
             `Player "${playerName}" not found in game: ${game.metadata.white} vs ${game.metadata.black}`,
@@ -68,23 +259,111 @@ export async function processBulkAnalysis(
           continue;
         }
 
+        // Replay the moves before paying for an LLM call on a broken game
+        const validation = pgnParserService.validatePgn(game.pgn);
+        if (!validation.valid && validation.error) {
+          const reason = pgnParserService.describePgnError(validation.error);
+          logger.warn(
+            `Invalid PGN in game ${game.metadata.white} vs ${game.metadata.black}: ${reason}`,
+          );
+          invalidGames.push({
+            white: game.metadata.white,
+            black: game.metadata.black,
+            reason,
+            error: validation.error,
+          });
+          continue;
+        }
+
+        // Guests share one user id, so duplicate detection is per signed-in user
+        const gameHash =
+          userId !== "guest"
+            ? gameHashService.computeGameHash(
+                game.pgn,
+                validation.plies.map((ply) => ply.san),
+              )
+            : undefined;
+        if (gameHash) {
+          const existing = await Analysis.findOne({
+            user_id: userId,
+            game_hash: gameHash,
+          });
+          if (existing) {
+            await handleDuplicate(
+              existing,
+              { ...game.metadata, pgn: game.pgn, playerColor },
+              url,
+            );
+            continue;
+          }
+        }
+
+        // The splitter and the movetext parser can report the same problem
+        const warnings = [
+          ...new Set([...game.warnings, ...validation.warnings]),
+        ];
+
+        if (remainingQuota !== null && remainingQuota <= 0) {
+          skippedGames.push({
+            white: game.metadata.white,
+            black: game.metadata.black,
+            reason: `Daily limit of ${quota!.limit} ${analysisDepth} analyses reached`,
+          });
+          continue;
+        }
+
         const analysisId = `ana_${uuidv4()}`;
 
         // Create analysis document
-        await Analysis.create({
-          analysis_id: analysisId,
-          user_id: userId,
-          batch_id: batchId,
-          status: AnalysisStatus.PENDING,
-          pgn: game.pgn,
-          gcs_url: url,
-          player_name: playerName,
-          player_color: playerColor,
-          metadata: game.metadata,
-        });
+        try {
+          await Analysis.create({
+            analysis_id: analysisId,
+            user_id: userId,
+            guest_id: guestId,
+            batch_id: batchId,
+            status: AnalysisStatus.PENDING,
+            pgn: game.pgn,
+            gcs_url: url,
+            player_name: playerName,
+            player_color: playerColor,
+            analysis_depth: analysisDepth,
+            language,
+            metadata: ecoService.classifyMetadata(
+              game.metadata,
+              validation.plies,
+            ),
+            move_tree: validation.tree,
+            parse_warnings: warnings.length > 0 ? warnings : undefined,
+            game_hash: gameHash,
+          });
+        } catch (error) {
+          // A concurrent upload created the same game first
+          const existing =
+            gameHash && isDuplicateKeyError(error)
+              ? await Analysis.findOne({ user_id: userId, game_hash: gameHash })
+              : null;
+          if (!existing) throw error;
+          await handleDuplicate(
+            existing,
+            { ...game.metadata, pgn: game.pgn, playerColor },
+            url,
+          );
+          continue;
+        }
+
+        if (remainingQuota !== null) remainingQuota--;
+
+        if (warnings.length > 0) {
+          parseWarnings.push({
+            game_index: game.index,
+            white: game.metadata.white,
+            black: game.metadata.black,
+            warnings,
+          });
+        }
 
         // Enqueue for processing
-        await queueService.enqueue(analysisId);
+        await queueService.enqueue(analysisId, JobPriority.BULK);
 
         analysisIds.push(analysisId);
       }
@@ -99,6 +378,10 @@ export async function processBulkAnalysis(
     analysis_ids: analysisIds,
     total_games: analysisIds.length,
     skipped_games: skippedGames.length > 0 ? skippedGames : undefined,
+    invalid_games: invalidGames.length > 0 ? invalidGames : undefined,
+    duplicate_games: duplicateGames.length > 0 ? duplicateGames : undefined,
+    ambiguous_games: ambiguousGames.length > 0 ? ambiguousGames : undefined,
+    parse_warnings: parseWarnings.length > 0 ? parseWarnings : undefined,
   };
 }
 
@@ -111,13 +394,24 @@ export async function processCustomAnalysis(
   userId: string,
   playerColor: PlayerColor,
   playerName: string = "Player",
+  analysisDepth: AnalysisDepth = "standard",
+  requestedLanguage?: AnalysisLanguage,
 ): Promise<{ analysis_id: string }> {
+  await analysisDepthService.assertQuotaAvailable(userId, analysisDepth);
+  const language = await resolveLanguage(userId, requestedLanguage);
+
   // Parse PGN to extract metadata
   const metadata = pgnParserService.parseHeaders(pgn);
 
-  // Validate PGN
-  if (!pgnParserService.isValidPgn(pgn)) {
-    throw new Error("Invalid PGN format");
+  // Validate PGN by replaying every move
+  const validation = pgnParserService.validatePgn(pgn);
+  if (!validation.valid) {
+    throw new InvalidPgnError(
+      validation.error
+        ? pgnParserService.describePgnError(validation.error)
+        : "Invalid PGN format",
+      validation.error,
+    );
   }
 
   const analysisId = `ana_${uuidv4()}`;
@@ -130,14 +424,17 @@ export async function processCustomAnalysis(
     pgn: pgn,
     player_name: playerName,
     player_color: playerColor,
-    metadata: metadata,
+    analysis_depth: analysisDepth,
+    language,
+    metadata: ecoService.classifyMetadata(metadata, validation.plies),
+    move_tree: validation.tree,
   });
 
-  // Enqueue for processing
-  await queueService.enqueue(analysisId);
+  // Enqueue for processing, ahead of bulk uploads
+  await queueService.enqueue(analysisId, JobPriority.SINGLE);
 
   logger.info(
-    `Custom analysis created: ${analysisId} for ${playerName} (${playerColor})`,
+    `Custom analysis created: ${analysisId} for ${playerName} (${playerColor}, ${analysisDepth}, ${language})`,
   );
 
   return { analysis_id: analysisId };
@@ -153,6 +450,435 @@ export async function getAnalysisById(
   return Analysis.findOne({ analysis_id: analysisId, user_id: userId });
 }
 
+/**
+ * Record the user's rating of a completed analysis
+ * Submitting again replaces the previous feedback.
+ * Returns null when the analysis does not exist or belongs to someone else.
+ */
+export async function submitFeedback(
+  analysisId: string,
+  userId: string,
+  feedback: { rating: number; comment?: string },
+): Promise<IAnalysisDocument | null> {
+  const analysis = await Analysis.findOne({
+    analysis_id: analysisId,
+    user_id: userId,
+  });
+  if (!analysis) return null;
+
+  if (analysis.status !== AnalysisStatus.COMPLETED) {
+    throw new AnalysisNotCompletedError(analysisId);
+  }
+
+  analysis.feedback = {
+    rating: feedback.rating,
+    comment: feedback.comment || undefined,
+    created_at: new Date(),
+  };
+  await analysis.save();
+  return analysis;
+}
+
+// Only finished or cancelled analyses can be run again
+const REANALYZABLE_STATUSES = [
+  AnalysisStatus.COMPLETED,
+  AnalysisStatus.FAILED,
+  AnalysisStatus.CANCELLED,
+];
+
+// Earlier runs kept on an analysis; older ones are dropped
+const MAX_PREVIOUS_ATTEMPTS = 10;
+
+/**
+ * Archive the current outcome and put the analysis back to PENDING
+ * The puzzles of the previous run are deleted; the new run saves its own.
+ * A game uploaded again passes the upload's settings, which replace the
+ * stored ones. The update only applies if the analysis has not changed since it was read,
+ * so concurrent requests cannot queue it twice. Returns false when another
+ * request got there first.
+ */
+async function resetForReanalysis(
+  analysis: IAnalysisDocument,
+  options: ReanalysisOptions,
+  upload: Partial<
+    Pick<IAnalysis, "batch_id" | "pgn" | "gcs_url" | "player_name" | "language">
+  > = {},
+): Promise<boolean> {
+  const attempt: AnalysisAttempt = {
+    status: analysis.status,
+    player_name: analysis.player_name,
+    player_color: analysis.player_color,
+    analysis_depth: analysis.analysis_depth,
+    prompt_version: analysis.prompt_version,
+    cached: analysis.cached,
+    usage: analysis.usage,
+    player_accuracy: analysis.player_accuracy,
+    result: analysis.result,
+    error: analysis.error,
+    feedback: analysis.feedback,
+    completed_at: analysis.completed_at,
+    requested_at: analysis.requested_at || analysis.created_at,
+    archived_at: new Date(),
+  };
+
+  // Switching sides analyzes the player named on the other side
+  let playerName = analysis.player_name;
+  if (options.playerColor && options.playerColor !== analysis.player_color) {
+    const sideName = analysis.metadata[options.playerColor];
+    if (sideName && sideName !== "?") playerName = sideName;
+  }
+
+  const { modifiedCount } = await Analysis.updateOne(
+    {
+      _id: analysis._id,
+      status: analysis.status,
+      updated_at: analysis.updated_at,
+    },
+    {
+      $set: {
+        status: AnalysisStatus.PENDING,
+        result: {},
+        player_name: playerName,
+        player_color: options.playerColor || analysis.player_color,
+        analysis_depth:
+          options.analysisDepth || analysis.analysis_depth || "standard",
+        requested_at: new Date(),
+        attempts: 0,
+        ...upload,
+      },
+      $unset: {
+        error: 1,
+        cancelled_at: 1,
+        last_heartbeat: 1,
+        retry_at: 1,
+        parked_at: 1,
+        positions: 1,
+        engine: 1,
+        player_accuracy: 1,
+        cached: 1,
+        prompt_version: 1,
+        output_length: 1,
+        usage: 1,
+        feedback: 1,
+        completed_at: 1,
+      },
+      $push: {
+        previous_attempts: {
+          $each: [attempt],
+          $slice: -MAX_PREVIOUS_ATTEMPTS,
+        },
+      },
+    },
+  );
+  if (modifiedCount === 0) return false;
+
+  await Puzzle.deleteMany({ analysis_id: analysis.analysis_id });
+
+  // A dead-lettered analysis queued again by its owner is no longer open
+  if (analysis.status === AnalysisStatus.FAILED) {
+    await deadLetterService.markAnalysisReplayed(
+      analysis.analysis_id,
+      String(analysis.user_id),
+    );
+  }
+  return true;
+}
+
+/**
+ * Run a finished (completed, failed or cancelled) analysis again, optionally with
+ * another depth or for the other side
+ * The previous outcome is kept in previous_attempts.
+ * Returns null when the analysis does not exist or belongs to someone else.
+ */
+export async function reanalyzeAnalysis(
+  analysisId: string,
+  userId: string,
+  options: ReanalysisOptions = {},
+): Promise<IAnalysisDocument | null> {
+  const analysis = await Analysis.findOne({
+    analysis_id: analysisId,
+    user_id: userId,
+  });
+  if (!analysis) return null;
+
+  if (!REANALYZABLE_STATUSES.includes(analysis.status)) {
+    throw new AnalysisInProgressError(analysisId);
+  }
+
+  const analysisDepth =
+    options.analysisDepth || analysis.analysis_depth || "standard";
+  await analysisDepthService.assertQuotaAvailable(userId, analysisDepth);
+
+  if (!(await resetForReanalysis(analysis, options))) {
+    throw new AnalysisInProgressError(analysisId);
+  }
+  await queueService.enqueue(analysisId, JobPriority.SINGLE);
+
+  logger.info(
+    `Re-analysis queued: ${analysisId} (${options.playerColor || analysis.player_color}, ${analysisDepth})`,
+  );
+  return Analysis.findOne({ analysis_id: analysisId });
+}
+
+/**
+ * Run the failed analyses of a batch again (and the completed ones when
+ * includeCompleted is set)
+ * Analyses still queued or running, and those beyond the user's daily quota,
+ * are reported as skipped. Returns null when the user has no analyses in the
+ * batch.
+ */
+export async function reanalyzeBatch(
+  batchId: string,
+  userId: string,
+  options: { analysisDepth?: AnalysisDepth; includeCompleted?: boolean } = {},
+): Promise<BatchActionResponse | null> {
+  const analyses = await Analysis.find({ batch_id: batchId, user_id: userId })
+    .select("-positions -move_tree")
+    .sort({ created_at: 1 });
+  if (analyses.length === 0) return null;
+
+  const statuses = options.includeCompleted
+    ? REANALYZABLE_STATUSES
+    : [AnalysisStatus.FAILED];
+  const response: BatchActionResponse = {
+    batch_id: batchId,
+    analysis_ids: [],
+    skipped: [],
+  };
+
+  // Remaining quota per depth, looked up on first use
+  const remaining = new Map<AnalysisDepth, number | null>();
+
+  for (const analysis of analyses) {
+    const skip = (reason: string) =>
+      response.skipped.push({
+        analysis_id: analysis.analysis_id,
+        status: analysis.status,
+        reason,
+      });
+
+    if (!statuses.includes(analysis.status)) {
+      skip(
+        analysis.status === AnalysisStatus.COMPLETED
+          ? "Analysis completed; set includeCompleted to run it again"
+          : analysis.status === AnalysisStatus.CANCELLED
+            ? "Analysis was cancelled"
+            : "Analysis is already queued or being processed",
+      );
+      continue;
+    }
+
+    const analysisDepth =
+      options.analysisDepth || analysis.analysis_depth || "standard";
+    if (!remaining.has(analysisDepth)) {
+      const usage = await analysisDepthService.getQuotaUsage(
+        userId,
+        analysisDepth,
+      );
+      remaining.set(analysisDepth, usage.remaining);
+    }
+    const left = remaining.get(analysisDepth);
+    if (left === 0) {
+      skip(`Daily limit of ${analysisDepth} analyses reached`);
+      continue;
+    }
+
+    if (
+      !(await resetForReanalysis(analysis, {
+        analysisDepth: options.analysisDepth,
+      }))
+    ) {
+      skip("Analysis is already queued or being processed");
+      continue;
+    }
+    if (left != null) remaining.set(analysisDepth, left - 1);
+    response.analysis_ids.push(analysis.analysis_id);
+  }
+
+  if (response.analysis_ids.length > 0) {
+    await queueService.enqueueBatch(response.analysis_ids, JobPriority.BULK);
+  }
+
+  logger.info(
+    `Batch re-analysis ${batchId}: ${response.analysis_ids.length} queued, ${response.skipped.length} skipped`,
+  );
+  return response;
+}
+
+// Analyses that can still be cancelled
+const CANCELLABLE_STATUSES = [
+  AnalysisStatus.PENDING,
+  AnalysisStatus.PROCESSING,
+];
+
+/**
+ * Cancel the queued and running analyses of a batch
+ * The worker skips cancelled jobs and drops the output of a run that was
+ * cancelled midway. Finished analyses are reported as skipped. Returns null
+ * when the user has no analyses in the batch.
+ */
+export async function cancelBatch(
+  batchId: string,
+  userId: string,
+): Promise<BatchActionResponse | null> {
+  const analyses = await Analysis.find({ batch_id: batchId, user_id: userId })
+    .select("analysis_id status")
+    .sort({ created_at: 1 });
+  if (analyses.length === 0) return null;
+
+  const cancellable = analyses
+    .filter((analysis) => CANCELLABLE_STATUSES.includes(analysis.status))
+    .map((analysis) => analysis.analysis_id);
+  if (cancellable.length > 0) {
+    await Analysis.updateMany(
+      {
+        analysis_id: { $in: cancellable },
+        status: { $in: CANCELLABLE_STATUSES },
+      },
+      {
+        $set: {
+          status: AnalysisStatus.CANCELLED,
+          cancelled_at: new Date(),
+        },
+      },
+    );
+  }
+
+  // Re-read, as some may have finished in the meantime
+  const after = await Analysis.find({ analysis_id: { $in: cancellable } })
+    .select("analysis_id status")
+    .lean();
+  const cancelled = new Set(
+    after
+      .filter((analysis) => analysis.status === AnalysisStatus.CANCELLED)
+      .map((analysis) => analysis.analysis_id),
+  );
+
+  const response: BatchActionResponse = {
+    batch_id: batchId,
+    analysis_ids: [...cancelled],
+    skipped: analyses
+      .filter((analysis) => !cancelled.has(analysis.analysis_id))
+      .map((analysis) => ({
+        analysis_id: analysis.analysis_id,
+        status:
+          after.find((a) => a.analysis_id === analysis.analysis_id)?.status ||
+          analysis.status,
+        reason:
+          analysis.status === AnalysisStatus.CANCELLED
+            ? "Analysis was already cancelled"
+            : "Analysis has already finished",
+      })),
+  };
+
+  logger.info(
+    `Batch ${batchId} cancelled: ${response.analysis_ids.length} analyses, ${response.skipped.length} skipped`,
+  );
+  return response;
+}
+
+/**
+ * Delete an analysis with its puzzles
+ * The uploaded PGN file is removed too once no other analysis refers to it.
+ * A running analysis is abandoned by the worker. Returns null when the
+ * analysis does not exist or belongs to someone else.
+ */
+export async function deleteAnalysis(
+  analysisId: string,
+  userId: string,
+): Promise<{
+  analysis_id: string;
+  deleted_puzzles: number;
+  deleted_file: boolean;
+} | null> {
+  const analysis = await Analysis.findOneAndDelete({
+    analysis_id: analysisId,
+    user_id: userId,
+  }).select("analysis_id gcs_url");
+  if (!analysis) return null;
+
+  const { deletedCount } = await Puzzle.deleteMany({
+    analysis_id: analysisId,
+  });
+
+  // Only the user's own uploads are removed, never a file shared by others
+  let deletedFile = false;
+  const url = analysis.gcs_url;
+  if (
+    url &&
+    gcsService.isUserUpload(url, userId) &&
+    !(await Analysis.exists({ gcs_url: url }))
+  ) {
+    try {
+      await gcsService.deleteFile(url);
+      deletedFile = true;
+    } catch (error) {
+      logger.error(
+        `Failed to delete ${url} for analysis ${analysisId}:`,
+        error,
+      );
+    }
+  }
+
+  logger.info(
+    `Analysis deleted: ${analysisId} (${deletedCount} puzzles${deletedFile ? ", file removed" : ""})`,
+  );
+  return {
+    analysis_id: analysisId,
+    deleted_puzzles: deletedCount,
+    deleted_file: deletedFile,
+  };
+}
+
+/**
+ * Queue a dead-lettered analysis again with a fresh set of attempts
+ * The analysis must still be FAILED, so one that was re-analyzed or deleted
+ * in the meantime is left alone. Returns null when the dead letter does not
+ * exist.
+ */
+export async function replayDeadLetter(
+  deadLetterId: string,
+  adminUserId: string,
+): Promise<IDeadLetter | null> {
+  const deadLetter = await deadLetterService.getDeadLetter(deadLetterId);
+  if (!deadLetter) return null;
+  if (deadLetter.status === "REPLAYED") {
+    throw new DeadLetterNotReplayableError(
+      deadLetterId,
+      "it was already replayed",
+    );
+  }
+
+  const analysis = await Analysis.findOneAndUpdate(
+    { analysis_id: deadLetter.analysis_id, status: AnalysisStatus.FAILED },
+    {
+      $set: { status: AnalysisStatus.PENDING, attempts: 0 },
+      $unset: { error: 1, retry_at: 1, last_heartbeat: 1, completed_at: 1 },
+    },
+  )
+    .select("batch_id")
+    .lean();
+  if (!analysis) {
+    const exists = await Analysis.exists({
+      analysis_id: deadLetter.analysis_id,
+    });
+    throw new DeadLetterNotReplayableError(
+      deadLetterId,
+      exists ? "the analysis is no longer FAILED" : "the analysis was deleted",
+    );
+  }
+
+  await queueService.enqueue(
+    deadLetter.analysis_id,
+    schedulerService.getJobPriority(analysis),
+  );
+  await deadLetterService.markReplayed(deadLetterId, adminUserId);
+  logger.info(
+    `Dead letter ${deadLetterId} replayed: analysis ${deadLetter.analysis_id} queued again`,
+  );
+  return deadLetterService.getDeadLetter(deadLetterId);
+}
+
 /**
  * Get status of multiple analyses
  */
@@ -175,8 +901,29 @@ export async function getAnalysesStatus(
   return result;
 }
 
+// Fields of an analysis in list views; the result, positions, PGN and
+// archived runs are loaded with the single analysis
+const ANALYSIS_SUMMARY_FIELDS = [
+  "analysis_id",
+  "batch_id",
+  "status",
+  "player_name",
+  "player_color",
+  "analysis_depth",
+  "language",
+  "metadata",
+  "player_accuracy",
+  "error",
+  "retry_at",
+  "created_at",
+  "updated_at",
+  "completed_at",
+  "cancelled_at",
+].join(" ");
+
 /**
  * Get all analyses for a user with filtering and sorting
+ * Only the summary fields of each analysis are returned.
  */
 export async function getUserAnalyses(
   userId: string,
@@ -185,7 +932,9 @@ export async function getUserAnalyses(
   filters?: {
     status?: AnalysisStatus;
     player_color?: PlayerColor;
-    sortBy?: "newest" | "oldest" | "status";
+    sortBy?: "newest" | "oldest" | "status" | "accuracy_desc" | "accuracy_asc";
+    minAccuracy?: number;
+    maxAccuracy?: number;
   },
 ): Promise<{ analyses: IAnalysisDocument[]; total: number }> {
   const skip = (page - 1) * limit;
@@ -200,6 +949,18 @@ export async function getUserAnalyses(
   if (filters?.player_color) {
     query.player_color = filters.player_color;
   }
+  if (
+    filters?.minAccuracy !== undefined ||
+    filters?.maxAccuracy !== undefined
+  ) {
+    query.player_accuracy = {};
+    if (filters.minAccuracy !== undefined) {
+      query.player_accuracy.$gte = filters.minAccuracy;
+    }
+    if (filters.maxAccuracy !== undefined) {
+      query.player_accuracy.$lte = filters.maxAccuracy;
+    }
+  }
 
   // Build sort object
   let sort: any = { created_at: -1 }; // Default: newest first
@@ -211,6 +972,15 @@ export async function getUserAnalyses(
       case "status":
         sort = { status: 1, created_at: -1 }; // Sort by status, then by date
         break;
+      case "accuracy_desc":
+      case "accuracy_asc":
+        // Analyses without engine evaluations have no accuracy to rank by
+        query.player_accuracy = { $ne: null, ...query.player_accuracy };
+        sort = {
+          player_accuracy: filters.sortBy === "accuracy_desc" ? -1 : 1,
+          created_at: -1,
+        };
+        break;
       case "newest":
       default:
         sort = { created_at: -1 };
@@ -219,7 +989,11 @@ export async function getUserAnalyses(
   }
 
   const [analyses, total] = await Promise.all([
-    Analysis.find(query).sort(sort).skip(skip).limit(limit),
+    Analysis.find(query)
+      .select(ANALYSIS_SUMMARY_FIELDS)
+      .sort(sort)
+      .skip(skip)
+      .limit(limit),
     Analysis.countDocuments(query),
   ]);
 
@@ -232,4 +1006,10 @@ export const analysisService = {
   getAnalysisById,
   getAnalysesStatus,
   getUserAnalyses,
+  submitFeedback,
+  reanalyzeAnalysis,
+  reanalyzeBatch,
+  cancelBatch,
+  deleteAnalysis,
+  replayDeadLetter,
 };
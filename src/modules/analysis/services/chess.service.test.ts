@@ -0,0 +1,191 @@
+import {
+  getLegalMoves,
+  isCheckmate,
+  isStalemate,
+  makeMove,
+  moveToSan,
+  parseFen,
+  parseSan,
+  Position,
+  replayGame,
+  STARTING_FEN,
+  toFen,
+} from "./chess.service";
+
+const KIWIPETE =
+  "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1";
+const ENDGAME = "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1";
+
+// Number of leaf positions reached after the given number of plies
+function perft(position: Position, depth: number): number {
+  const moves = getLegalMoves(position);
+  if (depth === 1) return moves.length;
+  return moves.reduce(
+    (nodes, move) => nodes + perft(makeMove(position, move), depth - 1),
+    0,
+  );
+}
+
+function san(fen: string, token: string): string {
+  const position = parseFen(fen);
+  const parsed = parseSan(position, token);
+  if (!parsed.ok) throw new Error(parsed.reason);
+  return moveToSan(position, parsed.move);
+}
+
+function playedFen(fen: string, token: string): string {
+  const position = parseFen(fen);
+  const parsed = parseSan(position, token);
+  if (!parsed.ok) throw new Error(parsed.reason);
+  return toFen(makeMove(position, parsed.move));
+}
+
+function sanError(fen: string, token: string): string | undefined {
+  const parsed = parseSan(parseFen(fen), token);
+  return parsed.ok ? undefined : parsed.reason;
+}
+
+describe("getLegalMoves", () => {
+  it.each([
+    ["the starting position", STARTING_FEN, [20, 400, 8902]],
+    ["Kiwipete", KIWIPETE, [48, 2039]],
+    ["a rook endgame with en passant pins", ENDGAME, [14, 191, 2812]],
+  ])("matches the reference perft counts of %s", (_, fen, counts) => {
+    const position = parseFen(fen);
+    counts.forEach((nodes, index) => {
+      expect(perft(position, index + 1)).toBe(nodes);
+    });
+  });
+
+  it("recognizes checkmate and stalemate", () => {
+    const mated = replayGame(["f3", "e5", "g4", "Qh4#"]).finalPosition;
+    expect(isCheckmate(mated)).toBe(true);
+    expect(getLegalMoves(mated)).toHaveLength(0);
+
+    const stalemate = parseFen("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1");
+    expect(isStalemate(stalemate)).toBe(true);
+    expect(isCheckmate(stalemate)).toBe(false);
+  });
+});
+
+describe("makeMove", () => {
+  it("castles on both sides and drops the castling rights", () => {
+    const fen = "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1";
+    expect(playedFen(fen, "O-O")).toBe("r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1");
+    expect(playedFen(fen, "O-O-O")).toBe("r3k2r/8/8/8/8/8/8/2KR3R b kq - 1 1");
+    // Moving a rook gives up castling on its side only
+    expect(playedFen(fen, "Rb1")).toBe("r3k2r/8/8/8/8/8/8/1R2K2R b Kkq - 1 1");
+  });
+
+  it("refuses castling out of, through or without the right to", () => {
+    expect(sanError("r3k2r/8/8/8/8/8/8/R3K2R w Qkq - 0 1", "O-O")).toBe(
+      "No kingside castling rights",
+    );
+    expect(sanError("4k3/8/8/8/8/8/4r3/R3K2R w KQ - 0 1", "O-O")).toBe(
+      "Cannot castle out of check",
+    );
+    expect(sanError("4k3/8/8/8/8/8/5r2/R3K2R w KQ - 0 1", "O-O")).toBe(
+      "Castling path is blocked or passes through check",
+    );
+  });
+
+  it("captures en passant only right after the double step", () => {
+    const result = replayGame(["e4", "a6", "e5", "d5", "exd6"]);
+    expect(result.valid).toBe(true);
+    expect(toFen(result.finalPosition)).toBe(
+      "rnbqkbnr/1pp1pppp/p2P4/8/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 3",
+    );
+
+    const late = replayGame(["e4", "d5", "e5", "a6", "exd6"]);
+    expect(late.valid).toBe(false);
+  });
+
+  it("promotes to the chosen piece", () => {
+    const fen = "8/P6k/8/8/8/8/8/K7 w - - 0 1";
+    expect(san(fen, "a8=Q")).toBe("a8=Q");
+    expect(san(fen, "a8N")).toBe("a8=N");
+    expect(playedFen(fen, "a8=R")).toBe("R7/7k/8/8/8/8/8/K7 b - - 0 1");
+    expect(sanError(fen, "a8")).toBe("Missing promotion piece");
+    expect(sanError("8/7k/P7/8/8/8/8/K7 w - - 0 1", "a7=Q")).toBe(
+      "Promotion is only allowed on the last rank",
+    );
+  });
+});
+
+describe("parseSan", () => {
+  it("accepts common notation variants", () => {
+    expect(san(STARTING_FEN, "Nf3!?")).toBe("Nf3");
+    expect(san(STARTING_FEN, "Ng1f3")).toBe("Nf3");
+    expect(san("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1", "0-0")).toBe("O-O");
+    expect(
+      san(
+        "rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2",
+        "ed5",
+      ),
+    ).toBe("exd5");
+  });
+
+  it("disambiguates and rejects ambiguous moves", () => {
+    const fen = "4k3/8/8/8/8/8/4K3/R6R w - - 0 1";
+    expect(sanError(fen, "Rf1")).toBe("Ambiguous move");
+    expect(san(fen, "Rhf1")).toBe("Rhf1");
+    expect(san("4k3/8/8/8/R7/8/8/R3K3 w - - 0 1", "R1a2")).toBe("R1a2");
+  });
+
+  it("explains why a move is not legal", () => {
+    expect(sanError(STARTING_FEN, "Nd4")).toBe("No knight can move to d4");
+    expect(sanError(STARTING_FEN, "e4+")).toBe(
+      "Move is marked as check but is not",
+    );
+    expect(sanError(STARTING_FEN, "hello")).toBe("Unrecognized move notation");
+    // The pawn is pinned to its king along the e-file
+    expect(sanError("4k3/4r3/8/8/8/3p4/4P3/4K3 w - - 0 1", "exd3")).toBe(
+      "Move leaves the king in check",
+    );
+    expect(sanError("4k3/8/8/8/8/8/4r3/R3K3 w - - 0 1", "Ra8")).toBe(
+      "Move does not resolve check",
+    );
+  });
+
+  it("adds check and mate suffixes", () => {
+    expect(san("4k3/8/8/8/8/8/8/R3K3 w - - 0 1", "Ra8")).toBe("Ra8+");
+    expect(san("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1", "Ra8")).toBe("Ra8#");
+  });
+});
+
+describe("replayGame", () => {
+  it("records each ply with its SAN, UCI and resulting FEN", () => {
+    const result = replayGame(["e4", "e5", "Nf3"]);
+    expect(result.valid).toBe(true);
+    expect(result.plies.map((ply) => [ply.move_number, ply.color])).toEqual([
+      [1, "w"],
+      [1, "b"],
+      [2, "w"],
+    ]);
+    expect(result.plies[2]).toMatchObject({ san: "Nf3", uci: "g1f3" });
+    expect(result.plies[2].fen).toBe(
+      "rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2",
+    );
+  });
+
+  it("stops at the first illegal move and reports where it is", () => {
+    const result = replayGame(["e4", "e5", "Ke3", "Nc6"]);
+    expect(result.valid).toBe(false);
+    expect(result.plies).toHaveLength(2);
+    expect(result.error).toEqual({
+      ply: 3,
+      move_number: 2,
+      color: "w",
+      move: "Ke3",
+      reason: "No king can move to e3",
+    });
+  });
+
+  it("reports moves played after the game is over", () => {
+    const result = replayGame(["f3", "e5", "g4", "Qh4#", "Kf2"]);
+    expect(result.error).toMatchObject({
+      ply: 5,
+      reason: "Game is already over (checkmate)",
+    });
+  });
+});
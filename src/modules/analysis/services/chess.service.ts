@@ -0,0 +1,867 @@
+/**
+ * Minimal chess rules implementation used to replay and validate PGN movetext.
+ * Squares are indexed 0-63 with a1 = 0, h1 = 7 and h8 = 63.
+ */
+
+export type Color = "w" | "b";
+export type PieceType = "p" | "n" | "b" | "r" | "q" | "k";
+
+export interface Piece {
+  color: Color;
+  type: PieceType;
+}
+
+/**
+ * Castling rights are stored as the file (0-7) of the castling rook so that
+ * positions with non-standard rook placement can be represented.
+ */
+export interface CastlingRights {
+  w: { kingside: number | null; queenside: number | null };
+  b: { kingside: number | null; queenside: number | null };
+}
+
+export interface Position {
+  board: (Piece | null)[];
+  turn: Color;
+  castling: CastlingRights;
+  epSquare: number | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export interface ChessMove {
+  from: number;
+  to: number;
+  piece: PieceType;
+  captured?: PieceType;
+  promotion?: PieceType;
+  castle?: "kingside" | "queenside";
+  rookFrom?: number;
+  enPassant?: boolean;
+}
+
+export type SanParseResult =
+  | { ok: true; move: ChessMove }
+  | { ok: false; reason: string };
+
+export interface ReplayedPly {
+  ply: number;
+  move_number: number;
+  color: Color;
+  san: string;
+  uci: string;
+  fen: string;
+}
+
+export interface ReplayError {
+  ply: number;
+  move_number: number;
+  color: Color;
+  move: string;
+  reason: string;
+}
+
+export interface ReplayResult {
+  valid: boolean;
+  plies: ReplayedPly[];
+  finalPosition: Position;
+  error?: ReplayError;
+}
+
+export const STARTING_FEN =
+  "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const FILES = "abcdefgh";
+
+const PIECE_NAMES: Record<PieceType, string> = {
+  p: "pawn",
+  n: "knight",
+  b: "bishop",
+  r: "rook",
+  q: "queen",
+  k: "king",
+};
+
+const KNIGHT_DELTAS = [
+  [1, 2],
+  [2, 1],
+  [2, -1],
+  [1, -2],
+  [-1, -2],
+  [-2, -1],
+  [-2, 1],
+  [-1, 2],
+];
+const BISHOP_DIRS = [
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+const ROOK_DIRS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+const KING_DELTAS = [...BISHOP_DIRS, ...ROOK_DIRS];
+
+function fileOf(square: number): number {
+  return square & 7;
+}
+
+function rankOf(square: number): number {
+  return square >> 3;
+}
+
+function offset(square: number, df: number, dr: number): number {
+  const file = fileOf(square) + df;
+  const rank = rankOf(square) + dr;
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return -1;
+  return rank * 8 + file;
+}
+
+function opponent(color: Color): Color {
+  return color === "w" ? "b" : "w";
+}
+
+export function squareName(square: number): string {
+  return `${FILES[fileOf(square)]}${rankOf(square) + 1}`;
+}
+
+export function parseSquare(name: string): number {
+  if (!/^[a-h][1-8]$/.test(name)) return -1;
+  return (parseInt(name[1], 10) - 1) * 8 + FILES.indexOf(name[0]);
+}
+
+function findKing(board: (Piece | null)[], color: Color): number {
+  return board.findIndex((p) => p?.type === "k" && p.color === color);
+}
+
+/**
+ * Check whether a square is attacked by any piece of the given color
+ */
+function isSquareAttacked(
+  board: (Piece | null)[],
+  square: number,
+  by: Color,
+): boolean {
+  // Pawns attack diagonally forward, so look one rank "behind" the square
+  const pawnRank = by === "w" ? -1 : 1;
+  for (const df of [-1, 1]) {
+    const from = offset(square, df, pawnRank);
+    const piece = from >= 0 ? board[from] : null;
+    if (piece && piece.color === by && piece.type === "p") return true;
+  }
+
+  for (const [df, dr] of KNIGHT_DELTAS) {
+    const from = offset(square, df, dr);
+    const piece = from >= 0 ? board[from] : null;
+    if (piece && piece.color === by && piece.type === "n") return true;
+  }
+
+  for (const [df, dr] of KING_DELTAS) {
+    const from = offset(square, df, dr);
+    const piece = from >= 0 ? board[from] : null;
+    if (piece && piece.color === by && piece.type === "k") return true;
+  }
+
+  const sliders: [number[][], PieceType][] = [
+    [BISHOP_DIRS, "b"],
+    [ROOK_DIRS, "r"],
+  ];
+  for (const [dirs, type] of sliders) {
+    for (const [df, dr] of dirs) {
+      let from = offset(square, df, dr);
+      while (from >= 0) {
+        const piece = board[from];
+        if (piece) {
+          if (
+            piece.color === by &&
+            (piece.type === type || piece.type === "q")
+          ) {
+            return true;
+          }
+          break;
+        }
+        from = offset(from, df, dr);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Parse a FEN string into a position
+ * Castling accepts standard (KQkq), X-FEN and Shredder-FEN (file letters) notation
+ */
+export function parseFen(fen: string): Position {
+  const parts = fen.trim().split(/\s+/);
+  if (parts.length < 4) {
+    throw new Error(`Invalid FEN: expected at least 4 fields in "${fen}"`);
+  }
+
+  const [placement, turn, castlingField, epField] = parts;
+  const rows = placement.split("/");
+  if (rows.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks in "${fen}"`);
+  }
+
+  const board: (Piece | null)[] = new Array(64).fill(null);
+  rows.forEach((row, index) => {
+    const rank = 7 - index;
+    let file = 0;
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        file += parseInt(char, 10);
+        continue;
+      }
+      const type = char.toLowerCase() as PieceType;
+      if (!"pnbrqk".includes(type) || file > 7) {
+        throw new Error(`Invalid FEN: bad piece placement "${row}"`);
+      }
+      board[rank * 8 + file] = {
+        color: char === char.toUpperCase() ? "w" : "b",
+        type,
+      };
+      file++;
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: rank "${row}" does not have 8 files`);
+    }
+  });
+
+  if (turn !== "w" && turn !== "b") {
+    throw new Error(`Invalid FEN: side to move must be "w" or "b"`);
+  }
+
+  for (const color of ["w", "b"] as Color[]) {
+    const kings = board.filter((p) => p?.type === "k" && p.color === color);
+    if (kings.length !== 1) {
+      throw new Error(`Invalid FEN: ${color} must have exactly one king`);
+    }
+  }
+
+  const castling: CastlingRights = {
+    w: { kingside: null, queenside: null },
+    b: { kingside: null, queenside: null },
+  };
+
+  if (castlingField !== "-") {
+    for (const char of castlingField) {
+      const color: Color = char === char.toUpperCase() ? "w" : "b";
+      const backRank = color === "w" ? 0 : 7;
+      const kingSquare = findKing(board, color);
+      if (kingSquare < 0 || rankOf(kingSquare) !== backRank) {
+        throw new Error(
+          `Invalid FEN: castling rights without a back-rank king`,
+        );
+      }
+      const kingFile = fileOf(kingSquare);
+      const isRook = (file: number) => {
+        const piece = board[backRank * 8 + file];
+        return piece?.type === "r" && piece.color === color;
+      };
+
+      const lower = char.toLowerCase();
+      if (lower === "k" || lower === "q") {
+        // Outermost rook on the requested side of the king (X-FEN semantics)
+        const files =
+          lower === "k" ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+        const rookFile = files.find((f) =>
+          lower === "k" ? f > kingFile && isRook(f) : f < kingFile && isRook(f),
+        );
+        if (rookFile === undefined) {
+          throw new Error(`Invalid FEN: no rook for castling right "${char}"`);
+        }
+        castling[color][lower === "k" ? "kingside" : "queenside"] = rookFile;
+      } else if (/[a-h]/.test(lower)) {
+        const rookFile = FILES.indexOf(lower);
+        if (!isRook(rookFile) || rookFile === kingFile) {
+          throw new Error(`Invalid FEN: no rook for castling right "${char}"`);
+        }
+        castling[color][rookFile > kingFile ? "kingside" : "queenside"] =
+          rookFile;
+      } else {
+        throw new Error(`Invalid FEN: bad castling field "${castlingField}"`);
+      }
+    }
+  }
+
+  let epSquare: number | null = null;
+  if (epField !== "-") {
+    epSquare = parseSquare(epField);
+    if (epSquare < 0) {
+      throw new Error(`Invalid FEN: bad en passant square "${epField}"`);
+    }
+  }
+
+  const position: Position = {
+    board,
+    turn,
+    castling,
+    epSquare,
+    halfmoveClock: parseInt(parts[4] || "0", 10) || 0,
+    fullmoveNumber: Math.max(1, parseInt(parts[5] || "1", 10) || 1),
+  };
+
+  if (isSquareAttacked(board, findKing(board, opponent(turn)), turn)) {
+    throw new Error("Invalid FEN: the side not to move is in check");
+  }
+
+  return position;
+}
+
+/**
+ * Whether an en passant capture is available (used to keep FEN output canonical)
+ */
+function hasEnPassantCapture(position: Position): boolean {
+  if (position.epSquare === null) return false;
+  const pawnRank = position.turn === "w" ? -1 : 1;
+  return [-1, 1].some((df) => {
+    const from = offset(position.epSquare!, df, pawnRank);
+    const piece = from >= 0 ? position.board[from] : null;
+    return piece?.type === "p" && piece.color === position.turn;
+  });
+}
+
+function castlingToFen(position: Position): string {
+  let result = "";
+  for (const color of ["w", "b"] as Color[]) {
+    const backRank = color === "w" ? 0 : 7;
+    const rights = position.castling[color];
+    const isRook = (file: number) => {
+      const piece = position.board[backRank * 8 + file];
+      return piece?.type === "r" && piece.color === color;
+    };
+
+    const symbols: string[] = [];
+    if (rights.kingside !== null) {
+      const outer = [7, 6, 5, 4, 3, 2, 1].find(isRook);
+      symbols.push(outer === rights.kingside ? "k" : FILES[rights.kingside]);
+    }
+    if (rights.queenside !== null) {
+      const outer = [0, 1, 2, 3, 4, 5, 6].find(isRook);
+      symbols.push(outer === rights.queenside ? "q" : FILES[rights.queenside]);
+    }
+    result += symbols
+      .map((s) => (color === "w" ? s.toUpperCase() : s))
+      .join("");
+  }
+  return result || "-";
+}
+
+/**
+ * Serialize a position to FEN
+ */
+export function toFen(position: Position): string {
+  const rows: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = "";
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.board[rank * 8 + file];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        row += empty;
+        empty = 0;
+      }
+      row += piece.color === "w" ? piece.type.toUpperCase() : piece.type;
+    }
+    if (empty > 0) row += empty;
+    rows.push(row);
+  }
+
+  const ep = hasEnPassantCapture(position)
+    ? squareName(position.epSquare!)
+    : "-";
+
+  return [
+    rows.join("/"),
+    position.turn,
+    castlingToFen(position),
+    ep,
+    position.halfmoveClock,
+    position.fullmoveNumber,
+  ].join(" ");
+}
+
+function generateCastlingMoves(position: Position): ChessMove[] {
+  const color = position.turn;
+  const backRank = color === "w" ? 0 : 7;
+  const kingSquare = findKing(position.board, color);
+  const moves: ChessMove[] = [];
+
+  if (kingSquare < 0 || rankOf(kingSquare) !== backRank) return moves;
+  if (isSquareAttacked(position.board, kingSquare, opponent(color))) {
+    return moves;
+  }
+
+  for (const side of ["kingside", "queenside"] as const) {
+    const rookFile = position.castling[color][side];
+    if (rookFile === null) continue;
+
+    const rookSquare = backRank * 8 + rookFile;
+    const rook = position.board[rookSquare];
+    if (!rook || rook.type !== "r" || rook.color !== color) continue;
+
+    const kingTarget = backRank * 8 + (side === "kingside" ? 6 : 2);
+    const rookTarget = backRank * 8 + (side === "kingside" ? 5 : 3);
+
+    // Every square the king or rook crosses must be empty, ignoring the two castling pieces
+    const lo = Math.min(kingSquare, kingTarget, rookSquare, rookTarget);
+    const hi = Math.max(kingSquare, kingTarget, rookSquare, rookTarget);
+    let blocked = false;
+    for (let sq = lo; sq <= hi; sq++) {
+      if (sq !== kingSquare && sq !== rookSquare && position.board[sq]) {
+        blocked = true;
+        break;
+      }
+    }
+    if (blocked) continue;
+
+    // The king may not pass through an attacked square
+    const board = [...position.board];
+    board[kingSquare] = null;
+    board[rookSquare] = null;
+    const step = kingTarget >= kingSquare ? 1 : -1;
+    let attacked = false;
+    for (let sq = kingSquare; ; sq += step) {
+      if (isSquareAttacked(board, sq, opponent(color))) {
+        attacked = true;
+        break;
+      }
+      if (sq === kingTarget) break;
+    }
+    if (attacked) continue;
+
+    moves.push({
+      from: kingSquare,
+      to: kingTarget,
+      piece: "k",
+      castle: side,
+      rookFrom: rookSquare,
+    });
+  }
+
+  return moves;
+}
+
+function generatePseudoLegalMoves(position: Position): ChessMove[] {
+  const moves: ChessMove[] = [];
+  const { board, turn } = position;
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    if (!piece || piece.color !== turn) continue;
+
+    if (piece.type === "p") {
+      const dir = turn === "w" ? 1 : -1;
+      const startRank = turn === "w" ? 1 : 6;
+      const promotionRank = turn === "w" ? 7 : 0;
+      const pushPromotions = (to: number, captured?: PieceType) => {
+        if (rankOf(to) === promotionRank) {
+          for (const promotion of ["q", "r", "b", "n"] as PieceType[]) {
+            moves.push({ from, to, piece: "p", captured, promotion });
+          }
+        } else {
+          moves.push({ from, to, piece: "p", captured });
+        }
+      };
+
+      const single = offset(from, 0, dir);
+      if (single >= 0 && !board[single]) {
+        pushPromotions(single);
+        const double = offset(from, 0, 2 * dir);
+        if (rankOf(from) === startRank && double >= 0 && !board[double]) {
+          moves.push({ from, to: double, piece: "p" });
+        }
+      }
+
+      for (const df of [-1, 1]) {
+        const to = offset(from, df, dir);
+        if (to < 0) continue;
+        const target = board[to];
+        if (target && target.color !== turn) {
+          pushPromotions(to, target.type);
+        } else if (to === position.epSquare && !target) {
+          moves.push({ from, to, piece: "p", captured: "p", enPassant: true });
+        }
+      }
+      continue;
+    }
+
+    const addStep = (to: number) => {
+      if (to < 0) return false;
+      const target = board[to];
+      if (target && target.color === turn) return false;
+      moves.push({ from, to, piece: piece.type, captured: target?.type });
+      return !target;
+    };
+
+    if (piece.type === "n" || piece.type === "k") {
+      const deltas = piece.type === "n" ? KNIGHT_DELTAS : KING_DELTAS;
+      for (const [df, dr] of deltas) addStep(offset(from, df, dr));
+      continue;
+    }
+
+    const dirs =
+      piece.type === "b"
+        ? BISHOP_DIRS
+        : piece.type === "r"
+          ? ROOK_DIRS
+          : KING_DELTAS;
+    for (const [df, dr] of dirs) {
+      let to = offset(from, df, dr);
+      while (addStep(to)) {
+        to = offset(to, df, dr);
+      }
+    }
+  }
+
+  return [...moves, ...generateCastlingMoves(position)];
+}
+
+/**
+ * Apply a move and return the resulting position (the input is not mutated)
+ */
+export function makeMove(position: Position, move: ChessMove): Position {
+  const board = [...position.board];
+  const color = position.turn;
+  const enemy = opponent(color);
+  const castling: CastlingRights = {
+    w: { ...position.castling.w },
+    b: { ...position.castling.b },
+  };
+  const backRank = color === "w" ? 0 : 7;
+  const enemyBackRank = color === "w" ? 7 : 0;
+
+  if (move.castle) {
+    const rookFrom = move.rookFrom!;
+    const rookTo = backRank * 8 + (move.castle === "kingside" ? 5 : 3);
+    board[move.from] = null;
+    board[rookFrom] = null;
+    board[move.to] = { color, type: "k" };
+    board[rookTo] = { color, type: "r" };
+  } else {
+    board[move.from] = null;
+    if (move.enPassant) {
+      board[offset(move.to, 0, color === "w" ? -1 : 1)] = null;
+    }
+    board[move.to] = {
+      color,
+      type: move.promotion || move.piece,
+    };
+  }
+
+  // Moving the king or a castling rook forfeits the corresponding rights
+  if (move.piece === "k") {
+    castling[color] = { kingside: null, queenside: null };
+  } else if (move.piece === "r" && rankOf(move.from) === backRank) {
+    if (castling[color].kingside === fileOf(move.from)) {
+      castling[color].kingside = null;
+    }
+    if (castling[color].queenside === fileOf(move.from)) {
+      castling[color].queenside = null;
+    }
+  }
+  if (move.captured === "r" && rankOf(move.to) === enemyBackRank) {
+    if (castling[enemy].kingside === fileOf(move.to)) {
+      castling[enemy].kingside = null;
+    }
+    if (castling[enemy].queenside === fileOf(move.to)) {
+      castling[enemy].queenside = null;
+    }
+  }
+
+  const isDoublePush =
+    move.piece === "p" && Math.abs(rankOf(move.to) - rankOf(move.from)) === 2;
+
+  return {
+    board,
+    turn: enemy,
+    castling,
+    epSquare: isDoublePush ? (move.from + move.to) / 2 : null,
+    halfmoveClock:
+      move.piece === "p" || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber:
+      color === "b" ? position.fullmoveNumber + 1 : position.fullmoveNumber,
+  };
+}
+
+function leavesKingSafe(position: Position, move: ChessMove): boolean {
+  const next = makeMove(position, move);
+  const kingSquare = findKing(next.board, position.turn);
+  return !isSquareAttacked(next.board, kingSquare, next.turn);
+}
+
+/**
+ * Generate all legal moves for the side to move
+ */
+export function getLegalMoves(position: Position): ChessMove[] {
+  return generatePseudoLegalMoves(position).filter((move) =>
+    leavesKingSafe(position, move),
+  );
+}
+
+export function isInCheck(position: Position): boolean {
+  const kingSquare = findKing(position.board, position.turn);
+  return isSquareAttacked(position.board, kingSquare, opponent(position.turn));
+}
+
+export function isCheckmate(position: Position): boolean {
+  return isInCheck(position) && getLegalMoves(position).length === 0;
+}
+
+export function isStalemate(position: Position): boolean {
+  return !isInCheck(position) && getLegalMoves(position).length === 0;
+}
+
+/**
+ * Format a move in standard algebraic notation (including check/mate suffix)
+ */
+export function moveToSan(position: Position, move: ChessMove): string {
+  let san: string;
+
+  if (move.castle) {
+    san = move.castle === "kingside" ? "O-O" : "O-O-O";
+  } else if (move.piece === "p") {
+    san = move.captured
+      ? `${FILES[fileOf(move.from)]}x${squareName(move.to)}`
+      : squareName(move.to);
+    if (move.promotion) san += `=${move.promotion.toUpperCase()}`;
+  } else {
+    const rivals = getLegalMoves(position).filter(
+      (m) =>
+        !m.castle &&
+        m.piece === move.piece &&
+        m.to === move.to &&
+        m.from !== move.from,
+    );
+    let disambiguation = "";
+    if (rivals.length > 0) {
+      const sameFile = rivals.some((m) => fileOf(m.from) === fileOf(move.from));
+      const sameRank = rivals.some((m) => rankOf(m.from) === rankOf(move.from));
+      if (!sameFile) {
+        disambiguation = FILES[fileOf(move.from)];
+      } else if (!sameRank) {
+        disambiguation = `${rankOf(move.from) + 1}`;
+      } else {
+        disambiguation = squareName(move.from);
+      }
+    }
+    san = `${move.piece.toUpperCase()}${disambiguation}${
+      move.captured ? "x" : ""
+    }${squareName(move.to)}`;
+  }
+
+  const next = makeMove(position, move);
+  if (isInCheck(next)) {
+    san += getLegalMoves(next).length === 0 ? "#" : "+";
+  }
+  return san;
+}
+
+/**
+ * Format a move in UCI long algebraic notation
+ * Chess960 castling is written as king-takes-rook, as UCI engines expect
+ */
+export function moveToUci(move: ChessMove, chess960 = false): string {
+  const to = move.castle && chess960 ? move.rookFrom! : move.to;
+  return `${squareName(move.from)}${squareName(to)}${move.promotion || ""}`;
+}
+
+const SAN_PATTERN =
+  /^([NBRQK])?([a-h])?([1-8])?[x:]?([a-h][1-8])(?:=?\(?([NBRQ])\)?)?$/;
+
+/**
+ * Resolve a SAN token against the legal moves of a position
+ * Tolerates common notation variants (0-0, missing "x", over-disambiguation,
+ * "e8Q" promotions) but rejects illegal moves and false check/mate markers
+ */
+export function parseSan(position: Position, token: string): SanParseResult {
+  let san = token.trim().replace(/[!?]+$/, "");
+  const markerMatch = san.match(/(\+{1,2}|#)$/);
+  const marker = markerMatch ? markerMatch[1] : "";
+  san = san
+    .slice(0, san.length - marker.length)
+    .replace(/\s*e\.p\.$/, "")
+    .replace(/[!?]+$/, "");
+
+  const legalMoves = getLegalMoves(position);
+  let move: ChessMove | undefined;
+
+  const castleMatch = san.match(/^([O0o])-\1(-\1)?$/);
+  if (castleMatch) {
+    const side = castleMatch[2] ? "queenside" : "kingside";
+    move = legalMoves.find((m) => m.castle === side);
+    if (!move) {
+      if (position.castling[position.turn][side] === null) {
+        return { ok: false, reason: `No ${side} castling rights` };
+      }
+      if (isInCheck(position)) {
+        return { ok: false, reason: "Cannot castle out of check" };
+      }
+      return {
+        ok: false,
+        reason: "Castling path is blocked or passes through check",
+      };
+    }
+  } else {
+    const match = san.match(SAN_PATTERN);
+    if (!match) {
+      return { ok: false, reason: "Unrecognized move notation" };
+    }
+
+    const [, pieceLetter, fromFile, fromRank, target, promotionLetter] = match;
+    const piece = (pieceLetter ? pieceLetter.toLowerCase() : "p") as PieceType;
+    const to = parseSquare(target);
+    const promotion = promotionLetter
+      ? (promotionLetter.toLowerCase() as PieceType)
+      : undefined;
+
+    const matches = (m: ChessMove) =>
+      !m.castle &&
+      m.piece === piece &&
+      m.to === to &&
+      (!fromFile || fileOf(m.from) === FILES.indexOf(fromFile)) &&
+      (!fromRank || rankOf(m.from) === parseInt(fromRank, 10) - 1);
+
+    const candidates = legalMoves.filter(matches);
+    if (candidates.length === 0) {
+      const pseudo = generatePseudoLegalMoves(position).filter(matches);
+      if (pseudo.length > 0) {
+        return {
+          ok: false,
+          reason: isInCheck(position)
+            ? "Move does not resolve check"
+            : "Move leaves the king in check",
+        };
+      }
+      return {
+        ok: false,
+        reason: `No ${PIECE_NAMES[piece]} can move to ${target}`,
+      };
+    }
+
+    if (candidates.some((m) => m.promotion)) {
+      if (!promotion) {
+        return { ok: false, reason: "Missing promotion piece" };
+      }
+      const promoted = candidates.filter((m) => m.promotion === promotion);
+      if (promoted.length > 1) {
+        return { ok: false, reason: "Ambiguous move" };
+      }
+      move = promoted[0];
+    } else if (promotion) {
+      return {
+        ok: false,
+        reason: "Promotion is only allowed on the last rank",
+      };
+    } else if (candidates.length > 1) {
+      return { ok: false, reason: "Ambiguous move" };
+    } else {
+      move = candidates[0];
+    }
+  }
+
+  if (marker) {
+    const next = makeMove(position, move!);
+    if (marker === "#" && !isCheckmate(next)) {
+      return { ok: false, reason: "Move is marked as checkmate but is not" };
+    }
+    if (marker !== "#" && !isInCheck(next)) {
+      return { ok: false, reason: "Move is marked as check but is not" };
+    }
+  }
+
+  return { ok: true, move: move! };
+}
+
+/**
+ * Resolve a UCI move (as reported by an engine) against the legal moves of a
+ * position; returns null when it is not legal
+ */
+export function parseUci(
+  position: Position,
+  uci: string,
+  chess960 = false,
+): ChessMove | null {
+  return (
+    getLegalMoves(position).find(
+      (move) => moveToUci(move, chess960) === uci.trim(),
+    ) || null
+  );
+}
+
+/**
+ * Replay a sequence of SAN moves from a start position, stopping at the first
+ * illegal move
+ */
+export function replayGame(
+  moves: string[],
+  startFen: string = STARTING_FEN,
+  chess960 = false,
+): ReplayResult {
+  let position = parseFen(startFen);
+  const plies: ReplayedPly[] = [];
+
+  for (let i = 0; i < moves.length; i++) {
+    const token = moves[i];
+    const parsed = parseSan(position, token);
+
+    if (!parsed.ok) {
+      let reason = parsed.reason;
+      if (getLegalMoves(position).length === 0) {
+        reason = isInCheck(position)
+          ? "Game is already over (checkmate)"
+          : "Game is already over (stalemate)";
+      }
+      return {
+        valid: false,
+        plies,
+        finalPosition: position,
+        error: {
+          ply: i + 1,
+          move_number: position.fullmoveNumber,
+          color: position.turn,
+          move: token,
+          reason,
+        },
+      };
+    }
+
+    const san = moveToSan(position, parsed.move);
+    const next = makeMove(position, parsed.move);
+    plies.push({
+      ply: i + 1,
+      move_number: position.fullmoveNumber,
+      color: position.turn,
+      san,
+      uci: moveToUci(parsed.move, chess960),
+      fen: toFen(next),
+    });
+    position = next;
+  }
+
+  return { valid: true, plies, finalPosition: position };
+}
+
+export const chessService = {
+  parseFen,
+  toFen,
+  getLegalMoves,
+  makeMove,
+  moveToSan,
+  moveToUci,
+  parseSan,
+  parseUci,
+  replayGame,
+  isInCheck,
+  isCheckmate,
+  isStalemate,
+};
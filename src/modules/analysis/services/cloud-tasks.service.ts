@@ -1,4 +1,5 @@
 import { CloudTasksClient } from "@google-cloud/tasks";
+import { JobPriority } from "../types";
 import { logger } from "../../../shared/utils/logger";
 
 let client: CloudTasksClient;
@@ -10,10 +11,19 @@ function getClient(): CloudTasksClient {
   return client;
 }
 
-function getQueuePath(): string {
+/**
+ * Cloud Tasks has no priorities within a queue; single games go to
+ * GCP_TASKS_PRIORITY_QUEUE when it is set, so they do not wait behind bulk
+ * uploads
+ */
+function getQueuePath(priority: JobPriority): string {
   const projectId = process.env.GCP_PROJECT_ID;
   const location = process.env.GCP_TASKS_LOCATION || "us-central1";
-  const queue = process.env.GCP_TASKS_QUEUE || "analysis-queue";
+  const defaultQueue = process.env.GCP_TASKS_QUEUE || "analysis-queue";
+  const queue =
+    priority > JobPriority.BULK
+      ? process.env.GCP_TASKS_PRIORITY_QUEUE || defaultQueue
+      : defaultQueue;
 
   if (!projectId) {
     throw new Error("GCP_PROJECT_ID environment variable is not set");
@@ -32,11 +42,18 @@ function getWorkerUrl(): string {
 
 /**
  * Enqueue a single analysis task to Cloud Tasks
+ * A delay schedules the task to be dispatched that much later.
  */
-export async function enqueueAnalysis(analysisId: string): Promise<void> {
-  const queuePath = getQueuePath();
+export async function enqueueAnalysis(
+  analysisId: string,
+  priority: JobPriority,
+  delayMs = 0,
+): Promise<void> {
+  const queuePath = getQueuePath(priority);
   const workerUrl = getWorkerUrl();
 
+  // Cloud Tasks signs an OIDC token for the worker to verify
+  const serviceAccountEmail = process.env.WORKER_OIDC_SERVICE_ACCOUNT;
   const task = {
     httpRequest: {
       httpMethod: "POST" as const,
@@ -47,7 +64,18 @@ export async function enqueueAnalysis(analysisId: string): Promise<void> {
       body: Buffer.from(JSON.stringify({ analysis_id: analysisId })).toString(
         "base64",
       ),
+      ...(serviceAccountEmail && {
+        oidcToken: {
+          serviceAccountEmail,
+          audience: process.env.WORKER_OIDC_AUDIENCE || workerUrl,
+        },
+      }),
     },
+    ...(delayMs > 0 && {
+      scheduleTime: {
+        seconds: Math.ceil((Date.now() + delayMs) / 1000),
+      },
+    }),
   };
 
   try {
@@ -68,9 +96,10 @@ export async function enqueueAnalysis(analysisId: string): Promise<void> {
  */
 export async function enqueueAnalysisBatch(
   analysisIds: string[],
+  priority: JobPriority,
 ): Promise<void> {
   for (const id of analysisIds) {
-    await enqueueAnalysis(id);
+    await enqueueAnalysis(id, priority);
   }
 }
 
@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from "uuid";
+import { DeadLetter, IDeadLetterDocument } from "../models/dead-letter.model";
+import { DeadLetterSource, DeadLetterStatus, IDeadLetter } from "../types";
+import { logger } from "../../../shared/utils/logger";
+
+/**
+ * Keep an analysis job that ran out of attempts for inspection and replay
+ */
+export async function recordDeadLetter(entry: {
+  analysisId: string;
+  userId: string;
+  source: DeadLetterSource;
+  error: string;
+  attempts: number;
+}): Promise<IDeadLetterDocument> {
+  const deadLetter = await DeadLetter.create({
+    dead_letter_id: uuidv4(),
+    analysis_id: entry.analysisId,
+    user_id: entry.userId,
+    source: entry.source,
+    error: entry.error,
+    attempts: entry.attempts,
+  });
+  logger.error(
+    `Analysis ${entry.analysisId} dead-lettered by ${entry.source} after ${entry.attempts} attempts: ${entry.error}`,
+  );
+  return deadLetter;
+}
+
+/**
+ * Dead letters, newest first
+ */
+export async function listDeadLetters(
+  page = 1,
+  limit = 20,
+  filters: {
+    status?: DeadLetterStatus;
+    source?: DeadLetterSource;
+    analysisId?: string;
+  } = {},
+): Promise<{ deadLetters: IDeadLetter[]; total: number }> {
+  const query: Record<string, unknown> = {};
+  if (filters.status) query.status = filters.status;
+  if (filters.source) query.source = filters.source;
+  if (filters.analysisId) query.analysis_id = filters.analysisId;
+
+  const [deadLetters, total] = await Promise.all([
+    DeadLetter.find(query)
+      .select("-_id -__v")
+      .sort({ created_at: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    DeadLetter.countDocuments(query),
+  ]);
+  return { deadLetters, total };
+}
+
+export async function getDeadLetter(
+  deadLetterId: string,
+): Promise<IDeadLetter | null> {
+  return DeadLetter.findOne({ dead_letter_id: deadLetterId })
+    .select("-_id -__v")
+    .lean();
+}
+
+/**
+ * Mark a dead letter replayed; false when it already was
+ */
+export async function markReplayed(
+  deadLetterId: string,
+  adminUserId: string,
+): Promise<boolean> {
+  const { modifiedCount } = await DeadLetter.updateOne(
+    { dead_letter_id: deadLetterId, status: "OPEN" },
+    {
+      $set: {
+        status: "REPLAYED",
+        replayed_at: new Date(),
+        replayed_by: adminUserId,
+      },
+    },
+  );
+  return modifiedCount === 1;
+}
+
+/**
+ * Mark the open dead letters of an analysis replayed, when its owner queued
+ * it again (re-analysis or a new upload of the game) instead of an admin
+ */
+export async function markAnalysisReplayed(
+  analysisId: string,
+  userId: string,
+): Promise<number> {
+  const { modifiedCount } = await DeadLetter.updateMany(
+    { analysis_id: analysisId, status: "OPEN" },
+    {
+      $set: {
+        status: "REPLAYED",
+        replayed_at: new Date(),
+        replayed_by: userId,
+      },
+    },
+  );
+  return modifiedCount;
+}
+
+export const deadLetterService = {
+  recordDeadLetter,
+  listDeadLetters,
+  getDeadLetter,
+  markReplayed,
+  markAnalysisReplayed,
+};
@@ -0,0 +1,122 @@
+import { AnalysisMetadata } from "../types";
+import { ECO_OPENINGS } from "../data/eco-openings";
+import { replayGame, ReplayedPly } from "./chess.service";
+import { logger } from "../../../shared/utils/logger";
+
+export interface OpeningClassification {
+  eco: string;
+  opening: string;
+  variation?: string;
+  ply: number; // Last ply of the game that matched a known opening position
+}
+
+interface IndexedOpening {
+  eco: string;
+  opening: string;
+  variation?: string;
+  length: number; // Plies in the table line
+}
+
+// Table lines are all shorter than this; later plies can never match
+const MAX_OPENING_PLIES = 60;
+
+let openingIndex: Map<string, IndexedOpening> | null = null;
+
+/**
+ * Identify a position independently of the move counters, so that different
+ * move orders reaching the same position (transpositions) share a key
+ */
+function positionKey(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+/**
+ * Replay every table line once and index the final position of each
+ * When several lines reach the same position the shortest one names it
+ */
+function getOpeningIndex(): Map<string, IndexedOpening> {
+  if (openingIndex) return openingIndex;
+
+  const index = new Map<string, IndexedOpening>();
+  for (const [eco, name, moves] of ECO_OPENINGS) {
+    const sans = moves.split(" ");
+    const replay = replayGame(sans);
+    if (!replay.valid) {
+      logger.warn(
+        `Skipping ECO entry ${eco} "${name}": ${replay.error?.reason} at ${replay.error?.move}`,
+      );
+      continue;
+    }
+
+    const separator = name.indexOf(":");
+    const entry: IndexedOpening = {
+      eco,
+      opening: separator < 0 ? name : name.slice(0, separator).trim(),
+      variation: separator < 0 ? undefined : name.slice(separator + 1).trim(),
+      length: sans.length,
+    };
+
+    const key = positionKey(replay.plies[replay.plies.length - 1].fen);
+    const existing = index.get(key);
+    if (!existing || entry.length < existing.length) {
+      index.set(key, entry);
+    }
+  }
+
+  openingIndex = index;
+  return index;
+}
+
+/**
+ * Classify a game from the standard start position by the deepest position
+ * in its mainline that appears in the opening table
+ */
+export function classifyOpening(
+  plies: ReplayedPly[],
+): OpeningClassification | undefined {
+  const index = getOpeningIndex();
+  let match: OpeningClassification | undefined;
+
+  for (const ply of plies.slice(0, MAX_OPENING_PLIES)) {
+    const entry = index.get(positionKey(ply.fen));
+    if (entry) {
+      match = {
+        eco: entry.eco,
+        opening: entry.opening,
+        variation: entry.variation,
+        ply: ply.ply,
+      };
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Fill eco/opening/variation from the move sequence, overriding the header
+ * tags (which are often missing or wrong); headers are kept when the game
+ * matches nothing or does not start from the standard position
+ */
+export function classifyMetadata(
+  metadata: AnalysisMetadata,
+  plies: ReplayedPly[],
+): AnalysisMetadata {
+  if (metadata.start_fen || metadata.variant === "chess960") {
+    return metadata;
+  }
+
+  const classification = classifyOpening(plies);
+  if (!classification) return metadata;
+
+  return {
+    ...metadata,
+    eco: classification.eco,
+    opening: classification.opening,
+    variation: classification.variation,
+  };
+}
+
+export const ecoService = {
+  classifyOpening,
+  classifyMetadata,
+};
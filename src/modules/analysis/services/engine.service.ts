@@ -0,0 +1,541 @@
+import { spawn, ChildProcessWithoutNullStreams } from "child_process";
+import { createInterface } from "readline";
+import {
+  AnalysisDepth,
+  AnalysisPosition,
+  EngineReport,
+  EngineSideSummary,
+  MoveClassification,
+  PlayerColor,
+} from "../types";
+import { moveToSan, parseFen, parseUci } from "./chess.service";
+import { logger } from "../../../shared/utils/logger";
+
+const DEFAULT_DEPTH = 14;
+const DEFAULT_POOL_SIZE = 1;
+const DEFAULT_THREADS = 1;
+const DEFAULT_HASH_MB = 64;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Search depth for quick and deep analyses unless ENGINE_DEPTH_QUICK/_DEEP are set
+const DEFAULT_LEVEL_DEPTHS: Record<
+  Exclude<AnalysisDepth, "standard">,
+  number
+> = {
+  quick: 10,
+  deep: 20,
+};
+
+// With ENGINE_MOVETIME_MS, quick and deep analyses scale the time per move
+const MOVETIME_SCALE: Record<AnalysisDepth, number> = {
+  quick: 0.5,
+  standard: 1,
+  deep: 2,
+};
+
+// Mate scores count as this many centipawns and other evaluations are capped
+// to it, so one move's loss is bounded
+const MATE_SCORE_CP = 1000;
+
+type MoveError = Exclude<MoveClassification, "best" | "good">;
+
+// Drop in winning chances (on a -1..1 scale) for each classification
+const CLASSIFICATION_THRESHOLDS: [MoveError, number][] = [
+  ["blunder", 0.3],
+  ["mistake", 0.2],
+  ["inaccuracy", 0.1],
+];
+
+interface EngineConfig {
+  path: string;
+  poolSize: number;
+  threads: number;
+  hashMb: number;
+  depth?: number;
+  movetimeMs?: number;
+  timeoutMs: number;
+}
+
+/**
+ * Score reported by the engine, from the side to move's point of view
+ */
+interface RawEvaluation {
+  cp?: number;
+  mate?: number;
+  bestMove?: string;
+}
+
+export interface EngineAnalysis {
+  positions: AnalysisPosition[];
+  report: EngineReport;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return value > 0 ? value : fallback;
+}
+
+/**
+ * Engine settings from the environment; null when no engine is configured
+ * ENGINE_MOVETIME_MS takes precedence over ENGINE_DEPTH
+ */
+function getEngineConfig(): EngineConfig | null {
+  const path = process.env.ENGINE_PATH;
+  if (!path) return null;
+
+  const movetimeMs = readInt("ENGINE_MOVETIME_MS", 0) || undefined;
+  return {
+    path,
+    poolSize: readInt("ENGINE_POOL_SIZE", DEFAULT_POOL_SIZE),
+    threads: readInt("ENGINE_THREADS", DEFAULT_THREADS),
+    hashMb: readInt("ENGINE_HASH_MB", DEFAULT_HASH_MB),
+    depth: movetimeMs ? undefined : readInt("ENGINE_DEPTH", DEFAULT_DEPTH),
+    movetimeMs,
+    timeoutMs: readInt("ENGINE_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+  };
+}
+
+/**
+ * A single UCI engine process
+ */
+class UciEngine {
+  name = "UCI engine";
+  private readonly child: ChildProcessWithoutNullStreams;
+  private alive = true;
+  private chess960 = false;
+  private onLine: ((line: string) => void) | null = null;
+  private onExit: ((error: Error) => void) | null = null;
+
+  constructor(path: string) {
+    this.child = spawn(path, [], { stdio: "pipe" });
+    createInterface({ input: this.child.stdout }).on("line", (line) =>
+      this.onLine?.(line.trim()),
+    );
+
+    const fail = (error: Error) => {
+      this.alive = false;
+      this.onExit?.(error);
+    };
+    this.child.on("error", fail);
+    this.child.on("exit", (code, signal) =>
+      fail(new Error(`Engine exited (${signal || `code ${code}`})`)),
+    );
+    // Writes after the process died surface through the exit handler
+    this.child.stdin.on("error", () => undefined);
+  }
+
+  get isAlive(): boolean {
+    return this.alive;
+  }
+
+  private send(command: string) {
+    this.child.stdin.write(`${command}\n`);
+  }
+
+  /**
+   * Send commands and read output until a line satisfies `done`
+   */
+  private request(
+    commands: string[],
+    done: (line: string) => boolean,
+    timeoutMs: number,
+    onLine?: (line: string) => void,
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.alive) {
+        reject(new Error("Engine is not running"));
+        return;
+      }
+
+      const finish = () => {
+        clearTimeout(timer);
+        this.onLine = null;
+        this.onExit = null;
+      };
+      const timer = setTimeout(() => {
+        finish();
+        this.kill();
+        reject(new Error(`Engine did not respond within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.onLine = (line) => {
+        onLine?.(line);
+        if (done(line)) {
+          finish();
+          resolve(line);
+        }
+      };
+      this.onExit = (error) => {
+        finish();
+        reject(error);
+      };
+
+      commands.forEach((command) => this.send(command));
+    });
+  }
+
+  async init(config: EngineConfig): Promise<void> {
+    await this.request(
+      ["uci"],
+      (line) => line === "uciok",
+      config.timeoutMs,
+      (line) => {
+        if (line.startsWith("id name ")) this.name = line.slice(8);
+      },
+    );
+    this.send(`setoption name Threads value ${config.threads}`);
+    this.send(`setoption name Hash value ${config.hashMb}`);
+    await this.request(
+      ["isready"],
+      (line) => line === "readyok",
+      config.timeoutMs,
+    );
+  }
+
+  async evaluate(
+    fen: string,
+    config: EngineConfig,
+    chess960: boolean,
+  ): Promise<RawEvaluation> {
+    if (chess960 !== this.chess960) {
+      this.send(`setoption name UCI_Chess960 value ${chess960}`);
+      this.chess960 = chess960;
+    }
+
+    const go = config.movetimeMs
+      ? `go movetime ${config.movetimeMs}`
+      : `go depth ${config.depth}`;
+
+    let score: RawEvaluation = {};
+    const bestLine = await this.request(
+      [`position fen ${fen}`, go],
+      (line) => line.startsWith("bestmove"),
+      config.timeoutMs,
+      (line) => {
+        // Bound scores come from aspiration windows and are not final
+        if (!line.startsWith("info") || /\b(lower|upper)bound\b/.test(line)) {
+          return;
+        }
+        const match = line.match(/\bscore (cp|mate) (-?\d+)/);
+        if (match) {
+          const value = parseInt(match[2], 10);
+          score = match[1] === "cp" ? { cp: value } : { mate: value };
+        }
+      },
+    );
+
+    const bestMove = bestLine.split(/\s+/)[1];
+    return {
+      ...score,
+      bestMove:
+        bestMove && bestMove !== "(none)" && bestMove !== "0000"
+          ? bestMove
+          : undefined,
+    };
+  }
+
+  kill() {
+    this.alive = false;
+    this.child.kill();
+  }
+
+  quit() {
+    if (!this.alive) return;
+    this.send("quit");
+    setTimeout(() => this.kill(), 1000).unref();
+  }
+}
+
+/**
+ * Fixed-size pool of engine processes, started on demand
+ */
+class EnginePool {
+  private idle: UciEngine[] = [];
+  private started = 0;
+  private waiting: {
+    resolve: (engine: UciEngine) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  constructor(readonly config: EngineConfig) {}
+
+  private async start(): Promise<UciEngine> {
+    this.started++;
+    const engine = new UciEngine(this.config.path);
+    try {
+      await engine.init(this.config);
+      return engine;
+    } catch (error) {
+      this.started--;
+      engine.kill();
+      // The engine cannot be started, so nothing queued would ever run
+      this.waiting.splice(0).forEach((waiter) => waiter.reject(error));
+      throw error;
+    }
+  }
+
+  private async acquire(): Promise<UciEngine> {
+    while (this.idle.length > 0) {
+      const engine = this.idle.pop()!;
+      if (engine.isAlive) return engine;
+      this.started--;
+    }
+    if (this.started < this.config.poolSize) return this.start();
+    return new Promise((resolve, reject) =>
+      this.waiting.push({ resolve, reject }),
+    );
+  }
+
+  private release(engine: UciEngine) {
+    const waiter = this.waiting.shift();
+    if (engine.isAlive) {
+      if (waiter) waiter.resolve(engine);
+      else this.idle.push(engine);
+      return;
+    }
+
+    // Replace a crashed or timed-out engine
+    this.started--;
+    if (waiter) this.start().then(waiter.resolve, waiter.reject);
+  }
+
+  async run<T>(task: (engine: UciEngine) => Promise<T>): Promise<T> {
+    const engine = await this.acquire();
+    try {
+      return await task(engine);
+    } finally {
+      this.release(engine);
+    }
+  }
+
+  shutdown() {
+    this.idle.forEach((engine) => engine.quit());
+    this.started -= this.idle.length;
+    this.idle = [];
+  }
+}
+
+// Lazy initialization to ensure env vars are loaded
+let _enginePool: EnginePool | null = null;
+
+function getEnginePool(): EnginePool | null {
+  if (!_enginePool) {
+    const config = getEngineConfig();
+    if (!config) return null;
+    _enginePool = new EnginePool(config);
+    logger.info(
+      `Engine pool initialized: ${config.path} x${config.poolSize} (${
+        config.movetimeMs ? `${config.movetimeMs}ms` : `depth ${config.depth}`
+      } per position)`,
+    );
+  }
+  return _enginePool;
+}
+
+/**
+ * Whether ENGINE_PATH points at a UCI engine to use
+ */
+export function isEngineEnabled(): boolean {
+  return !!process.env.ENGINE_PATH;
+}
+
+/**
+ * Lichess winning-chances curve: maps centipawns to -1 (lost) .. 1 (won)
+ */
+export function winningChances(cp: number): number {
+  return 2 / (1 + Math.exp(-0.00368208 * cp)) - 1;
+}
+
+/**
+ * Evaluation of a position in centipawns from White's point of view,
+ * with mates counted as MATE_SCORE_CP
+ */
+export function whiteCentipawns(position: AnalysisPosition): number | null {
+  if (position.eval_mate !== undefined) {
+    if (position.eval_mate === 0) {
+      // The side to move is checkmated
+      return position.side_to_move === "white" ? -MATE_SCORE_CP : MATE_SCORE_CP;
+    }
+    return position.eval_mate > 0 ? MATE_SCORE_CP : -MATE_SCORE_CP;
+  }
+  if (position.eval_cp === undefined) return null;
+  return Math.max(-MATE_SCORE_CP, Math.min(MATE_SCORE_CP, position.eval_cp));
+}
+
+/**
+ * Human-readable evaluation in pawns from White's point of view
+ * e.g. "+1.25", "-0.40", "#3" (White mates), "#-2" (Black mates)
+ */
+export function formatEvaluation(position: AnalysisPosition): string {
+  if (position.eval_mate !== undefined) {
+    if (position.eval_mate === 0) return "Checkmate";
+    return `#${position.eval_mate}`;
+  }
+  if (position.eval_cp === undefined) return "?";
+  const pawns = (position.eval_cp / 100).toFixed(2);
+  return position.eval_cp > 0 ? `+${pawns}` : pawns;
+}
+
+function classifyMove(drop: number): MoveError | undefined {
+  return CLASSIFICATION_THRESHOLDS.find(
+    ([, threshold]) => drop >= threshold,
+  )?.[0];
+}
+
+/**
+ * Whether a move was graded an inaccuracy, mistake or blunder
+ */
+export function isMoveError(classification?: MoveClassification): boolean {
+  return CLASSIFICATION_THRESHOLDS.some(([error]) => error === classification);
+}
+
+/**
+ * Convert a raw engine score to White's point of view on the position
+ */
+function toWhitePov(
+  position: AnalysisPosition,
+  raw: RawEvaluation,
+  chess960: boolean,
+): AnalysisPosition {
+  const sign = position.side_to_move === "white" ? 1 : -1;
+  const evaluated: AnalysisPosition = { ...position };
+
+  if (raw.mate !== undefined) {
+    // "mate 0" means the side to move is checkmated; kept as 0
+    evaluated.eval_mate = raw.mate === 0 ? 0 : sign * raw.mate;
+  } else if (raw.cp !== undefined) {
+    evaluated.eval_cp = raw.cp === 0 ? 0 : sign * raw.cp;
+  }
+
+  if (raw.bestMove) {
+    evaluated.best_move = raw.bestMove;
+    const board = parseFen(position.fen);
+    const move = parseUci(board, raw.bestMove, chess960);
+    if (move) evaluated.best_move_san = moveToSan(board, move);
+  }
+  return evaluated;
+}
+
+/**
+ * Search limits for an analysis depth level
+ * Standard uses ENGINE_DEPTH / ENGINE_MOVETIME_MS as configured
+ */
+function getSearchLimits(
+  config: EngineConfig,
+  level: AnalysisDepth,
+): Pick<EngineConfig, "depth" | "movetimeMs"> {
+  if (config.movetimeMs) {
+    return {
+      movetimeMs: Math.max(
+        1,
+        Math.round(config.movetimeMs * MOVETIME_SCALE[level]),
+      ),
+    };
+  }
+  if (level === "standard") return { depth: config.depth };
+  return {
+    depth: readInt(
+      `ENGINE_DEPTH_${level.toUpperCase()}`,
+      DEFAULT_LEVEL_DEPTHS[level],
+    ),
+  };
+}
+
+/**
+ * Evaluate every position of a game and grade each move
+ * A move's centipawn loss is the drop in evaluation (for the side that moved)
+ * between the position before and after it; its classification uses the
+ * drop in winning chances so that losing 200cp in a won position counts for
+ * less than in a balanced one.
+ * Positions not yet started when the signal is aborted are skipped and the
+ * analysis fails.
+ */
+export async function analyzePositions(
+  positions: AnalysisPosition[],
+  chess960 = false,
+  level: AnalysisDepth = "standard",
+  signal?: AbortSignal,
+): Promise<EngineAnalysis> {
+  const pool = getEnginePool();
+  if (!pool) {
+    throw new Error("No engine configured (set ENGINE_PATH)");
+  }
+  const search = { ...pool.config, ...getSearchLimits(pool.config, level) };
+
+  let engineName = "UCI engine";
+  const evaluated = await Promise.all(
+    positions.map((position) =>
+      pool.run(async (engine) => {
+        signal?.throwIfAborted();
+        const raw = await engine.evaluate(position.fen, search, chess960);
+        engineName = engine.name;
+        return toWhitePov(position, raw, chess960);
+      }),
+    ),
+  );
+
+  const losses: Record<PlayerColor, number[]> = { white: [], black: [] };
+  const summary: Record<PlayerColor, EngineSideSummary> = {
+    white: { inaccuracies: 0, mistakes: 0, blunders: 0, average_cp_loss: 0 },
+    black: { inaccuracies: 0, mistakes: 0, blunders: 0, average_cp_loss: 0 },
+  };
+
+  for (let i = 1; i < evaluated.length; i++) {
+    const mover = evaluated[i - 1].side_to_move;
+    const before = whiteCentipawns(evaluated[i - 1]);
+    const after = whiteCentipawns(evaluated[i]);
+    if (before === null || after === null) continue;
+
+    const sign = mover === "white" ? 1 : -1;
+    const cpLoss = Math.max(0, sign * (before - after));
+    const drop = sign * (winningChances(before) - winningChances(after));
+    const classification =
+      evaluated[i].uci === evaluated[i - 1].best_move
+        ? "best"
+        : classifyMove(drop) || "good";
+
+    evaluated[i].cp_loss = Math.round(cpLoss);
+    evaluated[i].classification = classification;
+    losses[mover].push(cpLoss);
+    if (classification === "inaccuracy") summary[mover].inaccuracies++;
+    if (classification === "mistake") summary[mover].mistakes++;
+    if (classification === "blunder") summary[mover].blunders++;
+  }
+
+  for (const color of ["white", "black"] as PlayerColor[]) {
+    const sideLosses = losses[color];
+    summary[color].average_cp_loss =
+      sideLosses.length > 0
+        ? Math.round(
+            sideLosses.reduce((sum, loss) => sum + loss, 0) / sideLosses.length,
+          )
+        : 0;
+  }
+
+  return {
+    positions: evaluated,
+    report: {
+      engine: engineName,
+      depth: search.depth,
+      movetime_ms: search.movetimeMs,
+      summary,
+    },
+  };
+}
+
+/**
+ * Stop idle engine processes (e.g. before a script exits)
+ */
+export function shutdownEngines(): void {
+  _enginePool?.shutdown();
+}
+
+export const engineService = {
+  isEngineEnabled,
+  analyzePositions,
+  formatEvaluation,
+  isMoveError,
+  whiteCentipawns,
+  winningChances,
+  shutdownEngines,
+};
@@ -0,0 +1,49 @@
+import { createHash } from "crypto";
+import { getHeader } from "./pgn-parser.service";
+
+// Headers that identify a game; re-exports of the same game keep these stable
+const IDENTITY_HEADERS = [
+  "Event",
+  "Site",
+  "Date",
+  "Round",
+  "White",
+  "Black",
+  "Result",
+];
+
+// Header values that carry no information ("?", "????.??.??", "-")
+const PLACEHOLDER_VALUE = /^[?.\-\s]*$/;
+
+/**
+ * Normalize a header value so cosmetic differences (case, accents, spacing,
+ * unknown placeholders) do not produce different hashes
+ */
+function normalizeHeaderValue(value?: string): string {
+  if (!value || PLACEHOLDER_VALUE.test(value)) return "";
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Canonical hash of a game: normalized identity headers plus the mainline
+ * in canonical SAN (comments, variations and clock data are ignored)
+ */
+export function computeGameHash(pgn: string, mainline: string[]): string {
+  const headers = IDENTITY_HEADERS.map(
+    (name) => `${name}=${normalizeHeaderValue(getHeader(pgn, name))}`,
+  );
+  // FEN is case-sensitive, so it is only trimmed
+  const startFen = `FEN=${getHeader(pgn, "FEN")?.trim() || ""}`;
+  return createHash("sha256")
+    .update([...headers, startFen, mainline.join(" ")].join("\n"))
+    .digest("hex");
+}
+
+export const gameHashService = {
+  computeGameHash,
+};
@@ -1,4 +1,5 @@
 import { Storage, Bucket } from "@google-cloud/storage";
+import { Readable } from "stream";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../../../shared/utils/logger";
 
@@ -150,10 +151,53 @@ export async function downloadFile(gcsUrl: string): Promise<string> {
   return content.toString("utf-8");
 }
 
+/**
+ * Open a read stream for a GCS URL (for large files that should not be
+ * buffered in memory)
+ */
+export function createReadStream(gcsUrl: string): Readable {
+  // Parse gs://bucket-name/path/to/file format
+  const match = gcsUrl.match(/^gs:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid GCS URL format: ${gcsUrl}`);
+  }
+
+  const [, bucketName, filePath] = match;
+  return getStorage().bucket(bucketName).file(filePath).createReadStream();
+}
+
+/**
+ * Whether a GCS URL is a file uploaded by this user through uploadFile
+ */
+export function isUserUpload(gcsUrl: string, userId: string): boolean {
+  return gcsUrl.startsWith(`gs://${getBucketName()}/uploads/${userId}/`);
+}
+
+/**
+ * Delete a file; files that are already gone are ignored
+ */
+export async function deleteFile(gcsUrl: string): Promise<void> {
+  // Parse gs://bucket-name/path/to/file format
+  const match = gcsUrl.match(/^gs:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid GCS URL format: ${gcsUrl}`);
+  }
+
+  const [, bucketName, filePath] = match;
+  await getStorage()
+    .bucket(bucketName)
+    .file(filePath)
+    .delete({ ignoreNotFound: true });
+  logger.info(`File deleted from GCS: ${gcsUrl}`);
+}
+
 export const gcsService = {
   uploadFile,
   uploadFiles,
   uploadProfilePicture,
   downloadFile,
+  createReadStream,
   getSignedUrl,
+  isUserUpload,
+  deleteFile,
 };
@@ -1,22 +1,151 @@
-import { generateText } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { logger } from "../../../shared/utils/logger";
-import { AnalysisResult, PlayerColor, ChessPuzzle } from "../types";
-
-interface AnalysisContext {
-  pgn: string;
-  white: string;
-  black: string;
-  result: string;
-  event?: string;
-  date?: string;
-  playerName: string;
-  playerColor: PlayerColor;
+import {
+  AnalysisContext,
+  AnalysisDepth,
+  AnalysisLanguage,
+  AnalysisPosition,
+  AnalysisResult,
+  AnalysisUsage,
+  EngineReport,
+  PlayerColor,
+  ChessPuzzle,
+  KeyMoment,
+  PromptTemplate,
+} from "../types";
+import { getAnalysisProvider } from "./analysis-provider.service";
+import { formatEvaluation, isMoveError } from "./engine.service";
+import {
+  getPromptAssignmentConfig,
+  getPromptTemplate,
+  getRequiredVariables,
+  renderPromptTemplate,
+} from "./prompt-template.service";
+import { getDepthProfile } from "./analysis-depth.service";
+import { getLanguageName } from "./localization.service";
+import { estimateCost } from "./usage.service";
+import {
+  analysisOutputSchema,
+  AnalysisOutput,
+} from "../validators/analysis-output.validator";
+import { AppError } from "../../../shared/middleware/errorHandler";
+
+export interface AnalyzeGameOptions {
+  annotations?: string[]; // Human comments from the PGN, one line per move
+  engine?: EngineReport;
+  positions?: AnalysisPosition[]; // Engine-evaluated positions
+  promptVersion?: string; // Template to use; the configured default when unset
+  analysisDepth?: AnalysisDepth; // Standard when unset
+  language?: AnalysisLanguage; // English when unset
+  signal?: AbortSignal; // Stops the model calls, e.g. when the run takes too long
+}
+
+// Keep imported commentary from crowding out the game itself
+const MAX_ANNOTATIONS = 40;
+const MAX_ANNOTATION_LENGTH = 300;
+
+// Flagged moves listed in the prompt, most costly first
+const MAX_ENGINE_FINDINGS = 20;
+
+function buildAnnotationsSection(annotations?: string[]): string {
+  if (!annotations || annotations.length === 0) return "";
+
+  const lines = annotations
+    .slice(0, MAX_ANNOTATIONS)
+    .map((line) =>
+      line.length > MAX_ANNOTATION_LENGTH
+        ? `${line.slice(0, MAX_ANNOTATION_LENGTH)}...`
+        : line,
+    );
+
+  return `
+## Annotations from the game file
+These comments were written by a human annotator (the player, a coach or a database editor). Use them as context, but form your own judgement.
+${lines.map((line) => `- ${line}`).join("\n")}
+`;
+}
+
+function buildEngineSection(ctx: AnalysisContext): string {
+  if (!ctx.engine || !ctx.positions) return "";
+  const positions = ctx.positions;
+
+  const limit = ctx.engine.movetime_ms
+    ? `${ctx.engine.movetime_ms}ms per move`
+    : `depth ${ctx.engine.depth}`;
+  const sideLine = (color: PlayerColor) => {
+    const side = ctx.engine!.summary[color];
+    return `- ${color === "white" ? "White" : "Black"}: ${side.blunders} blunders, ${side.mistakes} mistakes, ${side.inaccuracies} inaccuracies, average centipawn loss ${side.average_cp_loss}`;
+  };
+
+  const findings = positions
+    .filter((position) => isMoveError(position.classification))
+    .sort((a, b) => (b.cp_loss || 0) - (a.cp_loss || 0))
+    .slice(0, MAX_ENGINE_FINDINGS)
+    .sort((a, b) => a.ply - b.ply)
+    .map((position) => {
+      const before = positions[position.ply - 1];
+      const mover = before.side_to_move;
+      const number = `${before.move_number}${mover === "white" ? "." : "..."}`;
+      const best = before.best_move_san
+        ? `; best was ${before.best_move_san}`
+        : "";
+      return `- ${number} ${position.san} (${mover === "white" ? "White" : "Black"}, ${position.classification}): ${formatEvaluation(before)} → ${formatEvaluation(position)}${best}`;
+    });
+
+  return `
+## Engine Analysis
+Evaluations from ${ctx.engine.engine} (${limit}), in pawns from White's point of view.
+${sideLine("white")}
+${sideLine("black")}
+${findings.length > 0 ? `Flagged moves:\n${findings.join("\n")}` : "No inaccuracies, mistakes or blunders were found."}
+
+Base your assessment on these engine findings: prefer flagged moves of ${ctx.playerName} as key moments, explain why the engine's best move was stronger, and use these evaluations rather than estimating your own.
+`;
+}
+
+function buildStartPositionSection(ctx: AnalysisContext): string {
+  const chess960 = ctx.variant === "chess960";
+  if (!chess960 && !ctx.start_fen) return "";
+
+  const lines: string[] = [];
+  if (chess960) {
+    lines.push(
+      "- Variant: Chess960 (Fischer Random). Castling follows Chess960 rules and standard opening theory does not apply; judge the opening by development, king safety and piece coordination.",
+    );
+  }
+  if (ctx.start_fen) {
+    lines.push(
+      `- The game did not start from the standard position. Starting FEN: ${ctx.start_fen}`,
+    );
+    if (!chess960) {
+      lines.push(
+        "- This may be an odds game or a position set up on the board; account for the material balance of the starting position.",
+      );
+    }
+  }
+
+  return `
+## Starting Position
+${lines.join("\n")}
+`;
 }
 
-function buildPrompt(ctx: AnalysisContext): string {
-  const playerSide = ctx.playerColor === "white" ? "White" : "Black";
-  const opponentSide = ctx.playerColor === "white" ? "Black" : "White";
+/**
+ * Ask for the analysis text in the requested language
+ * Enum-like fields stay English so they can be stored, filtered and labelled
+ * consistently; moves stay in SAN so they can be checked against the game.
+ */
+function buildLanguageSection(ctx: AnalysisContext): string {
+  if (!ctx.language || ctx.language === "en") return "";
+
+  return `
+## Output Language
+Write all free text (summary, phase evaluations and key ideas, key moment comments, recommendations, puzzle titles, descriptions and hints) in ${getLanguageName(ctx.language)}.
+Keep these values in English exactly as specified: phases[].name (Opening, Middlegame or Endgame), puzzles[].difficulty (easy, medium or hard) and puzzles[].theme (an English theme name such as Fork, Pin or Back Rank Mate). Write moves in standard English algebraic notation (e.g. Nf3, O-O) and evaluations as numbers.
+`;
+}
+
+function buildPrompt(ctx: AnalysisContext, template: PromptTemplate): string {
+  const depth = getDepthProfile(ctx.analysisDepth);
   const playerResult =
     ctx.result === "1-0"
       ? ctx.playerColor === "white"
@@ -28,111 +157,164 @@ function buildPrompt(ctx: AnalysisContext): string {
           : "lost"
         : "drew";
 
-  return `You are an expert chess analyst and personal coach. Analyze the following chess game from the perspective of ${
-    ctx.playerName
-  } (playing as ${playerSide}).
-
-## Game Information
-- White: ${ctx.white}
-- Black: ${ctx.black}
-- Result: ${ctx.result}
-- Event: ${ctx.event || "Unknown"}
-- Date: ${ctx.date || "Unknown"}
-- **Player being analyzed**: ${ctx.playerName} (${playerSide}) - ${playerResult}
-
-## PGN
-${ctx.pgn}
-
-## Instructions
-Analyze this chess game specifically for ${
-    ctx.playerName
-  } (${playerSide}). Focus on their moves, decisions, and areas for improvement.
-
-Respond with a JSON object in this exact format:
-
-{
-  "summary": "A 2-3 sentence overview focusing on how ${
-    ctx.playerName
-  } played, including opening choice, key themes, and outcome from their perspective",
-  "phases": [
-    {
-      "name": "Opening",
-      "moves": "1-15",
-      "evaluation": "Assessment of ${ctx.playerName}'s play in this phase",
-      "key_ideas": ["What ${ctx.playerName} did well or poorly"]
-    }
-  ],
-  "key_moments": [
-    {
-      "move_number": 15,
-      "move": "Nxe5",
-      "fen": "",
-      "evaluation": "+1.5",
-      "comment": "Explanation of ${ctx.playerName}'s decision and its impact",
-      "is_mistake": false
-    }
-  ],
-  "recommendations": ["Specific improvement for ${ctx.playerName}"],
-  "puzzles": [
+  return renderPromptTemplate(
+    template,
     {
-      "title": "Puzzle title related to a key moment or theme from the game",
-      "description": "Brief description of what the puzzle teaches, related to ${ctx.playerName}'s play",
-      "fen": "FEN position string for the puzzle",
-      "solution": "Best move or sequence (e.g., 'Nxe5' or '1. Nxe5 dxe5 2. Qh5+')",
-      "hint": "Optional hint to help solve the puzzle",
-      "difficulty": "easy|medium|hard",
-      "theme": "Tactical theme (e.g., 'Fork', 'Pin', 'Back Rank Mate', 'Endgame Technique')"
-    }
-  ]
+      playerName: ctx.playerName,
+      playerSide: ctx.playerColor === "white" ? "White" : "Black",
+      opponentSide: ctx.playerColor === "white" ? "Black" : "White",
+      playerResult,
+      white: ctx.white,
+      black: ctx.black,
+      result: ctx.result,
+      event: ctx.event || "Unknown",
+      date: ctx.date || "Unknown",
+      startPositionSection: buildStartPositionSection(ctx),
+      pgn: ctx.pgn,
+      annotationsSection: buildAnnotationsSection(ctx.annotations),
+      engineSection: buildEngineSection(ctx),
+      // Used by depth-aware templates (v2 and later)
+      depthSection: depth.instructions,
+      keyMoments: depth.keyMoments,
+      recommendations: depth.recommendations,
+      puzzles: depth.puzzles === 1 ? "1 puzzle" : `${depth.puzzles} puzzles`,
+      // Used by v3 and later
+      languageSection: buildLanguageSection(ctx),
+    },
+    getRequiredVariables(ctx),
+  );
 }
 
-Requirements:
-- Include 3 phases: Opening, Middlegame, Endgame (or fewer if game ended early)
-- Identify 3-5 key moments focusing on ${ctx.playerName}'s moves
-- Provide 3-5 actionable recommendations specifically for ${
-    ctx.playerName
-  } to improve
-- Focus on conceptual understanding and patterns ${
-    ctx.playerName
-  } should recognize
-- Be specific with move numbers
-- Address ${
-    ctx.playerName
-  } directly in recommendations (e.g., "Consider developing..." not "White should...")
-- Generate exactly 2 puzzles based on positions or themes from this game that would help ${
-    ctx.playerName
-  } practice and improve
-- Puzzles should be relevant to mistakes or learning opportunities identified in the analysis
-- Each puzzle must have a valid FEN position and clear solution
-- Puzzle difficulty should match the complexity of the position
-
-Respond with ONLY the JSON object, no other text.`;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Validation problems listed in the error and fed back to the model
+const MAX_REPORTED_ISSUES = 20;
+
+// Long enough to show the model what it got wrong without resending a novel
+const MAX_ECHOED_RESPONSE_LENGTH = 12000;
+
+/**
+ * Raised when the model keeps returning output that fails the analysis schema
+ */
+export class AnalysisOutputError extends Error implements AppError {
+  statusCode = 502;
+  isOperational = true;
+  code = "INVALID_ANALYSIS_OUTPUT";
+  details: { attempts: number; issues: string[] };
+
+  constructor(
+    attempts: number,
+    issues: string[],
+    readonly usage?: AnalysisUsage, // Tokens spent on the failed attempts
+  ) {
+    super(
+      `Model output failed validation after ${attempts} attempt(s): ${issues.join("; ")}`,
+    );
+    this.name = "AnalysisOutputError";
+    this.details = { attempts, issues };
+  }
 }
 
 /**
- * Gemini returns puzzles as full objects, but AnalysisResult stores puzzle IDs
- * This interface represents the raw Gemini response
+ * Follow-up requests allowed after an invalid response
  */
-interface GeminiAnalysisResult {
-  summary: string;
-  phases: {
-    name: string;
-    moves: string;
-    evaluation: string;
-    key_ideas: string[];
-  }[];
-  key_moments: {
-    move_number: number;
-    move: string;
-    fen: string;
-    evaluation: string;
-    comment: string;
-    is_mistake: boolean;
-  }[];
-  recommendations: string[];
-  puzzles: ChessPuzzle[]; // Gemini returns full puzzle objects
+function getMaxRepairAttempts(): number {
+  const configured = parseInt(
+    process.env.ANALYSIS_MAX_REPAIR_ATTEMPTS || "",
+    10,
+  );
+  return configured >= 0 ? configured : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (acc, key) =>
+      typeof key === "number"
+        ? `${acc}[${key}]`
+        : acc
+          ? `${acc}.${String(key)}`
+          : String(key),
+    "",
+  );
 }
 
+type ParsedOutput =
+  | { success: true; output: AnalysisOutput }
+  | { success: false; issues: string[] };
+
+/**
+ * Extract the JSON object from a model response and validate it
+ */
+function parseAnalysisOutput(text: string): ParsedOutput {
+  const unfenced = text.replace(/```(?:json)?/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start < 0) {
+    return {
+      success: false,
+      issues: ["Response does not contain a JSON object"],
+    };
+  }
+  if (end < start) {
+    return {
+      success: false,
+      issues: ["Response JSON is not closed; it may be truncated"],
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(unfenced.slice(start, end + 1));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      issues: [`Response is not valid JSON (${reason}); it may be truncated`],
+    };
+  }
+
+  const parsed = analysisOutputSchema.safeParse(json);
+  if (parsed.success) return { success: true, output: parsed.data };
+
+  return {
+    success: false,
+    issues: parsed.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${formatIssuePath(issue.path)}: ${issue.message}`
+          : issue.message,
+      ),
+  };
+}
+
+/**
+ * Ask the model to fix its previous response
+ */
+function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  issues: string[],
+): string {
+  const echoed =
+    response.length > MAX_ECHOED_RESPONSE_LENGTH
+      ? `${response.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}...`
+      : response;
+
+  return `${prompt}
+
+## Your previous response
+${echoed}
+
+## Problems with your previous response
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Return the complete corrected JSON object in the required format. Respond with ONLY the JSON object, no other text.`;
+}
+
+/**
+ * Analyze a game with the configured provider (see analysis-provider.service)
+ */
 export async function analyzeGame(
   pgn: string,
   metadata: {
@@ -141,74 +323,114 @@ export async function analyzeGame(
     result: string;
     event?: string;
     date?: string;
+    variant?: string;
+    start_fen?: string;
   },
   playerName: string,
   playerColor: PlayerColor,
+  options: AnalyzeGameOptions = {},
 ): Promise<{
   result: Omit<AnalysisResult, "puzzles">;
   puzzles: ChessPuzzle[];
+  usage: AnalysisUsage;
 }> {
   const ctx: AnalysisContext = {
     pgn,
     ...metadata,
     playerName,
     playerColor,
+    annotations: options.annotations,
+    engine: options.engine,
+    positions: options.positions,
+    analysisDepth: options.analysisDepth,
+    language: options.language,
   };
 
-  const prompt = buildPrompt(ctx);
+  const template = getPromptTemplate(
+    options.promptVersion || getPromptAssignmentConfig().defaultVersion,
+  );
+  const prompt = buildPrompt(ctx, template);
 
-  logger.info(`Starting Gemini analysis for ${playerName} (${playerColor})...`);
+  // Depth levels may use their own model (ANALYSIS_MODEL_QUICK / _DEEP)
+  const provider = getAnalysisProvider(
+    getDepthProfile(options.analysisDepth).model,
+  );
 
-  try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+  logger.info(
+    `Starting ${options.analysisDepth || "standard"} ${provider.name} analysis (${provider.model}, prompt ${template.version}) for ${playerName} (${playerColor})...`,
+  );
 
-    if (!apiKey) {
-      throw new Error(
-        "GOOGLE_GENERATIVE_AI_API_KEY environment variable is not set. " +
-          "Please set it in your environment variables or Cloud Run configuration.",
-      );
-    }
+  const maxAttempts = getMaxRepairAttempts() + 1;
+  let attemptPrompt = prompt;
+  let issues: string[] = [];
 
-    const google = createGoogleGenerativeAI({
-      apiKey,
-    });
+  // Summed over the first request and any repair requests
+  const usage: AnalysisUsage = {
+    provider: provider.name,
+    model_name: provider.model,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    model_calls: 0,
+    latency_ms: 0,
+    estimated_cost_usd: null,
+  };
 
-    const { text } = await generateText({
-      model: google("gemini-2.0-flash"),
-      prompt,
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    options.signal?.throwIfAborted();
+    const startedAt = Date.now();
+    const { text, usage: tokens } = await provider.generate({
+      prompt: attemptPrompt,
+      context: ctx,
+      signal: options.signal,
     });
-
-    // Parse JSON response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Failed to parse JSON from Gemini response");
+    usage.latency_ms += Date.now() - startedAt;
+    usage.model_calls++;
+    if (tokens) {
+      usage.prompt_tokens += tokens.prompt_tokens;
+      usage.completion_tokens += tokens.completion_tokens;
+      usage.total_tokens += tokens.total_tokens;
     }
+    usage.estimated_cost_usd = estimateCost(provider.model, usage);
 
-    const geminiResult = JSON.parse(jsonMatch[0]) as GeminiAnalysisResult;
+    const parsed = parseAnalysisOutput(text);
+    if (!parsed.success) {
+      issues = parsed.issues;
+      logger.warn(
+        `${provider.name} output failed validation (attempt ${attempt}/${maxAttempts}): ${issues.join("; ")}`,
+      );
+      attemptPrompt = buildRepairPrompt(prompt, text, issues);
+      continue;
+    }
 
-    // Validate and log puzzles
-    const puzzles = geminiResult.puzzles || [];
+    const { puzzles, ...output } = parsed.output;
     if (puzzles.length > 0) {
       logger.info(
-        `Gemini generated ${puzzles.length} puzzles: ${puzzles.map((p) => p.title).join(", ")}`,
+        `${provider.name} generated ${puzzles.length} puzzles: ${puzzles.map((p) => p.title).join(", ")}`,
       );
     } else {
-      logger.warn("Gemini response did not include puzzles array");
+      logger.warn(`${provider.name} response did not include any puzzles`);
     }
 
-    // Extract puzzles separately, return result without puzzles (will be replaced with IDs in worker)
-    const { puzzles: _, ...resultWithoutPuzzles } = geminiResult;
-
-    logger.info("Gemini analysis completed successfully");
+    logger.info(
+      `${provider.name} analysis completed successfully (${usage.total_tokens} tokens, ${usage.latency_ms}ms)`,
+    );
 
+    // Puzzles are returned separately (replaced with IDs in the worker)
     return {
-      result: resultWithoutPuzzles,
-      puzzles: puzzles,
+      result: {
+        ...output,
+        // fen is filled in from the replayed game by the worker
+        key_moments: output.key_moments as KeyMoment[],
+      },
+      puzzles,
+      usage,
     };
-  } catch (error) {
-    logger.error("Gemini analysis failed:", error);
-    throw error;
   }
+
+  const error = new AnalysisOutputError(maxAttempts, issues, usage);
+  logger.error(`${provider.name} analysis failed: ${error.message}`);
+  throw error;
 }
 
 export const geminiService = {
@@ -0,0 +1,83 @@
+import {
+  DIFFICULTY_LABELS,
+  LabelTranslations,
+  PHASE_LABELS,
+  THEME_LABELS,
+} from "../data/localized-labels";
+import { AnalysisLanguage, AnalysisResult, ChessPuzzle } from "../types";
+
+export const ANALYSIS_LANGUAGES: AnalysisLanguage[] = ["en", "es", "de", "hi"];
+
+// How each language is named in the prompt
+const LANGUAGE_NAMES: Record<AnalysisLanguage, string> = {
+  en: "English",
+  es: "Spanish (Español)",
+  de: "German (Deutsch)",
+  hi: "Hindi (हिन्दी)",
+};
+
+export function getLanguageName(language: AnalysisLanguage): string {
+  return LANGUAGE_NAMES[language];
+}
+
+/**
+ * Map a value to its English key, also when the model wrote it in another
+ * language or with different casing ("apertura" -> "Opening")
+ * Unknown values are returned unchanged.
+ */
+function toKey(value: string, translations: LabelTranslations): string {
+  const folded = value.trim().toLowerCase();
+  for (const [key, labels] of Object.entries(translations)) {
+    if (
+      key.toLowerCase() === folded ||
+      Object.values(labels).some((label) => label.toLowerCase() === folded)
+    ) {
+      return key;
+    }
+  }
+  return value.trim();
+}
+
+function toLabel(
+  key: string,
+  translations: LabelTranslations,
+  language: AnalysisLanguage,
+): string {
+  if (language === "en") return key;
+  return translations[key]?.[language] ?? key;
+}
+
+/**
+ * Give phases their English key and a label in the analysis language
+ */
+export function localizePhases(
+  phases: AnalysisResult["phases"],
+  language: AnalysisLanguage,
+): AnalysisResult["phases"] {
+  return phases.map((phase) => {
+    const name = toKey(phase.name, PHASE_LABELS);
+    return { ...phase, name, label: toLabel(name, PHASE_LABELS, language) };
+  });
+}
+
+/**
+ * English difficulty/theme keys plus their labels in the analysis language
+ */
+export function localizePuzzle(
+  puzzle: ChessPuzzle,
+  language: AnalysisLanguage,
+): ChessPuzzle & { difficulty_label: string; theme_label: string } {
+  const theme = toKey(puzzle.theme, THEME_LABELS);
+  return {
+    ...puzzle,
+    theme,
+    difficulty_label: toLabel(puzzle.difficulty, DIFFICULTY_LABELS, language),
+    theme_label: toLabel(theme, THEME_LABELS, language),
+  };
+}
+
+export const localizationService = {
+  getLanguageName,
+  localizePhases,
+  localizePuzzle,
+};
@@ -0,0 +1,257 @@
+import { QueueJob } from "../models/queue-job.model";
+import { QueueJobStatus } from "../types";
+import { claimJob, startWorker, stopWorker } from "./mongo-queue.service";
+import { workerService } from "./worker.service";
+import { RetryableError } from "./retry-policy.service";
+import { ConcurrencyLimitError } from "./scheduler.service";
+import { logger } from "../../../shared/utils/logger";
+
+// uuid is published as ESM only; the analysis pipeline is not needed here
+jest.mock("uuid", () => ({ v4: () => "job-uuid" }));
+jest.mock("./worker.service", () => ({
+  workerService: { processAnalysis: jest.fn() },
+}));
+jest.mock("./dead-letter.service", () => ({
+  deadLetterService: { recordDeadLetter: jest.fn() },
+}));
+
+const ENV_KEYS = [
+  "MONGO_QUEUE_CONCURRENCY",
+  "MONGO_QUEUE_VISIBILITY_TIMEOUT_MS",
+  "ANALYSIS_MAX_CONCURRENCY",
+  "ANALYSIS_MAX_CONCURRENCY_PER_USER",
+];
+const savedEnv = { ...process.env };
+
+type Running = { _id: string | null; count: number };
+type Waiting = { _id: string | null; priority: number; oldest: Date };
+
+/**
+ * Answer claimJob's two aggregations: jobs leased per user, then users with
+ * jobs ready to run
+ */
+function mockQueue(running: Running[], waiting: Waiting[]) {
+  jest
+    .spyOn(QueueJob, "aggregate")
+    .mockImplementation(((pipeline: { $match: Record<string, unknown> }[]) =>
+      Promise.resolve(
+        pipeline[0].$match.$or ? waiting : running,
+      )) as unknown as typeof QueueJob.aggregate);
+}
+
+// Mongoose's overloads hide the call arguments, so the spies are plain mocks
+function mockLease(...jobs: unknown[]): jest.Mock {
+  const lease = jest.spyOn(QueueJob, "findOneAndUpdate");
+  for (const job of jobs) {
+    lease.mockResolvedValueOnce(job as never);
+  }
+  lease.mockResolvedValue(null as never);
+  return lease as unknown as jest.Mock;
+}
+
+function leasedUsers(lease: jest.Mock): (string | null)[] {
+  return lease.mock.calls.map(([filter]) => filter.user_id);
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000);
+
+beforeAll(() => {
+  logger.silent = true;
+});
+
+afterAll(() => {
+  logger.silent = false;
+});
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  jest.restoreAllMocks();
+});
+
+describe("claimJob", () => {
+  it("leases the job atomically and counts the attempt", async () => {
+    process.env.MONGO_QUEUE_VISIBILITY_TIMEOUT_MS = "60000";
+    mockQueue([], [{ _id: "user-1", priority: 0, oldest: minutesAgo(1) }]);
+    const job = { job_id: "job-1" };
+    const lease = mockLease(job);
+
+    const before = Date.now();
+    expect(await claimJob()).toBe(job);
+
+    const [filter, update, options] = lease.mock.calls[0];
+    expect(filter).toMatchObject({
+      user_id: "user-1",
+      $or: [
+        { status: QueueJobStatus.QUEUED, available_at: expect.any(Object) },
+        // A job whose worker died is leased again once its lease runs out
+        { status: QueueJobStatus.LEASED, leased_until: expect.any(Object) },
+      ],
+    });
+    expect(update.$set.status).toBe(QueueJobStatus.LEASED);
+    expect(update.$set.lease_owner).toEqual(expect.any(String));
+    expect(update.$set.leased_until.getTime()).toBeGreaterThanOrEqual(
+      before + 60000,
+    );
+    expect(update.$inc).toEqual({ attempts: 1 });
+    expect(options.sort).toEqual({ priority: -1, available_at: 1 });
+  });
+
+  it("returns null when nothing is ready", async () => {
+    mockQueue([], []);
+    const lease = mockLease();
+    expect(await claimJob()).toBeNull();
+    expect(lease).not.toHaveBeenCalled();
+  });
+
+  it("leases nothing while the global limit is reached", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "3";
+    mockQueue(
+      [
+        { _id: "user-1", count: 2 },
+        { _id: "user-2", count: 1 },
+      ],
+      [{ _id: "user-3", priority: 10, oldest: minutesAgo(5) }],
+    );
+    const lease = mockLease({ job_id: "job-1" });
+
+    expect(await claimJob()).toBeNull();
+    expect(lease).not.toHaveBeenCalled();
+  });
+
+  it("skips users at their own limit", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "2";
+    mockQueue(
+      [{ _id: "bulk-user", count: 2 }],
+      [
+        { _id: "bulk-user", priority: 0, oldest: minutesAgo(30) },
+        { _id: "user-2", priority: 0, oldest: minutesAgo(1) },
+      ],
+    );
+    const lease = mockLease({ job_id: "job-2" });
+
+    await claimJob();
+    expect(leasedUsers(lease)).toEqual(["user-2"]);
+  });
+
+  it("prefers the highest priority, then the fewest running, then the longest wait", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "5";
+    mockQueue(
+      [
+        { _id: "busy", count: 2 },
+        { _id: "single", count: 3 },
+      ],
+      [
+        { _id: "busy", priority: 0, oldest: minutesAgo(60) },
+        { _id: "newer", priority: 0, oldest: minutesAgo(2) },
+        { _id: "older", priority: 0, oldest: minutesAgo(10) },
+        { _id: "single", priority: 10, oldest: minutesAgo(1) },
+      ],
+    );
+    // Every user's job is taken by another worker, so each one is tried
+    const lease = mockLease();
+
+    expect(await claimJob()).toBeNull();
+    expect(leasedUsers(lease)).toEqual(["single", "older", "newer", "busy"]);
+  });
+
+  it("moves on to the next user when another worker took the job", async () => {
+    mockQueue(
+      [],
+      [
+        { _id: "user-1", priority: 0, oldest: minutesAgo(10) },
+        { _id: "user-2", priority: 0, oldest: minutesAgo(5) },
+      ],
+    );
+    const job = { job_id: "job-2" };
+    const lease = mockLease(null, job);
+
+    expect(await claimJob()).toBe(job);
+    expect(leasedUsers(lease)).toEqual(["user-1", "user-2"]);
+  });
+});
+
+describe("worker loop", () => {
+  const job = {
+    job_id: "job-1",
+    analysis_id: "ana_1",
+    attempts: 1,
+    max_attempts: 3,
+  };
+
+  beforeEach(() => {
+    process.env.MONGO_QUEUE_CONCURRENCY = "1";
+    mockQueue([], [{ _id: "user-1", priority: 0, oldest: minutesAgo(1) }]);
+    mockLease(job);
+  });
+
+  afterEach(() => {
+    stopWorker();
+  });
+
+  async function runOnce(error: Error): Promise<jest.Mock> {
+    (workerService.processAnalysis as jest.Mock).mockRejectedValue(error);
+    const update = jest
+      .spyOn(QueueJob, "updateOne")
+      .mockResolvedValue({} as never) as unknown as jest.Mock;
+    startWorker();
+    await waitFor(() => update.mock.calls.length > 0);
+    return update;
+  }
+
+  it("defers a job held back by a concurrency limit without using an attempt", async () => {
+    const before = Date.now();
+    const update = await runOnce(
+      new ConcurrencyLimitError("Concurrency limit reached", 15000),
+    );
+
+    expect(workerService.processAnalysis).toHaveBeenCalledWith("ana_1");
+    const [filter, change] = update.mock.calls[0];
+    expect(filter).toEqual({
+      job_id: "job-1",
+      lease_owner: expect.any(String),
+    });
+    expect(change.$set.status).toBe(QueueJobStatus.QUEUED);
+    expect(change.$set.available_at.getTime()).toBeGreaterThanOrEqual(
+      before + 15000,
+    );
+    expect(change.$unset).toEqual({ leased_until: 1, lease_owner: 1 });
+    expect(change.$inc).toEqual({ attempts: -1 });
+  });
+
+  it("retries a job after a retryable failure, leaving the attempt to the analysis", async () => {
+    const update = await runOnce(new RetryableError("Rate limited", 30000));
+
+    const [, change] = update.mock.calls[0];
+    expect(change.$set).toMatchObject({
+      status: QueueJobStatus.QUEUED,
+      last_error: "Rate limited",
+    });
+    expect(change.$inc).toEqual({ attempts: -1 });
+  });
+
+  it("retries a job that failed unexpectedly, counting the attempt", async () => {
+    const update = await runOnce(new Error("Cannot read properties"));
+
+    const [, change] = update.mock.calls[0];
+    expect(change.$set).toMatchObject({
+      status: QueueJobStatus.QUEUED,
+      last_error: "Cannot read properties",
+    });
+    expect(change.$inc).toBeUndefined();
+  });
+});
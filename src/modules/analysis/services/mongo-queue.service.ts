@@ -0,0 +1,420 @@
+import { hostname } from "os";
+import { v4 as uuidv4 } from "uuid";
+import { Analysis } from "../models/analysis.model";
+import { QueueJob, IQueueJobDocument } from "../models/queue-job.model";
+import { AnalysisStatus, JobPriority, QueueJobStatus } from "../types";
+import { workerService } from "./worker.service";
+import { deadLetterService } from "./dead-letter.service";
+import { getRetryDelay, RetryableError } from "./retry-policy.service";
+import {
+  ConcurrencyLimitError,
+  getSchedulerConfig,
+  getSchedulingKey,
+  orderWaitingOwners,
+  releaseSlot,
+  WaitingOwner,
+} from "./scheduler.service";
+import { logger } from "../../../shared/utils/logger";
+
+export interface MongoQueueConfig {
+  concurrency: number; // Jobs run at once by this process (0 = enqueue only)
+  pollIntervalMs: number;
+  visibilityTimeoutMs: number; // Lease length; extended while the job runs
+  maxAttempts: number; // Leases of a job that failed unexpectedly or never finished
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * MONGO_QUEUE_CONCURRENCY, MONGO_QUEUE_POLL_INTERVAL_MS,
+ * MONGO_QUEUE_VISIBILITY_TIMEOUT_MS and MONGO_QUEUE_MAX_ATTEMPTS
+ */
+export function getMongoQueueConfig(): MongoQueueConfig {
+  return {
+    concurrency: readInt("MONGO_QUEUE_CONCURRENCY", 1, 0),
+    pollIntervalMs: readInt("MONGO_QUEUE_POLL_INTERVAL_MS", 2000, 100),
+    visibilityTimeoutMs: readInt(
+      "MONGO_QUEUE_VISIBILITY_TIMEOUT_MS",
+      5 * 60 * 1000,
+      1000,
+    ),
+    maxAttempts: readInt("MONGO_QUEUE_MAX_ATTEMPTS", 3, 1),
+  };
+}
+
+// Identifies this process as the holder of a lease
+const workerId = `${hostname()}:${process.pid}`;
+
+/**
+ * Add jobs for analyses; higher priorities are picked up first
+ */
+export async function enqueueJobs(
+  analysisIds: string[],
+  priority: JobPriority,
+): Promise<void> {
+  if (analysisIds.length === 0) return;
+  const { maxAttempts } = getMongoQueueConfig();
+  const now = new Date();
+  // Jobs carry their owner so the worker can share capacity between users
+  const owners = await Analysis.find({ analysis_id: { $in: analysisIds } })
+    .select("analysis_id user_id guest_id")
+    .lean();
+  const ownerOf = new Map(
+    owners.map((analysis) => [
+      analysis.analysis_id,
+      getSchedulingKey(analysis),
+    ]),
+  );
+  await QueueJob.insertMany(
+    analysisIds.map((analysisId) => ({
+      job_id: uuidv4(),
+      analysis_id: analysisId,
+      user_id: ownerOf.get(analysisId),
+      priority,
+      max_attempts: maxAttempts,
+      available_at: now,
+    })),
+  );
+  // Jobs added by this process start without waiting for the next poll
+  schedulePoll(0);
+}
+
+/**
+ * Lease the next job: a queued job that is due, or one whose lease ran out
+ * Nothing is leased while ANALYSIS_MAX_CONCURRENCY jobs are running. Otherwise
+ * the job comes from a user below ANALYSIS_MAX_CONCURRENCY_PER_USER: the one
+ * with the highest-priority job, then the one with the fewest jobs running,
+ * then the one waiting longest, so a large upload does not hold up everyone
+ * else. The update is atomic, so each job is leased by one worker at a time.
+ */
+export async function claimJob(): Promise<IQueueJobDocument | null> {
+  const { visibilityTimeoutMs } = getMongoQueueConfig();
+  const { maxConcurrency } = getSchedulerConfig();
+  const now = new Date();
+
+  const leased = await QueueJob.aggregate<{
+    _id: string | null;
+    count: number;
+  }>([
+    {
+      $match: { status: QueueJobStatus.LEASED, leased_until: { $gt: now } },
+    },
+    { $group: { _id: "$user_id", count: { $sum: 1 } } },
+  ]);
+  const running = new Map(leased.map((user) => [user._id, user.count]));
+  const total = leased.reduce((sum, user) => sum + user.count, 0);
+  if (maxConcurrency > 0 && total >= maxConcurrency) return null;
+
+  const ready = {
+    $or: [
+      { status: QueueJobStatus.QUEUED, available_at: { $lte: now } },
+      { status: QueueJobStatus.LEASED, leased_until: { $lte: now } },
+    ],
+  };
+  const waiting = await QueueJob.aggregate<WaitingOwner>([
+    { $match: ready },
+    {
+      $group: {
+        _id: "$user_id",
+        priority: { $max: "$priority" },
+        oldest: { $min: "$available_at" },
+      },
+    },
+  ]);
+  const candidates = orderWaitingOwners(
+    waiting,
+    (userId) => running.get(userId) || 0,
+  );
+
+  for (const user of candidates) {
+    const job = await QueueJob.findOneAndUpdate(
+      // Jobs enqueued before owners were recorded have no user_id (null)
+      { ...ready, user_id: user._id },
+      {
+        $set: {
+          status: QueueJobStatus.LEASED,
+          leased_until: new Date(now.getTime() + visibilityTimeoutMs),
+          lease_owner: workerId,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { priority: -1, available_at: 1 }, new: true },
+    );
+    // Another worker may have taken this user's last job
+    if (job) return job;
+  }
+  return null;
+}
+
+/**
+ * Push back the end of a lease this worker holds
+ * Returns false when the lease was lost (it ran out and another worker took
+ * the job).
+ */
+export async function extendLease(jobId: string): Promise<boolean> {
+  const { visibilityTimeoutMs } = getMongoQueueConfig();
+  const { modifiedCount } = await QueueJob.updateOne(
+    { job_id: jobId, status: QueueJobStatus.LEASED, lease_owner: workerId },
+    { $set: { leased_until: new Date(Date.now() + visibilityTimeoutMs) } },
+  );
+  return modifiedCount === 1;
+}
+
+async function completeJob(jobId: string): Promise<void> {
+  await QueueJob.updateOne(
+    { job_id: jobId, lease_owner: workerId },
+    {
+      $set: { status: QueueJobStatus.DONE, finished_at: new Date() },
+      $unset: { leased_until: 1 },
+    },
+  );
+}
+
+/**
+ * Put a job back in the queue to run after a delay
+ * The lease counts towards MONGO_QUEUE_MAX_ATTEMPTS unless countAttempt is
+ * false, for failures the analysis counts against its own attempts.
+ */
+async function retryJob(
+  job: IQueueJobDocument,
+  message: string,
+  delayMs: number,
+  countAttempt = true,
+): Promise<void> {
+  await QueueJob.updateOne(
+    { job_id: job.job_id, lease_owner: workerId },
+    {
+      $set: {
+        status: QueueJobStatus.QUEUED,
+        available_at: new Date(Date.now() + delayMs),
+        last_error: message,
+      },
+      $unset: { leased_until: 1, lease_owner: 1 },
+      ...(countAttempt ? {} : { $inc: { attempts: -1 } }),
+    },
+  );
+  logger.warn(
+    `[MongoQueue] Job ${job.job_id} failed (attempt ${job.attempts}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`,
+  );
+}
+
+/**
+ * Put back a job the worker did not start because of a concurrency limit
+ * The lease does not count as an attempt.
+ */
+async function deferJob(
+  job: IQueueJobDocument,
+  delayMs: number,
+): Promise<void> {
+  await QueueJob.updateOne(
+    { job_id: job.job_id, lease_owner: workerId },
+    {
+      $set: {
+        status: QueueJobStatus.QUEUED,
+        available_at: new Date(Date.now() + delayMs),
+      },
+      $unset: { leased_until: 1, lease_owner: 1 },
+      $inc: { attempts: -1 },
+    },
+  );
+}
+
+/**
+ * Retry a job that failed unexpectedly, or give up once it has used all its
+ * attempts
+ * An analysis whose job was given up is marked failed, so it does not stay
+ * pending forever, and dead-lettered.
+ */
+async function failJob(job: IQueueJobDocument, message: string): Promise<void> {
+  if (job.attempts < job.max_attempts) {
+    await retryJob(job, message, getRetryDelay(job.attempts));
+    return;
+  }
+
+  await QueueJob.updateOne(
+    { job_id: job.job_id },
+    {
+      $set: {
+        status: QueueJobStatus.FAILED,
+        last_error: message,
+        finished_at: new Date(),
+      },
+      $unset: { leased_until: 1 },
+    },
+  );
+  const analysis = await Analysis.findOneAndUpdate(
+    {
+      analysis_id: job.analysis_id,
+      status: { $in: [AnalysisStatus.PENDING, AnalysisStatus.PROCESSING] },
+    },
+    {
+      $set: {
+        status: AnalysisStatus.FAILED,
+        error: `Analysis could not be processed after ${job.attempts} attempts: ${message}`,
+      },
+      $unset: { retry_at: 1, last_heartbeat: 1 },
+    },
+  )
+    .select("user_id guest_id attempts")
+    .lean();
+  if (analysis) {
+    // The worker that held the run's slot died with it
+    await releaseSlot(analysis, analysis.attempts || 0);
+    await deadLetterService.recordDeadLetter({
+      analysisId: job.analysis_id,
+      userId: String(analysis.user_id),
+      source: "queue",
+      error: message,
+      attempts: job.attempts,
+    });
+  }
+  logger.error(
+    `[MongoQueue] Job ${job.job_id} for analysis ${job.analysis_id} failed after ${job.attempts} attempts: ${message}`,
+  );
+}
+
+/**
+ * Run a leased job, extending the lease until the analysis is done
+ */
+async function runJob(job: IQueueJobDocument): Promise<void> {
+  // A lease that kept running out means the job keeps killing its worker
+  if (job.attempts > job.max_attempts) {
+    await failJob(
+      job,
+      job.last_error || "Lease expired before the job finished",
+    );
+    return;
+  }
+
+  const { visibilityTimeoutMs } = getMongoQueueConfig();
+  const heartbeat = setInterval(
+    () => {
+      extendLease(job.job_id)
+        .then((held) => {
+          if (!held) {
+            logger.warn(
+              `[MongoQueue] Lost the lease on job ${job.job_id} (analysis ${job.analysis_id})`,
+            );
+          }
+        })
+        .catch((err) => {
+          logger.error(
+            `[MongoQueue] Failed to extend lease ${job.job_id}:`,
+            err,
+          );
+        });
+    },
+    Math.max(1000, Math.floor(visibilityTimeoutMs / 3)),
+  );
+
+  try {
+    logger.info(
+      `[MongoQueue] Running job ${job.job_id} for analysis ${job.analysis_id} (attempt ${job.attempts})`,
+    );
+    await workerService.processAnalysis(job.analysis_id);
+    await completeJob(job.job_id);
+  } catch (error) {
+    if (error instanceof ConcurrencyLimitError) {
+      await deferJob(job, error.retryAfterMs ?? 0);
+      return;
+    }
+    // The analysis counts its own attempts and gives up by itself
+    // (ANALYSIS_MAX_ATTEMPTS), so the lease is not counted here as well
+    if (error instanceof RetryableError) {
+      await retryJob(
+        job,
+        error.message,
+        error.retryAfterMs ?? getRetryDelay(job.attempts),
+        false,
+      );
+      return;
+    }
+    await failJob(
+      job,
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Worker loop state of this process
+let running = false;
+let polling = false;
+let inFlight = 0;
+let pollTimer: NodeJS.Timeout | undefined;
+
+function schedulePoll(delayMs: number): void {
+  if (!running) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => {
+    pollTimer = undefined;
+    poll().catch((err) => {
+      logger.error("[MongoQueue] Poll failed:", err);
+    });
+  }, delayMs);
+}
+
+/**
+ * Lease jobs until the concurrency limit is reached or the queue is empty
+ */
+async function poll(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  const { concurrency, pollIntervalMs } = getMongoQueueConfig();
+  try {
+    while (running && inFlight < concurrency) {
+      const job = await claimJob();
+      if (!job) break;
+      inFlight++;
+      runJob(job)
+        .catch((err) => {
+          logger.error(`[MongoQueue] Job ${job.job_id} crashed:`, err);
+        })
+        .finally(() => {
+          inFlight--;
+          schedulePoll(0);
+        });
+    }
+  } finally {
+    polling = false;
+    schedulePoll(pollIntervalMs);
+  }
+}
+
+/**
+ * Start processing jobs in this process
+ * Does nothing when MONGO_QUEUE_CONCURRENCY is 0 (instances that only enqueue).
+ */
+export function startWorker(): void {
+  const { concurrency } = getMongoQueueConfig();
+  if (running || concurrency === 0) return;
+  running = true;
+  logger.info(
+    `[MongoQueue] Worker ${workerId} started (concurrency ${concurrency})`,
+  );
+  schedulePoll(0);
+}
+
+/**
+ * Stop leasing new jobs; running jobs finish, or are picked up by another
+ * worker once their lease runs out
+ */
+export function stopWorker(): void {
+  running = false;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = undefined;
+  logger.info(`[MongoQueue] Worker ${workerId} stopped`);
+}
+
+export const mongoQueueService = {
+  getMongoQueueConfig,
+  enqueueJobs,
+  claimJob,
+  extendLease,
+  startWorker,
+  stopWorker,
+};
@@ -0,0 +1,350 @@
+import { PgnMoveNode, PgnMoveTree, PlayerColor } from "../types";
+
+type PgnToken =
+  | { type: "move"; value: string }
+  | { type: "comment"; value: string }
+  | { type: "nag"; value: number }
+  | { type: "variation_start" }
+  | { type: "variation_end" }
+  | { type: "result"; value: string };
+
+export interface ParsedMovetext {
+  tree: PgnMoveTree;
+  warnings: string[];
+}
+
+// Traditional suffix annotations and their NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = {
+  "!": 1,
+  "?": 2,
+  "!!": 3,
+  "??": 4,
+  "!?": 5,
+  "?!": 6,
+};
+
+const RESULT_TOKENS = new Set(["1-0", "0-1", "1/2-1/2", "*"]);
+
+/**
+ * Split PGN movetext into tokens
+ * Move numbers and escape lines are dropped; suffix annotations (!, ?!, ...)
+ * are emitted as NAG tokens
+ */
+export function tokenizeMovetext(movetext: string): {
+  tokens: PgnToken[];
+  warnings: string[];
+} {
+  const tokens: PgnToken[] = [];
+  const warnings: string[] = [];
+  const length = movetext.length;
+  let i = 0;
+
+  while (i < length) {
+    const char = movetext[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // "%" at the start of a line escapes the rest of the line
+    if (char === "%" && (i === 0 || movetext[i - 1] === "\n")) {
+      while (i < length && movetext[i] !== "\n") i++;
+      continue;
+    }
+
+    if (char === "{") {
+      const end = movetext.indexOf("}", i + 1);
+      if (end < 0) {
+        warnings.push("Unterminated comment");
+        tokens.push({ type: "comment", value: movetext.slice(i + 1) });
+        break;
+      }
+      tokens.push({ type: "comment", value: movetext.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === ";") {
+      const end = movetext.indexOf("\n", i + 1);
+      const stop = end < 0 ? length : end;
+      tokens.push({ type: "comment", value: movetext.slice(i + 1, stop) });
+      i = stop;
+      continue;
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "variation_start" });
+      i++;
+      continue;
+    }
+
+    if (char === ")") {
+      tokens.push({ type: "variation_end" });
+      i++;
+      continue;
+    }
+
+    if (char === "$") {
+      const match = movetext.slice(i).match(/^\$(\d+)/);
+      if (match) {
+        tokens.push({ type: "nag", value: parseInt(match[1], 10) });
+        i += match[0].length;
+      } else {
+        warnings.push(`Stray "$" at offset ${i}`);
+        i++;
+      }
+      continue;
+    }
+
+    // Read a symbol up to the next delimiter
+    let end = i;
+    while (end < length && !/[\s{}();$]/.test(movetext[end])) end++;
+    let symbol = movetext.slice(i, end);
+    i = end;
+
+    if (RESULT_TOKENS.has(symbol)) {
+      tokens.push({ type: "result", value: symbol });
+      continue;
+    }
+
+    // Move numbers may be glued to the move ("12.Nf3", "12...Nf6")
+    symbol = symbol.replace(/^\d+\.*(\.|…)+/, "").replace(/^\d+$/, "");
+    if (symbol === "" || /^\.+$/.test(symbol)) continue;
+
+    const suffix = symbol.match(/(!!|\?\?|!\?|\?!|!|\?)$/);
+    if (suffix && symbol.length > suffix[1].length) {
+      tokens.push({
+        type: "move",
+        value: symbol.slice(0, -suffix[1].length),
+      });
+      tokens.push({ type: "nag", value: SUFFIX_NAGS[suffix[1]] });
+    } else if (suffix) {
+      tokens.push({ type: "nag", value: SUFFIX_NAGS[suffix[1]] });
+    } else {
+      tokens.push({ type: "move", value: symbol });
+    }
+  }
+
+  return { tokens, warnings };
+}
+
+/**
+ * Parse a clock string ("1:05:12", "5:12", "0:00:03.4") into seconds
+ */
+function parseClock(value: string): number | undefined {
+  const parts = value.trim().split(":");
+  if (parts.length === 0 || parts.length > 3) return undefined;
+  let seconds = 0;
+  for (const part of parts) {
+    const n = parseFloat(part);
+    if (!Number.isFinite(n)) return undefined;
+    seconds = seconds * 60 + n;
+  }
+  return seconds;
+}
+
+/**
+ * Extract embedded commands ([%clk ...], [%eval ...], [%emt ...]) from a
+ * comment and apply them to the node; returns the remaining human text
+ */
+function applyCommentCommands(node: PgnMoveNode | null, comment: string) {
+  const text = comment.replace(
+    /\[%(\w+)\s+([^\]]*)\]/g,
+    (_, command: string, value: string) => {
+      if (!node) return "";
+      const trimmed = value.trim();
+      switch (command.toLowerCase()) {
+        case "clk": {
+          const clock = parseClock(trimmed);
+          if (clock !== undefined) node.clock = clock;
+          break;
+        }
+        case "emt": {
+          const elapsed = parseClock(trimmed);
+          if (elapsed !== undefined) node.elapsed = elapsed;
+          break;
+        }
+        case "eval": {
+          const [score] = trimmed.split(",");
+          if (score.startsWith("#")) {
+            const mate = parseInt(score.slice(1), 10);
+            if (Number.isFinite(mate)) node.eval = { mate };
+          } else {
+            const pawns = parseFloat(score);
+            if (Number.isFinite(pawns))
+              node.eval = { cp: Math.round(pawns * 100) };
+          }
+          break;
+        }
+        // Drawing commands (%csl, %cal) and anything unknown are discarded
+      }
+      return "";
+    },
+  );
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parse movetext into a move tree with comments, NAGs, variations and
+ * clock/eval annotations
+ * Variations are stored on the node they replace, so a variation's first
+ * move has the same ply as the node it is attached to
+ */
+export function parseMovetext(
+  movetext: string,
+  startColor: PlayerColor = "white",
+  startMoveNumber = 1,
+): ParsedMovetext {
+  const { tokens, warnings } = tokenizeMovetext(movetext);
+  const tree: PgnMoveTree = { mainline: [] };
+
+  interface Line {
+    nodes: PgnMoveNode[];
+    basePly: number;
+    pendingComments: string[];
+  }
+
+  const firstPlyOffset = startColor === "white" ? 0 : 1;
+  const plyInfo = (ply: number) => {
+    const offsetPly = ply - 1 + firstPlyOffset;
+    return {
+      move_number: startMoveNumber + Math.floor(offsetPly / 2),
+      color: (offsetPly % 2 === 0 ? "white" : "black") as PlayerColor,
+    };
+  };
+
+  const mainline: Line = {
+    nodes: tree.mainline,
+    basePly: 1,
+    pendingComments: [],
+  };
+  const stack: Line[] = [];
+  let line = mainline;
+
+  for (const token of tokens) {
+    const last = line.nodes[line.nodes.length - 1] || null;
+
+    switch (token.type) {
+      case "move": {
+        const ply = last ? last.ply + 1 : line.basePly;
+        const node: PgnMoveNode = { san: token.value, ply, ...plyInfo(ply) };
+        if (line.pendingComments.length > 0) {
+          node.comments = [...line.pendingComments];
+          line.pendingComments = [];
+        }
+        line.nodes.push(node);
+        break;
+      }
+      case "comment": {
+        const text = applyCommentCommands(last, token.value);
+        if (!text) break;
+        if (last) {
+          last.comments = [...(last.comments || []), text];
+        } else if (line === mainline) {
+          tree.comments = [...(tree.comments || []), text];
+        } else {
+          line.pendingComments.push(text);
+        }
+        break;
+      }
+      case "nag": {
+        if (last) {
+          last.nags = [...(last.nags || []), token.value];
+        } else {
+          warnings.push(`NAG $${token.value} before any move`);
+        }
+        break;
+      }
+      case "variation_start": {
+        if (!last) {
+          warnings.push("Variation before any move");
+        }
+        const parent = last;
+        const variation: PgnMoveNode[] = [];
+        if (parent) {
+          parent.variations = [...(parent.variations || []), variation];
+        }
+        stack.push(line);
+        line = {
+          nodes: variation,
+          basePly: parent ? parent.ply : line.basePly,
+          pendingComments: [],
+        };
+        break;
+      }
+      case "variation_end": {
+        const parentLine = stack.pop();
+        if (!parentLine) {
+          warnings.push('Unmatched ")"');
+          break;
+        }
+        line = parentLine;
+        break;
+      }
+      case "result": {
+        if (line !== mainline) {
+          warnings.push(`Result "${token.value}" inside a variation`);
+        } else {
+          tree.result = token.value;
+        }
+        break;
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    warnings.push(`${stack.length} unterminated variation(s)`);
+  }
+
+  return { tree, warnings };
+}
+
+/**
+ * Render the mainline as plain SAN movetext without comments or variations
+ */
+export function formatMainline(tree: PgnMoveTree, result?: string): string {
+  const parts: string[] = [];
+  tree.mainline.forEach((node, index) => {
+    if (node.color === "white") {
+      parts.push(`${node.move_number}. ${node.san}`);
+    } else if (index === 0) {
+      parts.push(`${node.move_number}... ${node.san}`);
+    } else {
+      parts.push(node.san);
+    }
+  });
+  const terminator = result || tree.result;
+  if (terminator) parts.push(terminator);
+  return parts.join(" ");
+}
+
+/**
+ * Collect the human-written mainline comments and suffix annotations,
+ * one line per annotated move
+ */
+export function collectAnnotations(tree: PgnMoveTree): string[] {
+  const annotations: string[] = [...(tree.comments || [])];
+  for (const node of tree.mainline) {
+    const glyphs = (node.nags || [])
+      .map((nag) =>
+        Object.keys(SUFFIX_NAGS).find((key) => SUFFIX_NAGS[key] === nag),
+      )
+      .filter(Boolean)
+      .join("");
+    const comments = node.comments || [];
+    if (!glyphs && comments.length === 0) continue;
+    const label = `${node.move_number}${node.color === "white" ? "." : "..."} ${node.san}${glyphs}`;
+    annotations.push(
+      comments.length > 0 ? `${label}: ${comments.join(" ")}` : label,
+    );
+  }
+  return annotations;
+}
+
+export const pgnMovetextService = {
+  tokenizeMovetext,
+  parseMovetext,
+  formatMainline,
+  collectAnnotations,
+};
@@ -1,28 +1,142 @@
-import { AnalysisMetadata } from "../types";
+import {
+  AnalysisMetadata,
+  ChessVariant,
+  PgnMoveError,
+  PgnMoveTree,
+} from "../types";
+import {
+  parseFen,
+  Position,
+  replayGame,
+  ReplayedPly,
+  STARTING_FEN,
+} from "./chess.service";
+import { parseMovetext } from "./pgn-movetext.service";
+import {
+  RawPgnGame,
+  splitPgnStream as splitRawPgnStream,
+  splitPgnText,
+} from "./pgn-splitter.service";
+import { AppError } from "../../../shared/middleware/errorHandler";
 
-interface ParsedGame {
+export interface ParsedGame {
+  index: number; // 0-based position of the game in its file
   pgn: string;
   metadata: AnalysisMetadata;
+  warnings: string[]; // Problems found while splitting/tokenizing this game
+}
+
+export interface PgnValidationResult {
+  valid: boolean;
+  plies: ReplayedPly[];
+  tree?: PgnMoveTree;
+  warnings: string[];
+  error?: PgnMoveError;
+  startFen: string;
+  chess960: boolean;
+}
+
+/**
+ * Raised when a PGN cannot be replayed from its start position
+ */
+export class InvalidPgnError extends Error implements AppError {
+  statusCode = 400;
+  isOperational = true;
+  code = "INVALID_PGN";
+  details?: PgnMoveError;
+
+  constructor(message: string, details?: PgnMoveError) {
+    super(message);
+    this.name = "InvalidPgnError";
+    this.details = details;
+  }
+}
+
+const SUPPORTED_VARIANTS: ChessVariant[] = ["standard", "chess960"];
+
+/**
+ * Map a PGN Variant tag onto a supported variant
+ * Set-up positions ("From Position") are played under standard rules;
+ * unsupported variants are returned as written
+ */
+function normalizeVariant(tag?: string): string {
+  const value = (tag || "").trim();
+  if (/^(|standard|normal|from position|fromposition)$/i.test(value)) {
+    return "standard";
+  }
+  if (
+    /^(chess\s*960|fischer\s*random|fischerandom|960)(\s+chess)?$/i.test(value)
+  ) {
+    return "chess960";
+  }
+  return value;
+}
+
+/**
+ * Read a single header tag value from a PGN
+ */
+export function getHeader(pgn: string, name: string): string | undefined {
+  const regex = new RegExp(`\\[${name}\\s+"([^"]*)"\\]`, "i");
+  const match = pgn.match(regex);
+  return match ? match[1] : undefined;
 }
 
 /**
  * Parse PGN headers to extract metadata
  */
 export function parseHeaders(pgn: string): AnalysisMetadata {
-  const getHeader = (name: string): string | undefined => {
-    const regex = new RegExp(`\\[${name}\\s+"([^"]*)"\\]`, "i");
-    const match = pgn.match(regex);
-    return match ? match[1] : undefined;
+  const header = (name: string) => getHeader(pgn, name);
+
+  // Per the PGN standard the FEN tag only applies with SetUp "1"; files that
+  // omit SetUp but still carry a FEN tag are common enough to honour too
+  const fen = header("FEN")?.trim();
+  const startFen = fen && header("SetUp") !== "0" ? fen : undefined;
+
+  return {
+    white: header("White") || "Unknown",
+    black: header("Black") || "Unknown",
+    result: header("Result") || "*",
+    event: header("Event"),
+    date: header("Date"),
+    eco: header("ECO"),
+    opening: header("Opening"),
+    time_control: header("TimeControl"),
+    variant: normalizeVariant(header("Variant")),
+    start_fen: startFen,
   };
+}
 
+/**
+ * Return the movetext section of a single-game PGN (everything after the header tags)
+ */
+export function extractMovetext(pgn: string): string {
+  const lines = pgn.split(/\r?\n/);
+  let index = 0;
+  while (
+    index < lines.length &&
+    (lines[index].trim() === "" || lines[index].trim().startsWith("["))
+  ) {
+    index++;
+  }
+  return lines.slice(index).join("\n");
+}
+
+/**
+ * Extract the mainline SAN moves, dropping comments, variations, NAGs,
+ * move numbers and the result token
+ */
+export function extractMoves(pgn: string): string[] {
+  return parseMovetext(extractMovetext(pgn)).tree.mainline.map(
+    (node) => node.san,
+  );
+}
+
+function toParsedGame(game: RawPgnGame): ParsedGame {
   return {
-    white: getHeader("White") || "Unknown",
-    black: getHeader("Black") || "Unknown",
-    result: getHeader("Result") || "*",
-    event: getHeader("Event"),
-    date: getHeader("Date"),
-    eco: getHeader("ECO"),
-    opening: getHeader("Opening"),
+    index: game.index,
+    pgn: game.text,
+    metadata: parseHeaders(game.text),
+    warnings: game.warnings,
   };
 }
 
@@ -30,42 +144,116 @@ export function parseHeaders(pgn: string): AnalysisMetadata {
  * Split a multi-game PGN file into individual games
  */
 export function splitPgn(pgnContent: string): ParsedGame[] {
-  const games: ParsedGame[] = [];
-
-  // Split by double newline followed by [ (start of new game headers)
-  // This handles both \n\n[ and \r\n\r\n[ patterns
-  const gameStrings = pgnContent
-    .trim()
-    .split(/\n\s*\n(?=\[)/)
-    .filter((g) => g.trim().length > 0);
-
-  for (const gameStr of gameStrings) {
-    const trimmed = gameStr.trim();
-    if (trimmed.length === 0) continue;
-
-    games.push({
-      pgn: trimmed,
-      metadata: parseHeaders(trimmed),
-    });
+  return splitPgnText(pgnContent).map(toParsedGame);
+}
+
+/**
+ * Split a PGN byte stream into games as they are read, so large uploads are
+ * never held in memory as a whole
+ */
+export async function* splitPgnStream(
+  source: AsyncIterable<Buffer | string>,
+): AsyncGenerator<ParsedGame> {
+  for await (const game of splitRawPgnStream(source)) {
+    yield toParsedGame(game);
+  }
+}
+
+/**
+ * Replay every move from the start position (the FEN tag, if any) and report
+ * the first illegal one
+ */
+export function validatePgn(pgn: string): PgnValidationResult {
+  const metadata = parseHeaders(pgn);
+  const startFen = metadata.start_fen || STARTING_FEN;
+  const chess960 = metadata.variant === "chess960";
+
+  const noMoves = (reason: string): PgnValidationResult => ({
+    valid: false,
+    plies: [],
+    warnings: [],
+    error: { ply: 0, move_number: 0, color: "white", move: "", reason },
+    startFen,
+    chess960,
+  });
+
+  if (!SUPPORTED_VARIANTS.includes(metadata.variant as ChessVariant)) {
+    return noMoves(`Unsupported variant "${metadata.variant}"`);
   }
 
-  return games;
+  let start: Position;
+  try {
+    start = parseFen(startFen);
+  } catch (error) {
+    return noMoves(
+      error instanceof Error ? error.message : "Invalid FEN start position",
+    );
+  }
+
+  const { tree, warnings } = parseMovetext(
+    extractMovetext(pgn),
+    start.turn === "w" ? "white" : "black",
+    start.fullmoveNumber,
+  );
+  const moves = tree.mainline.map((node) => node.san);
+  if (moves.length === 0) {
+    return { ...noMoves("PGN contains no moves"), tree, warnings };
+  }
+
+  const replay = replayGame(moves, startFen, chess960);
+  if (!replay.valid && replay.error) {
+    return {
+      valid: false,
+      plies: replay.plies,
+      tree,
+      warnings,
+      startFen,
+      chess960,
+      error: {
+        ...replay.error,
+        color: replay.error.color === "w" ? "white" : "black",
+      },
+    };
+  }
+
+  // Keep the stored tree in canonical SAN (e.g. "0-0" -> "O-O", added check marks)
+  replay.plies.forEach((ply, index) => {
+    tree.mainline[index].san = ply.san;
+  });
+
+  return {
+    valid: true,
+    plies: replay.plies,
+    tree,
+    warnings,
+    startFen,
+    chess960,
+  };
+}
+
+/**
+ * Format a validation error as a single human-readable line
+ */
+export function describePgnError(error: PgnMoveError): string {
+  if (error.ply === 0) return error.reason;
+  const moveLabel = `${error.move_number}${error.color === "white" ? "." : "..."} ${error.move}`;
+  return `Illegal move at ply ${error.ply} (${moveLabel}): ${error.reason}`;
 }
 
 /**
  * Validate that a string is valid PGN format
  */
 export function isValidPgn(pgn: string): boolean {
-  // Must have at least one header
-  const hasHeader = /\[\w+\s+"[^"]*"\]/.test(pgn);
-  // Must have some moves (1. or 1...)
-  const hasMoves = /1\./.test(pgn);
-
-  return hasHeader && hasMoves;
+  return validatePgn(pgn).valid;
 }
 
 export const pgnParserService = {
   splitPgn,
+  splitPgnStream,
   isValidPgn,
+  validatePgn,
+  describePgnError,
+  extractMoves,
+  getHeader,
   parseHeaders,
 };
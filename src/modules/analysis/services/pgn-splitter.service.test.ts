@@ -0,0 +1,231 @@
+import {
+  decodePgnStream,
+  detectEncoding,
+  PgnSplitter,
+  RawPgnGame,
+  splitPgnStream,
+  splitPgnText,
+} from "./pgn-splitter.service";
+
+async function* chunks(...parts: (Buffer | string)[]) {
+  for (const part of parts) yield part;
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+// Feed the text one chunk at a time, cut at the given offsets
+function splitAt(text: string, ...offsets: number[]): RawPgnGame[] {
+  const splitter = new PgnSplitter();
+  const games: RawPgnGame[] = [];
+  let start = 0;
+  for (const offset of [...offsets, text.length]) {
+    games.push(...splitter.push(text.slice(start, offset)));
+    start = offset;
+  }
+  return [...games, ...splitter.end()];
+}
+
+const TWO_GAMES =
+  '[Event "A"]\n[White "Me"]\n\n1. e4 e5 2. Nf3 1-0\n\n' +
+  '[Event "B"]\n\n1. d4 d5 0-1\n';
+
+describe("splitPgnText", () => {
+  it("cuts games at their result tokens", () => {
+    const games = splitPgnText(TWO_GAMES);
+    expect(games).toEqual([
+      {
+        index: 0,
+        text: '[Event "A"]\n[White "Me"]\n\n1. e4 e5 2. Nf3 1-0',
+        hasHeaders: true,
+        warnings: [],
+      },
+      {
+        index: 1,
+        text: '[Event "B"]\n\n1. d4 d5 0-1',
+        hasHeaders: true,
+        warnings: [],
+      },
+    ]);
+  });
+
+  it("normalizes CRLF and bare CR line endings and drops a BOM", () => {
+    const expected = splitPgnText(TWO_GAMES).map((game) => game.text);
+    expect(
+      splitPgnText(`\uFEFF${TWO_GAMES.replace(/\n/g, "\r\n")}`).map(
+        (game) => game.text,
+      ),
+    ).toEqual(expected);
+    expect(
+      splitPgnText(TWO_GAMES.replace(/\n/g, "\r")).map((game) => game.text),
+    ).toEqual(expected);
+  });
+
+  it("keeps blank lines and brackets inside comments in the game", () => {
+    const pgn =
+      '[Event "A"]\n\n1. e4 { a long note\n\n[not a header] 1-0 } e5 1/2-1/2\n';
+    const games = splitPgnText(pgn);
+    expect(games).toHaveLength(1);
+    expect(games[0].text).toBe(pgn.trim());
+  });
+
+  it("ignores result tokens inside variations", () => {
+    const games = splitPgnText('[Event "A"]\n\n1. e4 (1. d4 *) e5 1-0\n');
+    expect(games).toHaveLength(1);
+    expect(games[0].text).toMatch(/e5 1-0$/);
+  });
+
+  it("splits and flags games without headers", () => {
+    const games = splitPgnText("1. e4 e5 *\n\n1. d4 d5 *\n");
+    expect(games.map((game) => game.text)).toEqual([
+      "1. e4 e5 *",
+      "1. d4 d5 *",
+    ]);
+    expect(games[1]).toMatchObject({
+      index: 1,
+      hasHeaders: false,
+      warnings: ["Game has no header tags"],
+    });
+  });
+
+  it("ends a game without a result at the next game's headers", () => {
+    const games = splitPgnText(
+      '[Event "A"]\n\n1. e4 e5\n[Event "B"]\n\n1. d4 *\n',
+    );
+    expect(games.map((game) => game.text)).toEqual([
+      '[Event "A"]\n\n1. e4 e5',
+      '[Event "B"]\n\n1. d4 *',
+    ]);
+    expect(games[0].warnings).toEqual([
+      "Game has no result termination marker",
+    ]);
+  });
+
+  it("warns about an unterminated comment at the end of the file", () => {
+    const [game] = splitPgnText('[Event "A"]\n\n1. e4 { never closed');
+    expect(game.warnings).toEqual([
+      "Unterminated comment",
+      "Game has no result termination marker",
+    ]);
+  });
+});
+
+describe("PgnSplitter", () => {
+  it("gives the same games however the text is chunked", () => {
+    const crlf = TWO_GAMES.replace(/\n/g, "\r\n");
+    const expected = splitPgnText(crlf);
+
+    // Between CR and LF, inside a result token and inside a header tag
+    const cuts = [
+      crlf.indexOf("\r\n") + 1,
+      crlf.indexOf("1-0") + 1,
+      crlf.indexOf('"B"') + 1,
+    ];
+    expect(splitAt(crlf, ...cuts)).toEqual(expected);
+    expect(
+      splitAt(crlf, ...Array.from({ length: crlf.length }, (_, i) => i)),
+    ).toEqual(expected);
+  });
+
+  it("returns each game as soon as it is complete", () => {
+    const splitter = new PgnSplitter();
+    expect(splitter.push('[Event "A"]\n\n1. e4 1-0')).toEqual([]);
+    expect(splitter.push("\n[Event")).toHaveLength(1);
+    expect(splitter.push(' "B"]\n\n1. d4 *\n')).toHaveLength(1);
+    expect(splitter.end()).toEqual([]);
+  });
+});
+
+describe("detectEncoding", () => {
+  it("follows a byte order mark", () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x5b]))).toBe("utf-8");
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x5b, 0x00]))).toBe(
+      "utf-16le",
+    );
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x5b]))).toBe(
+      "utf-16be",
+    );
+  });
+
+  it("recognizes UTF-16 without a byte order mark", () => {
+    const le = Buffer.from('[Event "Casual"]\n', "utf16le");
+    expect(detectEncoding(le)).toBe("utf-16le");
+    expect(detectEncoding(Buffer.from(le).swap16())).toBe("utf-16be");
+  });
+
+  it("falls back to Windows-1252 for bytes that are not UTF-8", () => {
+    expect(detectEncoding(Buffer.from('[White "Müller"]', "latin1"))).toBe(
+      "windows-1252",
+    );
+    expect(detectEncoding(Buffer.from('[White "Müller"]'))).toBe("utf-8");
+    // A multi-byte character cut off by the end of the sample
+    expect(detectEncoding(Buffer.from("Mü").subarray(0, 2))).toBe("utf-8");
+  });
+});
+
+describe("decodePgnStream", () => {
+  it("decodes characters split across chunks after the sample", async () => {
+    const head = `[Event "A"]\n\n{ ${"x".repeat(64 * 1024)} }\n`;
+    const name = Buffer.from('[White "Müller"]');
+    const cut = name.indexOf(0xc3) + 1;
+    let encoding: string | undefined;
+
+    const text = (
+      await collect(
+        decodePgnStream(
+          chunks(Buffer.from(head), name.subarray(0, cut), name.subarray(cut)),
+          (detected) => {
+            encoding = detected;
+          },
+        ),
+      )
+    ).join("");
+
+    expect(encoding).toBe("utf-8");
+    expect(text).toBe(`${head}[White "Müller"]`);
+  });
+
+  it("passes text chunks through", async () => {
+    expect(await collect(decodePgnStream(chunks("1. e4", " *")))).toEqual([
+      "1. e4",
+      " *",
+    ]);
+  });
+});
+
+describe("splitPgnStream", () => {
+  it("splits a Windows-1252 file and notes the encoding on each game", async () => {
+    const bytes = Buffer.from(
+      '[White "Müller"]\r\n\r\n1. e4 1-0\r\n[White "Gödel"]\r\n\r\n1. d4 *\r\n',
+      "latin1",
+    );
+
+    const games = await collect(
+      splitPgnStream(chunks(bytes.subarray(0, 20), bytes.subarray(20))),
+    );
+
+    expect(games.map((game) => game.text)).toEqual([
+      '[White "Müller"]\n\n1. e4 1-0',
+      '[White "Gödel"]\n\n1. d4 *',
+    ]);
+    expect(games[1].warnings).toEqual(["File decoded as windows-1252"]);
+  });
+
+  it("flags characters that could not be decoded", async () => {
+    const bytes = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('[White "A"]\n\n1. e4 *\n', "utf16le"),
+      Buffer.from([0x00, 0xd8]), // lone high surrogate
+    ]);
+
+    const games = await collect(splitPgnStream(chunks(bytes)));
+
+    expect(games).toHaveLength(2);
+    expect(games[1].warnings).toContain(
+      "Game contains characters that could not be decoded",
+    );
+  });
+});
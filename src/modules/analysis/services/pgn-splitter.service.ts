@@ -0,0 +1,417 @@
+import { TextDecoder } from "util";
+
+export type PgnEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+/**
+ * A single game cut out of a (possibly multi-game) PGN file
+ */
+export interface RawPgnGame {
+  index: number; // 0-based position of the game in the file
+  text: string;
+  hasHeaders: boolean;
+  warnings: string[];
+}
+
+type SplitterState =
+  | "between" // Outside any game
+  | "tag" // Inside a [Name "value"] header tag
+  | "tag_string" // Inside the quoted value of a header tag
+  | "headers" // Between header tags
+  | "movetext"
+  | "comment" // Inside { ... }
+  | "line_comment" // After ; until end of line
+  | "escape_line"; // "%" escape until end of line
+
+const RESULT_TOKENS = new Set(["1-0", "0-1", "1/2-1/2", "*"]);
+
+// How many bytes to look at before committing to an encoding
+const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Incremental PGN splitter
+ * Text is fed in chunks with push(); completed games are returned as soon as
+ * their termination marker (or the next game's headers) is seen. Only the
+ * current game is buffered, so memory use is bounded by the largest game.
+ */
+export class PgnSplitter {
+  private state: SplitterState = "between";
+  private stateAfterLine: SplitterState = "between";
+  private parts: string[] = [];
+  private segmentStart = -1;
+  private symbol = "";
+  private depth = 0;
+  private atLineStart = true;
+  private escaped = false;
+  private pendingCR = false;
+  private hasHeaders = false;
+  private sawMoves = false;
+  private warnings: string[] = [];
+  private gameIndex = 0;
+  private completed: RawPgnGame[] = [];
+
+  /**
+   * Feed the next chunk of decoded text; returns games completed by this chunk
+   */
+  push(chunk: string): RawPgnGame[] {
+    // Normalize CRLF and bare CR line endings, holding a trailing CR until
+    // we know whether the next chunk starts with LF
+    let text = chunk;
+    if (this.pendingCR) {
+      text = `\r${text}`;
+      this.pendingCR = false;
+    }
+    if (text.endsWith("\r")) {
+      this.pendingCR = true;
+      text = text.slice(0, -1);
+    }
+    text = text.replace(/\r\n?/g, "\n");
+    if (this.gameIndex === 0 && this.segmentStart < 0) {
+      text = text.replace(/^\uFEFF/, "");
+    }
+
+    let i = 0;
+    while (i < text.length) {
+      if (this.step(text, i)) i++;
+    }
+
+    if (this.segmentStart >= 0) {
+      this.parts.push(text.slice(this.segmentStart));
+      this.segmentStart = 0;
+    }
+
+    return this.drain();
+  }
+
+  /**
+   * Signal end of input; returns the final game if one is still open
+   */
+  end(): RawPgnGame[] {
+    const games: RawPgnGame[] = [];
+    if (this.pendingCR) {
+      this.pendingCR = false;
+      games.push(...this.push("\n"));
+    }
+    if (this.segmentStart >= 0) {
+      const terminated =
+        this.depth === 0 && RESULT_TOKENS.has(this.symbol.trim());
+      if (!terminated) this.flushSymbol();
+      if (this.state === "comment") {
+        this.warnings.push("Unterminated comment");
+      }
+      if (this.state === "tag" || this.state === "tag_string") {
+        this.warnings.push("Unterminated header tag");
+      }
+      this.finishGame("", 0, !terminated);
+    }
+    return [...games, ...this.drain()];
+  }
+
+  private drain(): RawPgnGame[] {
+    const games = this.completed;
+    this.completed = [];
+    return games;
+  }
+
+  /**
+   * Process one character; returns false when the character must be
+   * re-processed in the new state
+   */
+  private step(text: string, i: number): boolean {
+    const char = text[i];
+    const isSpace = char === " " || char === "\t" || char === "\n";
+    const lineStart = this.atLineStart;
+    this.atLineStart = char === "\n";
+
+    switch (this.state) {
+      case "between":
+        if (isSpace) return true;
+        if (char === "%" && lineStart) {
+          this.stateAfterLine = "between";
+          this.state = "escape_line";
+          return true;
+        }
+        this.startGame(i, char === "[");
+        this.state = char === "[" ? "tag" : "movetext";
+        if (char !== "[") {
+          this.atLineStart = lineStart;
+          return false;
+        }
+        return true;
+
+      case "tag":
+        if (char === '"') this.state = "tag_string";
+        else if (char === "]") this.state = "headers";
+        else if (char === "\n") {
+          this.warnings.push("Header tag is not closed on its line");
+          this.state = "headers";
+        }
+        return true;
+
+      case "tag_string":
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.state = "tag";
+        } else if (char === "\n") {
+          this.warnings.push("Header value is not closed on its line");
+          this.state = "headers";
+        }
+        return true;
+
+      case "headers":
+        if (isSpace) return true;
+        if (char === "[") {
+          this.state = "tag";
+          return true;
+        }
+        this.state = "movetext";
+        this.atLineStart = lineStart;
+        return false;
+
+      case "comment":
+        if (char === "}") this.state = "movetext";
+        return true;
+
+      case "line_comment":
+      case "escape_line":
+        if (char === "\n") this.state = this.stateAfterLine;
+        return true;
+
+      case "movetext":
+        return this.stepMovetext(text, i, char, isSpace, lineStart);
+    }
+  }
+
+  private stepMovetext(
+    text: string,
+    i: number,
+    char: string,
+    isSpace: boolean,
+    lineStart: boolean,
+  ): boolean {
+    if (isSpace || "{};()".includes(char) || (char === "[" && lineStart)) {
+      // A result token at the top level ends the game
+      if (this.depth === 0 && RESULT_TOKENS.has(this.symbol)) {
+        this.symbol = "";
+        this.finishGame(text, i, false);
+        this.state = "between";
+        this.atLineStart = lineStart;
+        return false;
+      }
+      this.flushSymbol();
+    }
+
+    switch (char) {
+      case "{":
+        this.state = "comment";
+        return true;
+      case ";":
+        this.stateAfterLine = "movetext";
+        this.state = "line_comment";
+        return true;
+      case "(":
+        this.depth++;
+        return true;
+      case ")":
+        if (this.depth === 0) {
+          this.warnings.push('Unmatched ")" in movetext');
+        } else {
+          this.depth--;
+        }
+        return true;
+      case "%":
+        if (lineStart) {
+          this.stateAfterLine = "movetext";
+          this.state = "escape_line";
+          return true;
+        }
+        break;
+      case "[":
+        if (lineStart && this.sawMoves && this.depth === 0) {
+          // Headers of the next game without a termination marker on this one
+          this.finishGame(text, i, true);
+          this.state = "between";
+          this.atLineStart = lineStart;
+          return false;
+        }
+        break;
+    }
+
+    if (!isSpace) this.symbol += char;
+    return true;
+  }
+
+  private flushSymbol() {
+    if (this.symbol.length > 0) {
+      this.sawMoves = true;
+      this.symbol = "";
+    }
+  }
+
+  private startGame(i: number, hasHeaders: boolean) {
+    this.segmentStart = i;
+    this.parts = [];
+    this.hasHeaders = hasHeaders;
+    this.sawMoves = false;
+    this.depth = 0;
+    this.symbol = "";
+    this.escaped = false;
+    this.warnings = hasHeaders ? [] : ["Game has no header tags"];
+  }
+
+  private finishGame(text: string, end: number, missingTerminator: boolean) {
+    if (this.segmentStart >= 0 && text) {
+      this.parts.push(text.slice(this.segmentStart, end));
+    }
+    const gameText = this.parts.join("").trim();
+    const warnings = [...this.warnings];
+
+    if (missingTerminator) {
+      warnings.push("Game has no result termination marker");
+    }
+    if (this.depth > 0) {
+      warnings.push(`${this.depth} unterminated variation(s)`);
+    }
+    if (gameText.includes("\uFFFD")) {
+      warnings.push("Game contains characters that could not be decoded");
+    }
+
+    if (gameText.length > 0) {
+      this.completed.push({
+        index: this.gameIndex++,
+        text: gameText,
+        hasHeaders: this.hasHeaders,
+        warnings,
+      });
+    }
+
+    this.parts = [];
+    this.segmentStart = -1;
+    this.depth = 0;
+    this.symbol = "";
+    this.sawMoves = false;
+  }
+}
+
+/**
+ * Guess the text encoding of a PGN file from its first bytes
+ * BOMs win; otherwise valid UTF-8 is assumed, falling back to Windows-1252
+ * (a superset of Latin-1) for files from older databases
+ */
+export function detectEncoding(sample: Buffer): PgnEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) return "utf-16le";
+  if (sample[0] === 0xfe && sample[1] === 0xff) return "utf-16be";
+
+  // UTF-16 without BOM: ASCII text leaves every other byte zero
+  const pairs = Math.min(sample.length >> 1, 512);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs; i++) {
+      if (sample[2 * i] === 0) evenZeros++;
+      if (sample[2 * i + 1] === 0) oddZeros++;
+    }
+    if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return "utf-16le";
+    if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return "utf-16be";
+  }
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Decode a byte stream to text, detecting the encoding from the first bytes
+ */
+export async function* decodePgnStream(
+  source: AsyncIterable<Buffer | string>,
+  onEncoding?: (encoding: PgnEncoding) => void,
+): AsyncGenerator<string> {
+  let decoder: TextDecoder | null = null;
+  const sample: Buffer[] = [];
+  let sampleSize = 0;
+
+  const start = (): TextDecoder => {
+    const encoding = detectEncoding(Buffer.concat(sample));
+    onEncoding?.(encoding);
+    return new TextDecoder(encoding);
+  };
+
+  for await (const chunk of source) {
+    if (typeof chunk === "string") {
+      yield chunk;
+      continue;
+    }
+    if (!decoder) {
+      sample.push(chunk);
+      sampleSize += chunk.length;
+      if (sampleSize < ENCODING_SAMPLE_BYTES) continue;
+      decoder = start();
+      yield decoder.decode(Buffer.concat(sample), { stream: true });
+      sample.length = 0;
+      continue;
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+
+  if (!decoder && sample.length > 0) {
+    decoder = start();
+    yield decoder.decode(Buffer.concat(sample), { stream: true });
+  }
+  if (decoder) {
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  }
+}
+
+/**
+ * Split a PGN byte or text stream into games without loading the whole file
+ */
+export async function* splitPgnStream(
+  source: AsyncIterable<Buffer | string>,
+): AsyncGenerator<RawPgnGame> {
+  const splitter = new PgnSplitter();
+  let encoding: PgnEncoding = "utf-8";
+
+  const withEncodingWarning = (game: RawPgnGame): RawPgnGame =>
+    encoding === "utf-8"
+      ? game
+      : {
+          ...game,
+          warnings: [...game.warnings, `File decoded as ${encoding}`],
+        };
+
+  for await (const text of decodePgnStream(source, (detected) => {
+    encoding = detected;
+  })) {
+    for (const game of splitter.push(text)) {
+      yield withEncodingWarning(game);
+    }
+  }
+  for (const game of splitter.end()) {
+    yield withEncodingWarning(game);
+  }
+}
+
+/**
+ * Split an in-memory PGN string into games
+ */
+export function splitPgnText(content: string): RawPgnGame[] {
+  const splitter = new PgnSplitter();
+  return [...splitter.push(content), ...splitter.end()];
+}
+
+export const pgnSplitterService = {
+  detectEncoding,
+  splitPgnStream,
+  splitPgnText,
+};
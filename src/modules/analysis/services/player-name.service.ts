@@ -0,0 +1,179 @@
+import { AnalysisMetadata, PlayerColor } from "../types";
+
+const DEFAULT_MATCH_THRESHOLD = 0.9;
+
+// Score given to an initial ("M.") against a full given name with the same letter
+const INITIAL_MATCH_SCORE = 0.9;
+
+export interface PlayerMatch {
+  color: PlayerColor | null;
+  ambiguous: boolean; // Both sides match one of the candidate names
+  scores: Record<PlayerColor, number>;
+}
+
+/**
+ * Minimum similarity (0-1) for a PGN name to count as the user
+ */
+function getMatchThreshold(): number {
+  const configured = parseFloat(process.env.PLAYER_NAME_MATCH_THRESHOLD || "");
+  return configured > 0 && configured <= 1
+    ? configured
+    : DEFAULT_MATCH_THRESHOLD;
+}
+
+/**
+ * Fold case and diacritics and split a name into tokens
+ * "Carlsen, Magnus" and "Magnus Carlsen" yield the same tokens
+ */
+export function tokenizeName(name: string): string[] {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ø/gi, "o")
+    .replace(/æ/gi, "ae")
+    .replace(/ß/g, "ss")
+    .toLowerCase()
+    .split(/[\s,._\-()]+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Jaro-Winkler similarity between two strings (1 = identical)
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Initials: "m" matches "magnus"
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0] ? INITIAL_MATCH_SCORE : 0;
+  }
+  return jaroWinkler(a, b);
+}
+
+/**
+ * Similarity (0-1) between two player names, independent of token order,
+ * diacritics and initials. Online handles are compared with spaces removed.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = tokenizeName(a);
+  const tokensB = tokenizeName(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+
+  // Greedily pair each token of the shorter name with its best unused partner
+  const used = new Set<number>();
+  let total = 0;
+  for (const token of [...shorter].sort((x, y) => y.length - x.length)) {
+    let best = 0;
+    let bestIndex = -1;
+    longer.forEach((candidate, index) => {
+      if (used.has(index)) return;
+      const score = tokenSimilarity(token, candidate);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) used.add(bestIndex);
+    total += best;
+  }
+
+  // A surname alone is a weaker match than the full name
+  const coverage = 0.8 + 0.2 * (shorter.length / longer.length);
+  const tokenScore = (total / shorter.length) * coverage;
+
+  // Handles such as "MagnusCarlsen" vs "Magnus Carlsen"
+  const compactScore =
+    tokensA.length > 1 || tokensB.length > 1
+      ? jaroWinkler(tokensA.join(""), tokensB.join("")) *
+        (tokensA.join("") === tokensB.join("") ? 1 : 0.95)
+      : 0;
+
+  return Math.max(tokenScore, compactScore);
+}
+
+/**
+ * Decide which side the user played from the White/Black tags
+ * Every candidate (request name, account name, saved aliases) is compared
+ * with both players; when both sides match the game is ambiguous.
+ */
+export function matchPlayerColor(
+  metadata: AnalysisMetadata,
+  candidates: string[],
+): PlayerMatch {
+  const threshold = getMatchThreshold();
+  const names = candidates.filter((name) => name && name.trim().length > 0);
+
+  const scoreFor = (pgnName: string): number =>
+    names.reduce(
+      (best, name) => Math.max(best, nameSimilarity(pgnName, name)),
+      0,
+    );
+
+  const scores: Record<PlayerColor, number> = {
+    white: scoreFor(metadata.white),
+    black: scoreFor(metadata.black),
+  };
+  const whiteMatches = scores.white >= threshold;
+  const blackMatches = scores.black >= threshold;
+
+  if (whiteMatches && blackMatches) {
+    return { color: null, ambiguous: true, scores };
+  }
+  return {
+    color: whiteMatches ? "white" : blackMatches ? "black" : null,
+    ambiguous: false,
+    scores,
+  };
+}
+
+export const playerNameService = {
+  tokenizeName,
+  nameSimilarity,
+  matchPlayerColor,
+};
@@ -0,0 +1,192 @@
+import { AnalysisPosition, KeyMoment, PlayerColor } from "../types";
+import { ReplayedPly, STARTING_FEN } from "./chess.service";
+import { logger } from "../../../shared/utils/logger";
+
+// How far (in full moves) an LLM-reported move number may drift from the real one
+const MOVE_NUMBER_TOLERANCE = 2;
+
+function toPlayerColor(color: "w" | "b"): PlayerColor {
+  return color === "w" ? "white" : "black";
+}
+
+/**
+ * Build the per-ply position list from a replayed game
+ * Entry 0 is the starting position, entry N is the position after ply N
+ */
+export function buildPositions(
+  plies: ReplayedPly[],
+  startFen: string = STARTING_FEN,
+): AnalysisPosition[] {
+  const [, startTurn, , , , startMove] = startFen.split(/\s+/);
+  const positions: AnalysisPosition[] = [
+    {
+      ply: 0,
+      move_number: parseInt(startMove || "1", 10) || 1,
+      side_to_move: toPlayerColor(startTurn === "b" ? "b" : "w"),
+      fen: startFen,
+    },
+  ];
+
+  for (const ply of plies) {
+    const [, turn, , , , fullmove] = ply.fen.split(" ");
+    positions.push({
+      ply: ply.ply,
+      move_number: parseInt(fullmove, 10),
+      side_to_move: toPlayerColor(turn as "w" | "b"),
+      fen: ply.fen,
+      san: ply.san,
+      uci: ply.uci,
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Normalize a SAN token for comparison (drops move numbers, annotations and
+ * check markers)
+ */
+function normalizeSan(move: string): { san: string; color?: PlayerColor } {
+  const numbered = move.trim().match(/^\d+\s*(\.{1,3}|…)\s*/);
+  let color: PlayerColor | undefined;
+  if (numbered) {
+    color = numbered[1] === "." ? "white" : "black";
+  }
+
+  const san = move
+    .trim()
+    .replace(/^\d+\s*(\.{1,3}|…)\s*/, "")
+    .replace(/[!?+#]+$/g, "")
+    .replace(/^0-0-0$/, "O-O-O")
+    .replace(/^0-0$/, "O-O")
+    .replace(/=/, "");
+
+  return { san, color };
+}
+
+/**
+ * Align LLM-reported key moments with the actual game
+ * Each moment is matched to the ply whose SAN matches the reported move and
+ * whose move number is closest to the reported one. The FEN, move number and
+ * side to move are then overwritten with ground truth. Moments referencing
+ * moves that never happened are dropped.
+ */
+export function reconcileKeyMoments(
+  keyMoments: KeyMoment[],
+  positions: AnalysisPosition[],
+  playerColor: PlayerColor,
+): KeyMoment[] {
+  const reconciled: KeyMoment[] = [];
+  const usedPlies = new Set<number>();
+
+  for (const moment of keyMoments || []) {
+    if (!moment || typeof moment.move !== "string") continue;
+
+    const { san, color } = normalizeSan(moment.move);
+    const reportedNumber = Number(moment.move_number);
+
+    const candidates = positions.filter((position) => {
+      if (position.ply === 0 || !position.san) return false;
+      if (usedPlies.has(position.ply)) return false;
+      return normalizeSan(position.san).san === san;
+    });
+
+    if (candidates.length === 0) {
+      logger.warn(
+        `Dropping key moment ${moment.move_number}. ${moment.move}: move not found in game`,
+      );
+      continue;
+    }
+
+    const moverOf = (position: AnalysisPosition): PlayerColor =>
+      position.side_to_move === "white" ? "black" : "white";
+    const moveNumberOf = (position: AnalysisPosition): number =>
+      position.side_to_move === "white"
+        ? position.move_number - 1
+        : position.move_number;
+
+    const score = (position: AnalysisPosition): number[] => [
+      Number.isFinite(reportedNumber)
+        ? Math.abs(moveNumberOf(position) - reportedNumber)
+        : 0,
+      moverOf(position) === (color || playerColor) ? 0 : 1,
+      position.ply,
+    ];
+
+    const best = candidates.reduce((a, b) => {
+      const [sa, sb] = [score(a), score(b)];
+      for (let i = 0; i < sa.length; i++) {
+        if (sa[i] !== sb[i]) return sa[i] < sb[i] ? a : b;
+      }
+      return a;
+    });
+
+    if (
+      Number.isFinite(reportedNumber) &&
+      Math.abs(moveNumberOf(best) - reportedNumber) > MOVE_NUMBER_TOLERANCE
+    ) {
+      logger.warn(
+        `Dropping key moment ${moment.move_number}. ${moment.move}: closest match is move ${moveNumberOf(best)}`,
+      );
+      continue;
+    }
+
+    usedPlies.add(best.ply);
+    const before = positions[best.ply - 1];
+    reconciled.push({
+      ...moment,
+      ply: best.ply,
+      move_number: moveNumberOf(best),
+      move: best.san!,
+      fen: before.fen,
+      side_to_move: moverOf(best),
+    });
+  }
+
+  return reconciled.sort((a, b) => (a.ply || 0) - (b.ply || 0));
+}
+
+export interface PhaseBoundaries {
+  middlegame_ply: number | null; // First ply of the middlegame
+  endgame_ply: number | null; // First ply of the endgame
+}
+
+/**
+ * Detect opening/middlegame/endgame boundaries from material on the board
+ * The middlegame starts once 10 or fewer minor/major pieces remain or either
+ * back rank is sparsely populated; the endgame starts at 6 or fewer pieces.
+ */
+export function detectPhaseBoundaries(
+  positions: AnalysisPosition[],
+): PhaseBoundaries {
+  let middlegamePly: number | null = null;
+  let endgamePly: number | null = null;
+
+  for (const position of positions) {
+    const ranks = position.fen.split(" ")[0].split("/");
+    const placement = ranks.join("");
+    const majorsAndMinors = (placement.match(/[nbrqNBRQ]/g) || []).length;
+    const whiteBackRank = (ranks[7].match(/[A-Z]/g) || []).length;
+    const blackBackRank = (ranks[0].match(/[a-z]/g) || []).length;
+    const backRankSparse = whiteBackRank < 4 || blackBackRank < 4;
+
+    if (middlegamePly === null && (majorsAndMinors <= 10 || backRankSparse)) {
+      middlegamePly = position.ply;
+    }
+    if (endgamePly === null && majorsAndMinors <= 6) {
+      endgamePly = position.ply;
+      break;
+    }
+  }
+
+  return {
+    middlegame_ply: middlegamePly,
+    endgame_ply: endgamePly,
+  };
+}
+
+export const positionService = {
+  buildPositions,
+  reconcileKeyMoments,
+  detectPhaseBoundaries,
+};
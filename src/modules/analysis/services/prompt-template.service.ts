@@ -0,0 +1,295 @@
+import { createHash } from "crypto";
+import { Analysis } from "../models/analysis.model";
+import { PROMPT_TEMPLATES } from "../prompts";
+import {
+  AnalysisDepth,
+  AnalysisLanguage,
+  AnalysisStatus,
+  PromptTemplate,
+  PromptVersionStats,
+} from "../types";
+import { logger } from "../../../shared/utils/logger";
+
+export interface PromptAssignmentConfig {
+  defaultVersion: string;
+  candidateVersion?: string;
+  candidatePercent: number; // Share of new analyses given the candidate (0-100)
+}
+
+/**
+ * Released template by version id
+ */
+export function getPromptTemplate(version: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find((t) => t.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt template version "${version}"`);
+  }
+  return template;
+}
+
+/**
+ * Names of the {{variable}} placeholders a template uses
+ */
+export function getTemplateVariables(template: PromptTemplate): Set<string> {
+  return new Set(
+    Array.from(template.template.matchAll(/\{\{(\w+)\}\}/g), (m) => m[1]),
+  );
+}
+
+/**
+ * Placeholders a template needs to carry out an analysis' settings: the
+ * language section for other languages than English, and the depth section
+ * and counts for quick and deep reviews
+ */
+export function getRequiredVariables(settings: {
+  language?: AnalysisLanguage;
+  analysisDepth?: AnalysisDepth;
+}): string[] {
+  const required: string[] = [];
+  if (settings.language && settings.language !== "en") {
+    required.push("languageSection");
+  }
+  if (settings.analysisDepth && settings.analysisDepth !== "standard") {
+    required.push("depthSection", "keyMoments", "recommendations", "puzzles");
+  }
+  return required;
+}
+
+function supportsVariables(
+  template: PromptTemplate,
+  required: string[],
+): boolean {
+  const variables = getTemplateVariables(template);
+  return required.every((name) => variables.has(name));
+}
+
+/**
+ * Fill in a template's {{variable}} placeholders
+ * Every placeholder must have a value, so a template cannot silently ship
+ * with a variable the code does not provide; and every required variable
+ * must have a placeholder, so settings such as the language are not silently
+ * dropped by an older template.
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: Record<string, string>,
+  required: string[] = [],
+): string {
+  const missing = required.filter(
+    (name) => !getTemplateVariables(template).has(name),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Prompt template ${template.version} has no placeholder for ${missing.join(", ")}`,
+    );
+  }
+  return template.template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(
+        `Prompt template ${template.version} uses unknown variable "${name}"`,
+      );
+    }
+    return variables[name];
+  });
+}
+
+function isKnownVersion(version: string): boolean {
+  return PROMPT_TEMPLATES.some((t) => t.version === version);
+}
+
+/**
+ * Default template and the optional A/B candidate
+ * ANALYSIS_PROMPT_VERSION (default: newest template), ANALYSIS_PROMPT_CANDIDATE
+ * and ANALYSIS_PROMPT_CANDIDATE_PERCENT. Unknown versions are ignored, and so
+ * is a candidate whose placeholders differ from the default template's.
+ */
+export function getPromptAssignmentConfig(): PromptAssignmentConfig {
+  const newest = PROMPT_TEMPLATES[PROMPT_TEMPLATES.length - 1].version;
+
+  let defaultVersion = process.env.ANALYSIS_PROMPT_VERSION || newest;
+  if (!isKnownVersion(defaultVersion)) {
+    logger.warn(
+      `Unknown ANALYSIS_PROMPT_VERSION "${defaultVersion}", using ${newest}`,
+    );
+    defaultVersion = newest;
+  }
+
+  let candidateVersion = process.env.ANALYSIS_PROMPT_CANDIDATE || undefined;
+  if (candidateVersion && !isKnownVersion(candidateVersion)) {
+    logger.warn(
+      `Unknown ANALYSIS_PROMPT_CANDIDATE "${candidateVersion}", A/B test disabled`,
+    );
+    candidateVersion = undefined;
+  }
+
+  // Both arms must get the same instructions, or the comparison measures
+  // the missing language and depth sections rather than the prompt
+  if (candidateVersion) {
+    const defaults = getTemplateVariables(getPromptTemplate(defaultVersion));
+    const candidates = getTemplateVariables(
+      getPromptTemplate(candidateVersion),
+    );
+    const differing = [...new Set([...defaults, ...candidates])].filter(
+      (name) => defaults.has(name) !== candidates.has(name),
+    );
+    if (differing.length > 0) {
+      logger.warn(
+        `ANALYSIS_PROMPT_CANDIDATE ${candidateVersion} and ${defaultVersion} differ in ${differing.join(", ")}, A/B test disabled`,
+      );
+      candidateVersion = undefined;
+    }
+  }
+
+  const percent = parseFloat(
+    process.env.ANALYSIS_PROMPT_CANDIDATE_PERCENT || "",
+  );
+  return {
+    defaultVersion,
+    candidateVersion,
+    candidatePercent:
+      candidateVersion && percent > 0 ? Math.min(100, percent) : 0,
+  };
+}
+
+/**
+ * Pick the template version for an analysis
+ * The bucket is derived from the analysis id, so retries of the same analysis
+ * always get the same version. A template that cannot express the analysis'
+ * language or depth is replaced by the newest one that can.
+ */
+export function assignPromptVersion(
+  analysisId: string,
+  settings: { language?: AnalysisLanguage; analysisDepth?: AnalysisDepth } = {},
+): string {
+  const config = getPromptAssignmentConfig();
+  let version = config.defaultVersion;
+  if (config.candidateVersion && config.candidatePercent > 0) {
+    const digest = createHash("sha256").update(analysisId).digest();
+    const bucket = (digest.readUInt32BE(0) / 0x100000000) * 100;
+    if (bucket < config.candidatePercent) version = config.candidateVersion;
+  }
+
+  const required = getRequiredVariables(settings);
+  if (supportsVariables(getPromptTemplate(version), required)) return version;
+
+  const fallback = [...PROMPT_TEMPLATES]
+    .reverse()
+    .find((template) => supportsVariables(template, required));
+  if (!fallback) {
+    throw new Error(`No prompt template supports ${required.join(", ")}`);
+  }
+  logger.info(
+    `Prompt ${version} cannot express ${required.join(", ")}; using ${fallback.version} for ${analysisId}`,
+  );
+  return fallback.version;
+}
+
+/**
+ * Failure rate, output length and user feedback per prompt version
+ * Analyses served from the cache are left out, as no model call was made.
+ */
+export async function comparePromptVersions(range: {
+  since?: Date;
+  until?: Date;
+}): Promise<{
+  config: PromptAssignmentConfig;
+  versions: PromptVersionStats[];
+}> {
+  const config = getPromptAssignmentConfig();
+
+  const match: Record<string, unknown> = {
+    prompt_version: { $exists: true },
+    cached: { $ne: true },
+    status: { $in: [AnalysisStatus.COMPLETED, AnalysisStatus.FAILED] },
+  };
+  if (range.since || range.until) {
+    match.created_at = {
+      ...(range.since && { $gte: range.since }),
+      ...(range.until && { $lt: range.until }),
+    };
+  }
+
+  const rows = await Analysis.aggregate<{
+    _id: string;
+    completed: number;
+    failed: number;
+    average_length: number | null;
+    min_length: number | null;
+    max_length: number | null;
+    feedback_count: number;
+    average_rating: number | null;
+  }>([
+    { $match: match },
+    {
+      $group: {
+        _id: "$prompt_version",
+        completed: {
+          $sum: {
+            $cond: [{ $eq: ["$status", AnalysisStatus.COMPLETED] }, 1, 0],
+          },
+        },
+        failed: {
+          $sum: { $cond: [{ $eq: ["$status", AnalysisStatus.FAILED] }, 1, 0] },
+        },
+        average_length: { $avg: "$output_length" },
+        min_length: { $min: "$output_length" },
+        max_length: { $max: "$output_length" },
+        feedback_count: {
+          $sum: { $cond: [{ $gt: ["$feedback.rating", null] }, 1, 0] },
+        },
+        average_rating: { $avg: "$feedback.rating" },
+      },
+    },
+  ]);
+
+  const round = (value: number | null, digits: number) =>
+    value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+  // Versions without analyses in the range are listed too
+  const versions = PROMPT_TEMPLATES.map((t) => t.version);
+  for (const row of rows) {
+    if (!versions.includes(row._id)) versions.push(row._id);
+  }
+
+  return {
+    config,
+    versions: versions.map((version) => {
+      const row = rows.find((r) => r._id === version);
+      const completed = row?.completed || 0;
+      const failed = row?.failed || 0;
+      const analyses = completed + failed;
+      return {
+        version,
+        role:
+          version === config.defaultVersion
+            ? "default"
+            : version === config.candidateVersion
+              ? "candidate"
+              : "retired",
+        analyses,
+        completed,
+        failed,
+        failure_rate: analyses > 0 ? round(failed / analyses, 3)! : 0,
+        output_length: {
+          average: round(row?.average_length ?? null, 0),
+          min: row?.min_length ?? null,
+          max: row?.max_length ?? null,
+        },
+        feedback: {
+          count: row?.feedback_count || 0,
+          average_rating: round(row?.average_rating ?? null, 2),
+        },
+      };
+    }),
+  };
+}
+
+export const promptTemplateService = {
+  getPromptTemplate,
+  getTemplateVariables,
+  getRequiredVariables,
+  renderPromptTemplate,
+  getPromptAssignmentConfig,
+  assignPromptVersion,
+  comparePromptVersions,
+};
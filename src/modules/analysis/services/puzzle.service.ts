@@ -1,5 +1,6 @@
 import { Puzzle, IPuzzleDocument } from "../models/puzzle.model";
-import { ChessPuzzle } from "../types";
+import { AnalysisLanguage, ChessPuzzle } from "../types";
+import { localizePuzzle } from "./localization.service";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../../../shared/utils/logger";
 
@@ -10,6 +11,7 @@ export async function savePuzzles(
   puzzles: ChessPuzzle[],
   userId: string,
   analysisId: string,
+  language: AnalysisLanguage = "en",
 ): Promise<IPuzzleDocument[]> {
   if (!puzzles || puzzles.length === 0) {
     return [];
@@ -42,6 +44,9 @@ export async function savePuzzles(
         puzzle.difficulty = "medium";
       }
 
+      // English difficulty/theme keys, labels in the analysis language
+      const localized = localizePuzzle(puzzle, language);
+
       const puzzleDoc = await Puzzle.create({
         puzzle_id: `puz_${uuidv4()}`,
         user_id: userId,
@@ -51,8 +56,11 @@ export async function savePuzzles(
         fen: puzzle.fen,
         solution: puzzle.solution,
         hint: puzzle.hint || undefined, // Only include if present
-        difficulty: puzzle.difficulty,
-        theme: puzzle.theme,
+        difficulty: localized.difficulty,
+        theme: localized.theme,
+        language,
+        difficulty_label: localized.difficulty_label,
+        theme_label: localized.theme_label,
       });
 
       savedPuzzles.push(puzzleDoc);
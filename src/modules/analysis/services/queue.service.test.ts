@@ -0,0 +1,218 @@
+import { Analysis } from "../models/analysis.model";
+import { ConcurrencySlot } from "../models/concurrency-slot.model";
+import { AnalysisStatus, JobPriority } from "../types";
+import { dispatchParked, parkAnalysis } from "./queue.service";
+import { cloudTasksService } from "./cloud-tasks.service";
+import { logger } from "../../../shared/utils/logger";
+
+// uuid is published as ESM only; the backends and the pipeline are faked
+jest.mock("uuid", () => ({ v4: () => "job-uuid" }));
+jest.mock("./worker.service", () => ({
+  workerService: { processAnalysis: jest.fn() },
+}));
+jest.mock("./mongo-queue.service", () => ({
+  mongoQueueService: { enqueueJobs: jest.fn(), startWorker: jest.fn() },
+}));
+jest.mock("./cloud-tasks.service", () => ({
+  cloudTasksService: { enqueueAnalysis: jest.fn() },
+}));
+
+const ENV_KEYS = [
+  "QUEUE_BACKEND",
+  "ANALYSIS_MAX_CONCURRENCY",
+  "ANALYSIS_MAX_CONCURRENCY_PER_USER",
+];
+const savedEnv = { ...process.env };
+
+type Parked = {
+  _id: string;
+  priority: number;
+  oldest: Date;
+  analysis_id: string;
+};
+
+// An owner whose next parked analysis has waited the given minutes
+function owner(
+  key: string,
+  analysisId: string,
+  minutes: number,
+  priority = JobPriority.BULK,
+): Parked {
+  return {
+    _id: key,
+    priority,
+    oldest: new Date(Date.now() - minutes * 60 * 1000),
+    analysis_id: analysisId,
+  };
+}
+
+/**
+ * Parked analyses as grouped by owner, and the runs holding slots
+ */
+function mockParked(parked: Parked[], holders: Record<string, number>) {
+  jest.spyOn(Analysis, "aggregate").mockResolvedValue(parked as never);
+  jest.spyOn(ConcurrencySlot, "find").mockReturnValue({
+    lean: () =>
+      Promise.resolve(
+        Object.entries(holders).map(([key, count]) => ({
+          key,
+          holders: Array.from({ length: count }, (_, i) => `run-${i}`),
+        })),
+      ),
+  } as unknown as ReturnType<typeof ConcurrencySlot.find>);
+}
+
+// Mongoose's overloads hide the call arguments, so the spies are plain mocks
+function mockUnpark(taken: string[] = []): jest.Mock {
+  return jest.spyOn(Analysis, "findOneAndUpdate").mockImplementation(((filter: {
+    analysis_id: string;
+  }) => ({
+    select: () => ({
+      lean: () =>
+        Promise.resolve(
+          taken.includes(filter.analysis_id)
+            ? null
+            : {
+                batch_id: filter.analysis_id.startsWith("bulk")
+                  ? "batch-1"
+                  : undefined,
+              },
+        ),
+    }),
+  })) as unknown as typeof Analysis.findOneAndUpdate) as unknown as jest.Mock;
+}
+
+function queued(): string[] {
+  return (cloudTasksService.enqueueAnalysis as jest.Mock).mock.calls.map(
+    ([analysisId]) => analysisId,
+  );
+}
+
+beforeAll(() => {
+  logger.silent = true;
+});
+
+afterAll(() => {
+  logger.silent = false;
+});
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+  process.env.QUEUE_BACKEND = "cloud-tasks";
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  jest.restoreAllMocks();
+});
+
+describe("dispatchParked", () => {
+  it("queues the next parked analysis of each owner with room, fairest first", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "10";
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "2";
+    mockParked(
+      [
+        owner("bulk-user", "bulk-1", 30),
+        owner("full-user", "single-2", 5, JobPriority.SINGLE),
+        owner("new-user", "single-1", 1, JobPriority.SINGLE),
+      ],
+      { "*": 4, "bulk-user": 1, "full-user": 2 },
+    );
+    const unpark = mockUnpark();
+
+    await dispatchParked();
+
+    expect(queued()).toEqual(["single-1", "bulk-1"]);
+    expect(cloudTasksService.enqueueAnalysis).toHaveBeenCalledWith(
+      "bulk-1",
+      JobPriority.BULK,
+    );
+    expect(cloudTasksService.enqueueAnalysis).toHaveBeenCalledWith(
+      "single-1",
+      JobPriority.SINGLE,
+    );
+    // Only while it is still parked, so concurrent passes queue it once
+    expect(unpark.mock.calls[0]).toEqual([
+      {
+        analysis_id: "single-1",
+        status: AnalysisStatus.PENDING,
+        parked_at: { $exists: true },
+      },
+      { $unset: { parked_at: 1 } },
+    ]);
+  });
+
+  it("queues no more than the global limit has room for", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "3";
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "0";
+    mockParked([owner("user-1", "bulk-1", 3), owner("user-2", "bulk-2", 2)], {
+      "*": 2,
+    });
+    mockUnpark();
+
+    await dispatchParked();
+
+    expect(queued()).toEqual(["bulk-1"]);
+  });
+
+  it("skips an analysis another pass queued first", async () => {
+    mockParked(
+      [owner("user-1", "bulk-1", 3), owner("user-2", "bulk-2", 2)],
+      {},
+    );
+    mockUnpark(["bulk-1"]);
+
+    await dispatchParked();
+
+    expect(queued()).toEqual(["bulk-2"]);
+  });
+
+  it("parks the analysis again when its task cannot be created", async () => {
+    mockParked([owner("user-1", "bulk-1", 3)], {});
+    mockUnpark();
+    (cloudTasksService.enqueueAnalysis as jest.Mock).mockRejectedValueOnce(
+      new Error("Cloud Tasks unavailable"),
+    );
+    const update = jest
+      .spyOn(Analysis, "updateOne")
+      .mockResolvedValue({} as never) as unknown as jest.Mock;
+
+    await dispatchParked();
+
+    expect(update).toHaveBeenCalledWith(
+      { analysis_id: "bulk-1", status: AnalysisStatus.PENDING },
+      { $set: { parked_at: expect.any(Date) } },
+    );
+  });
+
+  it("leaves scheduling to the worker loop with the mongo backend", async () => {
+    process.env.QUEUE_BACKEND = "mongo";
+    const aggregate = jest.spyOn(Analysis, "aggregate");
+
+    await dispatchParked();
+
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+});
+
+describe("parkAnalysis", () => {
+  it("parks a PENDING analysis and looks for a free slot", async () => {
+    const update = jest
+      .spyOn(Analysis, "updateOne")
+      .mockResolvedValue({} as never) as unknown as jest.Mock;
+    mockParked([], {});
+
+    await parkAnalysis("bulk-1");
+
+    expect(update).toHaveBeenCalledWith(
+      { analysis_id: "bulk-1", status: AnalysisStatus.PENDING },
+      { $set: { parked_at: expect.any(Date) } },
+    );
+    // A slot given back in the meantime would not have woken it otherwise
+    expect(Analysis.aggregate).toHaveBeenCalled();
+  });
+});
@@ -1,31 +1,73 @@
 import { logger } from "../../../shared/utils/logger";
+import { Analysis } from "../models/analysis.model";
 import { workerService } from "./worker.service";
 import { cloudTasksService } from "./cloud-tasks.service";
+import { mongoQueueService } from "./mongo-queue.service";
+import { RetryableError } from "./retry-policy.service";
+import {
+  ConcurrencyLimitError,
+  getJobPriority,
+  getRunningCounts,
+  getSchedulerConfig,
+  orderWaitingOwners,
+  schedulingKeyExpression,
+  WaitingOwner,
+} from "./scheduler.service";
+import { AnalysisStatus, JobPriority } from "../types";
 
 interface QueueService {
-  enqueue(analysisId: string): Promise<void>;
-  enqueueBatch(analysisIds: string[]): Promise<void>;
+  enqueue(analysisId: string, priority: JobPriority): Promise<void>;
+  enqueueBatch(analysisIds: string[], priority: JobPriority): Promise<void>;
 }
 
 /**
  * Mock queue service for local development
- * Processes jobs asynchronously in the background
+ * Processes jobs asynchronously in the background, in the order they arrive;
+ * jobs held back by a concurrency limit are parked and started fairly as
+ * slots free up
  */
 class MockQueueService implements QueueService {
-  async enqueue(analysisId: string): Promise<void> {
+  async enqueue(analysisId: string, priority: JobPriority): Promise<void> {
     logger.info(`[MockQueue] Enqueued analysis: ${analysisId}`);
     // Process asynchronously (don't await - fire and forget)
     setImmediate(() => {
-      workerService.processAnalysis(analysisId).catch((err) => {
+      this.process(analysisId, priority).catch((err) => {
         logger.error(`[MockQueue] Failed to process ${analysisId}:`, err);
       });
     });
   }
 
-  async enqueueBatch(analysisIds: string[]): Promise<void> {
+  private async process(
+    analysisId: string,
+    priority: JobPriority,
+  ): Promise<void> {
+    try {
+      await workerService.processAnalysis(analysisId);
+    } catch (err) {
+      if (err instanceof ConcurrencyLimitError) {
+        await parkAnalysis(analysisId);
+        return;
+      }
+      if (err instanceof RetryableError) {
+        // Lost on restart like every mock job
+        setTimeout(() => {
+          this.enqueue(analysisId, priority);
+        }, err.retryAfterMs ?? 0);
+      } else {
+        logger.error(`[MockQueue] Failed to process ${analysisId}:`, err);
+      }
+    }
+    // The run gave back its slot
+    await dispatchParked();
+  }
+
+  async enqueueBatch(
+    analysisIds: string[],
+    priority: JobPriority,
+  ): Promise<void> {
     logger.info(`[MockQueue] Enqueued batch of ${analysisIds.length} analyses`);
     for (const id of analysisIds) {
-      await this.enqueue(id);
+      await this.enqueue(id, priority);
     }
   }
 }
@@ -35,17 +77,61 @@ class MockQueueService implements QueueService {
  * Enqueues tasks to Google Cloud Tasks
  */
 class CloudTasksQueueService implements QueueService {
-  async enqueue(analysisId: string): Promise<void> {
+  async enqueue(analysisId: string, priority: JobPriority): Promise<void> {
     logger.info(`[CloudTasks] Enqueuing analysis: ${analysisId}`);
-    await cloudTasksService.enqueueAnalysis(analysisId);
+    await cloudTasksService.enqueueAnalysis(analysisId, priority);
   }
 
-  async enqueueBatch(analysisIds: string[]): Promise<void> {
+  async enqueueBatch(
+    analysisIds: string[],
+    priority: JobPriority,
+  ): Promise<void> {
     logger.info(
       `[CloudTasks] Enqueuing batch of ${analysisIds.length} analyses`,
     );
-    await cloudTasksService.enqueueAnalysisBatch(analysisIds);
+    await cloudTasksService.enqueueAnalysisBatch(analysisIds, priority);
+  }
+}
+
+/**
+ * Durable queue stored in MongoDB for deployments without Cloud Tasks
+ * Jobs survive restarts and are processed by the worker loop of any instance
+ * started with startQueueWorker.
+ */
+class MongoQueueService implements QueueService {
+  async enqueue(analysisId: string, priority: JobPriority): Promise<void> {
+    logger.info(`[MongoQueue] Enqueued analysis: ${analysisId}`);
+    await mongoQueueService.enqueueJobs([analysisId], priority);
+  }
+
+  async enqueueBatch(
+    analysisIds: string[],
+    priority: JobPriority,
+  ): Promise<void> {
+    logger.info(
+      `[MongoQueue] Enqueued batch of ${analysisIds.length} analyses`,
+    );
+    await mongoQueueService.enqueueJobs(analysisIds, priority);
+  }
+}
+
+export type QueueBackend = "mock" | "cloud-tasks" | "mongo";
+
+/**
+ * Backend selected by QUEUE_BACKEND (mock, cloud-tasks or mongo)
+ * Without it, USE_MOCK_QUEUE=true selects mock and anything else cloud-tasks.
+ */
+export function getQueueBackend(): QueueBackend {
+  const backend = process.env.QUEUE_BACKEND as QueueBackend | undefined;
+  if (!backend) {
+    return process.env.USE_MOCK_QUEUE === "true" ? "mock" : "cloud-tasks";
+  }
+  if (!["mock", "cloud-tasks", "mongo"].includes(backend)) {
+    throw new Error(
+      `Unknown QUEUE_BACKEND "${backend}". Expected mock, cloud-tasks or mongo.`,
+    );
   }
+  return backend;
 }
 
 // Lazy initialization to ensure env vars are loaded
@@ -53,18 +139,161 @@ let _queueService: QueueService;
 
 function getQueueService(): QueueService {
   if (!_queueService) {
-    const useMockQueue = process.env.USE_MOCK_QUEUE === "true";
-    _queueService = useMockQueue
-      ? new MockQueueService()
-      : new CloudTasksQueueService();
-    logger.info(
-      `Queue service initialized: ${useMockQueue ? "Mock" : "CloudTasks"}`,
-    );
+    const backend = getQueueBackend();
+    switch (backend) {
+      case "mock":
+        _queueService = new MockQueueService();
+        break;
+      case "mongo":
+        _queueService = new MongoQueueService();
+        break;
+      default:
+        _queueService = new CloudTasksQueueService();
+    }
+    logger.info(`Queue service initialized: ${backend}`);
   }
   return _queueService;
 }
 
+/**
+ * Start processing queued jobs in this process (MongoDB backend only; the
+ * other backends deliver jobs themselves)
+ */
+export function startQueueWorker(): void {
+  if (getQueueBackend() === "mongo") mongoQueueService.startWorker();
+}
+
+/**
+ * Run an analysis delivered by Cloud Tasks again later, as a new task
+ * Asking Cloud Tasks to retry the delivered task would use up its retries
+ * while the analysis waits for its next attempt, after which the analysis
+ * would stay PENDING with nothing queued.
+ * Returns false when the task was not created; the caller then asks for a
+ * retry instead.
+ */
+export async function rescheduleDelivery(
+  analysisId: string,
+  delayMs: number,
+): Promise<boolean> {
+  try {
+    const analysis = await Analysis.findOne({ analysis_id: analysisId })
+      .select("batch_id")
+      .lean();
+    if (!analysis) return false;
+    await cloudTasksService.enqueueAnalysis(
+      analysisId,
+      getJobPriority(analysis),
+      delayMs,
+    );
+    return true;
+  } catch (error) {
+    logger.error(`Failed to reschedule analysis ${analysisId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Leave an analysis held back by a concurrency limit PENDING until
+ * dispatchParked queues it, rather than delivering it again and again while
+ * the limit holds (mock and Cloud Tasks backends)
+ */
+export async function parkAnalysis(analysisId: string): Promise<void> {
+  await Analysis.updateOne(
+    { analysis_id: analysisId, status: AnalysisStatus.PENDING },
+    { $set: { parked_at: new Date() } },
+  );
+  // A slot given back before it was parked would not have woken it
+  await dispatchParked();
+}
+
+/**
+ * Queue parked analyses while slots are free, at most one per owner and
+ * pass, taking owners in the order of orderWaitingOwners
+ * Runs whenever a delivery ends and gives back its slot, and with every
+ * reaper pass in case a wake-up was lost with a crashed instance. The mongo
+ * backend does not park; its worker loop schedules the jobs itself.
+ */
+export async function dispatchParked(): Promise<void> {
+  if (getQueueBackend() === "mongo") return;
+
+  const waiting = await Analysis.aggregate<
+    WaitingOwner & { analysis_id: string }
+  >([
+    {
+      $match: {
+        status: AnalysisStatus.PENDING,
+        parked_at: { $exists: true },
+      },
+    },
+    {
+      $addFields: {
+        priority: {
+          $cond: [
+            { $ifNull: ["$batch_id", false] },
+            JobPriority.BULK,
+            JobPriority.SINGLE,
+          ],
+        },
+      },
+    },
+    { $sort: { priority: -1, parked_at: 1 } },
+    {
+      $group: {
+        _id: schedulingKeyExpression,
+        priority: { $first: "$priority" },
+        oldest: { $min: "$parked_at" },
+        analysis_id: { $first: "$analysis_id" },
+      },
+    },
+  ]);
+  if (waiting.length === 0) return;
+
+  const { maxConcurrency } = getSchedulerConfig();
+  const { total, byKey } = await getRunningCounts(
+    waiting.map((owner) => String(owner._id)),
+  );
+  let running = total;
+  const owners = orderWaitingOwners(
+    waiting,
+    (key) => byKey.get(String(key)) || 0,
+  );
+
+  for (const owner of owners) {
+    if (maxConcurrency > 0 && running >= maxConcurrency) break;
+    // Concurrent passes unpark each analysis once
+    const analysis = await Analysis.findOneAndUpdate(
+      {
+        analysis_id: owner.analysis_id,
+        status: AnalysisStatus.PENDING,
+        parked_at: { $exists: true },
+      },
+      { $unset: { parked_at: 1 } },
+    )
+      .select("batch_id")
+      .lean();
+    if (!analysis) continue;
+
+    try {
+      await getQueueService().enqueue(
+        owner.analysis_id,
+        getJobPriority(analysis),
+      );
+      running++;
+    } catch (error) {
+      logger.error(
+        `Failed to queue parked analysis ${owner.analysis_id}:`,
+        error,
+      );
+      await Analysis.updateOne(
+        { analysis_id: owner.analysis_id, status: AnalysisStatus.PENDING },
+        { $set: { parked_at: new Date() } },
+      );
+    }
+  }
+}
+
 export const queueService: QueueService = {
-  enqueue: (id) => getQueueService().enqueue(id),
-  enqueueBatch: (ids) => getQueueService().enqueueBatch(ids),
+  enqueue: (id, priority) => getQueueService().enqueue(id, priority),
+  enqueueBatch: (ids, priority) =>
+    getQueueService().enqueueBatch(ids, priority),
 };
@@ -0,0 +1,200 @@
+import { Analysis } from "../models/analysis.model";
+import { AnalysisStatus, JobPriority } from "../types";
+import { reapStuckAnalyses } from "./reaper.service";
+import { dispatchParked, queueService } from "./queue.service";
+import { deadLetterService } from "./dead-letter.service";
+import { releaseSlot } from "./scheduler.service";
+import { logger } from "../../../shared/utils/logger";
+
+// The queues and the analysis pipeline are not needed to find stuck runs
+jest.mock("./queue.service", () => ({
+  queueService: { enqueue: jest.fn() },
+  dispatchParked: jest.fn(),
+}));
+jest.mock("./scheduler.service", () => ({
+  ...jest.requireActual("./scheduler.service"),
+  releaseSlot: jest.fn(),
+}));
+jest.mock("./dead-letter.service", () => ({
+  deadLetterService: { recordDeadLetter: jest.fn() },
+}));
+
+const NOW = new Date("2025-06-01T12:00:00Z");
+const TEN_MINUTES_AGO = new Date(NOW.getTime() - 10 * 60 * 1000);
+
+const ENV_KEYS = ["ANALYSIS_STUCK_TIMEOUT_MS", "ANALYSIS_MAX_ATTEMPTS"];
+const savedEnv = { ...process.env };
+
+type StuckAnalysis = {
+  analysis_id: string;
+  user_id: string;
+  batch_id?: string;
+  attempts?: number;
+};
+
+// Mongoose's overloads hide the call arguments, so the spies are plain mocks
+function mockStuck(analyses: StuckAnalysis[]): jest.Mock {
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(analyses),
+  };
+  return jest
+    .spyOn(Analysis, "find")
+    .mockReturnValue(
+      query as unknown as ReturnType<typeof Analysis.find>,
+    ) as unknown as jest.Mock;
+}
+
+function mockUpdates(...modifiedCounts: number[]): jest.Mock {
+  const update = jest.spyOn(Analysis, "updateOne");
+  for (const modifiedCount of modifiedCounts) {
+    update.mockResolvedValueOnce({ modifiedCount } as Awaited<
+      ReturnType<typeof Analysis.updateOne>
+    >);
+  }
+  return update as unknown as jest.Mock;
+}
+
+beforeAll(() => {
+  logger.silent = true;
+});
+
+afterAll(() => {
+  logger.silent = false;
+});
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  jest.restoreAllMocks();
+});
+
+describe("reapStuckAnalyses", () => {
+  it("looks for PROCESSING analyses without a heartbeat since the timeout", async () => {
+    const find = mockStuck([]);
+    await reapStuckAnalyses(NOW);
+
+    expect(find).toHaveBeenCalledWith({
+      status: AnalysisStatus.PROCESSING,
+      $or: [
+        { last_heartbeat: { $lt: TEN_MINUTES_AGO } },
+        {
+          last_heartbeat: { $exists: false },
+          updated_at: { $lt: TEN_MINUTES_AGO },
+        },
+      ],
+    });
+  });
+
+  it("uses ANALYSIS_STUCK_TIMEOUT_MS for the cutoff", async () => {
+    process.env.ANALYSIS_STUCK_TIMEOUT_MS = "120000";
+    const find = mockStuck([]);
+    await reapStuckAnalyses(NOW);
+
+    const cutoff = new Date(NOW.getTime() - 120000);
+    expect(find.mock.calls[0][0]).toMatchObject({
+      $or: [{ last_heartbeat: { $lt: cutoff } }, expect.anything()],
+    });
+  });
+
+  it("requeues a stuck analysis with attempts left", async () => {
+    mockStuck([
+      { analysis_id: "ana_1", user_id: "user-1", attempts: 1 },
+      { analysis_id: "ana_2", user_id: "user-1", batch_id: "b", attempts: 2 },
+    ]);
+    const update = mockUpdates(1, 1);
+
+    const result = await reapStuckAnalyses(NOW);
+
+    expect(result).toEqual({ requeued: ["ana_1", "ana_2"], failed: [] });
+    // Only while it still is the run that was found stuck
+    expect(update.mock.calls[0][0]).toMatchObject({
+      analysis_id: "ana_1",
+      attempts: 1,
+      status: AnalysisStatus.PROCESSING,
+    });
+    expect(update.mock.calls[0][1]).toEqual({
+      $set: { status: AnalysisStatus.PENDING },
+      $unset: { last_heartbeat: 1 },
+    });
+    expect(queueService.enqueue).toHaveBeenCalledWith(
+      "ana_1",
+      JobPriority.SINGLE,
+    );
+    expect(queueService.enqueue).toHaveBeenCalledWith(
+      "ana_2",
+      JobPriority.BULK,
+    );
+    // The dead runs' slots are free again
+    expect(releaseSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ analysis_id: "ana_1" }),
+      1,
+    );
+    expect(releaseSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ analysis_id: "ana_2" }),
+      2,
+    );
+    expect(dispatchParked).toHaveBeenCalled();
+    expect(deadLetterService.recordDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it("fails and dead-letters a stuck analysis that used all its attempts", async () => {
+    mockStuck([{ analysis_id: "ana_1", user_id: "user-1", attempts: 3 }]);
+    const update = mockUpdates(1);
+
+    const result = await reapStuckAnalyses(NOW);
+
+    expect(result).toEqual({ requeued: [], failed: ["ana_1"] });
+    expect(update.mock.calls[0][1]).toMatchObject({
+      $set: { status: AnalysisStatus.FAILED },
+    });
+    expect(releaseSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ analysis_id: "ana_1" }),
+      3,
+    );
+    expect(queueService.enqueue).not.toHaveBeenCalled();
+    expect(deadLetterService.recordDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        analysisId: "ana_1",
+        userId: "user-1",
+        source: "reaper",
+        attempts: 3,
+      }),
+    );
+  });
+
+  it("leaves an analysis alone that changed since it was read", async () => {
+    mockStuck([
+      { analysis_id: "ana_1", user_id: "user-1", attempts: 1 },
+      { analysis_id: "ana_2", user_id: "user-1", attempts: 3 },
+    ]);
+    mockUpdates(0, 0);
+
+    const result = await reapStuckAnalyses(NOW);
+
+    expect(result).toEqual({ requeued: [], failed: [] });
+    expect(queueService.enqueue).not.toHaveBeenCalled();
+    expect(releaseSlot).not.toHaveBeenCalled();
+    expect(deadLetterService.recordDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it("matches analyses started before attempts were counted", async () => {
+    mockStuck([{ analysis_id: "ana_1", user_id: "user-1" }]);
+    const update = mockUpdates(1);
+
+    const result = await reapStuckAnalyses(NOW);
+
+    expect(result.requeued).toEqual(["ana_1"]);
+    expect(update.mock.calls[0][0]).toMatchObject({
+      attempts: { $exists: false },
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { Analysis } from "../models/analysis.model";
+import { AnalysisStatus } from "../types";
+import { dispatchParked, queueService } from "./queue.service";
+import { getRetryPolicy } from "./retry-policy.service";
+import { deadLetterService } from "./dead-letter.service";
+import { getJobPriority, releaseSlot } from "./scheduler.service";
+import { logger } from "../../../shared/utils/logger";
+
+export interface ReaperConfig {
+  intervalMs: number; // 0 = reaper disabled in this process
+  stuckTimeoutMs: number; // Heartbeat age after which a run counts as dead
+}
+
+export interface ReapResult {
+  requeued: string[];
+  failed: string[];
+}
+
+// Analyses handled per pass; the rest wait for the next one
+const REAP_BATCH_SIZE = 100;
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * ANALYSIS_REAPER_INTERVAL_MS and ANALYSIS_STUCK_TIMEOUT_MS
+ */
+export function getReaperConfig(): ReaperConfig {
+  return {
+    intervalMs: readInt("ANALYSIS_REAPER_INTERVAL_MS", 60 * 1000, 0),
+    // Workers send a heartbeat every 30 seconds
+    stuckTimeoutMs: readInt("ANALYSIS_STUCK_TIMEOUT_MS", 10 * 60 * 1000, 60000),
+  };
+}
+
+/**
+ * Requeue analyses stuck in PROCESSING whose worker stopped sending
+ * heartbeats (e.g. the container died mid-analysis), or fail and dead-letter
+ * them once they have used all their attempts
+ * Each analysis is updated atomically, so reapers running on several
+ * instances handle it once. The slots of the dead runs are given back, and
+ * parked analyses are queued if slots are free.
+ */
+export async function reapStuckAnalyses(
+  now: Date = new Date(),
+): Promise<ReapResult> {
+  const { stuckTimeoutMs } = getReaperConfig();
+  // Stuck runs count towards the same limit as retryable errors
+  const { maxAttempts } = getRetryPolicy();
+  const cutoff = new Date(now.getTime() - stuckTimeoutMs);
+  const stale = {
+    status: AnalysisStatus.PROCESSING,
+    $or: [
+      { last_heartbeat: { $lt: cutoff } },
+      // Started before heartbeats were recorded
+      { last_heartbeat: { $exists: false }, updated_at: { $lt: cutoff } },
+    ],
+  };
+
+  const stuck = await Analysis.find(stale)
+    .select("analysis_id user_id guest_id batch_id attempts")
+    .limit(REAP_BATCH_SIZE)
+    .lean();
+
+  const result: ReapResult = { requeued: [], failed: [] };
+  const minutes = Math.round(stuckTimeoutMs / 60000);
+
+  for (const analysis of stuck) {
+    const attempts = analysis.attempts || 0;
+    const filter = {
+      ...stale,
+      analysis_id: analysis.analysis_id,
+      // Unchanged since it was read, i.e. no new run has started
+      attempts: analysis.attempts ?? { $exists: false },
+    };
+
+    if (attempts < maxAttempts) {
+      const { modifiedCount } = await Analysis.updateOne(filter, {
+        $set: { status: AnalysisStatus.PENDING },
+        $unset: { last_heartbeat: 1 },
+      });
+      if (modifiedCount === 0) continue;
+      await releaseSlot(analysis, attempts);
+
+      try {
+        await queueService.enqueue(
+          analysis.analysis_id,
+          getJobPriority(analysis),
+        );
+        result.requeued.push(analysis.analysis_id);
+        logger.warn(
+          `Analysis ${analysis.analysis_id} had no heartbeat for ${minutes} min, requeued (attempt ${attempts}/${maxAttempts})`,
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to requeue stuck analysis ${analysis.analysis_id}:`,
+          error,
+        );
+      }
+      continue;
+    }
+
+    const { modifiedCount } = await Analysis.updateOne(filter, {
+      $set: {
+        status: AnalysisStatus.FAILED,
+        error: `Analysis stopped responding (no progress for ${minutes} minutes) in each of its ${attempts} attempts`,
+      },
+      $unset: { last_heartbeat: 1 },
+    });
+    if (modifiedCount === 0) continue;
+    await releaseSlot(analysis, attempts);
+    result.failed.push(analysis.analysis_id);
+    await deadLetterService.recordDeadLetter({
+      analysisId: analysis.analysis_id,
+      userId: String(analysis.user_id),
+      source: "reaper",
+      error: `No heartbeat for ${minutes} minutes`,
+      attempts,
+    });
+  }
+
+  // Also catches a wake-up lost when an instance died after freeing a slot
+  await dispatchParked();
+
+  if (result.requeued.length > 0 || result.failed.length > 0) {
+    logger.info(
+      `Reaper: ${result.requeued.length} stuck analyses requeued, ${result.failed.length} failed`,
+    );
+  }
+  return result;
+}
+
+let reaperTimer: NodeJS.Timeout | undefined;
+let reaping = false;
+
+/**
+ * Run the reaper periodically in this process
+ * Does nothing when ANALYSIS_REAPER_INTERVAL_MS is 0.
+ */
+export function startReaper(): void {
+  const { intervalMs } = getReaperConfig();
+  if (reaperTimer || intervalMs === 0) return;
+
+  reaperTimer = setInterval(() => {
+    // A slow pass is not overlapped by the next one
+    if (reaping) return;
+    reaping = true;
+    reapStuckAnalyses()
+      .catch((err) => {
+        logger.error("Reaper pass failed:", err);
+      })
+      .finally(() => {
+        reaping = false;
+      });
+  }, intervalMs);
+  logger.info(`Stuck analysis reaper started (every ${intervalMs} ms)`);
+}
+
+export function stopReaper(): void {
+  if (reaperTimer) clearInterval(reaperTimer);
+  reaperTimer = undefined;
+}
+
+export const reaperService = {
+  getReaperConfig,
+  reapStuckAnalyses,
+  startReaper,
+  stopReaper,
+};
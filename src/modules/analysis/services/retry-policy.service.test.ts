@@ -0,0 +1,165 @@
+import { APICallError, RetryError } from "ai";
+import {
+  classifyError,
+  getRetryDelay,
+  parseRetryAfter,
+  PermanentError,
+  RetryableError,
+} from "./retry-policy.service";
+
+const ENV_KEYS = [
+  "ANALYSIS_RETRY_BASE_DELAY_MS",
+  "ANALYSIS_RETRY_MAX_DELAY_MS",
+];
+const savedEnv = { ...process.env };
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  jest.restoreAllMocks();
+});
+
+function apiCallError(statusCode: number, retryAfter?: string): APICallError {
+  return new APICallError({
+    message: `Request failed with ${statusCode}`,
+    url: "https://generativelanguage.googleapis.com",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders: retryAfter ? { "retry-after": retryAfter } : undefined,
+  });
+}
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+describe("classifyError", () => {
+  it("keeps errors that are already classified", () => {
+    const retryable = new RetryableError("rate limited", 5000);
+    const permanent = new PermanentError("bad request");
+    expect(classifyError(retryable)).toBe(retryable);
+    expect(classifyError(permanent)).toBe(permanent);
+  });
+
+  it.each([408, 429, 500, 503])(
+    "retries a provider response with status %i",
+    (status) => {
+      expect(classifyError(apiCallError(status))).toBeInstanceOf(
+        RetryableError,
+      );
+    },
+  );
+
+  it.each([400, 401, 404])(
+    "gives up on a provider response with status %i",
+    (status) => {
+      expect(classifyError(apiCallError(status))).toBeInstanceOf(
+        PermanentError,
+      );
+    },
+  );
+
+  it("takes the wait from the provider's Retry-After header", () => {
+    const failure = classifyError(apiCallError(429, "20"));
+    expect(failure).toBeInstanceOf(RetryableError);
+    expect((failure as RetryableError).retryAfterMs).toBe(20000);
+  });
+
+  it("classifies SDK retries that ran out by their last error", () => {
+    const exhausted = (lastError: Error) =>
+      new RetryError({
+        message: "Failed after 3 attempts",
+        reason: "maxRetriesExceeded",
+        errors: [lastError],
+      });
+    expect(classifyError(exhausted(apiCallError(503, "7")))).toMatchObject({
+      name: "RetryableError",
+      retryAfterMs: 7000,
+    });
+    expect(classifyError(exhausted(apiCallError(400)))).toBeInstanceOf(
+      PermanentError,
+    );
+  });
+
+  it.each(["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"])(
+    "retries a network failure (%s)",
+    (code) => {
+      expect(classifyError(networkError(code))).toBeInstanceOf(RetryableError);
+    },
+  );
+
+  it("retries a fetch failure caused by a network error", () => {
+    const error = new TypeError("fetch failed", {
+      cause: networkError("ECONNREFUSED"),
+    });
+    expect(classifyError(error)).toBeInstanceOf(RetryableError);
+  });
+
+  it("retries an unreachable database", () => {
+    const error = new Error("Server selection timed out");
+    error.name = "MongoServerSelectionError";
+    expect(classifyError(error)).toBeInstanceOf(RetryableError);
+  });
+
+  it("gives up on anything unrecognized", () => {
+    expect(classifyError(new Error("Cannot read properties"))).toBeInstanceOf(
+      PermanentError,
+    );
+    expect(classifyError("thrown string")).toBeInstanceOf(PermanentError);
+  });
+});
+
+describe("getRetryDelay", () => {
+  beforeEach(() => {
+    process.env.ANALYSIS_RETRY_BASE_DELAY_MS = "1000";
+    process.env.ANALYSIS_RETRY_MAX_DELAY_MS = "10000";
+  });
+
+  it("doubles the delay for every attempt", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelay(attempt))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+  });
+
+  it("adds up to 20% jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(getRetryDelay(2)).toBe(2200);
+  });
+
+  it("never waits longer than the maximum delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.99);
+    expect(getRetryDelay(10)).toBe(10000);
+  });
+
+  it("waits as long as the upstream service asked", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(getRetryDelay(1, new RetryableError("rate limited", 6000))).toBe(
+      6000,
+    );
+    expect(getRetryDelay(1, new RetryableError("rate limited", 60000))).toBe(
+      10000,
+    );
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds", () => {
+    expect(parseRetryAfter("30")).toBe(30000);
+  });
+
+  it("reads an HTTP date", () => {
+    const inAMinute = new Date(Date.now() + 60000).toUTCString();
+    const delay = parseRetryAfter(inAMinute)!;
+    expect(delay).toBeGreaterThan(58000);
+    expect(delay).toBeLessThanOrEqual(60000);
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
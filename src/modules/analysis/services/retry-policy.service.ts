@@ -0,0 +1,165 @@
+import { APICallError, RetryError } from "ai";
+import { AppError } from "../../../shared/middleware/errorHandler";
+
+/**
+ * A failure that may go away when the job is run again later
+ * (rate limits, provider outages, network and database hiccups)
+ */
+export class RetryableError extends Error implements AppError {
+  statusCode = 503;
+  isOperational = true;
+  code = "ANALYSIS_RETRYABLE";
+
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number, // Wait asked for by the upstream service
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+/**
+ * A failure that running the job again will not fix (invalid game, invalid
+ * model output, rejected request)
+ */
+export class PermanentError extends Error implements AppError {
+  statusCode = 422;
+  isOperational = true;
+  code = "ANALYSIS_PERMANENT";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentError";
+  }
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Runs of an analysis before it is given up
+  baseDelayMs: number; // Wait before the first retry; doubled for each one after
+  maxDelayMs: number;
+  runTimeoutMs: number; // Longest a run may take before it is stopped and retried
+}
+
+// Network failures worth retrying (Node system error codes)
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+// MongoDB driver errors raised while the database is unreachable
+const TRANSIENT_MONGO_ERRORS = [
+  "MongoNetworkError",
+  "MongoNetworkTimeoutError",
+  "MongoServerSelectionError",
+];
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * ANALYSIS_MAX_ATTEMPTS, ANALYSIS_RETRY_BASE_DELAY_MS,
+ * ANALYSIS_RETRY_MAX_DELAY_MS and ANALYSIS_RUN_TIMEOUT_MS
+ */
+export function getRetryPolicy(): RetryPolicy {
+  const baseDelayMs = readInt("ANALYSIS_RETRY_BASE_DELAY_MS", 30 * 1000, 0);
+  return {
+    maxAttempts: readInt("ANALYSIS_MAX_ATTEMPTS", 3, 1),
+    baseDelayMs,
+    maxDelayMs: Math.max(
+      baseDelayMs,
+      readInt("ANALYSIS_RETRY_MAX_DELAY_MS", 15 * 60 * 1000, 0),
+    ),
+    runTimeoutMs: readInt("ANALYSIS_RUN_TIMEOUT_MS", 10 * 60 * 1000, 10000),
+  };
+}
+
+/**
+ * Wait before running a job again after its nth failed attempt
+ * Exponential with up to 20% random jitter, so jobs that failed together
+ * (e.g. on a rate limit) do not all come back at once. A longer wait asked for
+ * by the upstream service wins.
+ */
+export function getRetryDelay(attempt: number, error?: unknown): number {
+  const { baseDelayMs, maxDelayMs } = getRetryPolicy();
+  const exponential = Math.min(
+    maxDelayMs,
+    baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  const delay = Math.round(exponential * (1 + Math.random() * 0.2));
+  const requested =
+    error instanceof RetryableError ? error.retryAfterMs || 0 : 0;
+  return Math.min(maxDelayMs, Math.max(delay, requested));
+}
+
+/**
+ * Milliseconds from a Retry-After header (seconds or an HTTP date)
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isTransient(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (TRANSIENT_MONGO_ERRORS.includes(error.name)) return true;
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && TRANSIENT_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  // fetch() reports network failures as a TypeError with the cause attached
+  return error.cause !== undefined && isTransient(error.cause);
+}
+
+/**
+ * Sort an error into retryable or permanent
+ * Errors nobody classified are permanent unless they are known network or
+ * database failures, so a bug does not burn through every attempt.
+ */
+export function classifyError(error: unknown): RetryableError | PermanentError {
+  if (error instanceof RetryableError || error instanceof PermanentError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  // The AI SDK has already retried; look at why the last call failed
+  if (RetryError.isInstance(error)) {
+    const last = classifyError(error.lastError);
+    return last instanceof RetryableError
+      ? new RetryableError(message, last.retryAfterMs)
+      : new PermanentError(message);
+  }
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable
+      ? new RetryableError(
+          message,
+          parseRetryAfter(error.responseHeaders?.["retry-after"]),
+        )
+      : new PermanentError(message);
+  }
+
+  return isTransient(error)
+    ? new RetryableError(message)
+    : new PermanentError(message);
+}
+
+export const retryPolicyService = {
+  getRetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  classifyError,
+};
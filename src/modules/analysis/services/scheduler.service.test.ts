@@ -0,0 +1,192 @@
+import { ConcurrencySlot } from "../models/concurrency-slot.model";
+import {
+  acquireSlot,
+  getDeferDelay,
+  getGuestId,
+  getSchedulingKey,
+  orderWaitingOwners,
+  releaseSlot,
+  WaitingOwner,
+} from "./scheduler.service";
+
+const ENV_KEYS = [
+  "ANALYSIS_MAX_CONCURRENCY",
+  "ANALYSIS_MAX_CONCURRENCY_PER_USER",
+  "ANALYSIS_DEFER_DELAY_MS",
+];
+const savedEnv = { ...process.env };
+
+const analysis = { analysis_id: "ana_1", user_id: "user-1" };
+
+/**
+ * Answer the conditional slot updates by key: whether the list had room
+ * The upserts creating the lists always succeed.
+ */
+function mockSlots(room: Record<string, boolean>): jest.Mock {
+  return jest.spyOn(ConcurrencySlot, "updateOne").mockImplementation(((
+    filter: Record<string, unknown>,
+    update: Record<string, unknown>,
+  ) =>
+    Promise.resolve({
+      matchedCount: update.$addToSet && !room[filter.key as string] ? 0 : 1,
+    })) as unknown as typeof ConcurrencySlot.updateOne) as unknown as jest.Mock;
+}
+
+function slotUpdates(update: jest.Mock, operator: string) {
+  return update.mock.calls.filter(([, change]) => change[operator]);
+}
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  jest.restoreAllMocks();
+});
+
+describe("acquireSlot", () => {
+  it("takes a slot of the user and a global one, each only below its limit", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "10";
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "2";
+    const update = mockSlots({ "user-1": true, "*": true });
+
+    expect(await acquireSlot(analysis, 1)).toBeNull();
+
+    expect(slotUpdates(update, "$addToSet")).toEqual([
+      [
+        { key: "user-1", "holders.1": { $exists: false } },
+        { $addToSet: { holders: "ana_1:1" } },
+      ],
+      [
+        { key: "*", "holders.9": { $exists: false } },
+        { $addToSet: { holders: "ana_1:1" } },
+      ],
+    ]);
+  });
+
+  it("refuses a run of a user at their limit", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "2";
+    const update = mockSlots({ "user-1": false, "*": true });
+
+    expect(await acquireSlot(analysis, 1)).toBe(
+      "user already has 2 analyses running (limit 2)",
+    );
+    // The global slot is not touched
+    expect(slotUpdates(update, "$addToSet")).toHaveLength(1);
+  });
+
+  it("gives the user's slot back when the global limit is reached", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "3";
+    const update = mockSlots({ "user-1": true, "*": false });
+
+    expect(await acquireSlot(analysis, 2)).toBe(
+      "3 analyses already running (limit 3)",
+    );
+    expect(slotUpdates(update, "$pull")).toEqual([
+      [{ key: "user-1" }, { $pull: { holders: "ana_1:2" } }],
+    ]);
+  });
+
+  it("counts each guest client as its own user", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "0";
+    const update = mockSlots({ "guest:abc": true });
+
+    await acquireSlot(
+      { analysis_id: "ana_1", user_id: "guest", guest_id: "abc" },
+      1,
+    );
+    expect(slotUpdates(update, "$addToSet")[0][0]).toMatchObject({
+      key: "guest:abc",
+    });
+  });
+
+  it("takes no slot for a limit of 0", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "0";
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "0";
+    const update = mockSlots({});
+
+    expect(await acquireSlot(analysis, 1)).toBeNull();
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe("releaseSlot", () => {
+  it("removes the run from the user's and the global slots", async () => {
+    const update = jest
+      .spyOn(ConcurrencySlot, "updateMany")
+      .mockResolvedValue({} as never) as unknown as jest.Mock;
+
+    await releaseSlot(analysis, 3);
+
+    expect(update).toHaveBeenCalledWith(
+      { key: { $in: ["*", "user-1"] } },
+      { $pull: { holders: "ana_1:3" } },
+    );
+  });
+});
+
+describe("getDeferDelay", () => {
+  it("spreads the delay between half and one and a half times the setting", () => {
+    process.env.ANALYSIS_DEFER_DELAY_MS = "10000";
+    jest.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(1);
+    expect([getDeferDelay(), getDeferDelay()]).toEqual([5000, 15000]);
+  });
+});
+
+describe("orderWaitingOwners", () => {
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60 * 1000);
+
+  it("leaves out owners at their limit", () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "2";
+    const waiting: WaitingOwner[] = [
+      { _id: "bulk", priority: 0, oldest: minutesAgo(30) },
+      { _id: "other", priority: 0, oldest: minutesAgo(1) },
+    ];
+    const running = new Map([["bulk", 2]]);
+
+    expect(
+      orderWaitingOwners(waiting, (key) => running.get(key!) || 0).map(
+        (owner) => owner._id,
+      ),
+    ).toEqual(["other"]);
+  });
+
+  it("orders by priority, then fewest running, then longest wait", () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY_PER_USER = "0";
+    const waiting: WaitingOwner[] = [
+      { _id: "busy", priority: 0, oldest: minutesAgo(60) },
+      { _id: "newer", priority: 0, oldest: minutesAgo(2) },
+      { _id: "older", priority: 0, oldest: minutesAgo(10) },
+      { _id: "single", priority: 10, oldest: minutesAgo(1) },
+    ];
+    const running = new Map([
+      ["busy", 2],
+      ["single", 5],
+    ]);
+
+    expect(
+      orderWaitingOwners(waiting, (key) => running.get(key!) || 0).map(
+        (owner) => owner._id,
+      ),
+    ).toEqual(["single", "older", "newer", "busy"]);
+  });
+});
+
+describe("getSchedulingKey", () => {
+  it("uses the user, or the guest client for guests", () => {
+    const guestId = getGuestId("203.0.113.7")!;
+    expect(guestId).toMatch(/^[0-9a-f]{16}$/);
+    expect(getGuestId("203.0.113.7")).toBe(guestId);
+    expect(getGuestId(undefined)).toBeUndefined();
+
+    expect(getSchedulingKey({ user_id: "user-1" })).toBe("user-1");
+    expect(getSchedulingKey({ user_id: "guest", guest_id: guestId })).toBe(
+      `guest:${guestId}`,
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { createHash } from "crypto";
+import { IAnalysisDocument } from "../models/analysis.model";
+import { ConcurrencySlot } from "../models/concurrency-slot.model";
+import { IAnalysis, JobPriority } from "../types";
+import { RetryableError } from "./retry-policy.service";
+
+export interface SchedulerConfig {
+  maxConcurrency: number; // Analyses running at once across all instances (0 = unlimited)
+  maxConcurrencyPerUser: number; // Analyses of one user running at once (0 = unlimited)
+  deferDelayMs: number; // Wait before a job held back by a limit is tried again
+}
+
+/**
+ * An owner with analyses waiting to run: its scheduling key, the highest
+ * priority and the oldest time among them
+ */
+export interface WaitingOwner {
+  _id: string | null;
+  priority: number;
+  oldest: Date;
+}
+
+type ScheduledAnalysis = Pick<IAnalysisDocument, "user_id" | "guest_id">;
+
+// Slot list shared by every analysis, for ANALYSIS_MAX_CONCURRENCY
+const GLOBAL_SLOT_KEY = "*";
+
+/**
+ * An analysis that was not started because a concurrency limit is reached
+ * It is still PENDING and does not use up an attempt; the mongo queue runs it
+ * again after retryAfterMs, the other backends park it until a slot is free.
+ */
+export class ConcurrencyLimitError extends RetryableError {
+  code = "ANALYSIS_CONCURRENCY_LIMIT";
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message, retryAfterMs);
+    this.name = "ConcurrencyLimitError";
+  }
+}
+
+function readInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * ANALYSIS_MAX_CONCURRENCY, ANALYSIS_MAX_CONCURRENCY_PER_USER and
+ * ANALYSIS_DEFER_DELAY_MS
+ */
+export function getSchedulerConfig(): SchedulerConfig {
+  return {
+    maxConcurrency: readInt("ANALYSIS_MAX_CONCURRENCY", 10, 0),
+    maxConcurrencyPerUser: readInt("ANALYSIS_MAX_CONCURRENCY_PER_USER", 2, 0),
+    deferDelayMs: readInt("ANALYSIS_DEFER_DELAY_MS", 15 * 1000, 1000),
+  };
+}
+
+/**
+ * Wait before a job held back by a limit is tried again: ANALYSIS_DEFER_DELAY_MS
+ * give or take half, so jobs held back together do not all come back at once
+ */
+export function getDeferDelay(): number {
+  const { deferDelayMs } = getSchedulerConfig();
+  return Math.round(deferDelayMs * (0.5 + Math.random()));
+}
+
+/**
+ * Priority for queueing an analysis again (reaper, dead-letter replay):
+ * games from a bulk upload stay behind single games
+ */
+export function getJobPriority(
+  analysis: Pick<IAnalysis, "batch_id">,
+): JobPriority {
+  return analysis.batch_id ? JobPriority.BULK : JobPriority.SINGLE;
+}
+
+/**
+ * Id of a guest client for scheduling, derived from its address
+ * Guests share the "guest" user, so without it one guest's bulk upload would
+ * hold up every other guest. Only a hash is stored.
+ */
+export function getGuestId(
+  clientAddress: string | undefined,
+): string | undefined {
+  if (!clientAddress) return undefined;
+  return createHash("sha256").update(clientAddress).digest("hex").slice(0, 16);
+}
+
+/**
+ * Whose share of the capacity an analysis uses: its user, or for guests the
+ * client that uploaded it
+ */
+export function getSchedulingKey(analysis: ScheduledAnalysis): string {
+  return analysis.guest_id
+    ? `guest:${analysis.guest_id}`
+    : String(analysis.user_id);
+}
+
+/**
+ * getSchedulingKey as an aggregation expression over analyses
+ */
+export const schedulingKeyExpression = {
+  $cond: [
+    { $ifNull: ["$guest_id", false] },
+    { $concat: ["guest:", "$guest_id"] },
+    { $toString: "$user_id" },
+  ],
+};
+
+/**
+ * Owners whose analyses may start next, in the order they should: below
+ * ANALYSIS_MAX_CONCURRENCY_PER_USER, highest priority first, then the fewest
+ * analyses running, then the longest wait, so a large upload does not hold
+ * up everyone else
+ */
+export function orderWaitingOwners<T extends WaitingOwner>(
+  waiting: T[],
+  runningOf: (key: string | null) => number,
+): T[] {
+  const { maxConcurrencyPerUser } = getSchedulerConfig();
+  return waiting
+    .filter(
+      (owner) =>
+        maxConcurrencyPerUser === 0 ||
+        runningOf(owner._id) < maxConcurrencyPerUser,
+    )
+    .sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        runningOf(a._id) - runningOf(b._id) ||
+        a.oldest.getTime() - b.oldest.getTime(),
+    );
+}
+
+/**
+ * Analyses holding a slot, in total and for each of the given scheduling keys
+ */
+export async function getRunningCounts(
+  keys: string[],
+): Promise<{ total: number; byKey: Map<string, number> }> {
+  const slots = await ConcurrencySlot.find({
+    key: { $in: [GLOBAL_SLOT_KEY, ...keys] },
+  }).lean();
+  const byKey = new Map(slots.map((slot) => [slot.key, slot.holders.length]));
+  return { total: byKey.get(GLOBAL_SLOT_KEY) || 0, byKey };
+}
+
+/**
+ * Add a run to a slot list if the list is below the limit
+ * The limit is checked by the same update that adds the run, so runs
+ * starting at the same time on different instances cannot all get in.
+ */
+async function takeSlot(
+  key: string,
+  holder: string,
+  limit: number,
+): Promise<boolean> {
+  await ConcurrencySlot.updateOne(
+    { key },
+    { $setOnInsert: { holders: [] } },
+    { upsert: true },
+  );
+  const { matchedCount } = await ConcurrencySlot.updateOne(
+    { key, [`holders.${limit - 1}`]: { $exists: false } },
+    { $addToSet: { holders: holder } },
+  );
+  return matchedCount > 0;
+}
+
+function slotHolder(analysisId: string, attempt: number): string {
+  return `${analysisId}:${attempt}`;
+}
+
+/**
+ * Reserve a slot under ANALYSIS_MAX_CONCURRENCY_PER_USER and
+ * ANALYSIS_MAX_CONCURRENCY for a run of an analysis
+ * Returns a description of the limit that is reached, or null when the
+ * slots were reserved; they are held until releaseSlot.
+ */
+export async function acquireSlot(
+  analysis: ScheduledAnalysis & { analysis_id: string },
+  attempt: number,
+): Promise<string | null> {
+  const { maxConcurrency, maxConcurrencyPerUser } = getSchedulerConfig();
+  const key = getSchedulingKey(analysis);
+  const holder = slotHolder(analysis.analysis_id, attempt);
+
+  if (
+    maxConcurrencyPerUser > 0 &&
+    !(await takeSlot(key, holder, maxConcurrencyPerUser))
+  ) {
+    return `user already has ${maxConcurrencyPerUser} analyses running (limit ${maxConcurrencyPerUser})`;
+  }
+
+  if (
+    maxConcurrency > 0 &&
+    !(await takeSlot(GLOBAL_SLOT_KEY, holder, maxConcurrency))
+  ) {
+    await ConcurrencySlot.updateOne({ key }, { $pull: { holders: holder } });
+    return `${maxConcurrency} analyses already running (limit ${maxConcurrency})`;
+  }
+
+  return null;
+}
+
+/**
+ * Give back the slots of a run; does nothing when it holds none
+ */
+export async function releaseSlot(
+  analysis: ScheduledAnalysis & { analysis_id: string },
+  attempt: number,
+): Promise<void> {
+  await ConcurrencySlot.updateMany(
+    { key: { $in: [GLOBAL_SLOT_KEY, getSchedulingKey(analysis)] } },
+    { $pull: { holders: slotHolder(analysis.analysis_id, attempt) } },
+  );
+}
+
+export const schedulerService = {
+  getSchedulerConfig,
+  getDeferDelay,
+  getJobPriority,
+  getGuestId,
+  getSchedulingKey,
+  orderWaitingOwners,
+  getRunningCounts,
+  acquireSlot,
+  releaseSlot,
+};
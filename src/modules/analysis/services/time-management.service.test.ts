@@ -0,0 +1,177 @@
+import { KeyMoment, PgnMoveNode, PgnMoveTree } from "../types";
+import {
+  buildTimeManagementReport,
+  parseTimeControl,
+} from "./time-management.service";
+
+const ENV_KEYS = ["TIME_TROUBLE_THRESHOLD_SECONDS"];
+const savedEnv = { ...process.env };
+
+type Reading = { clock?: number; elapsed?: number };
+
+// Mainline with the given clock readings, one per ply starting with White
+function tree(...readings: Reading[]): PgnMoveTree {
+  return {
+    mainline: readings.map(
+      (reading, index): PgnMoveNode => ({
+        san: `m${index + 1}`,
+        ply: index + 1,
+        move_number: Math.floor(index / 2) + 1,
+        color: index % 2 === 0 ? "white" : "black",
+        ...reading,
+      }),
+    ),
+  };
+}
+
+function mistakeAt(ply: number): KeyMoment {
+  return {
+    ply,
+    move_number: Math.floor((ply - 1) / 2) + 1,
+    move: `m${ply}`,
+    fen: "",
+    evaluation: "",
+    comment: "",
+    is_mistake: true,
+  };
+}
+
+function report(
+  moveTree: PgnMoveTree,
+  timeControl?: string,
+  keyMoments: KeyMoment[] = [],
+) {
+  return buildTimeManagementReport(
+    moveTree,
+    [],
+    keyMoments,
+    "white",
+    timeControl,
+  );
+}
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe("parseTimeControl", () => {
+  it.each([
+    ["300+3", { base: 300, increment: 3 }],
+    ["600", { base: 600, increment: 0 }],
+    ["60+0.5", { base: 60, increment: 0.5 }],
+    ["40/7200:3600", { base: 7200, increment: 0 }],
+  ])("reads %s", (tag, expected) => {
+    expect(parseTimeControl(tag)).toEqual(expected);
+  });
+
+  it.each([undefined, "", "-", "?", "*180"])("gives up on %p", (tag) => {
+    expect(parseTimeControl(tag)).toBeUndefined();
+  });
+});
+
+describe("buildTimeManagementReport", () => {
+  it("returns undefined for a game without clock data", () => {
+    expect(report(tree({}, {}, {}), "300+3")).toBeUndefined();
+  });
+
+  it("works out the time spent from the clocks and the increment", () => {
+    const result = report(
+      tree(
+        { clock: 178 },
+        { clock: 175 },
+        { clock: 170 },
+        { elapsed: 4, clock: 150 },
+      ),
+      "180+2",
+    )!;
+
+    // No increment is credited before a side's first move
+    expect(result.moves.map((move) => move.time_spent)).toEqual([2, 5, 10, 4]);
+    expect(result.players.white).toMatchObject({
+      moves_with_clock: 2,
+      average_time_per_move: 6,
+      longest_think: { ply: 3, san: "m3", time_spent: 10 },
+      final_clock: 170,
+    });
+  });
+
+  it("leaves the first think time unknown without a time control", () => {
+    const result = report(
+      tree({ clock: 178 }, { clock: 175 }, { clock: 170 }),
+    )!;
+    expect(result.time_control).toBeUndefined();
+    expect(result.moves.map((move) => move.time_spent)).toEqual([
+      null,
+      null,
+      8,
+    ]);
+  });
+
+  it("counts moves played below the threshold as time trouble", () => {
+    const result = report(
+      tree({ clock: 40 }, { clock: 35 }, { clock: 29 }, { clock: 31 }),
+      "600",
+    )!;
+
+    expect(result.time_trouble_threshold).toBe(30);
+    expect(result.time_trouble_moves).toEqual([
+      { ply: 3, color: "white", san: "m3" },
+    ]);
+    expect(result.players.white.moves_in_time_trouble).toBe(1);
+    expect(result.players.black.moves_in_time_trouble).toBe(0);
+  });
+
+  it("caps the threshold at a tenth of the base time", () => {
+    const result = report(tree({ clock: 20 }, { clock: 17 }), "180+2")!;
+
+    expect(result.time_trouble_threshold).toBe(18);
+    expect(result.time_trouble_moves.map((move) => move.ply)).toEqual([2]);
+  });
+
+  it("reads the threshold from TIME_TROUBLE_THRESHOLD_SECONDS", () => {
+    process.env.TIME_TROUBLE_THRESHOLD_SECONDS = "60";
+    expect(report(tree({ clock: 50 }), "600")!.time_trouble_moves).toHaveLength(
+      1,
+    );
+
+    // 0 turns time trouble off
+    process.env.TIME_TROUBLE_THRESHOLD_SECONDS = "0";
+    const off = report(tree({ clock: 0 }, { clock: 1 }), "600")!;
+    expect(off.time_trouble_threshold).toBe(0);
+    expect(off.time_trouble_moves).toEqual([]);
+
+    process.env.TIME_TROUBLE_THRESHOLD_SECONDS = "soon";
+    expect(report(tree({ clock: 50 }), "600")!.time_trouble_threshold).toBe(30);
+  });
+
+  it("compares the player's think time on mistakes with their other moves", () => {
+    const result = report(
+      tree(
+        { clock: 500, elapsed: 2 },
+        { clock: 500, elapsed: 5 },
+        { clock: 500, elapsed: 20 },
+        { clock: 500, elapsed: 5 },
+        { clock: 500, elapsed: 4 },
+        { clock: 500, elapsed: 5 },
+        { clock: 500, elapsed: 30 },
+      ),
+      "600",
+      [mistakeAt(3), mistakeAt(4), mistakeAt(7)],
+    )!;
+
+    // Black's mistake at ply 4 is not the analyzed player's
+    expect(result.mistake_correlation).toEqual({
+      mistakes_with_timing: 2,
+      average_time_on_mistakes: 25,
+      average_time_on_other_moves: 3,
+      correlation: 0.95,
+    });
+  });
+});
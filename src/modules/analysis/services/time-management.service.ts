@@ -0,0 +1,212 @@
+import {
+  AnalysisPosition,
+  KeyMoment,
+  MoveTiming,
+  PgnMoveTree,
+  PlayerColor,
+  SideTimeStats,
+  TimeManagementReport,
+} from "../types";
+import { detectPhaseBoundaries } from "./position.service";
+
+const DEFAULT_TIME_TROUBLE_THRESHOLD = 30; // Seconds
+
+/**
+ * Seconds left on the clock below which a move counts as played in time trouble
+ * Capped at 10% of the base time so it stays meaningful for bullet games
+ */
+function getTimeTroubleThreshold(baseSeconds?: number): number {
+  // 0 is a valid setting (time trouble off), so only bad values fall back
+  const parsed = parseFloat(process.env.TIME_TROUBLE_THRESHOLD_SECONDS || "");
+  const configured =
+    Number.isFinite(parsed) && parsed >= 0
+      ? parsed
+      : DEFAULT_TIME_TROUBLE_THRESHOLD;
+  return baseSeconds ? Math.min(configured, baseSeconds * 0.1) : configured;
+}
+
+/**
+ * Parse a PGN TimeControl tag ("300+3", "600") into base/increment seconds
+ * Multi-period controls ("40/7200:3600") use the first period
+ */
+export function parseTimeControl(
+  tag?: string,
+): { base: number; increment: number } | undefined {
+  if (!tag) return undefined;
+  const firstPeriod = tag.split(":")[0];
+  const match = firstPeriod.match(/^(?:\d+\/)?(\d+)(?:\+(\d+(?:\.\d+)?))?$/);
+  if (!match) return undefined;
+  return {
+    base: parseInt(match[1], 10),
+    increment: match[2] ? parseFloat(match[2]) : 0,
+  };
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return round(covariance / Math.sqrt(varianceX * varianceY), 3);
+}
+
+/**
+ * Build a deterministic time-usage report from [%clk] / [%emt] annotations
+ * Returns undefined when the game carries no clock data
+ */
+export function buildTimeManagementReport(
+  moveTree: PgnMoveTree,
+  positions: AnalysisPosition[],
+  keyMoments: KeyMoment[],
+  playerColor: PlayerColor,
+  timeControlTag?: string,
+): TimeManagementReport | undefined {
+  const mainline = moveTree.mainline;
+  if (!mainline.some((node) => node.clock !== undefined)) {
+    return undefined;
+  }
+
+  const timeControl = parseTimeControl(timeControlTag);
+  const threshold = round(getTimeTroubleThreshold(timeControl?.base));
+  const increment = timeControl?.increment || 0;
+
+  // Each side's clock before its first move is the base time, when known
+  const lastClock: Record<PlayerColor, number | undefined> = {
+    white: timeControl?.base,
+    black: timeControl?.base,
+  };
+
+  const moves: MoveTiming[] = [];
+  for (const node of mainline) {
+    if (node.clock === undefined) continue;
+    const previous = lastClock[node.color];
+    let timeSpent: number | null = null;
+    if (node.elapsed !== undefined) {
+      timeSpent = node.elapsed;
+    } else if (previous !== undefined) {
+      // The increment is only credited from the side's second move onwards
+      const credited = moves.some((m) => m.color === node.color)
+        ? increment
+        : 0;
+      timeSpent = Math.max(0, round(previous - node.clock + credited));
+    }
+    lastClock[node.color] = node.clock;
+    moves.push({
+      ply: node.ply,
+      move_number: node.move_number,
+      color: node.color,
+      san: node.san,
+      clock: node.clock,
+      time_spent: timeSpent,
+    });
+  }
+
+  const sideStats = (color: PlayerColor): SideTimeStats => {
+    const own = moves.filter((m) => m.color === color);
+    const timed = own.filter((m) => m.time_spent !== null);
+    const longest = timed.reduce<MoveTiming | undefined>(
+      (best, m) =>
+        !best || (m.time_spent as number) > (best.time_spent as number)
+          ? m
+          : best,
+      undefined,
+    );
+    return {
+      moves_with_clock: own.length,
+      average_time_per_move: average(timed.map((m) => m.time_spent as number)),
+      longest_think: longest
+        ? {
+            ply: longest.ply,
+            san: longest.san,
+            time_spent: longest.time_spent as number,
+          }
+        : undefined,
+      moves_in_time_trouble: own.filter((m) => m.clock < threshold).length,
+      final_clock: own.length > 0 ? own[own.length - 1].clock : undefined,
+    };
+  };
+
+  // Clock readings at the start of each phase (latest reading at or before the boundary)
+  const boundaries = detectPhaseBoundaries(positions);
+  const clockAt = (color: PlayerColor, ply: number): number | undefined => {
+    const readings = moves.filter((m) => m.color === color && m.ply <= ply);
+    return readings.length > 0
+      ? readings[readings.length - 1].clock
+      : timeControl?.base;
+  };
+  const phaseBoundaries: TimeManagementReport["phase_boundaries"] = [];
+  for (const phase of ["middlegame", "endgame"] as const) {
+    const ply =
+      phase === "middlegame"
+        ? boundaries.middlegame_ply
+        : boundaries.endgame_ply;
+    if (ply === null || !positions[ply]) continue;
+    phaseBoundaries.push({
+      phase,
+      ply,
+      move_number: positions[ply].move_number,
+      white_clock: clockAt("white", ply),
+      black_clock: clockAt("black", ply),
+    });
+  }
+
+  // Compare think time on flagged mistakes against the player's other moves
+  const mistakePlies = new Set(
+    (keyMoments || [])
+      .filter((m) => m.is_mistake && m.ply !== undefined)
+      .map((m) => m.ply as number),
+  );
+  const playerTimed = moves.filter(
+    (m) => m.color === playerColor && m.time_spent !== null,
+  );
+  const onMistakes = playerTimed.filter((m) => mistakePlies.has(m.ply));
+  const onOthers = playerTimed.filter((m) => !mistakePlies.has(m.ply));
+
+  return {
+    time_control: timeControl,
+    time_trouble_threshold: threshold,
+    moves,
+    phase_boundaries: phaseBoundaries,
+    players: { white: sideStats("white"), black: sideStats("black") },
+    time_trouble_moves: moves
+      .filter((m) => m.clock < threshold)
+      .map((m) => ({ ply: m.ply, color: m.color, san: m.san })),
+    mistake_correlation: {
+      mistakes_with_timing: onMistakes.length,
+      average_time_on_mistakes: average(
+        onMistakes.map((m) => m.time_spent as number),
+      ),
+      average_time_on_other_moves: average(
+        onOthers.map((m) => m.time_spent as number),
+      ),
+      correlation: pearson(
+        playerTimed.map((m) => m.time_spent as number),
+        playerTimed.map((m) => (mistakePlies.has(m.ply) ? 1 : 0)),
+      ),
+    },
+  };
+}
+
+export const timeManagementService = {
+  parseTimeControl,
+  buildTimeManagementReport,
+};
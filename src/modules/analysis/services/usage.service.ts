@@ -0,0 +1,239 @@
+import { PipelineStage } from "mongoose";
+import { Analysis } from "../models/analysis.model";
+import { User } from "../../auth/models/user.model";
+import { TokenUsage, UsageReport, UsageTotals } from "../types";
+import { logger } from "../../../shared/utils/logger";
+
+export interface ModelPricing {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// List prices of the models we use or recommend; override or extend them
+// with ANALYSIS_MODEL_PRICING
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  fake: { input: 0, output: 0 },
+};
+
+/**
+ * Price table: the defaults plus ANALYSIS_MODEL_PRICING, a JSON object such
+ * as {"my-model": {"input": 0.5, "output": 1.5}} (USD per million tokens)
+ */
+export function getModelPricing(): Record<string, ModelPricing> {
+  const configured = process.env.ANALYSIS_MODEL_PRICING;
+  if (!configured) return DEFAULT_MODEL_PRICING;
+
+  try {
+    const overrides = JSON.parse(configured) as Record<string, ModelPricing>;
+    const valid = Object.entries(overrides).filter(
+      ([, price]) =>
+        typeof price?.input === "number" && typeof price?.output === "number",
+    );
+    return { ...DEFAULT_MODEL_PRICING, ...Object.fromEntries(valid) };
+  } catch {
+    logger.warn("ANALYSIS_MODEL_PRICING is not valid JSON; using defaults");
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no known price
+ * Versioned model names ("gemini-2.0-flash-001") use the price of the
+ * longest listed prefix.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  const pricing = getModelPricing();
+  const name = Object.keys(pricing)
+    .filter((key) => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) return null;
+
+  const price = pricing[name];
+  const cost =
+    (usage.prompt_tokens * price.input +
+      usage.completion_tokens * price.output) /
+    1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+// Sums of a $group stage; see toTotals
+const USAGE_SUMS = {
+  analyses: { $sum: 1 },
+  prompt_tokens: { $sum: "$usage.prompt_tokens" },
+  completion_tokens: { $sum: "$usage.completion_tokens" },
+  total_tokens: { $sum: "$usage.total_tokens" },
+  model_calls: { $sum: "$usage.model_calls" },
+  average_latency_ms: { $avg: "$usage.latency_ms" },
+  estimated_cost_usd: { $sum: "$usage.estimated_cost_usd" },
+  unpriced_analyses: {
+    $sum: {
+      $cond: [
+        { $eq: [{ $ifNull: ["$usage.estimated_cost_usd", null] }, null] },
+        1,
+        0,
+      ],
+    },
+  },
+};
+
+type UsageRow = Omit<UsageTotals, "average_latency_ms"> & {
+  _id: unknown;
+  average_latency_ms: number | null;
+};
+
+function toTotals(row?: UsageRow): UsageTotals {
+  return {
+    analyses: row?.analyses || 0,
+    prompt_tokens: row?.prompt_tokens || 0,
+    completion_tokens: row?.completion_tokens || 0,
+    total_tokens: row?.total_tokens || 0,
+    model_calls: row?.model_calls || 0,
+    average_latency_ms:
+      row?.average_latency_ms == null
+        ? null
+        : Math.round(row.average_latency_ms),
+    estimated_cost_usd: Math.round((row?.estimated_cost_usd || 0) * 1e6) / 1e6,
+    unpriced_analyses: row?.unpriced_analyses || 0,
+  };
+}
+
+function usageMatch(filters: {
+  since?: Date;
+  until?: Date;
+  userId?: string;
+}): Record<string, unknown> {
+  const match: Record<string, unknown> = { usage: { $exists: true } };
+  if (filters.userId) match.user_id = filters.userId;
+  if (filters.since || filters.until) {
+    match.created_at = {
+      ...(filters.since && { $gte: filters.since }),
+      ...(filters.until && { $lt: filters.until }),
+    };
+  }
+  return match;
+}
+
+/**
+ * Model usage and estimated cost per UTC day, per user and per model
+ * Only analyses that called the model are counted (cache hits are free).
+ * Users are ordered by cost, most expensive first.
+ */
+export async function getUsageReport(filters: {
+  since?: Date;
+  until?: Date;
+  userId?: string;
+  userLimit?: number;
+}): Promise<UsageReport> {
+  const pipeline: PipelineStage[] = [
+    { $match: usageMatch(filters) },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, ...USAGE_SUMS } }],
+        days: [
+          {
+            $group: {
+              _id: {
+                $dateToString: { format: "%Y-%m-%d", date: "$created_at" },
+              },
+              ...USAGE_SUMS,
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+        users: [
+          { $group: { _id: "$user_id", ...USAGE_SUMS } },
+          { $sort: { estimated_cost_usd: -1, total_tokens: -1 } },
+          { $limit: filters.userLimit || 50 },
+        ],
+        models: [
+          {
+            $group: {
+              _id: {
+                provider: "$usage.provider",
+                model_name: "$usage.model_name",
+              },
+              ...USAGE_SUMS,
+            },
+          },
+          { $sort: { estimated_cost_usd: -1, total_tokens: -1 } },
+        ],
+      },
+    },
+  ];
+  const [facets] = await Analysis.aggregate<{
+    totals: UsageRow[];
+    days: UsageRow[];
+    users: UsageRow[];
+    models: UsageRow[];
+  }>(pipeline);
+
+  // Guests share the "guest" id, everyone else is looked up for their email
+  const userIds = facets.users
+    .map((row) => String(row._id))
+    .filter((id) => /^[0-9a-f]{24}$/i.test(id));
+  const users = await User.find({ _id: { $in: userIds } }).select("email");
+  const emails = new Map(users.map((user) => [user.id, user.email]));
+
+  return {
+    totals: toTotals(facets.totals[0]),
+    by_day: facets.days.map((row) => ({
+      date: row._id as string,
+      ...toTotals(row),
+    })),
+    by_user: facets.users.map((row) => ({
+      user_id: String(row._id),
+      email: emails.get(String(row._id)),
+      ...toTotals(row),
+    })),
+    by_model: facets.models.map((row) => {
+      const id = row._id as { provider?: string; model_name?: string };
+      return {
+        provider: id.provider || "unknown",
+        model_name: id.model_name || "unknown",
+        ...toTotals(row),
+      };
+    }),
+  };
+}
+
+/**
+ * A user's model usage in the current UTC calendar month
+ */
+export async function getMonthlyUsage(
+  userId: string,
+  now: Date = new Date(),
+): Promise<UsageTotals & { month: string }> {
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const until = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+  );
+
+  const [row] = await Analysis.aggregate<UsageRow>([
+    { $match: usageMatch({ since, until, userId }) },
+    { $group: { _id: null, ...USAGE_SUMS } },
+  ]);
+
+  return {
+    month: since.toISOString().slice(0, 7),
+    ...toTotals(row),
+  };
+}
+
+export const usageService = {
+  getModelPricing,
+  estimateCost,
+  getUsageReport,
+  getMonthlyUsage,
+};
@@ -0,0 +1,164 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { OAuth2Client } from "google-auth-library";
+import { getQueueBackend } from "./queue.service";
+import { AppError } from "../../../shared/middleware/errorHandler";
+
+export type WorkerAuthMode = "oidc" | "hmac";
+
+export interface WorkerAuthConfig {
+  mode: WorkerAuthMode;
+  audience?: string; // OIDC: expected aud claim
+  serviceAccount?: string; // OIDC: expected email claim
+  secret?: string; // HMAC: shared secret
+}
+
+// Requests signed longer ago (or further in the future) are replays
+const MAX_SIGNATURE_AGE_SECONDS = 300;
+
+let oidcClient: OAuth2Client;
+
+function getOidcClient(): OAuth2Client {
+  if (!oidcClient) {
+    oidcClient = new OAuth2Client();
+  }
+  return oidcClient;
+}
+
+/**
+ * Raised when the worker endpoint is called without valid credentials
+ */
+export class WorkerAuthError extends Error implements AppError {
+  statusCode = 401;
+  isOperational = true;
+  code = "WORKER_UNAUTHORIZED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkerAuthError";
+  }
+}
+
+/**
+ * WORKER_AUTH_MODE (oidc or hmac; oidc with the Cloud Tasks queue backend,
+ * hmac otherwise), WORKER_OIDC_AUDIENCE (default: the worker URL under
+ * GCP_CLOUD_RUN_URL), WORKER_OIDC_SERVICE_ACCOUNT and WORKER_HMAC_SECRET
+ * hmac is refused with Cloud Tasks: its tasks carry no signature (one made
+ * when the task is created would expire before a delayed delivery), so every
+ * delivery would be rejected.
+ */
+export function getWorkerAuthConfig(): WorkerAuthConfig {
+  const configured = process.env.WORKER_AUTH_MODE;
+  if (configured && configured !== "oidc" && configured !== "hmac") {
+    throw new Error(
+      `Unknown WORKER_AUTH_MODE "${configured}". Expected oidc or hmac.`,
+    );
+  }
+  const cloudTasks = getQueueBackend() === "cloud-tasks";
+  if (configured === "hmac" && cloudTasks) {
+    throw new Error(
+      "WORKER_AUTH_MODE=hmac cannot be used with the cloud-tasks queue backend, which does not sign its requests. Use oidc.",
+    );
+  }
+  const mode: WorkerAuthMode =
+    (configured as WorkerAuthMode | undefined) ||
+    (cloudTasks ? "oidc" : "hmac");
+
+  const cloudRunUrl = process.env.GCP_CLOUD_RUN_URL;
+  return {
+    mode,
+    audience:
+      process.env.WORKER_OIDC_AUDIENCE ||
+      (cloudRunUrl ? `${cloudRunUrl}/worker/process` : undefined),
+    serviceAccount: process.env.WORKER_OIDC_SERVICE_ACCOUNT || undefined,
+    secret: process.env.WORKER_HMAC_SECRET || undefined,
+  };
+}
+
+/**
+ * Check a Google-signed OIDC token, as attached by Cloud Tasks: signature,
+ * expiry, issuer, audience and the service account it was issued to
+ */
+export async function verifyOidcToken(
+  token: string,
+  config: WorkerAuthConfig,
+): Promise<void> {
+  let ticket;
+  try {
+    ticket = await getOidcClient().verifyIdToken({
+      idToken: token,
+      audience: config.audience,
+    });
+  } catch (error) {
+    throw new WorkerAuthError(
+      `Invalid OIDC token: ${error instanceof Error ? error.message : "verification failed"}`,
+    );
+  }
+
+  const payload = ticket.getPayload();
+  if (!payload?.email || payload.email_verified !== true) {
+    throw new WorkerAuthError("OIDC token has no verified email");
+  }
+  if (payload.email.toLowerCase() !== config.serviceAccount?.toLowerCase()) {
+    throw new WorkerAuthError(
+      `OIDC token was issued to ${payload.email}, not the worker service account`,
+    );
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a worker request: hex digest of
+ * "<timestamp>.<raw body>" with the shared secret
+ */
+export function signWorkerRequest(
+  body: string | Buffer,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): { timestamp: string; signature: string } {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+  return { timestamp: String(timestamp), signature: `sha256=${signature}` };
+}
+
+/**
+ * Check the X-Worker-Timestamp and X-Worker-Signature headers of a request
+ * against its raw body
+ */
+export function verifyHmacSignature(
+  rawBody: Buffer,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+): void {
+  if (!timestamp || !signature) {
+    throw new WorkerAuthError("Missing request signature");
+  }
+
+  const signedAt = Number(timestamp);
+  if (
+    !Number.isInteger(signedAt) ||
+    Math.abs(now - signedAt) > MAX_SIGNATURE_AGE_SECONDS
+  ) {
+    throw new WorkerAuthError("Request signature has expired");
+  }
+
+  const expected = Buffer.from(
+    signWorkerRequest(rawBody, secret, signedAt).signature,
+  );
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new WorkerAuthError("Invalid request signature");
+  }
+}
+
+export const workerAuthService = {
+  getWorkerAuthConfig,
+  verifyOidcToken,
+  signWorkerRequest,
+  verifyHmacSignature,
+};
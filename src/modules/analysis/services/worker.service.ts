@@ -1,51 +1,325 @@
-import { Analysis } from "../models/analysis.model";
-import { AnalysisResult, AnalysisStatus, PlayerColor } from "../types";
-import { geminiService } from "./gemini.service";
+import { UpdateQuery } from "mongoose";
+import { Analysis, IAnalysisDocument } from "../models/analysis.model";
+import { Puzzle } from "../models/puzzle.model";
+import {
+  AnalysisResult,
+  AnalysisStatus,
+  EngineReport,
+  PlayerColor,
+} from "../types";
+import { AnalysisOutputError, geminiService } from "./gemini.service";
+import { promptTemplateService } from "./prompt-template.service";
+import { analysisDepthService } from "./analysis-depth.service";
+import { analysisProviderService } from "./analysis-provider.service";
+import {
+  analysisCacheService,
+  AnalysisCacheKey,
+  CachedAnalysis,
+} from "./analysis-cache.service";
+import { gameHashService } from "./game-hash.service";
 import { puzzleService } from "./puzzle.service";
+import { pgnParserService } from "./pgn-parser.service";
+import { positionService } from "./position.service";
+import { pgnMovetextService } from "./pgn-movetext.service";
+import { timeManagementService } from "./time-management.service";
+import { engineService } from "./engine.service";
+import { accuracyService } from "./accuracy.service";
+import { localizationService } from "./localization.service";
+import { RetryableError, retryPolicyService } from "./retry-policy.service";
+import { deadLetterService } from "./dead-letter.service";
+import { ConcurrencyLimitError, schedulerService } from "./scheduler.service";
 import { logger } from "../../../shared/utils/logger";
 
+// How often a running analysis records that its worker is still alive; must
+// be well below ANALYSIS_STUCK_TIMEOUT_MS
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * A run that did not finish within ANALYSIS_RUN_TIMEOUT_MS
+ * Its model and engine calls are aborted and the analysis is retried like
+ * after a provider outage.
+ */
+export class AnalysisTimeoutError extends RetryableError {
+  code = "ANALYSIS_TIMEOUT";
+
+  constructor(timeoutMs: number) {
+    super(`Analysis did not finish within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "AnalysisTimeoutError";
+  }
+}
+
+/**
+ * Whether this run should stop: the user cancelled or deleted the analysis,
+ * or the reaper took it for stuck and another run has started since
+ */
+async function isAbandoned(
+  analysisId: string,
+  attempt: number,
+): Promise<boolean> {
+  const current = await Analysis.findOne({ analysis_id: analysisId })
+    .select("status attempts")
+    .lean();
+  return (
+    !current ||
+    current.status === AnalysisStatus.CANCELLED ||
+    current.attempts !== attempt
+  );
+}
+
+/**
+ * Write the outcome of a run, unless the run was abandoned in the meantime
+ * The write only applies while the analysis is still PROCESSING with this
+ * run's attempt, so a cancellation or reset that lands after the last check
+ * is never overwritten. Returns false when nothing was written.
+ */
+async function recordOutcome(
+  analysisId: string,
+  attempt: number,
+  update: UpdateQuery<IAnalysisDocument>,
+): Promise<boolean> {
+  const { matchedCount } = await Analysis.updateOne(
+    {
+      analysis_id: analysisId,
+      status: AnalysisStatus.PROCESSING,
+      attempts: attempt,
+    },
+    update,
+  );
+  return matchedCount > 0;
+}
+
 /**
  * Process a single analysis job
+ * Cancelled analyses are skipped; a run cancelled midway is abandoned before
+ * the model call and before its results are saved. While it runs, the
+ * analysis' last_heartbeat is refreshed so the reaper can tell it is alive;
+ * a run still going after ANALYSIS_RUN_TIMEOUT_MS is stopped and retried.
+ * Throws a RetryableError, with the delay before the next attempt, when the
+ * job should be run again (a ConcurrencyLimitError when it was not started
+ * because of a concurrency limit); every other failure is recorded on the
+ * analysis.
  */
 export async function processAnalysis(analysisId: string): Promise<void> {
   logger.info(`Processing analysis: ${analysisId}`);
 
-  const analysis = await Analysis.findOne({ analysis_id: analysisId });
+  // Claim the job atomically, so a task delivered twice (or re-queued by a
+  // re-analysis while the old task is retried) is processed only once
+  const analysis = await Analysis.findOneAndUpdate(
+    { analysis_id: analysisId, status: AnalysisStatus.PENDING },
+    {
+      $set: { status: AnalysisStatus.PROCESSING, last_heartbeat: new Date() },
+      $unset: { error: 1, retry_at: 1, parked_at: 1 },
+      $inc: { attempts: 1 },
+    },
+    { new: true },
+  );
 
   if (!analysis) {
-    logger.error(`Analysis not found: ${analysisId}`);
+    const existing = await Analysis.findOne({ analysis_id: analysisId })
+      .select("status")
+      .lean();
+    if (existing) {
+      logger.info(
+        `Analysis ${analysisId} is ${existing.status}, not PENDING; skipping`,
+      );
+    } else {
+      logger.error(`Analysis not found: ${analysisId}`);
+    }
     return;
   }
 
-  if (analysis.status !== AnalysisStatus.PENDING) {
-    logger.info(`Analysis ${analysisId} already processed, skipping`);
-    return;
-  }
+  const attempt = analysis.attempts || 0;
 
-  try {
-    // Update status to PROCESSING
-    analysis.status = AnalysisStatus.PROCESSING;
-    await analysis.save();
+  // Hand the job back when too many analyses (of this user) are running
+  const exceeded = await schedulerService.acquireSlot(analysis, attempt);
+  if (exceeded) {
+    await Analysis.updateOne(
+      {
+        analysis_id: analysisId,
+        status: AnalysisStatus.PROCESSING,
+        attempts: attempt,
+      },
+      {
+        $set: { status: AnalysisStatus.PENDING },
+        $unset: { last_heartbeat: 1 },
+        $inc: { attempts: -1 },
+      },
+    );
+    logger.info(`Analysis ${analysisId} deferred: ${exceeded}`);
+    throw new ConcurrencyLimitError(
+      `Concurrency limit reached: ${exceeded}`,
+      schedulerService.getDeferDelay(),
+    );
+  }
 
-    // Run Gemini analysis with player context
-    const geminiResponse = await geminiService.analyzeGame(
-      analysis.pgn,
+  const heartbeat = setInterval(() => {
+    Analysis.updateOne(
       {
-        white: analysis.metadata.white,
-        black: analysis.metadata.black,
-        result: analysis.metadata.result,
-        event: analysis.metadata.event || "",
-        date: analysis.metadata.date || "",
+        analysis_id: analysisId,
+        status: AnalysisStatus.PROCESSING,
+        attempts: attempt,
       },
-      analysis.player_name,
-      analysis.player_color as PlayerColor,
+      { $set: { last_heartbeat: new Date() } },
+    ).catch((err) => {
+      logger.error(`Failed to record heartbeat for ${analysisId}:`, err);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // A hung provider or engine call would otherwise keep the heartbeat going
+  // and the analysis PROCESSING forever
+  const { runTimeoutMs } = retryPolicyService.getRetryPolicy();
+  const deadline = new AbortController();
+  const deadlineTimer = setTimeout(() => {
+    deadline.abort(new AnalysisTimeoutError(runTimeoutMs));
+  }, runTimeoutMs);
+
+  try {
+    // Replay the game to get ground-truth positions for every ply
+    const validation = pgnParserService.validatePgn(analysis.pgn);
+    if (!validation.valid) {
+      throw new Error(
+        validation.error
+          ? pgnParserService.describePgnError(validation.error)
+          : "Invalid PGN format",
+      );
+    }
+    let positions = positionService.buildPositions(
+      validation.plies,
+      validation.startFen,
+    );
+
+    const analysisDepth = analysis.analysis_depth || "standard";
+    const language = analysis.language || "en";
+
+    // Objective evaluations from the local engine, when one is configured
+    let engineReport: EngineReport | undefined;
+    if (engineService.isEngineEnabled()) {
+      try {
+        const engineAnalysis = await engineService.analyzePositions(
+          positions,
+          validation.chess960,
+          analysisDepth,
+          deadline.signal,
+        );
+        positions = engineAnalysis.positions;
+        engineReport = engineAnalysis.report;
+      } catch (error) {
+        logger.error(
+          `Engine analysis failed for ${analysisId}; continuing without it:`,
+          error,
+        );
+      }
+    }
+
+    // The engine step swallows its errors, including the deadline's
+    deadline.signal.throwIfAborted();
+
+    const moveTree = validation.tree!;
+
+    // The prompt gets a clean mainline; human comments are passed separately
+    const mainline = pgnMovetextService.formatMainline(
+      moveTree,
+      analysis.metadata.result,
     );
+    const annotations = pgnMovetextService.collectAnnotations(moveTree);
 
-    // Extract puzzles from Gemini result (they come as full objects)
+    // A share of analyses may be assigned to a candidate prompt (A/B test)
+    const promptVersion = promptTemplateService.assignPromptVersion(
+      analysisId,
+      { language, analysisDepth },
+    );
+    analysis.prompt_version = promptVersion;
+
+    // Identical games analyzed for the same side reuse the model output
+    const provider = analysisProviderService.getAnalysisProvider(
+      analysisDepthService.getDepthProfile(analysisDepth).model,
+    );
+    const cacheKey: AnalysisCacheKey | undefined =
+      analysisCacheService.isAnalysisCacheEnabled()
+        ? {
+            gameHash:
+              analysis.game_hash ||
+              gameHashService.computeGameHash(
+                analysis.pgn,
+                validation.plies.map((ply) => ply.san),
+              ),
+            playerColor: analysis.player_color as PlayerColor,
+            analysisDepth,
+            language,
+            provider: provider.name,
+            model: provider.model,
+            promptVersion,
+          }
+        : undefined;
+
+    // The model call is the expensive part; do not make it for nothing
+    if (await isAbandoned(analysisId, attempt)) {
+      logger.info(
+        `Analysis ${analysisId} was cancelled or taken over, stopping`,
+      );
+      return;
+    }
+
+    let cached: CachedAnalysis | null = null;
+    if (cacheKey) {
+      try {
+        cached = await analysisCacheService.getCachedAnalysis(cacheKey);
+      } catch (error) {
+        logger.error(`Analysis cache lookup failed for ${analysisId}:`, error);
+      }
+    }
+
+    let geminiResponse: CachedAnalysis;
+    if (cached) {
+      // Puzzles are saved below as new documents owned by this analysis' user
+      logger.info(`Reusing cached model output for ${analysisId}`);
+      geminiResponse = cached;
+    } else {
+      // Run the configured LLM provider with player context
+      const generated = await geminiService.analyzeGame(
+        mainline,
+        {
+          white: analysis.metadata.white,
+          black: analysis.metadata.black,
+          result: analysis.metadata.result,
+          event: analysis.metadata.event || "",
+          date: analysis.metadata.date || "",
+          variant: analysis.metadata.variant,
+          start_fen: analysis.metadata.start_fen,
+        },
+        analysis.player_name,
+        analysis.player_color as PlayerColor,
+        {
+          annotations,
+          engine: engineReport,
+          positions: engineReport ? positions : undefined,
+          promptVersion,
+          analysisDepth,
+          language,
+          signal: deadline.signal,
+        },
+      );
+      geminiResponse = { result: generated.result, puzzles: generated.puzzles };
+      analysis.usage = generated.usage;
+
+      if (cacheKey) {
+        try {
+          await analysisCacheService.storeAnalysis(cacheKey, geminiResponse);
+        } catch (error) {
+          logger.error(`Failed to cache analysis ${analysisId}:`, error);
+        }
+      }
+    }
+
+    // Extract puzzles from the model result (they come as full objects)
     const puzzleObjects = geminiResponse.puzzles || [];
     const resultWithoutPuzzles = geminiResponse.result;
+    analysis.output_length = JSON.stringify({
+      ...resultWithoutPuzzles,
+      puzzles: puzzleObjects,
+    }).length;
 
-    // Log puzzles received from Gemini
+    // Log puzzles received from the model
     logger.info(
       `Analysis result received. Puzzles count: ${puzzleObjects.length}`,
     );
@@ -70,6 +344,7 @@ export async function processAnalysis(analysisId: string): Promise<void> {
           puzzleObjects,
           userId,
           analysisId,
+          language,
         );
         puzzleIds = savedPuzzles.map((p) => p.puzzle_id);
         logger.info(
@@ -92,17 +367,100 @@ export async function processAnalysis(analysisId: string): Promise<void> {
       );
     }
 
+    // Replace LLM-supplied positions with the ones from the actual game
+    let keyMoments = positionService.reconcileKeyMoments(
+      resultWithoutPuzzles.key_moments,
+      positions,
+      analysis.player_color as PlayerColor,
+    );
+    if (keyMoments.length !== (resultWithoutPuzzles.key_moments || []).length) {
+      logger.warn(
+        `Dropped ${(resultWithoutPuzzles.key_moments || []).length - keyMoments.length} key moments that did not match the game for ${analysisId}`,
+      );
+    }
+
+    // Engine findings replace the model's own evaluations
+    if (engineReport) {
+      keyMoments = keyMoments.map((moment) => {
+        const after = positions[moment.ply!];
+        return {
+          ...moment,
+          evaluation: engineService.formatEvaluation(after),
+          is_mistake:
+            after.classification === "mistake" ||
+            after.classification === "blunder",
+        };
+      });
+    }
+
+    // Deterministic clock report (only when the PGN has [%clk] data)
+    const timeManagement = timeManagementService.buildTimeManagementReport(
+      moveTree,
+      positions,
+      keyMoments,
+      analysis.player_color as PlayerColor,
+      analysis.metadata.time_control,
+    );
+
+    // English phase names with labels in the analysis language
+    let phases = localizationService.localizePhases(
+      resultWithoutPuzzles.phases,
+      language,
+    );
+
+    // Accuracy per side and per phase (only with engine evaluations)
+    const accuracy = engineReport
+      ? accuracyService.computeAccuracy(positions)
+      : undefined;
+    if (accuracy) {
+      phases = accuracyService.addPhaseAccuracy(phases, positions);
+    }
+
     // Update result with puzzle references (IDs) instead of full objects
     const resultWithReferences: AnalysisResult = {
       ...resultWithoutPuzzles,
+      phases,
+      key_moments: keyMoments,
       puzzles: puzzleIds, // Store only puzzle IDs as references
+      time_management: timeManagement,
+      accuracy,
     };
 
-    // Update with results
-    analysis.result = resultWithReferences;
-    analysis.status = AnalysisStatus.COMPLETED;
-    analysis.completed_at = new Date();
-    await analysis.save();
+    const completed = await recordOutcome(analysisId, attempt, {
+      $set: {
+        status: AnalysisStatus.COMPLETED,
+        completed_at: new Date(),
+        move_tree: moveTree,
+        positions,
+        engine: engineReport,
+        cached: cached !== null,
+        player_accuracy:
+          accuracy?.[analysis.player_color as PlayerColor].accuracy,
+        result: resultWithReferences,
+        prompt_version: analysis.prompt_version,
+        usage: analysis.usage,
+        output_length: analysis.output_length,
+      },
+    });
+
+    if (!completed) {
+      logger.info(
+        `Analysis ${analysisId} was cancelled or taken over, discarding results and ${puzzleIds.length} puzzles`,
+      );
+      await Puzzle.deleteMany({ puzzle_id: { $in: puzzleIds } });
+      // The model call was made, so the cancelled run still uses up quota
+      if (analysis.usage) {
+        await Analysis.updateOne(
+          {
+            analysis_id: analysisId,
+            status: AnalysisStatus.CANCELLED,
+            attempts: attempt,
+          },
+          { $set: { usage: analysis.usage } },
+        );
+      }
+      return;
+    }
 
     logger.info(
       `Analysis saved with ${puzzleIds.length} puzzle references: ${puzzleIds.join(", ")}`,
@@ -112,9 +470,59 @@ export async function processAnalysis(analysisId: string): Promise<void> {
   } catch (error) {
     logger.error(`Analysis failed: ${analysisId}`, error);
 
-    analysis.status = AnalysisStatus.FAILED;
-    analysis.error = error instanceof Error ? error.message : "Unknown error";
-    await analysis.save();
+    // Calls aborted by the deadline fail with their own abort error
+    const failure = retryPolicyService.classifyError(
+      deadline.signal.aborted ? deadline.signal.reason : error,
+    );
+    const { maxAttempts } = retryPolicyService.getRetryPolicy();
+
+    // Transient failures go back to the queue, which runs the job again
+    // after the delay carried by the rethrown error
+    if (failure instanceof RetryableError && attempt < maxAttempts) {
+      const delayMs = retryPolicyService.getRetryDelay(attempt, failure);
+      const requeued = await recordOutcome(analysisId, attempt, {
+        $set: {
+          status: AnalysisStatus.PENDING,
+          error: failure.message,
+          retry_at: new Date(Date.now() + delayMs),
+        },
+      });
+      // Cancelled or taken over: there is nothing left to retry
+      if (!requeued) return;
+      logger.warn(
+        `Analysis ${analysisId} failed with a retryable error (attempt ${attempt}/${maxAttempts}), retrying in ${Math.round(delayMs / 1000)}s`,
+      );
+      throw new RetryableError(failure.message, delayMs);
+    }
+
+    const failed = await recordOutcome(analysisId, attempt, {
+      $set: {
+        status: AnalysisStatus.FAILED,
+        error: failure.message,
+        // Invalid output still cost the tokens of every attempt
+        ...(error instanceof AnalysisOutputError && error.usage
+          ? { usage: error.usage }
+          : {}),
+      },
+    });
+    if (!failed) return;
+
+    if (failure instanceof RetryableError) {
+      await deadLetterService.recordDeadLetter({
+        analysisId,
+        userId: String(analysis.user_id),
+        source: "worker",
+        error: failure.message,
+        attempts: attempt,
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(deadlineTimer);
+    // A slot that is not given back is freed by the reaper with the run
+    await schedulerService.releaseSlot(analysis, attempt).catch((err) => {
+      logger.error(`Failed to release the slot of ${analysisId}:`, err);
+    });
   }
 }
 
@@ -3,8 +3,11 @@ export enum AnalysisStatus {
   PROCESSING = "PROCESSING",
   COMPLETED = "COMPLETED",
   FAILED = "FAILED",
+  CANCELLED = "CANCELLED", // Withdrawn by the user before it finished
 }
 
+export type ChessVariant = "standard" | "chess960";
+
 export interface AnalysisMetadata {
   white: string;
   black: string;
@@ -13,6 +16,47 @@ export interface AnalysisMetadata {
   date?: string;
   eco?: string;
   opening?: string;
+  variation?: string; // e.g. "Najdorf Variation", from the opening classifier
+  time_control?: string; // Raw TimeControl tag, e.g. "300+3"
+  variant?: string; // ChessVariant, or the raw Variant tag when unsupported
+  start_fen?: string; // From the FEN tag when the game starts from a set-up position
+}
+
+/**
+ * Everything the LLM prompt is built from for one game
+ */
+// How thorough the review is: quick (e.g. blitz), standard, deep (e.g. tournament)
+export type AnalysisDepth = "quick" | "standard" | "deep";
+
+// Language of the analysis text; enum-like fields stay English keys
+export type AnalysisLanguage = "en" | "es" | "de" | "hi";
+
+export interface AnalysisContext {
+  pgn: string; // Mainline movetext without comments
+  white: string;
+  black: string;
+  result: string;
+  event?: string;
+  date?: string;
+  variant?: string;
+  start_fen?: string;
+  playerName: string;
+  playerColor: PlayerColor;
+  annotations?: string[];
+  engine?: EngineReport;
+  positions?: AnalysisPosition[]; // With engine evaluations when engine is set
+  analysisDepth?: AnalysisDepth;
+  language?: AnalysisLanguage;
+}
+
+/**
+ * Versioned analysis prompt with {{variable}} placeholders
+ * Released templates are never edited; changes go into a new version so that
+ * analyses and cached results stay attributable to the prompt that made them.
+ */
+export interface PromptTemplate {
+  version: string;
+  template: string;
 }
 
 export interface ChessPuzzle {
@@ -25,55 +69,359 @@ export interface ChessPuzzle {
   theme: string; // e.g., "Tactics", "Endgame", "Positional"
 }
 
+export interface KeyMoment {
+  ply?: number; // Set once the moment has been matched against the replayed game
+  move_number: number;
+  move: string;
+  fen: string; // Position before the move, i.e. the one the player had to solve
+  side_to_move?: PlayerColor;
+  evaluation: string;
+  comment: string;
+  is_mistake: boolean;
+}
+
+/**
+ * Board position after a given ply (ply 0 is the starting position)
+ */
+export interface AnalysisPosition {
+  ply: number;
+  move_number: number;
+  side_to_move: PlayerColor;
+  fen: string;
+  san?: string; // Move that led to this position
+  uci?: string;
+  // Engine evaluation of this position, from White's point of view
+  eval_cp?: number;
+  eval_mate?: number; // Moves to mate; positive when White mates
+  best_move?: string; // Engine's best move from this position (UCI)
+  best_move_san?: string;
+  // Quality of the move that led to this position
+  cp_loss?: number; // Centipawns lost by the side that moved
+  classification?: MoveClassification;
+}
+
+export type MoveClassification =
+  | "best" // The engine's top choice
+  | "good"
+  | "inaccuracy"
+  | "mistake"
+  | "blunder";
+
+export interface EngineSideSummary {
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+  average_cp_loss: number;
+}
+
+/**
+ * How the engine pass was run, with per-side totals
+ * Per-ply evaluations are stored on the analysis positions
+ */
+export interface EngineReport {
+  engine: string; // Name reported by the UCI engine
+  depth?: number;
+  movetime_ms?: number;
+  summary: Record<PlayerColor, EngineSideSummary>;
+}
+
+/**
+ * A move in a parsed PGN move tree
+ * Variations hold alternatives to this move, starting at the same ply
+ */
+export interface PgnMoveNode {
+  san: string;
+  ply: number;
+  move_number: number;
+  color: PlayerColor;
+  comments?: string[];
+  nags?: number[];
+  clock?: number; // Seconds left on the mover's clock after the move ([%clk])
+  elapsed?: number; // Seconds spent on the move ([%emt])
+  eval?: { cp?: number; mate?: number }; // [%eval], from White's perspective
+  variations?: PgnMoveNode[][];
+}
+
+export interface PgnMoveTree {
+  comments?: string[]; // Comments before the first move
+  mainline: PgnMoveNode[];
+  result?: string;
+}
+
+export interface MoveTiming {
+  ply: number;
+  move_number: number;
+  color: PlayerColor;
+  san: string;
+  clock: number; // Seconds left after the move
+  time_spent: number | null; // Seconds spent on the move (null when unknown)
+}
+
+export interface SideTimeStats {
+  moves_with_clock: number;
+  average_time_per_move: number | null;
+  longest_think?: { ply: number; san: string; time_spent: number };
+  moves_in_time_trouble: number;
+  final_clock?: number;
+}
+
+export interface TimeManagementReport {
+  time_control?: { base: number; increment: number }; // Seconds
+  time_trouble_threshold: number; // Seconds left at which a move counts as time trouble
+  moves: MoveTiming[];
+  phase_boundaries: {
+    phase: "middlegame" | "endgame";
+    ply: number;
+    move_number: number;
+    white_clock?: number;
+    black_clock?: number;
+  }[];
+  players: { white: SideTimeStats; black: SideTimeStats };
+  time_trouble_moves: { ply: number; color: PlayerColor; san: string }[];
+  mistake_correlation: {
+    mistakes_with_timing: number;
+    average_time_on_mistakes: number | null;
+    average_time_on_other_moves: number | null;
+    correlation: number | null; // Point-biserial correlation of think time vs is_mistake for the analyzed player
+  };
+}
+
+export type MoveCounts = Record<MoveClassification, number>;
+
+/**
+ * Lichess-style accuracy (0-100) for one side, from engine evaluations
+ */
+export interface SideAccuracy {
+  accuracy: number;
+  average_cp_loss: number;
+  moves: MoveCounts;
+}
+
 export interface AnalysisResult {
   summary: string;
   phases: {
-    name: string;
+    name: string; // English key: Opening, Middlegame or Endgame
+    label?: string; // Name in the analysis language
     moves: string;
     evaluation: string;
     key_ideas: string[];
+    accuracy?: Partial<Record<PlayerColor, number>>; // Sides that moved in this phase
   }[];
-  key_moments: {
-    move_number: number;
-    move: string;
-    fen: string;
-    evaluation: string;
-    comment: string;
-    is_mistake: boolean;
-  }[];
+  key_moments: KeyMoment[];
   recommendations: string[];
   puzzles: string[]; // Array of puzzle_ids (references to Puzzle collection)
+  time_management?: TimeManagementReport; // Only present when the PGN has [%clk] data
+  accuracy?: Record<PlayerColor, SideAccuracy>; // Only present with engine evaluations
 }
 
 export interface IAnalysis {
   analysis_id: string;
   user_id: string;
+  guest_id?: string; // Hashed client address of a guest upload, for fair scheduling
   batch_id?: string;
   status: AnalysisStatus;
   pgn: string;
   gcs_url?: string;
   player_name: string;
   player_color?: PlayerColor;
+  analysis_depth?: AnalysisDepth; // Treated as standard when missing
+  language?: AnalysisLanguage; // Treated as English when missing
   metadata: AnalysisMetadata;
+  move_tree?: PgnMoveTree;
+  positions?: AnalysisPosition[];
+  engine?: EngineReport; // Present when a UCI engine is configured
+  player_accuracy?: number; // Accuracy of player_color, for sorting and filtering
+  parse_warnings?: string[];
+  game_hash?: string; // Canonical game hash, set for authenticated users' bulk uploads
+  cached?: boolean; // The model output was reused from the analysis cache
+  prompt_version?: string; // Prompt template the analysis was assigned to
+  output_length?: number; // Characters of model output (JSON), for comparing prompts
+  feedback?: AnalysisFeedback;
+  usage?: AnalysisUsage; // Model calls made for this analysis (none when cached)
   result?: AnalysisResult;
   error?: string;
+  previous_attempts?: AnalysisAttempt[]; // Earlier runs, oldest first
+  requested_at?: Date; // Last re-analysis request; counts towards the daily quota
+  cancelled_at?: Date;
+  attempts?: number; // Times a worker started this request; reset when it is queued again
+  last_heartbeat?: Date; // Refreshed by the worker while PROCESSING
+  retry_at?: Date; // Planned retry after a retryable failure (error holds its message)
+  parked_at?: Date; // PENDING without a queued delivery, waiting for a free slot (mock and Cloud Tasks backends)
   created_at: Date;
   updated_at: Date;
   completed_at?: Date;
 }
 
+// Outcome of an earlier run, archived when the analysis is re-analyzed
+export interface AnalysisAttempt {
+  status: AnalysisStatus;
+  player_name: string;
+  player_color?: PlayerColor;
+  analysis_depth?: AnalysisDepth;
+  prompt_version?: string;
+  cached?: boolean;
+  usage?: AnalysisUsage;
+  player_accuracy?: number;
+  result?: AnalysisResult;
+  error?: string;
+  feedback?: AnalysisFeedback;
+  completed_at?: Date;
+  requested_at?: Date; // When this run was requested; counts towards that day's quota
+  archived_at: Date;
+}
+
+export interface ReanalysisOptions {
+  analysisDepth?: AnalysisDepth; // Keep the current depth when unset
+  playerColor?: PlayerColor; // Keep the current side when unset
+}
+
+export interface AnalysisFeedback {
+  rating: number; // 1 (not helpful) to 5 (very helpful)
+  comment?: string;
+  created_at: Date;
+}
+
+// Tokens reported by the model API
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Model usage of one analysis, including repair requests
+export interface AnalysisUsage extends TokenUsage {
+  provider: string;
+  model_name: string;
+  model_calls: number;
+  latency_ms: number; // Time spent waiting for the model
+  estimated_cost_usd: number | null; // null when the model has no known price
+}
+
+// Summed usage of a group of analyses (a day, a user, a model, a month)
+export interface UsageTotals extends TokenUsage {
+  analyses: number;
+  model_calls: number;
+  average_latency_ms: number | null;
+  estimated_cost_usd: number;
+  unpriced_analyses: number; // Made with a model that has no known price
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  by_day: (UsageTotals & { date: string })[]; // UTC days, oldest first
+  by_user: (UsageTotals & { user_id: string; email?: string })[];
+  by_model: (UsageTotals & { provider: string; model_name: string })[];
+}
+
+// Outcome of the analyses made with one prompt template version
+export interface PromptVersionStats {
+  version: string;
+  role: "default" | "candidate" | "retired";
+  analyses: number; // Completed + failed, cache hits excluded
+  completed: number;
+  failed: number;
+  failure_rate: number; // 0-1
+  output_length: {
+    average: number | null;
+    min: number | null;
+    max: number | null;
+  };
+  feedback: {
+    count: number;
+    average_rating: number | null;
+  };
+}
+
+/**
+ * Model output stored for reuse by later analyses of the same game
+ * Keyed by game, player color, model and prompt version; puzzles are kept as
+ * full objects so they can be re-created for each new owner.
+ */
+export interface IAnalysisCacheEntry {
+  cache_key: string;
+  game_hash: string;
+  player_color: PlayerColor;
+  analysis_depth: AnalysisDepth;
+  language: AnalysisLanguage;
+  provider: string;
+  model_name: string;
+  prompt_version: string;
+  result: Omit<AnalysisResult, "puzzles">;
+  puzzles: ChessPuzzle[];
+  hits: number;
+  last_hit_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// What to do with a game the user has already submitted
+export type DuplicateHandling = "skip" | "link";
+
 export interface BulkAnalysisRequest {
   urls: string[];
   playerName: string;
+  onDuplicate?: DuplicateHandling;
+  analysisDepth?: AnalysisDepth;
+  language?: AnalysisLanguage;
 }
 
 export type PlayerColor = "white" | "black";
 
+export interface PgnMoveError {
+  ply: number; // 1-based half-move index, 0 when the PGN has no usable moves
+  move_number: number;
+  color: PlayerColor;
+  move: string;
+  reason: string;
+}
+
+export interface SkippedGame {
+  white: string;
+  black: string;
+  reason: string;
+}
+
+export interface InvalidGame extends SkippedGame {
+  error: PgnMoveError;
+}
+
+export interface DuplicateGame extends SkippedGame {
+  analysis_id: string; // The earlier analysis of this game
+  status: AnalysisStatus;
+  action: "linked" | "skipped" | "requeued";
+}
+
+export interface AmbiguousGame extends SkippedGame {
+  scores: Record<PlayerColor, number>; // Best name similarity for each side
+}
+
+export interface GameParseWarnings {
+  game_index: number; // 0-based position of the game in its file
+  white: string;
+  black: string;
+  warnings: string[];
+}
+
+// Outcome of an action (re-analysis, cancellation) on the analyses of a batch
+export interface BatchActionResponse {
+  batch_id: string;
+  analysis_ids: string[]; // Analyses the action was applied to
+  skipped: {
+    analysis_id: string;
+    status: AnalysisStatus;
+    reason: string;
+  }[];
+}
+
 export interface BulkAnalysisResponse {
   batch_id: string;
   analysis_ids: string[];
   total_games: number;
-  skipped_games?: { white: string; black: string; reason: string }[];
+  skipped_games?: SkippedGame[];
+  invalid_games?: InvalidGame[];
+  duplicate_games?: DuplicateGame[];
+  ambiguous_games?: AmbiguousGame[];
+  parse_warnings?: GameParseWarnings[];
 }
 
 export interface UploadResponse {
@@ -85,3 +433,80 @@ export interface AnalysisStatusResponse {
     status: AnalysisStatus;
   };
 }
+
+export enum QueueJobStatus {
+  QUEUED = "QUEUED", // Waiting, or scheduled for a retry at available_at
+  LEASED = "LEASED", // Held by a worker until leased_until
+  DONE = "DONE",
+  FAILED = "FAILED", // Gave up after max_attempts
+}
+
+/**
+ * Queue priority of an analysis job; higher runs first
+ * Single games a user is waiting for go ahead of bulk uploads and batch
+ * re-analyses.
+ */
+export enum JobPriority {
+  BULK = 0,
+  SINGLE = 10,
+}
+
+/**
+ * A job of the MongoDB queue backend
+ * A worker leases the job for the visibility timeout and keeps extending the
+ * lease while it runs; a job whose lease runs out (the worker died) is picked
+ * up again.
+ */
+export interface IQueueJob {
+  job_id: string;
+  analysis_id: string;
+  user_id?: string; // Owner of the analysis (guest:<guest_id> for guests); jobs are shared fairly between owners
+  status: QueueJobStatus;
+  priority: number; // JobPriority; higher runs first
+  attempts: number; // Times the job was leased
+  max_attempts: number;
+  available_at: Date; // Not picked up before this time
+  leased_until?: Date;
+  lease_owner?: string; // host:pid of the worker holding the lease
+  last_error?: string;
+  finished_at?: Date; // Finished jobs are removed after a week
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Runs holding a share of a concurrency limit: the global one ("*") or one
+ * owner's (its scheduling key)
+ * A run is added only while the list is below the limit, in one conditional
+ * update, so concurrent workers cannot exceed it.
+ */
+export interface IConcurrencySlot {
+  key: string;
+  holders: string[]; // "<analysis_id>:<attempt>" of each run holding a slot
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DeadLetterSource =
+  | "worker" // Retryable errors on every attempt
+  | "reaper" // Stuck in PROCESSING on every attempt
+  | "queue"; // MongoDB queue job given up
+
+export type DeadLetterStatus = "OPEN" | "REPLAYED";
+
+/**
+ * An analysis job that ran out of attempts, kept for inspection and replay
+ */
+export interface IDeadLetter {
+  dead_letter_id: string;
+  analysis_id: string;
+  user_id: string;
+  source: DeadLetterSource;
+  error: string; // Last error
+  attempts: number;
+  status: DeadLetterStatus;
+  replayed_at?: Date;
+  replayed_by?: string; // Admin, or the owner who queued the analysis again
+  created_at: Date;
+  updated_at: Date;
+}
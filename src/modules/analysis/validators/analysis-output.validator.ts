@@ -0,0 +1,56 @@
+import { z } from "zod/v4";
+import { parseFen } from "../services/chess.service";
+
+/**
+ * Schema for the JSON analysis returned by the LLM
+ * Used both as the structured-output schema sent to providers that support
+ * it and to validate every response before it is stored. Written with the zod
+ * v4 API, which the AI SDK converts without deep type instantiation.
+ */
+export const analysisPhaseSchema = z.object({
+  name: z.string().min(1),
+  moves: z.string().min(1).describe('Move range, e.g. "1-15"'),
+  evaluation: z.string().min(1),
+  key_ideas: z.array(z.string().min(1)),
+});
+
+export const analysisKeyMomentSchema = z.object({
+  move_number: z.number().int().positive(),
+  move: z.string().min(1).describe("The move in SAN exactly as in the PGN"),
+  evaluation: z.string(),
+  comment: z.string().min(1),
+  is_mistake: z.boolean(),
+});
+
+export const analysisPuzzleSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  fen: z
+    .string()
+    .min(1)
+    .refine(
+      (fen) => {
+        try {
+          parseFen(fen);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Invalid FEN" },
+    ),
+  solution: z.string().min(1),
+  hint: z.string().optional(),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  theme: z.string().min(1),
+});
+
+export const analysisOutputSchema = z.object({
+  summary: z.string().min(1),
+  phases: z.array(analysisPhaseSchema).min(1),
+  key_moments: z.array(analysisKeyMomentSchema),
+  recommendations: z.array(z.string().min(1)).min(1),
+  puzzles: z.array(analysisPuzzleSchema),
+});
+
+export type AnalysisOutput = z.infer<typeof analysisOutputSchema>;
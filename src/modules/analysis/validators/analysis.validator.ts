@@ -1,5 +1,22 @@
 import { z } from "zod";
 
+const analysisDepthEnum = z.enum(["quick", "standard", "deep"], {
+  errorMap: () => ({
+    message: "analysisDepth must be one of: quick, standard, deep",
+  }),
+});
+
+const analysisDepthSchema = analysisDepthEnum.optional().default("standard");
+
+// No default: the user's profile language applies when omitted
+const analysisLanguageSchema = z
+  .enum(["en", "es", "de", "hi"], {
+    errorMap: () => ({
+      message: "language must be one of: en, es, de, hi",
+    }),
+  })
+  .optional();
+
 export const bulkAnalysisSchema = z.object({
   urls: z
     .array(
@@ -13,6 +30,9 @@ export const bulkAnalysisSchema = z.object({
     .string()
     .min(1, "Player name is required")
     .describe("Your name as it appears in the PGN files"),
+  onDuplicate: z.enum(["skip", "link"]).optional().default("link"),
+  analysisDepth: analysisDepthSchema,
+  language: analysisLanguageSchema,
 });
 
 export const statusQuerySchema = z.object({
@@ -30,9 +50,38 @@ export const customAnalysisSchema = z.object({
     required_error: "Player color is required",
   }),
   playerName: z.string().optional().default("Player"),
+  analysisDepth: analysisDepthSchema,
+  language: analysisLanguageSchema,
+});
+
+export const analysisFeedbackSchema = z.object({
+  rating: z
+    .number({ required_error: "Rating is required" })
+    .int("Rating must be a whole number")
+    .min(1, "Rating must be between 1 and 5")
+    .max(5, "Rating must be between 1 and 5"),
+  comment: z
+    .string()
+    .trim()
+    .max(1000, "Comment must be at most 1000 characters")
+    .optional(),
+});
+
+// Options left out keep the analysis' current settings
+export const reanalyzeSchema = z.object({
+  analysisDepth: analysisDepthEnum.optional(),
+  playerColor: z.enum(["white", "black"]).optional(),
+});
+
+export const batchReanalyzeSchema = z.object({
+  analysisDepth: analysisDepthEnum.optional(),
+  includeCompleted: z.boolean().optional().default(false),
 });
 
 export type BulkAnalysisInput = z.infer<typeof bulkAnalysisSchema>;
 export type StatusQueryInput = z.infer<typeof statusQuerySchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
 export type CustomAnalysisInput = z.infer<typeof customAnalysisSchema>;
+export type AnalysisFeedbackInput = z.infer<typeof analysisFeedbackSchema>;
+export type ReanalyzeInput = z.infer<typeof reanalyzeSchema>;
+export type BatchReanalyzeInput = z.infer<typeof batchReanalyzeSchema>;
@@ -304,6 +304,8 @@ export async function getMe(
         name: user.name,
         picture: pictureUrl,
         provider: user.provider,
+        aliases: user.aliases ?? [],
+        language: user.language || "en",
       },
     });
   } catch (error) {
@@ -316,7 +318,7 @@ export async function getMe(
  * /api/v1/auth/profile:
  *   put:
  *     summary: Update user profile
- *     description: Update user profile information (name and/or picture). Email and password cannot be updated through this endpoint.
+ *     description: Update user profile information (name, picture, aliases and/or language). Email and password cannot be updated through this endpoint. Aliases are the other names the user plays under; bulk analysis matches them against PGN player names. Language is the default language of new analyses.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -335,6 +337,17 @@ export async function getMe(
  *                 type: string
  *                 format: uri
  *                 example: "https://example.com/profile.jpg"
+ *               aliases:
+ *                 type: array
+ *                 maxItems: 20
+ *                 description: Replaces the saved aliases
+ *                 items:
+ *                   type: string
+ *                 example: ["DrNykterstein", "Carlsen, M."]
+ *               language:
+ *                 type: string
+ *                 enum: [en, es, de, hi]
+ *                 description: Default language of new analyses (analysis requests can override it)
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -359,6 +372,13 @@ export async function getMe(
  *                       type: string
  *                     provider:
  *                       type: string
+ *                     aliases:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     language:
+ *                       type: string
+ *                       enum: [en, es, de, hi]
  *       400:
  *         description: Validation error
  *       401:
@@ -405,6 +425,8 @@ export async function updateProfile(
         name: user.name,
         picture: pictureUrl,
         provider: user.provider,
+        aliases: user.aliases ?? [],
+        language: user.language || "en",
       },
     });
   } catch (error) {
@@ -85,3 +85,29 @@ export function optionalAuth(
 
   next();
 }
+
+/**
+ * Middleware to restrict a route to admins
+ * Must run after requireAuth. Admins are listed by email in ADMIN_EMAILS
+ * (comma-separated).
+ */
+export function requireAdmin(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user || !adminEmails.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({
+      success: false,
+      error: { message: "Admin access required" },
+    });
+    return;
+  }
+
+  next();
+}
@@ -37,6 +37,17 @@ const UserSchema = new Schema<IUserDocument>(
     provider_id: {
       type: String,
     },
+    // Other names the user plays under (online handles, name spellings)
+    aliases: {
+      type: [String],
+      default: [],
+    },
+    // Language analyses are written in unless a request asks otherwise
+    language: {
+      type: String,
+      enum: ["en", "es", "de", "hi"],
+      default: "en",
+    },
   },
   {
     timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
@@ -2,6 +2,7 @@ import { OAuth2Client } from "google-auth-library";
 import { User, IUserDocument } from "../models/user.model";
 import { jwtService } from "./jwt.service";
 import { AuthResponse, SignupRequest, LoginRequest } from "../types";
+import { AnalysisLanguage } from "../../analysis/types";
 import { logger } from "../../../shared/utils/logger";
 
 let googleClient: OAuth2Client;
@@ -142,14 +143,19 @@ export async function getUserById(
 
 export async function updateProfile(
   userId: string,
-  data: { name?: string; picture?: string },
+  data: {
+    name?: string;
+    picture?: string;
+    aliases?: string[];
+    language?: AnalysisLanguage;
+  },
 ): Promise<IUserDocument> {
   const user = await User.findById(userId);
   if (!user) {
     throw new Error("User not found");
   }
 
-  // Update only allowed fields (name and picture)
+  // Update only allowed fields (name, picture, aliases and language)
   if (data.name !== undefined) {
     user.name = data.name.trim();
   }
@@ -157,6 +163,19 @@ export async function updateProfile(
     // Allow clearing picture by setting empty string
     user.picture = data.picture === "" ? undefined : data.picture;
   }
+  if (data.aliases !== undefined) {
+    // Replaces the saved list; case-insensitive repeats are dropped
+    const seen = new Set<string>();
+    user.aliases = data.aliases.filter((alias) => {
+      const key = alias.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  if (data.language !== undefined) {
+    user.language = data.language;
+  }
 
   await user.save();
   logger.info(`User profile updated: ${user.email}`);
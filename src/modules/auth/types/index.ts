@@ -1,3 +1,5 @@
+import { AnalysisLanguage } from "../../analysis/types";
+
 export interface IUser {
   email: string;
   password?: string;
@@ -5,6 +7,8 @@ export interface IUser {
   picture?: string;
   provider: "email" | "google";
   provider_id?: string;
+  aliases?: string[];
+  language?: AnalysisLanguage; // Default language of new analyses
   created_at: Date;
   updated_at: Date;
 }
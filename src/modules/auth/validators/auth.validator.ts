@@ -39,10 +39,35 @@ export const updateProfileSchema = z
         z.literal(""),
       ])
       .optional(),
+    aliases: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, "Alias cannot be empty")
+          .max(100, "Alias must be at most 100 characters"),
+      )
+      .max(20, "At most 20 aliases are allowed")
+      .optional(),
+    language: z
+      .enum(["en", "es", "de", "hi"], {
+        errorMap: () => ({
+          message: "language must be one of: en, es, de, hi",
+        }),
+      })
+      .optional(),
   })
-  .refine((data) => data.name !== undefined || data.picture !== undefined, {
-    message: "At least one field (name or picture) must be provided",
-  });
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.picture !== undefined ||
+      data.aliases !== undefined ||
+      data.language !== undefined,
+    {
+      message:
+        "At least one field (name, picture, aliases or language) must be provided",
+    },
+  );
 
 export type SignupInput = z.infer<typeof signupSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
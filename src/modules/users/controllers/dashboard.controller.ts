@@ -102,7 +102,7 @@ export async function getDashboardStats(
  * /api/v1/dashboard/summary:
  *   get:
  *     summary: Get comprehensive dashboard summary
- *     description: Returns complete dashboard data including all stats (same as /dashboard/stats), most played openings, and performance breakdown by color. This endpoint is optimized to fetch all data efficiently in parallel. Use /dashboard/stats for faster loading if you only need basic statistics.
+ *     description: Returns complete dashboard data including all stats (same as /dashboard/stats), most played openings, time management averages, performance breakdown by color and this month's model usage. This endpoint is optimized to fetch all data efficiently in parallel. Use /dashboard/stats for faster loading if you only need basic statistics.
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
@@ -188,6 +188,36 @@ export async function getDashboardStats(
  *                             type: integer
  *                           draws:
  *                             type: integer
+ *                     time_management:
+ *                       type: object
+ *                       description: Averages of the time management reports of completed games with clock data (omitted when there are none)
+ *                       properties:
+ *                         games_with_clock_data:
+ *                           type: integer
+ *                           example: 12
+ *                         average_time_per_move:
+ *                           type: number
+ *                           nullable: true
+ *                           example: 14.5
+ *                           description: Seconds per move of the analyzed player
+ *                         average_moves_in_time_trouble:
+ *                           type: number
+ *                           nullable: true
+ *                           example: 3.25
+ *                         average_time_on_mistakes:
+ *                           type: number
+ *                           nullable: true
+ *                           example: 8.2
+ *                           description: Seconds spent on moves classified as mistakes or blunders
+ *                         average_time_on_other_moves:
+ *                           type: number
+ *                           nullable: true
+ *                           example: 16.1
+ *                         average_mistake_time_correlation:
+ *                           type: number
+ *                           nullable: true
+ *                           example: -0.18
+ *                           description: Correlation of think time with playing a mistake, averaged over games
  *                     performance_by_color:
  *                       type: object
  *                       properties:
@@ -209,6 +239,15 @@ export async function getDashboardStats(
  *                               type: integer
  *                             draws:
  *                               type: integer
+ *                     usage_this_month:
+ *                       description: Model usage and estimated cost of the user's analyses in the current UTC month
+ *                       allOf:
+ *                         - type: object
+ *                           properties:
+ *                             month:
+ *                               type: string
+ *                               example: "2025-01"
+ *                         - $ref: '#/components/schemas/UsageTotals'
  *       401:
  *         description: Unauthorized - authentication required
  */
@@ -3,14 +3,22 @@ import {
   IAnalysisDocument,
 } from "../../analysis/models/analysis.model";
 import { AnalysisStatus } from "../../analysis/types";
+import { usageService } from "../../analysis/services/usage.service";
 import {
   DashboardStats,
   DashboardSummary,
   RecentAnalysis,
   OpeningStat,
+  TimeManagementSummary,
 } from "../types";
 import { logger } from "../../../shared/utils/logger";
 
+// Fields the dashboard reads; positions, move trees, PGNs and archived runs
+// are never loaded
+const RECENT_ANALYSIS_FIELDS =
+  "analysis_id status player_name player_color metadata created_at completed_at";
+const GAME_RESULT_FIELDS = "status player_color metadata";
+
 /**
  * Calculate win rate from game results
  */
@@ -140,6 +148,65 @@ function getPerformanceByColor(analyses: IAnalysisDocument[]) {
   return performance;
 }
 
+/**
+ * Average the per-game time management reports from the player's perspective
+ */
+function getTimeManagementSummary(
+  analyses: IAnalysisDocument[],
+): TimeManagementSummary | undefined {
+  const reports = analyses
+    .filter(
+      (a) =>
+        a.status === AnalysisStatus.COMPLETED &&
+        a.result?.time_management &&
+        a.player_color,
+    )
+    .map((a) => ({
+      report: a.result!.time_management!,
+      color: a.player_color!,
+    }));
+
+  if (reports.length === 0) {
+    return undefined;
+  }
+
+  const average = (values: (number | null | undefined)[]): number | null => {
+    const present = values.filter(
+      (v): v is number => typeof v === "number" && Number.isFinite(v),
+    );
+    if (present.length === 0) return null;
+    const mean = present.reduce((sum, v) => sum + v, 0) / present.length;
+    return Math.round(mean * 100) / 100;
+  };
+
+  return {
+    games_with_clock_data: reports.length,
+    average_time_per_move: average(
+      reports.map(
+        ({ report, color }) => report.players[color].average_time_per_move,
+      ),
+    ),
+    average_moves_in_time_trouble: average(
+      reports.map(
+        ({ report, color }) => report.players[color].moves_in_time_trouble,
+      ),
+    ),
+    average_time_on_mistakes: average(
+      reports.map(
+        ({ report }) => report.mistake_correlation.average_time_on_mistakes,
+      ),
+    ),
+    average_time_on_other_moves: average(
+      reports.map(
+        ({ report }) => report.mistake_correlation.average_time_on_other_moves,
+      ),
+    ),
+    average_mistake_time_correlation: average(
+      reports.map(({ report }) => report.mistake_correlation.correlation),
+    ),
+  };
+}
+
 /**
  * Get dashboard statistics for a user
  */
@@ -158,7 +225,10 @@ export async function getDashboardStats(
           },
         },
       ]),
-      Analysis.find({ user_id: userId }).sort({ created_at: -1 }).limit(5),
+      Analysis.find({ user_id: userId })
+        .select(RECENT_ANALYSIS_FIELDS)
+        .sort({ created_at: -1 })
+        .limit(5),
       Analysis.countDocuments({ user_id: userId }),
     ]);
 
@@ -175,7 +245,7 @@ export async function getDashboardStats(
     const completedAnalyses = await Analysis.find({
       user_id: userId,
       status: AnalysisStatus.COMPLETED,
-    });
+    }).select(GAME_RESULT_FIELDS);
 
     const stats: DashboardStats = {
       total_analyses: total,
@@ -204,26 +274,36 @@ export async function getDashboardSummary(
 ): Promise<DashboardSummary> {
   try {
     // Fetch all data in parallel for better performance
-    const [statusCounts, recentAnalyses, total, completedAnalyses] =
-      await Promise.all([
-        Analysis.aggregate([
-          { $match: { user_id: userId } },
-          {
-            $group: {
-              _id: "$status",
-              count: { $sum: 1 },
-            },
+    const [
+      statusCounts,
+      recentAnalyses,
+      total,
+      completedAnalyses,
+      usageThisMonth,
+    ] = await Promise.all([
+      Analysis.aggregate([
+        { $match: { user_id: userId } },
+        {
+          $group: {
+            _id: "$status",
+            count: { $sum: 1 },
           },
-        ]),
-        Analysis.find({ user_id: userId }).sort({ created_at: -1 }).limit(5),
-        Analysis.countDocuments({ user_id: userId }),
-        Analysis.find({
-          user_id: userId,
-          status: AnalysisStatus.COMPLETED,
-        })
-          .sort({ created_at: -1 })
-          .limit(1000), // Limit for performance but enough for accurate stats
-      ]);
+        },
+      ]),
+      Analysis.find({ user_id: userId })
+        .select(RECENT_ANALYSIS_FIELDS)
+        .sort({ created_at: -1 })
+        .limit(5),
+      Analysis.countDocuments({ user_id: userId }),
+      Analysis.find({
+        user_id: userId,
+        status: AnalysisStatus.COMPLETED,
+      })
+        .select(`${GAME_RESULT_FIELDS} result.time_management`)
+        .sort({ created_at: -1 })
+        .limit(1000), // Limit for performance but enough for accurate stats
+      usageService.getMonthlyUsage(userId),
+    ]);
 
     // Convert aggregation results to a map
     const counts = statusCounts.reduce(
@@ -249,11 +329,13 @@ export async function getDashboardSummary(
     // Calculate additional summary data
     const mostPlayedOpenings = getMostPlayedOpenings(completedAnalyses);
     const performanceByColor = getPerformanceByColor(completedAnalyses);
+    const timeManagement = getTimeManagementSummary(completedAnalyses);
 
     return {
       stats,
       most_played_openings:
         mostPlayedOpenings.length > 0 ? mostPlayedOpenings : undefined,
+      time_management: timeManagement,
       performance_by_color:
         performanceByColor.white.wins +
           performanceByColor.white.losses +
@@ -264,6 +346,7 @@ export async function getDashboardSummary(
         0
           ? performanceByColor
           : undefined,
+      usage_this_month: usageThisMonth,
     };
   } catch (error) {
     logger.error("Failed to get dashboard summary:", error);
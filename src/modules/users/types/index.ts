@@ -1,3 +1,5 @@
+import { UsageTotals } from "../../analysis/types";
+
 export interface DashboardStats {
   total_analyses: number;
   completed: number;
@@ -23,10 +25,12 @@ export interface RecentAnalysis {
 export interface DashboardSummary {
   stats: DashboardStats;
   most_played_openings?: OpeningStat[];
+  time_management?: TimeManagementSummary;
   performance_by_color?: {
     white: { wins: number; losses: number; draws: number };
     black: { wins: number; losses: number; draws: number };
   };
+  usage_this_month: UsageTotals & { month: string };
 }
 
 export interface OpeningStat {
@@ -37,3 +41,12 @@ export interface OpeningStat {
   losses: number;
   draws: number;
 }
+
+export interface TimeManagementSummary {
+  games_with_clock_data: number;
+  average_time_per_move: number | null; // Seconds, analyzed player's moves
+  average_moves_in_time_trouble: number | null;
+  average_time_on_mistakes: number | null;
+  average_time_on_other_moves: number | null;
+  average_mistake_time_correlation: number | null;
+}
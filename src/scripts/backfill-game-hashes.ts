@@ -0,0 +1,87 @@
+import dotenv from "dotenv";
+// Load environment variables FIRST before any other imports
+dotenv.config();
+
+import mongoose from "mongoose";
+import { connectDatabase } from "../config/database";
+import { Analysis } from "../modules/analysis/models/analysis.model";
+import { AnalysisStatus } from "../modules/analysis/types";
+import { pgnParserService } from "../modules/analysis/services/pgn-parser.service";
+import { gameHashService } from "../modules/analysis/services/game-hash.service";
+import { logger } from "../shared/utils/logger";
+
+// When a user has several analyses of the same game, the first one found in
+// this order keeps the hash; the rest are left unhashed and reported
+const STATUS_PRIORITY = [
+  AnalysisStatus.COMPLETED,
+  AnalysisStatus.PROCESSING,
+  AnalysisStatus.PENDING,
+  AnalysisStatus.FAILED,
+  AnalysisStatus.CANCELLED,
+];
+
+/**
+ * Compute game_hash for existing bulk-upload analyses of signed-in users
+ * Usage: npm run backfill:game-hashes (or node dist/scripts/backfill-game-hashes.js)
+ */
+async function backfillGameHashes(): Promise<void> {
+  await connectDatabase();
+  await Analysis.createIndexes();
+
+  const counts = { hashed: 0, duplicates: 0, invalid: 0 };
+
+  for (const status of STATUS_PRIORITY) {
+    const cursor = Analysis.find({
+      status,
+      user_id: { $ne: "guest" },
+      batch_id: { $exists: true },
+      game_hash: { $exists: false },
+    })
+      .sort({ created_at: 1 })
+      .select("analysis_id user_id pgn")
+      .cursor();
+
+    for await (const analysis of cursor) {
+      const validation = pgnParserService.validatePgn(analysis.pgn);
+      if (!validation.valid) {
+        counts.invalid++;
+        continue;
+      }
+
+      const gameHash = gameHashService.computeGameHash(
+        analysis.pgn,
+        validation.plies.map((ply) => ply.san),
+      );
+
+      const existing = await Analysis.findOne({
+        user_id: analysis.user_id,
+        game_hash: gameHash,
+      }).select("analysis_id");
+      if (existing) {
+        logger.info(
+          `${analysis.analysis_id} duplicates ${existing.analysis_id}; leaving it unhashed`,
+        );
+        counts.duplicates++;
+        continue;
+      }
+
+      await Analysis.updateOne(
+        { _id: analysis._id },
+        { $set: { game_hash: gameHash } },
+      );
+      counts.hashed++;
+    }
+  }
+
+  logger.info(
+    `Game hash backfill done: ${counts.hashed} hashed, ${counts.duplicates} duplicates, ${counts.invalid} unreadable`,
+  );
+}
+
+backfillGameHashes()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    logger.error("Game hash backfill failed:", error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -4,6 +4,8 @@ import { logger } from "../utils/logger";
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  code?: string;
+  details?: unknown;
 }
 
 export const errorHandler = (
@@ -26,6 +28,8 @@ export const errorHandler = (
     success: false,
     error: {
       message,
+      ...(err.code && { code: err.code }),
+      ...(err.details !== undefined && { details: err.details }),
       ...(process.env.NODE_ENV === "development" && { stack: err.stack }),
     },
   });
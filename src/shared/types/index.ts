@@ -4,6 +4,7 @@ export interface ApiResponse<T = unknown> {
   error?: {
     message: string;
     code?: string;
+    details?: unknown;
   };
   meta?: {
     page?: number;